@@ -0,0 +1,1065 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/contexts/AuthContext'
+import { AppLayout } from '@/components/app-layout'
+import {
+  BellAlertIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  PlusIcon,
+  Cog6ToothIcon,
+  ArrowPathIcon,
+  TrashIcon,
+  ChatBubbleLeftRightIcon,
+  CheckIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+import { Badge } from '@/components/badge'
+import { Button } from '@/components/button'
+import { Input } from '@/components/input'
+import { showToast } from '@/components/toast'
+import { apiClient } from '@/lib/api-client'
+import {
+  AlertRule,
+  AlertEvent,
+  AlertEventStatus,
+  AlertScopeType,
+  AlertConditionType,
+  NotificationChannel,
+  NotificationChannelType,
+  Provider,
+  Workflow
+} from '@/types'
+
+interface RuleFormData {
+  name: string
+  scopeType: AlertScopeType
+  scopeValue: string
+  conditionType: AlertConditionType
+  threshold: string
+  windowMinutes: string
+  minExecutions: string
+  cooldownMinutes: string
+  notifyEmail: boolean
+  channelIds: string[]
+  isEnabled: boolean
+}
+
+interface ChannelFormData {
+  name: string
+  type: NotificationChannelType
+  url: string
+  isEnabled: boolean
+}
+
+const emptyForm: RuleFormData = {
+  name: '',
+  scopeType: 'global',
+  scopeValue: '',
+  conditionType: 'any_error',
+  threshold: '',
+  windowMinutes: '60',
+  minExecutions: '5',
+  cooldownMinutes: '60',
+  notifyEmail: true,
+  channelIds: [],
+  isEnabled: true
+}
+
+const emptyChannelForm: ChannelFormData = {
+  name: '',
+  type: 'slack',
+  url: '',
+  isEnabled: true
+}
+
+const CHANNEL_TYPE_LABELS: Record<NotificationChannelType, string> = {
+  slack: 'Slack',
+  teams: 'Microsoft Teams',
+  webhook: 'Signed webhook'
+}
+
+const CHANNEL_URL_PLACEHOLDERS: Record<NotificationChannelType, string> = {
+  slack: 'https://hooks.slack.com/services/...',
+  teams: 'https://example.webhook.office.com/webhookb2/...',
+  webhook: 'https://example.com/hooks/elova'
+}
+
+const selectClassName = 'block w-full rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-2 text-sm text-gray-900 dark:text-white'
+
+function describeRule(rule: AlertRule): string {
+  switch (rule.conditionType) {
+    case 'any_error':
+      return 'Any failed execution'
+    case 'failure_count':
+      return `${rule.threshold}+ failures within ${rule.windowMinutes} min`
+    case 'success_rate':
+      return `Success rate below ${rule.threshold}% over ${rule.windowMinutes} min (min ${rule.minExecutions} runs)`
+    case 'slo_burn_rate':
+      return `SLO burn rate at or above ${rule.threshold}x over ${rule.windowMinutes} min (min ${rule.minExecutions} runs)`
+    default:
+      return rule.conditionType
+  }
+}
+
+function AlertsContent() {
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [events, setEvents] = useState<AlertEvent[]>([])
+  const [providers, setProviders] = useState<Provider[]>([])
+  const [workflows, setWorkflows] = useState<Workflow[]>([])
+  const [eventFilter, setEventFilter] = useState<AlertEventStatus | 'all'>('open')
+  const [loading, setLoading] = useState(false)
+  const [initialLoading, setInitialLoading] = useState(true)
+  const [showModal, setShowModal] = useState(false)
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null)
+  const [formData, setFormData] = useState<RuleFormData>(emptyForm)
+  const [submitting, setSubmitting] = useState(false)
+  const [channels, setChannels] = useState<NotificationChannel[]>([])
+  const [showChannelModal, setShowChannelModal] = useState(false)
+  const [editingChannel, setEditingChannel] = useState<NotificationChannel | null>(null)
+  const [channelForm, setChannelForm] = useState<ChannelFormData>(emptyChannelForm)
+  const [testingChannel, setTestingChannel] = useState(false)
+  const [channelTestResult, setChannelTestResult] = useState<{
+    success: boolean
+    message: string
+  } | null>(null)
+
+  useEffect(() => {
+    Promise.all([fetchRules(), fetchChannels(), fetchScopeOptions()]).finally(() => setInitialLoading(false))
+  }, [])
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      const query = eventFilter === 'all' ? '' : `?status=${eventFilter}`
+      const response = await apiClient.get<{ data: AlertEvent[] }>(`/alerts/events${query}`)
+      setEvents(response.data)
+    } catch (error) {
+      console.error('Failed to fetch alert events:', error)
+    }
+  }, [eventFilter])
+
+  useEffect(() => {
+    fetchEvents()
+
+    const interval = setInterval(fetchEvents, 60 * 1000)
+    return () => clearInterval(interval)
+  }, [fetchEvents])
+
+  const fetchRules = async () => {
+    try {
+      const response = await apiClient.get<{ data: AlertRule[] }>('/alerts/rules')
+      setRules(response.data)
+    } catch (error) {
+      console.error('Failed to fetch alert rules:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to load alert rules',
+        message: 'Please try again'
+      })
+    }
+  }
+
+  const fetchChannels = async () => {
+    try {
+      const response = await apiClient.get<{ data: NotificationChannel[] }>('/notifications/channels')
+      setChannels(response.data)
+    } catch (error) {
+      console.error('Failed to fetch notification channels:', error)
+    }
+  }
+
+  const fetchScopeOptions = async () => {
+    try {
+      const [providerResponse, workflowResponse] = await Promise.all([
+        apiClient.get<{ data: Provider[] }>('/providers'),
+        apiClient.get<{ data: { items: Workflow[] } }>('/workflows?limit=500')
+      ])
+      setProviders(providerResponse.data)
+      setWorkflows(workflowResponse.data.items)
+    } catch (error) {
+      console.error('Failed to fetch scope options:', error)
+    }
+  }
+
+  const refresh = async () => {
+    setLoading(true)
+    await Promise.all([fetchRules(), fetchEvents()])
+    setLoading(false)
+  }
+
+  const tags = [...new Set(workflows.flatMap(w => w.tags))].sort()
+
+  const describeScope = (rule: AlertRule) => {
+    switch (rule.scopeType) {
+      case 'provider':
+        return `Instance: ${providers.find(p => p.id === rule.scopeValue)?.name || rule.scopeValue}`
+      case 'workflow':
+        return `Workflow: ${workflows.find(w => w.id === rule.scopeValue)?.name || rule.scopeValue}`
+      case 'tag':
+        return `Tag: ${rule.scopeValue}`
+      default:
+        return 'All workflows'
+    }
+  }
+
+  const describeDestinations = (rule: AlertRule) => {
+    const names = rule.channelIds
+      .map(id => channels.find(c => c.id === id)?.name)
+      .filter(Boolean) as string[]
+    if (rule.notifyEmail) names.unshift('Email')
+    return names.length > 0 ? names.join(', ') : 'No notifications'
+  }
+
+  const handleAdd = () => {
+    setFormData(emptyForm)
+    setEditingRule(null)
+    setShowModal(true)
+  }
+
+  const handleEdit = (rule: AlertRule) => {
+    setFormData({
+      name: rule.name,
+      scopeType: rule.scopeType,
+      scopeValue: rule.scopeValue || '',
+      conditionType: rule.conditionType,
+      threshold: rule.threshold !== undefined ? String(rule.threshold) : '',
+      windowMinutes: String(rule.windowMinutes ?? 60),
+      minExecutions: String(rule.minExecutions ?? 5),
+      cooldownMinutes: String(rule.cooldownMinutes),
+      notifyEmail: rule.notifyEmail,
+      channelIds: rule.channelIds,
+      isEnabled: rule.isEnabled
+    })
+    setEditingRule(rule)
+    setShowModal(true)
+  }
+
+  const handleCloseModal = () => {
+    setShowModal(false)
+    setEditingRule(null)
+    setFormData(emptyForm)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const payload = {
+      name: formData.name,
+      scopeType: formData.scopeType,
+      scopeValue: formData.scopeType === 'global' ? null : formData.scopeValue,
+      conditionType: formData.conditionType,
+      threshold: formData.threshold ? Number(formData.threshold) : null,
+      windowMinutes: Number(formData.windowMinutes),
+      minExecutions: Number(formData.minExecutions),
+      cooldownMinutes: Number(formData.cooldownMinutes),
+      notifyEmail: formData.notifyEmail,
+      channelIds: formData.channelIds,
+      isEnabled: formData.isEnabled
+    }
+
+    try {
+      setSubmitting(true)
+
+      if (editingRule) {
+        await apiClient.put(`/alerts/rules/${editingRule.id}`, payload)
+        showToast({
+          type: 'success',
+          title: 'Alert rule updated',
+          message: `${formData.name} has been updated successfully`
+        })
+      } else {
+        await apiClient.post('/alerts/rules', payload)
+        showToast({
+          type: 'success',
+          title: 'Alert rule created',
+          message: `${formData.name} will be evaluated after every sync`
+        })
+      }
+
+      handleCloseModal()
+      await fetchRules()
+    } catch (error) {
+      console.error('Failed to save alert rule:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to save alert rule',
+        message: 'Please check your details and try again'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleToggle = async (rule: AlertRule) => {
+    try {
+      await apiClient.put(`/alerts/rules/${rule.id}`, { isEnabled: !rule.isEnabled })
+      await fetchRules()
+    } catch (error) {
+      console.error('Failed to toggle alert rule:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to update alert rule',
+        message: 'Please try again'
+      })
+    }
+  }
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(`Are you sure you want to delete "${rule.name}"? All of its alert history will be removed.`)) {
+      return
+    }
+
+    try {
+      await apiClient.delete(`/alerts/rules/${rule.id}`)
+      showToast({
+        type: 'success',
+        title: 'Alert rule deleted',
+        message: `${rule.name} has been deleted`
+      })
+      await Promise.all([fetchRules(), fetchEvents()])
+    } catch (error) {
+      console.error('Failed to delete alert rule:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to delete alert rule',
+        message: 'Please try again'
+      })
+    }
+  }
+
+  const handleEventStatus = async (event: AlertEvent, status: AlertEventStatus) => {
+    try {
+      await apiClient.patch(`/alerts/events/${event.id}`, { status })
+      await fetchEvents()
+    } catch (error) {
+      console.error('Failed to update alert event:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to update alert',
+        message: 'Please try again'
+      })
+    }
+  }
+
+  const toggleRuleChannel = (channelId: string) => {
+    setFormData({
+      ...formData,
+      channelIds: formData.channelIds.includes(channelId)
+        ? formData.channelIds.filter(id => id !== channelId)
+        : [...formData.channelIds, channelId]
+    })
+  }
+
+  const handleAddChannel = () => {
+    setChannelForm(emptyChannelForm)
+    setEditingChannel(null)
+    setChannelTestResult(null)
+    setShowChannelModal(true)
+  }
+
+  const handleEditChannel = (channel: NotificationChannel) => {
+    setChannelForm({
+      name: channel.name,
+      type: channel.type,
+      url: channel.url,
+      isEnabled: channel.isEnabled
+    })
+    setEditingChannel(channel)
+    setChannelTestResult(null)
+    setShowChannelModal(true)
+  }
+
+  const handleCloseChannelModal = () => {
+    setShowChannelModal(false)
+    setEditingChannel(null)
+    setChannelForm(emptyChannelForm)
+    setChannelTestResult(null)
+  }
+
+  const testChannel = async () => {
+    if (!channelForm.url) {
+      setChannelTestResult({
+        success: false,
+        message: 'Please enter a webhook URL before testing'
+      })
+      return
+    }
+
+    setTestingChannel(true)
+    setChannelTestResult(null)
+
+    try {
+      const response = await fetch('/api/notifications/channels/test', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          type: channelForm.type,
+          url: channelForm.url
+        })
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        setChannelTestResult({
+          success: true,
+          message: `Test message sent to ${CHANNEL_TYPE_LABELS[channelForm.type]}! Check the channel.`
+        })
+      } else {
+        setChannelTestResult({
+          success: false,
+          message: result.error || 'Failed to send test message'
+        })
+      }
+    } catch {
+      setChannelTestResult({
+        success: false,
+        message: 'Network error: Unable to test this channel'
+      })
+    } finally {
+      setTestingChannel(false)
+    }
+  }
+
+  const handleChannelSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setSubmitting(true)
+
+      if (editingChannel) {
+        await apiClient.put(`/notifications/channels/${editingChannel.id}`, channelForm)
+        showToast({
+          type: 'success',
+          title: 'Channel updated',
+          message: `${channelForm.name} has been updated successfully`
+        })
+      } else {
+        await apiClient.post('/notifications/channels', channelForm)
+        showToast({
+          type: 'success',
+          title: 'Channel added',
+          message: `${channelForm.name} can now be selected on alert rules`
+        })
+      }
+
+      handleCloseChannelModal()
+      await fetchChannels()
+    } catch (error) {
+      console.error('Failed to save notification channel:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to save channel',
+        message: 'Please check your details and try again'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDeleteChannel = async (channel: NotificationChannel) => {
+    if (!confirm(`Are you sure you want to delete "${channel.name}"? It will be removed from all alert rules.`)) {
+      return
+    }
+
+    try {
+      await apiClient.delete(`/notifications/channels/${channel.id}`)
+      showToast({
+        type: 'success',
+        title: 'Channel deleted',
+        message: `${channel.name} has been deleted`
+      })
+      await Promise.all([fetchChannels(), fetchRules()])
+    } catch (error) {
+      console.error('Failed to delete notification channel:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to delete channel',
+        message: 'Please try again'
+      })
+    }
+  }
+
+  const getEventStatusColor = (status: AlertEventStatus) => {
+    switch (status) {
+      case 'open':
+        return 'red'
+      case 'acknowledged':
+        return 'yellow'
+      default:
+        return 'green'
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Alerts</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-slate-400">
+            Get notified when workflows fail, evaluated after every execution sync
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <Button outline onClick={refresh} disabled={loading}>
+            <ArrowPathIcon className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </Button>
+          <Button onClick={handleAdd}>
+            <PlusIcon className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </div>
+
+      {/* Alert Events */}
+      <div className="bg-white dark:bg-slate-800 shadow border border-gray-200 dark:border-slate-300 overflow-hidden sm:rounded-md">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Recent Alerts</h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">
+              Repeats within a rule&apos;s cooldown are grouped into a single alert
+            </p>
+          </div>
+          <select
+            value={eventFilter}
+            onChange={(e) => setEventFilter(e.target.value as AlertEventStatus | 'all')}
+            className="rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-2 text-sm text-gray-900 dark:text-white"
+          >
+            <option value="open">Open</option>
+            <option value="acknowledged">Acknowledged</option>
+            <option value="resolved">Resolved</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+
+        {events.length === 0 ? (
+          <div className="p-12 text-center">
+            <CheckCircleIcon className="mx-auto h-12 w-12 text-green-400" />
+            <h3 className="mt-2 text-sm font-semibold text-gray-900 dark:text-white">No alerts</h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">
+              Nothing matches this filter right now
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {events.map((event) => (
+              <li key={event.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center min-w-0">
+                    <ExclamationTriangleIcon className={`h-6 w-6 flex-shrink-0 ${
+                      event.severity === 'critical' ? 'text-red-500' : 'text-yellow-500'
+                    }`} />
+                    <div className="ml-4 min-w-0 flex-1">
+                      <div className="flex items-center space-x-3">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                          {event.title}
+                        </p>
+                        <Badge color={getEventStatusColor(event.status)} className="capitalize">
+                          {event.status}
+                        </Badge>
+                        {event.occurrences > 1 && (
+                          <Badge color="zinc">×{event.occurrences}</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-500 mt-1 truncate">{event.message}</p>
+                      <p className="text-xs text-gray-400 mt-1">
+                        {event.ruleName || 'Deleted rule'} • First seen {new Date(event.firstSeenAt).toLocaleString()}
+                        {event.occurrences > 1 && ` • Last seen ${new Date(event.lastSeenAt).toLocaleString()}`}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-2 ml-4">
+                    {event.workflowId && (
+                      <Button plain href={`/workflows/${event.workflowId}`}>
+                        Workflow
+                      </Button>
+                    )}
+                    {event.status === 'open' && (
+                      <Button outline onClick={() => handleEventStatus(event, 'acknowledged')}>
+                        Acknowledge
+                      </Button>
+                    )}
+                    {event.status !== 'resolved' ? (
+                      <Button outline onClick={() => handleEventStatus(event, 'resolved')}>
+                        Resolve
+                      </Button>
+                    ) : (
+                      <Button outline onClick={() => handleEventStatus(event, 'open')}>
+                        Reopen
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Alert Rules */}
+      <div className="bg-white dark:bg-slate-800 shadow border border-gray-200 dark:border-slate-300 overflow-hidden sm:rounded-md">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Alert Rules</h3>
+          <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">
+            Conditions checked against newly synced executions
+          </p>
+        </div>
+
+        {initialLoading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600 dark:text-slate-400">Loading alert rules...</p>
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="p-12 text-center">
+            <BellAlertIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-semibold text-gray-900 dark:text-white">No alert rules</h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">
+              Add a rule to get alerted when workflows start failing
+            </p>
+            <div className="mt-6">
+              <Button onClick={handleAdd}>
+                <PlusIcon className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {rules.map((rule) => (
+              <li key={rule.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center space-x-3">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{rule.name}</p>
+                      <Badge color={rule.isEnabled ? 'green' : 'zinc'}>
+                        {rule.isEnabled ? 'Enabled' : 'Disabled'}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center space-x-4 text-sm text-gray-500 mt-1">
+                      <span>{describeScope(rule)}</span>
+                      <span>•</span>
+                      <span>{describeRule(rule)}</span>
+                      <span>•</span>
+                      <span>{rule.cooldownMinutes > 0 ? `${rule.cooldownMinutes}m cooldown` : 'No cooldown'}</span>
+                      <span>•</span>
+                      <span>{describeDestinations(rule)}</span>
+                    </div>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Last triggered: {rule.lastTriggeredAt ? new Date(rule.lastTriggeredAt).toLocaleString() : 'Never'}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Button outline onClick={() => handleToggle(rule)}>
+                      {rule.isEnabled ? 'Disable' : 'Enable'}
+                    </Button>
+                    <Button outline onClick={() => handleEdit(rule)}>
+                      <Cog6ToothIcon className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      outline
+                      onClick={() => handleDelete(rule)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Notification Channels */}
+      <div className="bg-white dark:bg-slate-800 shadow border border-gray-200 dark:border-slate-300 overflow-hidden sm:rounded-md">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Notification Channels</h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">
+              Slack, Microsoft Teams and signed webhooks that alert rules can notify
+            </p>
+          </div>
+          <Button outline onClick={handleAddChannel}>
+            <PlusIcon className="h-4 w-4 mr-2" />
+            Add Channel
+          </Button>
+        </div>
+
+        {channels.length === 0 ? (
+          <div className="p-8 text-center">
+            <ChatBubbleLeftRightIcon className="mx-auto h-10 w-10 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-500 dark:text-slate-400">
+              No channels yet. Alerts are delivered by email only.
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {channels.map((channel) => (
+              <li key={channel.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center space-x-3">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{channel.name}</p>
+                      <Badge color="indigo">{CHANNEL_TYPE_LABELS[channel.type]}</Badge>
+                      {!channel.isEnabled && <Badge color="zinc">Disabled</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1 truncate">{channel.url}</p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button outline onClick={() => handleEditChannel(channel)}>
+                      <Cog6ToothIcon className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      outline
+                      onClick={() => handleDeleteChannel(channel)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Add/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+              {editingRule ? 'Edit Alert Rule' : 'Add Alert Rule'}
+            </h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Name
+                </label>
+                <Input
+                  id="name"
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Production failures"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="scopeType" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    Applies to
+                  </label>
+                  <select
+                    id="scopeType"
+                    value={formData.scopeType}
+                    onChange={(e) => setFormData({ ...formData, scopeType: e.target.value as AlertScopeType, scopeValue: '' })}
+                    className={selectClassName}
+                  >
+                    <option value="global">All workflows</option>
+                    <option value="provider">n8n instance</option>
+                    <option value="workflow">Workflow</option>
+                    <option value="tag">Tag</option>
+                  </select>
+                </div>
+                {formData.scopeType !== 'global' && (
+                  <div>
+                    <label htmlFor="scopeValue" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                      {formData.scopeType === 'provider' ? 'Instance' : formData.scopeType === 'workflow' ? 'Workflow' : 'Tag'}
+                    </label>
+                    <select
+                      id="scopeValue"
+                      value={formData.scopeValue}
+                      onChange={(e) => setFormData({ ...formData, scopeValue: e.target.value })}
+                      className={selectClassName}
+                      required
+                    >
+                      <option value="">Select...</option>
+                      {formData.scopeType === 'provider' && providers.map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                      {formData.scopeType === 'workflow' && workflows.map(w => (
+                        <option key={w.id} value={w.id}>{w.name}</option>
+                      ))}
+                      {formData.scopeType === 'tag' && tags.map(tag => (
+                        <option key={tag} value={tag}>{tag}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+              <div>
+                <label htmlFor="conditionType" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Condition
+                </label>
+                <select
+                  id="conditionType"
+                  value={formData.conditionType}
+                  onChange={(e) => setFormData({ ...formData, conditionType: e.target.value as AlertConditionType })}
+                  className={selectClassName}
+                >
+                  <option value="any_error">Any failed execution</option>
+                  <option value="failure_count">Failure count within a window</option>
+                  <option value="success_rate">Success rate below threshold</option>
+                  <option value="slo_burn_rate">SLO error budget burn rate</option>
+                </select>
+                {formData.conditionType === 'slo_burn_rate' && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                    Checks every SLO covering the matched workflows. Fires when the burn rate exceeds the
+                    threshold over the window and over a confirmation window 1/12 as long.
+                  </p>
+                )}
+              </div>
+              {formData.conditionType !== 'any_error' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="threshold" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                      {formData.conditionType === 'failure_count'
+                        ? 'Failures'
+                        : formData.conditionType === 'slo_burn_rate' ? 'Burn rate (x)' : 'Success rate (%)'}
+                    </label>
+                    <Input
+                      id="threshold"
+                      type="number"
+                      min={formData.conditionType === 'slo_burn_rate' ? 0.1 : 1}
+                      step={formData.conditionType === 'slo_burn_rate' ? 0.1 : undefined}
+                      max={formData.conditionType === 'success_rate' ? 100 : undefined}
+                      value={formData.threshold}
+                      onChange={(e) => setFormData({ ...formData, threshold: e.target.value })}
+                      placeholder={formData.conditionType === 'failure_count' ? '3' : formData.conditionType === 'slo_burn_rate' ? '14.4' : '90'}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="windowMinutes" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                      Window (minutes)
+                    </label>
+                    <Input
+                      id="windowMinutes"
+                      type="number"
+                      min={1}
+                      value={formData.windowMinutes}
+                      onChange={(e) => setFormData({ ...formData, windowMinutes: e.target.value })}
+                      required
+                    />
+                  </div>
+                  {(formData.conditionType === 'success_rate' || formData.conditionType === 'slo_burn_rate') && (
+                    <div>
+                      <label htmlFor="minExecutions" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                        Min. executions
+                      </label>
+                      <Input
+                        id="minExecutions"
+                        type="number"
+                        min={1}
+                        value={formData.minExecutions}
+                        onChange={(e) => setFormData({ ...formData, minExecutions: e.target.value })}
+                        required
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+              <div>
+                <label htmlFor="cooldownMinutes" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Cooldown (minutes)
+                </label>
+                <Input
+                  id="cooldownMinutes"
+                  type="number"
+                  min={0}
+                  value={formData.cooldownMinutes}
+                  onChange={(e) => setFormData({ ...formData, cooldownMinutes: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <span className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Notify
+                </span>
+                <div className="space-y-1">
+                  <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={formData.notifyEmail}
+                      onChange={(e) => setFormData({ ...formData, notifyEmail: e.target.checked })}
+                    />
+                    <span>Email</span>
+                  </label>
+                  {channels.map(channel => (
+                    <label key={channel.id} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={formData.channelIds.includes(channel.id)}
+                        onChange={() => toggleRuleChannel(channel.id)}
+                      />
+                      <span>{channel.name} ({CHANNEL_TYPE_LABELS[channel.type]})</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={formData.isEnabled}
+                  onChange={(e) => setFormData({ ...formData, isEnabled: e.target.checked })}
+                />
+                <span>Enabled</span>
+              </label>
+              <div className="flex justify-end space-x-3 pt-4">
+                <Button type="button" outline onClick={handleCloseModal}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? 'Saving...' : editingRule ? 'Update' : 'Add Rule'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Channel Add/Edit Modal */}
+      {showChannelModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+              {editingChannel ? 'Edit Channel' : 'Add Channel'}
+            </h2>
+            <form onSubmit={handleChannelSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="channelName" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Name
+                </label>
+                <Input
+                  id="channelName"
+                  type="text"
+                  value={channelForm.name}
+                  onChange={(e) => setChannelForm({ ...channelForm, name: e.target.value })}
+                  placeholder="#ops-alerts"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="channelType" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Type
+                </label>
+                <select
+                  id="channelType"
+                  value={channelForm.type}
+                  onChange={(e) => {
+                    setChannelForm({ ...channelForm, type: e.target.value as NotificationChannelType })
+                    setChannelTestResult(null)
+                  }}
+                  className={selectClassName}
+                >
+                  {(Object.keys(CHANNEL_TYPE_LABELS) as NotificationChannelType[]).map(type => (
+                    <option key={type} value={type}>{CHANNEL_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="channelUrl" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Webhook URL
+                </label>
+                <Input
+                  id="channelUrl"
+                  type="url"
+                  value={channelForm.url}
+                  onChange={(e) => {
+                    setChannelForm({ ...channelForm, url: e.target.value })
+                    setChannelTestResult(null)
+                  }}
+                  placeholder={CHANNEL_URL_PLACEHOLDERS[channelForm.type]}
+                  required
+                />
+                {channelForm.type === 'webhook' && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                    Requests carry X-Elova-Timestamp and an X-Elova-Signature HMAC-SHA256 of &quot;timestamp.body&quot; signed with the webhook secret.
+                  </p>
+                )}
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={channelForm.isEnabled}
+                  onChange={(e) => setChannelForm({ ...channelForm, isEnabled: e.target.checked })}
+                />
+                <span>Enabled</span>
+              </label>
+
+              <div>
+                <Button type="button" outline onClick={testChannel} disabled={testingChannel}>
+                  <ChatBubbleLeftRightIcon className="h-4 w-4 mr-2" />
+                  {testingChannel ? 'Sending Test...' : 'Send Test Message'}
+                </Button>
+                {channelTestResult && (
+                  <div className={`mt-3 flex items-start space-x-2 rounded-md p-3 text-sm ${
+                    channelTestResult.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                  }`}>
+                    {channelTestResult.success ? (
+                      <CheckIcon className="h-5 w-5 flex-shrink-0" />
+                    ) : (
+                      <XMarkIcon className="h-5 w-5 flex-shrink-0" />
+                    )}
+                    <span>{channelTestResult.message}</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <Button type="button" outline onClick={handleCloseChannelModal}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? 'Saving...' : editingChannel ? 'Update' : 'Add Channel'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function AlertsPage() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    }
+  }, [user, loading, router])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <AppLayout>
+      <AlertsContent />
+    </AppLayout>
+  )
+}
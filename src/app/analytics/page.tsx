@@ -6,6 +6,7 @@ import { useAuth } from '@/contexts/AuthContext'
 import { AppLayout } from '@/components/app-layout'
 import { WithN8NConnection } from '@/components/with-n8n-connection'
 import { ExecutionCharts } from '@/components/charts/execution-charts'
+import { RetryMetricsPanel } from '@/components/retry-metrics'
 import { apiClient } from '@/lib/api-client'
 import { DashboardStats, TimeRange } from '@/types'
 import { 
@@ -177,6 +178,11 @@ function AnalyticsContent() {
                   <dd className="text-lg font-medium text-gray-900 dark:text-white">
                     {loading ? '...' : `${stats?.avgResponseTime || 0}ms`}
                   </dd>
+                  {!loading && stats?.responseTimePercentiles && (
+                    <dd className="text-xs text-gray-500 dark:text-slate-400 truncate">
+                      p95 {stats.responseTimePercentiles.p95}ms · p99 {stats.responseTimePercentiles.p99}ms
+                    </dd>
+                  )}
                 </dl>
               </div>
             </div>
@@ -241,6 +247,52 @@ function AnalyticsContent() {
         </div>
       )}
 
+      {/* Response Time Percentiles */}
+      {[
+        { title: 'Response Time by Workflow', rows: stats?.workflowLatency },
+        { title: 'Response Time by Instance', rows: stats?.providerLatency }
+      ].map(({ title, rows }) => rows && rows.length > 0 && (
+        <div key={title} className="bg-white dark:bg-slate-800 shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4 flex items-center">
+              <ClockIcon className="h-5 w-5 mr-2" />
+              {title}
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-slate-400">
+                    <th className="py-2 pr-4 font-medium">Name</th>
+                    <th className="py-2 pr-4 font-medium text-right">Executions</th>
+                    <th className="py-2 pr-4 font-medium text-right">Avg</th>
+                    <th className="py-2 pr-4 font-medium text-right">p50</th>
+                    <th className="py-2 pr-4 font-medium text-right">p90</th>
+                    <th className="py-2 pr-4 font-medium text-right">p95</th>
+                    <th className="py-2 font-medium text-right">p99</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.slice(0, 10).map((row) => (
+                    <tr key={row.id} className="text-gray-900 dark:text-white">
+                      <td className="py-2 pr-4 truncate max-w-xs">{row.name}</td>
+                      <td className="py-2 pr-4 text-right">{row.executions.toLocaleString()}</td>
+                      <td className="py-2 pr-4 text-right">{row.avgResponseTime}ms</td>
+                      <td className="py-2 pr-4 text-right">{row.percentiles.p50}ms</td>
+                      <td className="py-2 pr-4 text-right">{row.percentiles.p90}ms</td>
+                      <td className="py-2 pr-4 text-right font-medium">{row.percentiles.p95}ms</td>
+                      <td className="py-2 text-right">{row.percentiles.p99}ms</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {/* Retries & Recovery */}
+      <RetryMetricsPanel timeRange={timeRange} />
+
       {/* Recent Failures */}
       {stats?.recentFailures && stats.recentFailures.length > 0 && (
         <div className="bg-white dark:bg-slate-800 shadow sm:rounded-lg">
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getAlertService } from '@/lib/services/alert-service'
+import { AlertEventStatus } from '@/types'
+
+export const dynamic = 'force-dynamic'
+
+const EVENT_STATUSES: AlertEventStatus[] = ['open', 'acknowledged', 'resolved']
+
+// PATCH /api/alerts/events/[id] - Acknowledge, resolve or reopen an alert event
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    if (!EVENT_STATUSES.includes(body.status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Status must be one of ${EVENT_STATUSES.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const event = await getAlertService().updateEventStatus(id, body.status)
+
+    if (!event) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Alert event not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: event,
+      message: `Alert ${body.status}`
+    })
+  } catch (error) {
+    console.error('Failed to update alert event:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update alert event'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getAlertService } from '@/lib/services/alert-service'
+import { AlertEventStatus } from '@/types'
+
+export const dynamic = 'force-dynamic'
+
+const EVENT_STATUSES: AlertEventStatus[] = ['open', 'acknowledged', 'resolved']
+
+// GET /api/alerts/events - List alert events, optionally filtered by status or rule
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as AlertEventStatus | null
+    const ruleId = searchParams.get('ruleId') || undefined
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500)
+
+    if (status && !EVENT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Status must be one of ${EVENT_STATUSES.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const events = await getAlertService().listEvents({
+      status: status || undefined,
+      ruleId,
+      limit
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: events
+    })
+  } catch (error) {
+    console.error('Failed to list alert events:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list alert events'
+      },
+      { status: 500 }
+    )
+  }
+}
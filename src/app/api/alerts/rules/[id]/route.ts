@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getAlertService, validateRuleInput } from '@/lib/services/alert-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/alerts/rules/[id] - Get an alert rule with its recent events
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const alertService = getAlertService()
+    const rule = await alertService.getRule(id)
+
+    if (!rule) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Alert rule not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    const events = await alertService.listEvents({ ruleId: id, limit: 50 })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...rule,
+        events
+      }
+    })
+  } catch (error) {
+    console.error('Failed to get alert rule:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get alert rule'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/alerts/rules/[id] - Update an alert rule
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const alertService = getAlertService()
+    const existing = await alertService.getRule(id)
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Alert rule not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    // Validate the merged rule so condition-specific fields stay consistent
+    const body = await request.json()
+    const { data, error } = validateRuleInput({ ...existing, ...body })
+
+    if (error || !data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error
+        },
+        { status: 400 }
+      )
+    }
+
+    const rule = await alertService.updateRule(id, data)
+
+    return NextResponse.json({
+      success: true,
+      data: rule,
+      message: 'Alert rule updated successfully'
+    })
+  } catch (error) {
+    console.error('Failed to update alert rule:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update alert rule'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/alerts/rules/[id] - Delete an alert rule and its events
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const deleted = await getAlertService().deleteRule(id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Alert rule not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Alert rule deleted successfully'
+    })
+  } catch (error) {
+    console.error('Failed to delete alert rule:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete alert rule'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getAlertService, validateRuleInput } from '@/lib/services/alert-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/alerts/rules - List all alert rules
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const rules = await getAlertService().listRules()
+
+    return NextResponse.json({
+      success: true,
+      data: rules
+    })
+  } catch (error) {
+    console.error('Failed to list alert rules:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list alert rules'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/alerts/rules - Create a new alert rule
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { data, error } = validateRuleInput(body)
+
+    if (error || !data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error
+        },
+        { status: 400 }
+      )
+    }
+
+    const rule = await getAlertService().createRule(data)
+
+    return NextResponse.json({
+      success: true,
+      data: rule,
+      message: 'Alert rule created successfully'
+    })
+  } catch (error) {
+    console.error('Failed to create alert rule:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create alert rule'
+      },
+      { status: 500 }
+    )
+  }
+}
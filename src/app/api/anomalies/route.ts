@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getAnomalyService } from '@/lib/services/anomaly-service'
+import { AnomalyMetric } from '@/types'
+
+export const dynamic = 'force-dynamic'
+
+const TIME_RANGE_MS: Record<string, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000
+}
+
+const METRICS: AnomalyMetric[] = ['volume', 'duration', 'error_rate']
+
+// GET /api/anomalies?timeRange=24h&workflowId=&metric= - List detected execution anomalies
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const timeRange = searchParams.get('timeRange') || '7d'
+    const metric = searchParams.get('metric') as AnomalyMetric | null
+
+    if (!TIME_RANGE_MS[timeRange]) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Time range must be one of ${Object.keys(TIME_RANGE_MS).join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    if (metric && !METRICS.includes(metric)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Metric must be one of ${METRICS.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const anomalies = await getAnomalyService().listAnomalies(user.id, {
+      since: new Date(Date.now() - TIME_RANGE_MS[timeRange]),
+      providerWorkflowId: searchParams.get('workflowId') || undefined,
+      metric: metric || undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: anomalies
+    })
+  } catch (error) {
+    console.error('Failed to list anomalies:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list anomalies'
+      },
+      { status: 500 }
+    )
+  }
+}
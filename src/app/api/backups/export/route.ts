@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getBackupExportService } from '@/lib/services/backup-export-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/backups/export?format=zip|tar&versions=true - Download all workflows as an archive
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'zip'
+    const includeVersions = searchParams.get('versions') === 'true'
+
+    if (format !== 'zip' && format !== 'tar') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Format must be zip or tar'
+        },
+        { status: 400 }
+      )
+    }
+
+    const archive = await getBackupExportService().createArchive(format, includeVersions)
+
+    return new NextResponse(new Uint8Array(archive.buffer), {
+      headers: {
+        'Content-Type': archive.contentType,
+        'Content-Disposition': `attachment; filename="${archive.filename}"`,
+        'Content-Length': String(archive.buffer.length),
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Failed to export workflow backups:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to export workflow backups'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getBackupExportService } from '@/lib/services/backup-export-service'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/backups/git - Export all workflows to the configured git repository now
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await getBackupExportService().exportToGit()
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No git repository path is configured'
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: result.committed
+        ? `Committed ${result.workflowCount} workflows as ${result.commit}`
+        : 'No workflow changes since the last export'
+    })
+  } catch (error) {
+    console.error('Failed to export workflow backups to git:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export workflow backups to git'
+      },
+      { status: 500 }
+    )
+  }
+}
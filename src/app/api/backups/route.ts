@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, canOperateExecutions } from '@/lib/api-auth'
+import { getBackupExportService, validateBackupSettingsInput } from '@/lib/services/backup-export-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/backups - Backup export settings
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const settings = await getBackupExportService().getSettings()
+
+    return NextResponse.json({
+      success: true,
+      data: settings
+    })
+  } catch (error) {
+    console.error('Failed to load backup settings:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load backup settings'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/backups - Update backup export settings
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { data, error } = validateBackupSettingsInput(body)
+
+    if (error || !data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error
+        },
+        { status: 400 }
+      )
+    }
+
+    const service = getBackupExportService()
+
+    // The git export runs git add and commit in this directory, so only admins may point it elsewhere
+    if (data.gitRepositoryPath !== undefined && !canOperateExecutions(user)) {
+      const current = await service.getSettings()
+      if (data.gitRepositoryPath !== current.gitRepositoryPath) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'You do not have permission to change the git repository path'
+          },
+          { status: 403 }
+        )
+      }
+    }
+
+    const settings = await service.updateSettings(data, user.email)
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+      message: 'Backup settings updated successfully'
+    })
+  } catch (error) {
+    console.error('Failed to update backup settings:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update backup settings'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { DEFAULT_COLLISION_THRESHOLD, getCronRunService } from '@/lib/services/cron-run-service'
+import { CronCalendarRange } from '@/types'
+
+export const dynamic = 'force-dynamic'
+
+const RANGES: CronCalendarRange[] = ['day', 'week']
+
+// GET /api/cron-jobs/calendar?range=week&providerId=&threshold=3&timezone= - Upcoming cron fire times, collisions and historical load
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const range = (searchParams.get('range') || 'week') as CronCalendarRange
+    const providerId = searchParams.get('providerId')
+    const threshold = parseInt(searchParams.get('threshold') || String(DEFAULT_COLLISION_THRESHOLD))
+    const timeZone = searchParams.get('timezone')
+
+    if (!RANGES.includes(range)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Range must be one of ${RANGES.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(threshold) || threshold < 2) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Collision threshold must be at least 2 workflows'
+        },
+        { status: 400 }
+      )
+    }
+
+    const calendar = await getCronRunService().getCalendar(user.id, {
+      range,
+      providerId: providerId && providerId !== 'all' ? providerId : undefined,
+      collisionThreshold: threshold,
+      timeZone: timeZone || undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: calendar
+    })
+  } catch (error) {
+    console.error('Failed to build cron calendar:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to build cron calendar'
+      },
+      { status: 500 }
+    )
+  }
+}
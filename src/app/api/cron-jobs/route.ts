@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getDb } from '@/lib/db'
+import { getCronRunService } from '@/lib/services/cron-run-service'
+import { CronRunCheck } from '@/types'
 
 export const dynamic = 'force-dynamic'
 
@@ -17,6 +19,7 @@ interface CronJob {
     cronExpression: string
   }>
   updatedAt: string
+  runCheck: CronRunCheck | null // Only for active workflows
 }
 
 export async function GET(request: NextRequest) {
@@ -24,6 +27,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const providerId = searchParams.get('providerId')
     const statusFilter = searchParams.get('status') // 'all', 'active', 'inactive', 'archived'
+    const toleranceSeconds = searchParams.get('toleranceSeconds')
 
     // Pagination parameters
     let page = parseInt(searchParams.get('page') || '1')
@@ -87,6 +91,12 @@ export async function GET(request: NextRequest) {
       })
     })
 
+    // Compare expected fire times with recorded cron executions
+    const runChecks = await getCronRunService().checkWorkflows(
+      workflows.map(workflow => workflow.id),
+      { toleranceMs: toleranceSeconds ? Math.max(0, parseInt(toleranceSeconds) || 0) * 1000 : undefined }
+    )
+
     // Transform the results
     const cronJobs: CronJob[] = workflows.map((workflow) => ({
       id: workflow.id,
@@ -97,7 +107,8 @@ export async function GET(request: NextRequest) {
       isActive: workflow.isActive === 1,
       isArchived: workflow.isArchived === 1,
       cronSchedules: JSON.parse(workflow.cronSchedules || '[]'),
-      updatedAt: workflow.updatedAt
+      updatedAt: workflow.updatedAt,
+      runCheck: runChecks.get(workflow.id) || null
     }))
 
     return NextResponse.json({
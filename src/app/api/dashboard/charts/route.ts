@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { authenticateRequest } from '@/lib/api-auth'
 import { TimeRange, Execution } from '@/types'
 import { getDb } from '@/lib/db'
+import { latencyPercentiles } from '@/lib/analytics/percentiles'
+import { getConfigManager } from '@/lib/config/config-manager'
+import { getAppTimeZone, resolveTimeZone, startOfZoned, toWallTime } from '@/lib/timezone'
 import { ExecutionStatus } from '@/types'
 
 
@@ -43,12 +46,17 @@ export interface ChartDataPoint {
   failedExecutions: number
   successRate: number
   avgResponseTime: number | null
+  p50ResponseTime: number | null
+  p90ResponseTime: number | null
+  p95ResponseTime: number | null
+  p99ResponseTime: number | null
 }
 
 /**
- * Aggregate execution data into time series for charts
+ * Aggregate execution data into time series for charts, with hours, days and
+ * weeks (starting Monday) bucketed in the given timezone
  */
-async function generateChartData(userId: string, timeRange: TimeRange): Promise<ChartDataPoint[]> {
+async function generateChartData(userId: string, timeRange: TimeRange, timeZone: string): Promise<ChartDataPoint[]> {
   try {
     const db = getDb()
     
@@ -116,29 +124,23 @@ async function generateChartData(userId: string, timeRange: TimeRange): Promise<
       executions: Execution[]
     }>()
 
+    // Timezone offsets are multiples of 15 minutes, so a quarter hour is never split across buckets
+    const bucketStarts = new Map<number, number>()
+
     for (const execution of filteredExecutions) {
-      const executionDate = new Date(execution.startedAt as any) // Parse ISO string
-      let bucketKey: string
-      let bucketDate: Date
-
-      if (granularity === 'hour') {
-        // Round to nearest hour
-        bucketDate = new Date(executionDate.getFullYear(), executionDate.getMonth(), 
-          executionDate.getDate(), executionDate.getHours())
-        bucketKey = bucketDate.toISOString()
-      } else if (granularity === 'day') {
-        // Round to day
-        bucketDate = new Date(executionDate.getFullYear(), executionDate.getMonth(), 
-          executionDate.getDate())
-        bucketKey = bucketDate.toISOString().split('T')[0]
-      } else {
-        // Week - round to beginning of week (Monday)
-        const dayOfWeek = executionDate.getDay()
-        const mondayDate = new Date(executionDate)
-        mondayDate.setDate(executionDate.getDate() - (dayOfWeek === 0 ? 6 : dayOfWeek - 1))
-        bucketDate = new Date(mondayDate.getFullYear(), mondayDate.getMonth(), mondayDate.getDate())
-        bucketKey = bucketDate.toISOString().split('T')[0]
+      const executionTime = new Date(execution.startedAt as any).getTime() // Parse ISO string
+      const quarterHour = Math.floor(executionTime / (15 * 60 * 1000))
+      let bucketStart = bucketStarts.get(quarterHour)
+      if (bucketStart === undefined) {
+        bucketStart = startOfZoned(executionTime, granularity, timeZone)
+        bucketStarts.set(quarterHour, bucketStart)
       }
+      const bucketDate = new Date(bucketStart)
+
+      // Hours are keyed by instant, days and weeks by their local date
+      const bucketKey = granularity === 'hour'
+        ? bucketDate.toISOString()
+        : new Date(toWallTime(bucketStart, timeZone)).toISOString().split('T')[0]
 
       if (!timeBuckets.has(bucketKey)) {
         timeBuckets.set(bucketKey, {
@@ -164,14 +166,17 @@ async function generateChartData(userId: string, timeRange: TimeRange): Promise<
       const failedExecutions = bucket.executions.filter(e => e.status === 'error').length
       const successRate = totalExecutions > 0 ? Math.round((successfulExecutions / totalExecutions) * 100) : 0
 
-      // Calculate average response time using duration from internal format
-      const completedExecutions = bucket.executions.filter(e => e.duration !== undefined)
+      // Calculate average and percentile response time using duration from internal format
+      const durations = bucket.executions
+        .map(e => e.duration)
+        .filter((duration): duration is number => typeof duration === 'number')
       let avgResponseTime: number | null = null
 
-      if (completedExecutions.length > 0) {
-        const totalDuration = completedExecutions.reduce((sum, e) => sum + (e.duration || 0), 0)
-        avgResponseTime = Math.round(totalDuration / completedExecutions.length)
+      if (durations.length > 0) {
+        const totalDuration = durations.reduce((sum, duration) => sum + duration, 0)
+        avgResponseTime = Math.round(totalDuration / durations.length)
       }
+      const percentiles = latencyPercentiles(durations)
 
       chartData.push({
         date: bucketKey,
@@ -180,7 +185,11 @@ async function generateChartData(userId: string, timeRange: TimeRange): Promise<
         successfulExecutions,
         failedExecutions,
         successRate,
-        avgResponseTime
+        avgResponseTime,
+        p50ResponseTime: percentiles?.p50 ?? null,
+        p90ResponseTime: percentiles?.p90 ?? null,
+        p95ResponseTime: percentiles?.p95 ?? null,
+        p99ResponseTime: percentiles?.p99 ?? null
       })
     }
 
@@ -197,6 +206,7 @@ export async function GET(request: NextRequest) {
     // Parse query parameters
     const searchParams = request.nextUrl.searchParams
     const timeRange = (searchParams.get('timeRange') as TimeRange) || '24h'
+    const requestedTimeZone = searchParams.get('timezone')
 
     // Require authentication
     const { user, error: authError } = await authenticateRequest(request)
@@ -205,14 +215,18 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    // Bucket in the requested display timezone, else the app timezone
+    const timeZone = resolveTimeZone(requestedTimeZone, await getAppTimeZone(getConfigManager()))
+
     // Generate chart data from database
     try {
-      const chartData = await generateChartData(user.id, timeRange)
+      const chartData = await generateChartData(user.id, timeRange, timeZone)
       
       return NextResponse.json({
         success: true,
         data: chartData,
         timeRange,
+        timeZone,
         count: chartData.length
       })
     } catch (error) {
@@ -223,6 +237,7 @@ export async function GET(request: NextRequest) {
         success: true,
         data: [],
         timeRange,
+        timeZone,
         count: 0
       })
     }
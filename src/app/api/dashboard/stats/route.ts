@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { authenticateRequest } from '@/lib/api-auth'
-import { DashboardStats, TimeRange, ExecutionFilters, Execution } from '@/types'
+import { DashboardStats, TimeRange, ExecutionFilters, Execution, LatencyBreakdown } from '@/types'
 import { getDb } from '@/lib/db'
+import { latencyPercentiles } from '@/lib/analytics/percentiles'
 import { ExecutionStatus } from '@/types'
 
 // Helper function to apply filters to executions (copied from executions API)
@@ -53,6 +54,35 @@ function applyExecutionFilters(executions: Execution[], filters: ExecutionFilter
   return filtered
 }
 
+/**
+ * Average and percentile response time per group, slowest p95 first
+ */
+function computeLatencyBreakdown(
+  executions: Execution[],
+  groupBy: (execution: Execution) => { id: string; name: string }
+): LatencyBreakdown[] {
+  const groups = new Map<string, { name: string; durations: number[] }>()
+
+  for (const execution of executions) {
+    if (typeof execution.duration !== 'number') continue
+
+    const { id, name } = groupBy(execution)
+    const group = groups.get(id) || { name, durations: [] }
+    group.durations.push(execution.duration)
+    groups.set(id, group)
+  }
+
+  return Array.from(groups.entries())
+    .map(([id, group]) => ({
+      id,
+      name: group.name,
+      executions: group.durations.length,
+      avgResponseTime: Math.round(group.durations.reduce((sum, d) => sum + d, 0) / group.durations.length),
+      percentiles: latencyPercentiles(group.durations)!
+    }))
+    .sort((a, b) => b.percentiles.p95 - a.percentiles.p95)
+}
+
 
 /**
  * Fetch dashboard statistics from database
@@ -64,7 +94,7 @@ async function fetchDashboardStatsFromDb(userId: string, timeRange: TimeRange):
     // Fetch executions from database
     const allExecutions = await new Promise<Execution[]>((resolve, reject) => {
       db.all(
-        `SELECT e.*, w.name as workflow_name
+        `SELECT e.*, w.name as workflow_name, p.name as provider_name
          FROM executions e
          LEFT JOIN workflows w ON e.workflow_id = w.id
          LEFT JOIN providers p ON e.provider_id = p.id
@@ -90,6 +120,7 @@ async function fetchDashboardStatsFromDb(userId: string, timeRange: TimeRange):
             duration: row.duration,
             metadata: {
               workflowName: row.workflow_name || 'Unknown',
+              providerName: row.provider_name || 'Unknown',
               finished: Boolean(row.finished)
             }
           }) as any)
@@ -113,14 +144,26 @@ async function fetchDashboardStatsFromDb(userId: string, timeRange: TimeRange):
     const failedExecutions = filteredExecutions.filter(e => e.status === 'error').length
     const successRate = totalExecutions > 0 ? Math.round((successfulExecutions / totalExecutions) * 100) : 0
 
-    // Calculate average response time (duration)
-    const completedExecutions = filteredExecutions.filter(e => e.duration !== undefined)
+    // Calculate average and percentile response time (duration); running executions have none yet
+    const durations = filteredExecutions
+      .map(e => e.duration)
+      .filter((duration): duration is number => typeof duration === 'number')
     let avgResponseTime: number | undefined
     
-    if (completedExecutions.length > 0) {
-      const totalDuration = completedExecutions.reduce((sum, e) => sum + (e.duration || 0), 0)
-      avgResponseTime = Math.round(totalDuration / completedExecutions.length)
+    if (durations.length > 0) {
+      const totalDuration = durations.reduce((sum, duration) => sum + duration, 0)
+      avgResponseTime = Math.round(totalDuration / durations.length)
     }
+    const responseTimePercentiles = latencyPercentiles(durations)
+
+    const workflowLatency = computeLatencyBreakdown(filteredExecutions, execution => ({
+      id: execution.workflowId,
+      name: (execution.metadata?.workflowName as string) || 'Unknown Workflow'
+    }))
+    const providerLatency = computeLatencyBreakdown(filteredExecutions, execution => ({
+      id: execution.providerId,
+      name: (execution.metadata?.providerName as string) || 'Unknown Provider'
+    }))
 
     // Get recent failures
     const recentFailures = filteredExecutions
@@ -175,7 +218,10 @@ timestamp: execution.startedAt
       failedExecutions,
       successRate,
       avgResponseTime,
+      responseTimePercentiles,
       topWorkflows,
+      workflowLatency,
+      providerLatency,
       recentFailures
     }
   } catch (error) {
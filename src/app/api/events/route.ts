@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getProviderService } from '@/lib/services/provider-service'
+import { liveFeed } from '@/lib/sync/live-feed'
+import { LiveEvent } from '@/types'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 20 * 1000
+// Reconnect delay the browser's EventSource uses after the stream drops
+const RECONNECT_DELAY_MS = 5000
+// Events of an unknown provider reload the user's providers at most this often
+const PROVIDER_RELOAD_INTERVAL_MS = 30 * 1000
+
+// GET /api/events - Server-Sent Events stream of execution changes, sync progress and alerts
+// Each message is named after the event type (execution, sync, alert) and carries the event data as JSON.
+// EventSource cannot send headers, so the browser authenticates with the session cookie.
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const providerService = getProviderService()
+    let providerIds = new Set((await providerService.listProviders(user.id)).map(p => p.id))
+    let providersLoadedAt = Date.now()
+
+    const reloadProviders = async () => {
+      if (Date.now() - providersLoadedAt < PROVIDER_RELOAD_INTERVAL_MS) return
+      providersLoadedAt = Date.now()
+      providerIds = new Set((await providerService.listProviders(user.id)).map(p => p.id))
+    }
+
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false
+
+        const write = (chunk: string) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            cleanup()
+          }
+        }
+
+        const send = (event: LiveEvent) => {
+          write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`)
+        }
+
+        const unsubscribe = liveFeed.subscribe(event => {
+          // Alerts not tied to a provider go to everyone
+          const providerId = event.data.providerId
+          if (!providerId || providerIds.has(providerId)) {
+            send(event)
+            return
+          }
+
+          // A provider added after the stream opened
+          reloadProviders()
+            .then(() => {
+              if (providerIds.has(providerId)) send(event)
+            })
+            .catch(error => console.error('Failed to reload providers for live events:', error))
+        })
+
+        const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS)
+
+        cleanup = () => {
+          if (closed) return
+          closed = true
+          clearInterval(heartbeat)
+          unsubscribe()
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client
+          }
+        }
+
+        request.signal.addEventListener('abort', () => cleanup())
+        write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+      },
+      cancel() {
+        cleanup()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    })
+  } catch (error) {
+    console.error('Failed to open live event stream:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to open live event stream'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getExecutionActionService } from '@/lib/services/execution-action-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/executions/[id]/actions - Audit trail of retries and stops requested for an execution
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const service = getExecutionActionService()
+
+    if (!await service.getTarget(user.id, id)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Execution not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    const actions = await service.listActions(id)
+
+    return NextResponse.json({
+      success: true,
+      data: actions
+    })
+  } catch (error) {
+    console.error('Failed to fetch execution actions:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch execution actions'
+      },
+      { status: 500 }
+    )
+  }
+}
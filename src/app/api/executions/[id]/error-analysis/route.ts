@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getErrorIssueService } from '@/lib/services/error-issue-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/executions/[id]/error-analysis - Failing node, its input and parameters, and related failures
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const analysis = await getErrorIssueService().analyzeExecution(user.id, id)
+
+    if (!analysis) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Execution not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: analysis
+    })
+  } catch (error) {
+    console.error('Failed to analyze execution error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to analyze execution error'
+      },
+      { status: 500 }
+    )
+  }
+}
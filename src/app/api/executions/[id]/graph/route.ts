@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getDb } from '@/lib/db'
+import { getWorkflowVersionService } from '@/lib/services/workflow-version-service'
+import { applyExecutionOverlay, buildWorkflowGraph } from '@/lib/workflows/workflow-graph'
+import { ExecutionGraph } from '@/types'
+
+export const dynamic = 'force-dynamic'
+
+function parseJson(value: string | null): any {
+  if (!value) return null
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+// GET /api/executions/[id]/graph - Workflow graph as it ran, with node status, durations and item counts
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const db = getDb()
+    const row = await new Promise<any>((resolve, reject) => {
+      db.get(
+        `SELECT e.id, e.workflow_id, e.started_at, e.execution_data, e.metadata, w.workflow_json
+        FROM executions e
+        JOIN providers p ON p.id = e.provider_id
+        LEFT JOIN workflows w ON w.id = e.workflow_id
+        WHERE e.id = ? AND p.user_id = ?`,
+        [id, user.id],
+        (err, row) => {
+          if (err) reject(err)
+          else resolve(row)
+        }
+      )
+    })
+
+    if (!row) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Execution not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    const resolved = await getWorkflowVersionService().resolveExecutionWorkflow({
+      workflowId: row.workflow_id,
+      startedAt: new Date(row.started_at),
+      snapshot: parseJson(row.metadata)?.originalData?.workflowData,
+      current: parseJson(row.workflow_json)
+    })
+    const runData = parseJson(row.execution_data)?.resultData?.runData
+
+    const data: ExecutionGraph = {
+      executionId: row.id,
+      graph: applyExecutionOverlay(buildWorkflowGraph(resolved?.workflow || {}), runData),
+      source: resolved?.source || null
+    }
+
+    return NextResponse.json({
+      success: true,
+      data
+    })
+  } catch (error) {
+    console.error('Failed to build execution graph:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to build execution graph'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getRetryChainService } from '@/lib/services/retry-chain-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/executions/[id]/retry-chain - Original execution and all of its retries
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const chain = await getRetryChainService().getChain(user.id, id)
+
+    if (!chain) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Execution not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: chain
+    })
+  } catch (error) {
+    console.error('Failed to get retry chain:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get retry chain'
+      },
+      { status: 500 }
+    )
+  }
+}
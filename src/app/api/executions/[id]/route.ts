@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { authenticateRequest } from '@/lib/api-auth'
+import { authenticateRequest, canOperateExecutions } from '@/lib/api-auth'
 import { getDb } from '@/lib/db'
-import { ExecutionStatus } from '@/types'
+import { canPerformAction, getExecutionActionService } from '@/lib/services/execution-action-service'
+import { ExecutionActionType, ExecutionStatus } from '@/types'
+
+const EXECUTION_ACTIONS: ExecutionActionType[] = ['retry', 'stop']
 
 // GET /api/executions/[id] - Get a single execution with full details
 export async function GET(
@@ -154,3 +157,96 @@ export async function GET(
     )
   }
 }
+
+// POST /api/executions/[id] - Retry ({ action: 'retry', loadWorkflow? }) or stop ({ action: 'stop' }) an execution on its provider
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canOperateExecutions(user)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'You do not have permission to retry or stop executions'
+        },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const action = body.action as ExecutionActionType
+
+    if (!EXECUTION_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Action must be one of ${EXECUTION_ACTIONS.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const service = getExecutionActionService()
+    const target = await service.getTarget(user.id, id)
+
+    if (!target) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Execution not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    if (!canPerformAction(action, target.status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: action === 'retry'
+            ? 'Only failed or canceled executions can be retried'
+            : 'Only running or waiting executions can be stopped'
+        },
+        { status: 400 }
+      )
+    }
+
+    const record = await service.perform(user, target, action, {
+      loadWorkflow: body.loadWorkflow !== false
+    })
+
+    if (record.status === 'failed') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: record.error,
+          data: record
+        },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: record,
+      message: action === 'retry' ? 'Execution retried' : 'Execution stopped'
+    })
+  } catch (error) {
+    console.error('Failed to run execution action:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to run execution action'
+      },
+      { status: 500 }
+    )
+  }
+}
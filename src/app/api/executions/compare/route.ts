@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getExecutionCompareService } from '@/lib/services/execution-compare-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/executions/compare - Compare two executions of a workflow node by node
+// Supports query parameters:
+// - target: Execution to inspect (required)
+// - base: Execution to compare against; defaults to the last successful run before target
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const targetId = searchParams.get('target')
+
+    if (!targetId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'target is required'
+        },
+        { status: 400 }
+      )
+    }
+
+    const service = getExecutionCompareService()
+    const baseId = searchParams.get('base') || await service.findBaseline(user.id, targetId)
+
+    if (!baseId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No earlier successful execution of this workflow to compare with'
+        },
+        { status: 404 }
+      )
+    }
+
+    const comparison = await service.compare(user.id, baseId, targetId)
+
+    if (!comparison) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Execution not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    if (comparison.base.providerId !== comparison.target.providerId || comparison.base.workflowId !== comparison.target.workflowId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Only executions of the same workflow can be compared'
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: comparison
+    })
+  } catch (error) {
+    console.error('Failed to compare executions:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to compare executions'
+      },
+      { status: 500 }
+    )
+  }
+}
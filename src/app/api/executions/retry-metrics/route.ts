@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getRetryChainService } from '@/lib/services/retry-chain-service'
+
+export const dynamic = 'force-dynamic'
+
+const TIME_RANGE_MS: Record<string, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000
+}
+
+// GET /api/executions/retry-metrics?timeRange=30d&providerId= - Retry recovery rate, time to recovery and most retried workflows
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const timeRange = searchParams.get('timeRange') || '30d'
+
+    if (!TIME_RANGE_MS[timeRange]) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Time range must be one of ${Object.keys(TIME_RANGE_MS).join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const metrics = await getRetryChainService().getMetrics(user.id, {
+      since: new Date(Date.now() - TIME_RANGE_MS[timeRange]),
+      providerId: searchParams.get('providerId') || undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: metrics
+    })
+  } catch (error) {
+    console.error('Failed to get retry metrics:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get retry metrics'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,7 @@ import { ExecutionFilters, ExecutionStatus, Execution } from '@/types'
 import { N8nExecution, N8nWorkflow } from '@/lib/n8n-api'
 import { authenticateRequest } from '@/lib/api-auth'
 import { getDb, isMissingTableError } from '@/lib/db'
+import { retryChainOutcome } from '@/lib/services/retry-chain-service'
 
 // GET /api/executions - List executions across all providers
 // Supports query parameters:
@@ -109,13 +110,14 @@ export async function GET(request: NextRequest) {
           default:
             startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000)
         }
-        whereClause += ' AND e.started_at >= ?'
+        // A retry chain stays in range while any of its attempts is
+        whereClause += ' AND COALESCE(rc.last_retry_at, e.started_at) >= ?'
         params.push(startDate.toISOString())
       }
 
       // Custom time range
       if (filters.timeRange === 'custom' && filters.customTimeRange) {
-        whereClause += ' AND e.started_at >= ? AND e.started_at <= ?'
+        whereClause += ' AND COALESCE(rc.last_retry_at, e.started_at) >= ? AND e.started_at <= ?'
         params.push(
           filters.customTimeRange.start.toISOString(),
           filters.customTimeRange.end.toISOString()
@@ -133,6 +135,11 @@ export async function GET(request: NextRequest) {
         params.push(searchTerm, searchTerm, searchTerm)
       }
 
+      // Retries are listed under their original execution unless the user is looking for specific runs
+      if (!filters.search && !(filters.status && filters.status.length > 0)) {
+        whereClause += ' AND (e.retry_root_id IS NULL OR NOT EXISTS (SELECT 1 FROM executions root WHERE root.id = e.retry_root_id))'
+      }
+
       // CTE for grouping logic
       const groupingCte = `
         WITH FilteredExecutions AS (
@@ -157,10 +164,23 @@ export async function GET(request: NextRequest) {
             e.ai_cost,
             e.ai_provider,
             w.name as workflow_name,
-            p.name as provider_name
+            p.name as provider_name,
+            rc.retry_count,
+            rc.retry_recovered,
+            rc.last_retry_at,
+            (SELECT lr.status FROM executions lr WHERE lr.retry_root_id = e.id ORDER BY lr.started_at DESC LIMIT 1) as last_retry_status
           FROM executions e
           LEFT JOIN workflows w ON e.workflow_id = w.id
           LEFT JOIN providers p ON e.provider_id = p.id
+          LEFT JOIN (
+            SELECT retry_root_id,
+              COUNT(*) as retry_count,
+              MAX(CASE WHEN status = 'success' THEN 1 ELSE 0 END) as retry_recovered,
+              MAX(started_at) as last_retry_at
+            FROM executions
+            WHERE retry_root_id IS NOT NULL
+            GROUP BY retry_root_id
+          ) rc ON rc.retry_root_id = e.id
           ${whereClause}
         ),
         MarkedGroups AS (
@@ -257,6 +277,11 @@ export async function GET(request: NextRequest) {
           outputTokens: row.output_tokens || 0,
           aiCost: row.ai_cost || 0,
           aiProvider: row.ai_provider || null,
+          retryChain: row.retry_count > 0 ? {
+            retries: row.retry_count,
+            outcome: retryChainOutcome(Boolean(row.retry_recovered), row.last_retry_status),
+            lastRetryAt: new Date(row.last_retry_at)
+          } : undefined,
           metadata: {
             workflowName: row.workflow_name || 'Unknown Workflow',
             providerName: row.provider_name || 'Unknown Provider',
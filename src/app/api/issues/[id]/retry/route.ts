@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, canOperateExecutions } from '@/lib/api-auth'
+import { getErrorIssueService } from '@/lib/services/error-issue-service'
+import { getExecutionActionService } from '@/lib/services/execution-action-service'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/issues/[id]/retry - Retry every failed execution of an issue that has not been retried yet
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canOperateExecutions(user)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'You do not have permission to retry executions'
+        },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const issue = await getErrorIssueService().getIssue(user.id, id)
+
+    if (!issue) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Issue not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    const result = await getExecutionActionService().retryIssueFailures(user, id)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Retried ${result.succeeded} of ${result.attempted} failed executions`
+    })
+  } catch (error) {
+    console.error('Failed to retry issue executions:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to retry issue executions'
+      },
+      { status: 500 }
+    )
+  }
+}
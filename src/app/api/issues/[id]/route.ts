@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getErrorIssueService, SETTABLE_ISSUE_STATUSES } from '@/lib/services/error-issue-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/issues/[id] - Get an issue with its daily occurrences and latest failed executions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const issue = await getErrorIssueService().getIssue(user.id, id)
+
+    if (!issue) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Issue not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: issue
+    })
+  } catch (error) {
+    console.error('Failed to get error issue:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get error issue'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/issues/[id] - Resolve, ignore or reopen an issue
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    if (!SETTABLE_ISSUE_STATUSES.includes(body.status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Status must be one of ${SETTABLE_ISSUE_STATUSES.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const issue = await getErrorIssueService().updateStatus(user.id, id, body.status)
+
+    if (!issue) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Issue not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: issue,
+      message: `Issue marked ${body.status}`
+    })
+  } catch (error) {
+    console.error('Failed to update error issue:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update error issue'
+      },
+      { status: 500 }
+    )
+  }
+}
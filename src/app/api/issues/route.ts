@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { ErrorIssueSort, ErrorIssueStatusFilter, getErrorIssueService } from '@/lib/services/error-issue-service'
+
+export const dynamic = 'force-dynamic'
+
+const STATUS_FILTERS: ErrorIssueStatusFilter[] = ['open', 'unresolved', 'regressed', 'resolved', 'ignored', 'all']
+const SORTS: ErrorIssueSort[] = ['last_seen', 'first_seen', 'occurrences']
+
+// GET /api/issues?status=open&providerId=&workflowId=&search=&sort=last_seen&page=1&limit=50 - Failed executions grouped into issues
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = (searchParams.get('status') || 'open') as ErrorIssueStatusFilter
+    const sort = (searchParams.get('sort') || 'last_seen') as ErrorIssueSort
+    const providerId = searchParams.get('providerId')
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50') || 50))
+
+    if (!STATUS_FILTERS.includes(status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Status must be one of ${STATUS_FILTERS.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    if (!SORTS.includes(sort)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Sort must be one of ${SORTS.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await getErrorIssueService().listIssues(user.id, {
+      status,
+      sort,
+      providerId: providerId && providerId !== 'all' ? providerId : undefined,
+      workflowId: searchParams.get('workflowId') || undefined,
+      search: searchParams.get('search') || undefined,
+      limit,
+      offset: (page - 1) * limit
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        items: result.issues,
+        total: result.total,
+        page,
+        limit,
+        statusCounts: result.statusCounts
+      }
+    })
+  } catch (error) {
+    console.error('Failed to list error issues:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list error issues'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getMonitorService } from '@/lib/services/monitor-service'
+import { endpointChecker } from '@/lib/monitors/endpoint-checker'
+
+// POST /api/monitors/[id]/check - Run a monitor check immediately
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const monitorService = getMonitorService()
+    const monitor = await monitorService.getCheck(id)
+
+    if (!monitor) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Monitor not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    const result = await endpointChecker.runCheck(monitor)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        result,
+        monitor: await monitorService.getCheck(id)
+      }
+    })
+  } catch (error) {
+    console.error('Failed to run monitor check:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to run monitor check'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getMonitorService, validateCheckInput } from '@/lib/services/monitor-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/monitors/[id] - Get a monitor with its recent results
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 1000)
+
+    const monitorService = getMonitorService()
+    const monitor = await monitorService.getCheck(id)
+
+    if (!monitor) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Monitor not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    const results = await monitorService.getResults(id, limit)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...monitor,
+        results
+      }
+    })
+  } catch (error) {
+    console.error('Failed to get monitor:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get monitor'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/monitors/[id] - Update a monitor
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { data, error } = validateCheckInput(body, true)
+
+    if (error || !data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error
+        },
+        { status: 400 }
+      )
+    }
+
+    if (Object.keys(data).length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No fields to update'
+        },
+        { status: 400 }
+      )
+    }
+
+    const monitor = await getMonitorService().updateCheck(id, data)
+
+    if (!monitor) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Monitor not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: monitor,
+      message: 'Monitor updated successfully'
+    })
+  } catch (error) {
+    console.error('Failed to update monitor:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update monitor'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/monitors/[id] - Delete a monitor and its results
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const deleted = await getMonitorService().deleteCheck(id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Monitor not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Monitor deleted successfully'
+    })
+  } catch (error) {
+    console.error('Failed to delete monitor:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete monitor'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getMonitorService, validateCheckInput, EndpointCheckInput } from '@/lib/services/monitor-service'
+import { endpointChecker } from '@/lib/monitors/endpoint-checker'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/monitors - List all endpoint monitors with uptime statistics
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Make sure results keep flowing while monitors are in use
+    endpointChecker.start()
+
+    const monitors = await getMonitorService().listChecks()
+
+    return NextResponse.json({
+      success: true,
+      data: monitors
+    })
+  } catch (error) {
+    console.error('Failed to list monitors:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list monitors'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/monitors - Create a new endpoint monitor
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { data, error } = validateCheckInput(body)
+
+    if (error || !data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error
+        },
+        { status: 400 }
+      )
+    }
+
+    const monitorService = getMonitorService()
+    const monitor = await monitorService.createCheck(data as EndpointCheckInput)
+
+    // Run the first check right away so the list shows a real status
+    if (monitor.isEnabled) {
+      await endpointChecker.runCheck(monitor).catch(err => {
+        console.warn(`Initial check for monitor ${monitor.name} failed:`, err)
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await monitorService.getCheck(monitor.id),
+      message: 'Monitor created successfully'
+    })
+  } catch (error) {
+    console.error('Failed to create monitor:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create monitor'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getChannelService, validateChannelInput } from '@/lib/services/channel-service'
+
+export const dynamic = 'force-dynamic'
+
+// PUT /api/notifications/channels/[id] - Update a notification channel
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { data, error } = validateChannelInput(body, true)
+
+    if (error || !data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error
+        },
+        { status: 400 }
+      )
+    }
+
+    if (Object.keys(data).length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No fields to update'
+        },
+        { status: 400 }
+      )
+    }
+
+    const channel = await getChannelService().updateChannel(id, data)
+
+    if (!channel) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Notification channel not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: channel,
+      message: 'Notification channel updated successfully'
+    })
+  } catch (error) {
+    console.error('Failed to update notification channel:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update notification channel'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/notifications/channels/[id] - Delete a channel and detach it from alert rules
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const deleted = await getChannelService().deleteChannel(id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Notification channel not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Notification channel deleted successfully'
+    })
+  } catch (error) {
+    console.error('Failed to delete notification channel:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete notification channel'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getChannelService, validateChannelInput, NotificationChannelInput } from '@/lib/services/channel-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/notifications/channels - List notification channels
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const channels = await getChannelService().listChannels()
+
+    return NextResponse.json({
+      success: true,
+      data: channels
+    })
+  } catch (error) {
+    console.error('Failed to list notification channels:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list notification channels'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/notifications/channels - Create a Slack, Teams or webhook channel
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { data, error } = validateChannelInput(body)
+
+    if (error || !data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error
+        },
+        { status: 400 }
+      )
+    }
+
+    const channel = await getChannelService().createChannel(data as NotificationChannelInput)
+
+    return NextResponse.json({
+      success: true,
+      data: channel,
+      message: 'Notification channel created successfully'
+    })
+  } catch (error) {
+    console.error('Failed to create notification channel:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create notification channel'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { validateChannelInput } from '@/lib/services/channel-service'
+import { buildChannelPayload, postToChannel, testChannelMessage } from '@/lib/notifications/channels'
+import { NotificationChannelType } from '@/types'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/notifications/channels/test - Send a test message to a (possibly unsaved) channel
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { data, error } = validateChannelInput({ name: 'Test', ...body })
+
+    if (error || !data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const type = data.type as NotificationChannelType
+    const payload = JSON.stringify(buildChannelPayload(type, testChannelMessage()))
+
+    try {
+      await postToChannel(type, data.url as string, payload)
+    } catch (sendError) {
+      return NextResponse.json(
+        { error: sendError instanceof Error ? sendError.message : 'Failed to send test message' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Test message sent successfully'
+    })
+  } catch (error) {
+    console.error('Channel test failed:', error)
+    return NextResponse.json(
+      { error: 'Failed to send test message' },
+      { status: 500 }
+    )
+  }
+}
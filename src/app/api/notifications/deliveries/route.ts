@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { notificationDispatcher } from '@/lib/notifications/dispatcher'
+import { NotificationDeliveryStatus } from '@/types'
+
+export const dynamic = 'force-dynamic'
+
+const DELIVERY_STATUSES: NotificationDeliveryStatus[] = ['pending', 'sent', 'retrying', 'failed']
+
+// GET /api/notifications/deliveries - Notification delivery log, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as NotificationDeliveryStatus | null
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500)
+
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Status must be one of ${DELIVERY_STATUSES.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const deliveries = await notificationDispatcher.listDeliveries({
+      status: status || undefined,
+      limit
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: deliveries
+    })
+  } catch (error) {
+    console.error('Failed to list notification deliveries:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list notification deliveries'
+      },
+      { status: 500 }
+    )
+  }
+}
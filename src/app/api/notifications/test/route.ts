@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { notificationDispatcher } from '@/lib/notifications/dispatcher'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/notifications/test - Send a test email through the configured transport
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const recipient = typeof body.recipient === 'string' && body.recipient.includes('@')
+      ? body.recipient
+      : undefined
+
+    const delivery = await notificationDispatcher.sendTest(recipient)
+
+    if (delivery.status !== 'sent') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: delivery.lastError || 'Failed to send test email',
+          data: delivery
+        },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: delivery,
+      message: 'Test email sent successfully'
+    })
+  } catch (error) {
+    console.error('Failed to send test notification:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send test email'
+      },
+      { status: 500 }
+    )
+  }
+}
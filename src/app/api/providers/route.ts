@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { authenticateRequest } from '@/lib/api-auth'
 import { getProviderService } from '@/lib/services/provider-service'
+import { isValidTimeZone } from '@/lib/timezone'
 
 // GET /api/providers - List all providers
 export async function GET(request: NextRequest) {
@@ -73,6 +74,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Instance default timezone for cron schedules, n8n's GENERIC_TIMEZONE
+    if (metadata?.timezone !== undefined && metadata.timezone !== '' && !isValidTimeZone(metadata.timezone)) {
+      return NextResponse.json(
+        { 
+          success: false,
+          error: 'Timezone must be a valid IANA timezone such as Europe/Berlin' 
+        },
+        { status: 400 }
+      )
+    }
+
     const providerService = getProviderService()
 
     // Test connection before creating
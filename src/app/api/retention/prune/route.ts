@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getRetentionService } from '@/lib/services/retention-service'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/retention/prune - Apply retention policies now
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await getRetentionService().prune()
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: 'Retention pruning completed'
+    })
+  } catch (error) {
+    console.error('Failed to prune execution data:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to prune execution data'
+      },
+      { status: 500 }
+    )
+  }
+}
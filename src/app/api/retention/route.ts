@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getRetentionService, validateRetentionInput } from '@/lib/services/retention-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/retention - Retention policy and per-workflow storage usage
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const service = getRetentionService()
+    const [policy, usage, databaseSizeBytes] = await Promise.all([
+      service.getGlobalPolicy(),
+      service.getPayloadUsage(),
+      service.getDatabaseSize()
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        policy,
+        usage,
+        databaseSizeBytes
+      }
+    })
+  } catch (error) {
+    console.error('Failed to load retention settings:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load retention settings'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/retention - Update the global retention policy
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { data, error } = validateRetentionInput(body)
+
+    if (error || !data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error
+        },
+        { status: 400 }
+      )
+    }
+
+    const policy = await getRetentionService().updateGlobalPolicy(data, user.email)
+
+    return NextResponse.json({
+      success: true,
+      data: policy,
+      message: 'Retention policy updated successfully'
+    })
+  } catch (error) {
+    console.error('Failed to update retention policy:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update retention policy'
+      },
+      { status: 500 }
+    )
+  }
+}
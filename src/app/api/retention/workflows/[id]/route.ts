@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getRetentionService, validateRetentionInput } from '@/lib/services/retention-service'
+
+export const dynamic = 'force-dynamic'
+
+// PUT /api/retention/workflows/[id] - Set a workflow's retention override
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { data, error } = validateRetentionInput(body, true)
+
+    if (error || !data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error
+        },
+        { status: 400 }
+      )
+    }
+
+    const override = await getRetentionService().setOverride(id, data)
+
+    if (!override) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Workflow not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: override,
+      message: 'Workflow retention override saved'
+    })
+  } catch (error) {
+    console.error('Failed to save workflow retention override:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save workflow retention override'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/retention/workflows/[id] - Remove a workflow's retention override
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const deleted = await getRetentionService().deleteOverride(id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Workflow has no retention override'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Workflow retention override removed'
+    })
+  } catch (error) {
+    console.error('Failed to remove workflow retention override:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to remove workflow retention override'
+      },
+      { status: 500 }
+    )
+  }
+}
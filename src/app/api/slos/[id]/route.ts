@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getSloService, validateSloInput } from '@/lib/services/slo-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/slos/[id] - Get an SLO's status with its daily error budget history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const sloService = getSloService()
+    const slo = await sloService.getSlo(id)
+
+    if (!slo) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'SLO not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await sloService.getStatus(slo, true)
+    })
+  } catch (error) {
+    console.error('Failed to get SLO:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get SLO'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/slos/[id] - Update an SLO
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const sloService = getSloService()
+    const existing = await sloService.getSlo(id)
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'SLO not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    // Validate the merged SLO so objective-specific fields stay consistent
+    const body = await request.json()
+    const { data, error } = validateSloInput({ ...existing, ...body })
+
+    if (error || !data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error
+        },
+        { status: 400 }
+      )
+    }
+
+    const slo = await sloService.updateSlo(id, data)
+
+    return NextResponse.json({
+      success: true,
+      data: slo,
+      message: 'SLO updated successfully'
+    })
+  } catch (error) {
+    console.error('Failed to update SLO:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update SLO'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/slos/[id] - Delete an SLO
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const deleted = await getSloService().deleteSlo(id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'SLO not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'SLO deleted successfully'
+    })
+  } catch (error) {
+    console.error('Failed to delete SLO:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete SLO'
+      },
+      { status: 500 }
+    )
+  }
+}
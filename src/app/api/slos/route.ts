@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getSloService, validateSloInput } from '@/lib/services/slo-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/slos - List all SLOs with their current compliance and error budget
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const sloService = getSloService()
+    const slos = await sloService.listSlos()
+    const statuses = await Promise.all(slos.map(slo => sloService.getStatus(slo)))
+
+    return NextResponse.json({
+      success: true,
+      data: statuses
+    })
+  } catch (error) {
+    console.error('Failed to list SLOs:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list SLOs'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/slos - Create a new SLO
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { data, error } = validateSloInput(body)
+
+    if (error || !data) {
+      return NextResponse.json(
+        {
+          success: false,
+          error
+        },
+        { status: 400 }
+      )
+    }
+
+    const slo = await getSloService().createSlo(data)
+
+    return NextResponse.json({
+      success: true,
+      data: slo,
+      message: 'SLO created successfully'
+    })
+  } catch (error) {
+    console.error('Failed to create SLO:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create SLO'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { getConfigManager } from '@/lib/config/config-manager'
+import { providerRequestLimiter, syncJobQueue } from '@/lib/sync/job-queue'
 
 export const dynamic = 'force-dynamic'
 
@@ -19,7 +20,11 @@ export async function GET() {
             completedAt: syncCompletedAt,
             error: syncError,
             isComplete: syncStatus === 'completed',
-            inProgress: syncStatus === 'in_progress'
+            inProgress: syncStatus === 'in_progress',
+            queue: {
+                ...syncJobQueue.getStatus(),
+                requests: providerRequestLimiter.getStatus()
+            }
         })
     } catch (error) {
         console.error('Failed to get sync status:', error)
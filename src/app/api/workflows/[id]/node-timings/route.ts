@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getNodeTimingService } from '@/lib/services/node-timing-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/workflows/[id]/node-timings?days=30&node= - Per-node latency and regression analytics
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const days = parseInt(searchParams.get('days') || '30')
+    const nodeName = searchParams.get('node') || undefined
+
+    if (!Number.isInteger(days) || days < 1 || days > 90) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Days must be between 1 and 90'
+        },
+        { status: 400 }
+      )
+    }
+
+    const analytics = await getNodeTimingService().getWorkflowAnalytics(id, { days, nodeName })
+
+    return NextResponse.json({
+      success: true,
+      data: analytics
+    })
+  } catch (error) {
+    console.error('Failed to fetch node timings:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch node timings'
+      },
+      { status: 500 }
+    )
+  }
+}
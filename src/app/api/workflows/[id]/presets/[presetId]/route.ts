@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getWorkflowRunService } from '@/lib/services/workflow-run-service'
+
+export const dynamic = 'force-dynamic'
+
+// DELETE /api/workflows/[id]/presets/[presetId]?providerId= - Delete an input preset
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; presetId: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, presetId } = await params
+    const service = getWorkflowRunService()
+    const workflow = await service.getWorkflow(user.id, id, request.nextUrl.searchParams.get('providerId') || undefined)
+
+    if (!workflow || !await service.deletePreset(workflow, presetId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Preset not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Preset deleted'
+    })
+  } catch (error) {
+    console.error('Failed to delete workflow input preset:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete workflow input preset'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getWorkflowRunService } from '@/lib/services/workflow-run-service'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_PRESET_NAME_LENGTH = 100
+
+// GET /api/workflows/[id]/presets?providerId= - Named input payloads saved for running a workflow
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const service = getWorkflowRunService()
+    const workflow = await service.getWorkflow(user.id, id, request.nextUrl.searchParams.get('providerId') || undefined)
+
+    if (!workflow) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Workflow not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    const presets = await service.listPresets(workflow)
+
+    return NextResponse.json({
+      success: true,
+      data: presets
+    })
+  } catch (error) {
+    console.error('Failed to fetch workflow input presets:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch workflow input presets'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/workflows/[id]/presets - Save an input preset ({ name, payload, providerId? }); an existing name is overwritten
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    if (!name || name.length > MAX_PRESET_NAME_LENGTH) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `name is required and must be at most ${MAX_PRESET_NAME_LENGTH} characters`
+        },
+        { status: 400 }
+      )
+    }
+
+    if (typeof body.payload !== 'object' || body.payload === null || Array.isArray(body.payload)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'payload must be a JSON object'
+        },
+        { status: 400 }
+      )
+    }
+
+    const service = getWorkflowRunService()
+    const workflow = await service.getWorkflow(user.id, id, body.providerId)
+
+    if (!workflow) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Workflow not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    const preset = await service.savePreset(workflow, name, body.payload, user.email)
+
+    return NextResponse.json({
+      success: true,
+      data: preset,
+      message: `Preset "${name}" saved`
+    })
+  } catch (error) {
+    console.error('Failed to save workflow input preset:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save workflow input preset'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getWorkflowVersionService } from '@/lib/services/workflow-version-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/workflows/[id]/restores - Audit trail of version restores for a workflow
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const restores = await getWorkflowVersionService().listRestores(id)
+
+    return NextResponse.json({
+      success: true,
+      data: restores
+    })
+  } catch (error) {
+    console.error('Failed to fetch workflow restores:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch workflow restores'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, canOperateExecutions } from '@/lib/api-auth'
+import { getWorkflowRunService } from '@/lib/services/workflow-run-service'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/workflows/[id]/run - Run a workflow now with a JSON input payload ({ payload, providerId? })
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canOperateExecutions(user)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'You do not have permission to run workflows'
+        },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const payload = body.payload ?? {}
+
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'payload must be a JSON object'
+        },
+        { status: 400 }
+      )
+    }
+
+    const service = getWorkflowRunService()
+    const workflow = await service.getWorkflow(user.id, id, body.providerId)
+
+    if (!workflow) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Workflow not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    const result = await service.start(user, workflow, payload)
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error
+        },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: `${workflow.name} started`
+    })
+  } catch (error) {
+    console.error('Failed to run workflow:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to run workflow'
+      },
+      { status: 500 }
+    )
+  }
+}
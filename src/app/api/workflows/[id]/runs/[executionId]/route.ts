@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getWorkflowRunService } from '@/lib/services/workflow-run-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/workflows/[id]/runs/[executionId]?providerId= - Live status of a run started from Elova, by provider execution ID
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; executionId: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, executionId } = await params
+    const service = getWorkflowRunService()
+    const workflow = await service.getWorkflow(user.id, id, request.nextUrl.searchParams.get('providerId') || undefined)
+
+    if (!workflow) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Workflow not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    const result = await service.getRunStatus(user.id, workflow.providerId, executionId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error
+        },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Failed to get workflow run status:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to get workflow run status'
+      },
+      { status: 500 }
+    )
+  }
+}
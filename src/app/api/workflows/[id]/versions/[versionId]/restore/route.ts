@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getWorkflowVersionService } from '@/lib/services/workflow-version-service'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/workflows/[id]/versions/[versionId]/restore - Preview ({ dryRun: true }) or apply ({ confirm: true }) a restore
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, versionId } = await params
+    const body = await request.json().catch(() => ({}))
+    const service = getWorkflowVersionService()
+
+    const version = await service.getVersion(versionId, false)
+    if (!version || version.providerWorkflowId !== id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Workflow version not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    if (body.dryRun) {
+      const preview = await service.previewRestore(versionId, user.id)
+      return NextResponse.json({
+        success: true,
+        data: preview
+      })
+    }
+
+    if (body.confirm !== true) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Restoring overwrites the workflow on the provider and must be confirmed'
+        },
+        { status: 400 }
+      )
+    }
+
+    const restore = await service.restoreVersion(versionId, user)
+    if (!restore || restore.status === 'failed') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: restore?.error || 'Failed to restore workflow version',
+          data: restore
+        },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: restore,
+      message: `Workflow restored to version ${version.versionNumber}`
+    })
+  } catch (error) {
+    console.error('Failed to restore workflow version:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to restore workflow version'
+      },
+      { status: 500 }
+    )
+  }
+}
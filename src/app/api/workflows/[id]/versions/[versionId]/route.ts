@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getWorkflowVersionService } from '@/lib/services/workflow-version-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/workflows/[id]/versions/[versionId] - A single version including its workflow JSON
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, versionId } = await params
+    const version = await getWorkflowVersionService().getVersion(versionId)
+
+    if (!version || version.providerWorkflowId !== id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Workflow version not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: version
+    })
+  } catch (error) {
+    console.error('Failed to fetch workflow version:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch workflow version'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getWorkflowVersionService } from '@/lib/services/workflow-version-service'
+import { diffWorkflows } from '@/lib/workflows/workflow-diff'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/workflows/[id]/versions/diff?from=&to= - Structural diff between two versions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const fromId = searchParams.get('from')
+    const toId = searchParams.get('to')
+
+    if (!fromId || !toId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Both from and to version IDs are required'
+        },
+        { status: 400 }
+      )
+    }
+
+    const service = getWorkflowVersionService()
+    const [from, to] = await Promise.all([service.getVersion(fromId), service.getVersion(toId)])
+
+    if (!from || !to || from.providerWorkflowId !== id || to.providerWorkflowId !== id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Workflow version not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    const diff = diffWorkflows(from.workflowData || {}, to.workflowData || {})
+
+    // The JSON of both versions is not needed by the caller
+    delete from.workflowData
+    delete to.workflowData
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        from,
+        to,
+        diff
+      }
+    })
+  } catch (error) {
+    console.error('Failed to diff workflow versions:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to diff workflow versions'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getWorkflowVersionService } from '@/lib/services/workflow-version-service'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/workflows/[id]/versions - Version history of a workflow, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request)
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const versions = await getWorkflowVersionService().listVersions(id)
+
+    return NextResponse.json({
+      success: true,
+      data: versions
+    })
+  } catch (error) {
+    console.error('Failed to list workflow versions:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list workflow versions'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,378 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/contexts/AuthContext'
+import { useTheme } from '@/contexts/ThemeContext'
+import { useTimezone } from '@/contexts/TimezoneContext'
+import { AppLayout } from '@/components/app-layout'
+import { WithN8NConnection } from '@/components/with-n8n-connection'
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts'
+import {
+  ArrowLeftIcon,
+  ArrowPathIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline'
+import { Badge } from '@/components/badge'
+import { Button } from '@/components/button'
+import { Select } from '@/components/select'
+import { apiClient } from '@/lib/api-client'
+import { CronCalendar, CronCalendarBucket, CronCalendarRange, Provider } from '@/types'
+
+type HeatmapMetric = 'scheduled' | 'historical'
+
+const THRESHOLD_OPTIONS = [2, 3, 5, 10]
+
+// Heatmap cells use the chart colors: indigo for schedules, emerald for history
+const HEATMAP_COLORS: Record<HeatmapMetric, string> = {
+  scheduled: '79, 70, 229',
+  historical: '16, 185, 129'
+}
+
+// Calendar times are shown in the timezone the calendar was laid out in
+const formatTime = (date: Date | string, timeZone: string) => new Intl.DateTimeFormat('en-GB', {
+  hour: '2-digit',
+  minute: '2-digit',
+  timeZone
+}).format(new Date(date))
+
+const formatDay = (date: Date | string, timeZone: string) => new Intl.DateTimeFormat('en-US', {
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric',
+  timeZone
+}).format(new Date(date))
+
+function CronCalendarContent() {
+  const { theme } = useTheme()
+  const { timeZone } = useTimezone()
+  const [calendar, setCalendar] = useState<CronCalendar | null>(null)
+  const [providers, setProviders] = useState<Provider[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [range, setRange] = useState<CronCalendarRange>('week')
+  const [providerFilter, setProviderFilter] = useState('all')
+  const [threshold, setThreshold] = useState(3)
+  const [metric, setMetric] = useState<HeatmapMetric>('scheduled')
+  const router = useRouter()
+
+  const gridColor = theme === 'dark' ? '#3f3f46' : '#f3f4f6'
+  const axisColor = theme === 'dark' ? '#a1a1aa' : '#6b7280'
+  const textColor = theme === 'dark' ? '#e4e4e7' : '#374151'
+
+  useEffect(() => {
+    apiClient.get<{ data: Provider[] }>('/providers')
+      .then(response => setProviders(response.data))
+      .catch(error => console.error('Failed to fetch providers:', error))
+  }, [])
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ range, threshold: String(threshold), timezone: timeZone })
+      if (providerFilter !== 'all') {
+        params.append('providerId', providerFilter)
+      }
+
+      const response = await apiClient.get<{ data: CronCalendar }>(`/cron-jobs/calendar?${params}`)
+      setCalendar(response.data)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to fetch cron calendar:', err)
+      setError('Failed to load cron calendar')
+    } finally {
+      setLoading(false)
+    }
+  }, [range, providerFilter, threshold, timeZone])
+
+  useEffect(() => {
+    fetchCalendar()
+  }, [fetchCalendar])
+
+  const calendarTimeZone = calendar?.timeZone || timeZone
+  const time = (date: Date | string) => formatTime(date, calendarTimeZone)
+  const day = (date: Date | string) => formatDay(date, calendarTimeZone)
+
+  // Day view: a row per hour with a cell per minute. Week view: a row per local day with a
+  // cell per hour, so days with a daylight saving change get 23 or 25 cells.
+  const rows: CronCalendarBucket[][] = []
+  for (let i = 0; calendar && i < calendar.buckets.length;) {
+    let end = Math.min(i + 60, calendar.buckets.length)
+    if (calendar.range === 'week') {
+      const rowDay = day(calendar.buckets[i].start)
+      end = i + 1
+      while (end < calendar.buckets.length && day(calendar.buckets[end].start) === rowDay) end++
+    }
+    rows.push(calendar.buckets.slice(i, end))
+    i = end
+  }
+
+  const cellValue = (bucket: CronCalendarBucket) => metric === 'scheduled' ? bucket.scheduledRuns : bucket.historicalAvg
+  const maxValue = Math.max(0, ...(calendar?.buckets.map(cellValue) || []))
+  const totalScheduled = calendar?.buckets.reduce((sum, bucket) => sum + bucket.scheduledRuns, 0) || 0
+  const peakConcurrency = Math.max(0, ...(calendar?.buckets.map(bucket => bucket.peakConcurrency) || []))
+  const collisionBuckets = calendar?.buckets.filter(bucket => bucket.peakConcurrency >= calendar.collisionThreshold).length || 0
+
+  const chartData = calendar?.buckets.map(bucket => ({
+    label: calendar.range === 'day' ? time(bucket.start) : `${day(bucket.start)} ${time(bucket.start)}`,
+    scheduled: bucket.scheduledRuns,
+    historical: bucket.historicalAvg
+  })) || []
+
+  const cellTitle = (bucket: CronCalendarBucket) => {
+    const label = calendar?.range === 'day'
+      ? time(bucket.start)
+      : `${day(bucket.start)} ${time(bucket.start)}–${time(new Date(new Date(bucket.start).getTime() + 60 * 60 * 1000))}`
+    return [
+      `${label} ${calendarTimeZone}`,
+      `Scheduled: ${bucket.scheduledRuns}`,
+      `Most at once on one instance: ${bucket.peakConcurrency}`,
+      `Historical average: ${bucket.historicalAvg}`
+    ].join('\n')
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <ExclamationTriangleIcon className="mx-auto h-12 w-12 text-red-400" />
+        <h3 className="mt-2 text-sm font-semibold text-gray-900 dark:text-white">Error loading cron calendar</h3>
+        <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">{error}</p>
+        <Button onClick={fetchCalendar} className="mt-4">
+          Try again
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/cron-jobs" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 dark:text-slate-400 dark:hover:text-slate-200">
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Cron Jobs
+          </Link>
+          <h1 className="mt-1 text-2xl font-bold text-gray-900 dark:text-white">Cron Calendar</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-slate-400">
+            When active workflows are scheduled to run, where they pile up on one instance, and how busy each slot has been
+          </p>
+        </div>
+        <Button outline onClick={fetchCalendar} disabled={loading} className="flex items-center space-x-2">
+          <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Range</label>
+          <Select value={range} onChange={(e) => setRange(e.target.value as CronCalendarRange)}>
+            <option value="day">Next 24 hours (per minute)</option>
+            <option value="week">Next 7 days (per hour)</option>
+          </Select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">n8n Instance</label>
+          <Select value={providerFilter} onChange={(e) => setProviderFilter(e.target.value)}>
+            <option value="all">All instances</option>
+            {providers.map(provider => (
+              <option key={provider.id} value={provider.id}>
+                {provider.name}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Collision At</label>
+          <Select value={threshold} onChange={(e) => setThreshold(parseInt(e.target.value))}>
+            {THRESHOLD_OPTIONS.map(option => (
+              <option key={option} value={option}>
+                {option}+ workflows in the same minute
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Color By</label>
+          <Select value={metric} onChange={(e) => setMetric(e.target.value as HeatmapMetric)}>
+            <option value="scheduled">Scheduled runs</option>
+            <option value="historical">Historical load</option>
+          </Select>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div className="bg-white dark:bg-slate-800 rounded-lg p-4 ring-1 ring-zinc-950/5 dark:ring-white/10">
+          <p className="text-sm text-gray-500 dark:text-slate-400">Scheduled Runs</p>
+          <p className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">{totalScheduled}</p>
+        </div>
+        <div className="bg-white dark:bg-slate-800 rounded-lg p-4 ring-1 ring-zinc-950/5 dark:ring-white/10">
+          <p className="text-sm text-gray-500 dark:text-slate-400">Most Workflows in One Minute</p>
+          <p className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">{peakConcurrency}</p>
+        </div>
+        <div className="bg-white dark:bg-slate-800 rounded-lg p-4 ring-1 ring-zinc-950/5 dark:ring-white/10">
+          <p className="text-sm text-gray-500 dark:text-slate-400">
+            {calendar?.range === 'day' ? 'Minutes' : 'Hours'} with Collisions
+          </p>
+          <p className={`mt-1 text-2xl font-semibold ${collisionBuckets > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+            {collisionBuckets}
+          </p>
+        </div>
+      </div>
+
+      {/* Heatmap */}
+      <div className="bg-white dark:bg-slate-800 rounded-lg p-6 ring-1 ring-zinc-950/5 dark:ring-white/10">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            {metric === 'scheduled' ? 'Scheduled Runs' : `Average Executions (last ${calendar?.historyDays || 0} days)`}
+          </h3>
+          <span className="text-xs text-gray-500 dark:text-slate-400">
+            Times in {calendarTimeZone}. Outlined cells have a collision.
+          </span>
+        </div>
+
+        {loading && !calendar ? (
+          <div className="h-48 animate-pulse bg-gray-100 dark:bg-slate-700 rounded" />
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="inline-block min-w-full space-y-1">
+              {rows.map(row => (
+                <div key={String(row[0].start)} className="flex items-center gap-px">
+                  <span className="w-28 shrink-0 text-xs text-gray-500 dark:text-slate-400">
+                    {calendar?.range === 'day' ? time(row[0].start) : day(row[0].start)}
+                  </span>
+                  {row.map(bucket => {
+                    const value = cellValue(bucket)
+                    const isCollision = bucket.peakConcurrency >= (calendar?.collisionThreshold || Infinity)
+                    return (
+                      <div
+                        key={String(bucket.start)}
+                        title={cellTitle(bucket)}
+                        className={`${calendar?.range === 'day' ? 'h-4 w-2.5' : 'h-6 w-6'} rounded-sm ${value > 0 ? '' : 'bg-gray-100 dark:bg-slate-700'} ${isCollision ? 'ring-2 ring-red-500' : ''}`}
+                        style={value > 0 ? { backgroundColor: `rgba(${HEATMAP_COLORS[metric]}, ${0.15 + 0.85 * (value / maxValue)})` } : undefined}
+                      />
+                    )
+                  })}
+                </div>
+              ))}
+              {calendar?.range === 'week' && (
+                <div className="flex gap-px">
+                  <span className="w-28 shrink-0" />
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <span key={hour} className="w-6 text-center text-[10px] text-gray-400">
+                      {hour % 3 === 0 ? hour : ''}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Scheduled vs historical load */}
+      <div className="bg-white dark:bg-slate-800 rounded-lg p-6 ring-1 ring-zinc-950/5 dark:ring-white/10">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Scheduled vs Historical Load</h3>
+        <ResponsiveContainer width="100%" height={260}>
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+            <XAxis dataKey="label" stroke={axisColor} tick={{ fill: textColor, fontSize: 11 }} minTickGap={40} />
+            <YAxis stroke={axisColor} tick={{ fill: textColor }} allowDecimals={false} />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey="scheduled" name="Scheduled runs" fill="#4f46e5" />
+            <Line type="monotone" dataKey="historical" name="Average executions" stroke="#10b981" dot={false} strokeWidth={2} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Collisions */}
+      <div className="bg-white dark:bg-slate-800 rounded-lg p-6 ring-1 ring-zinc-950/5 dark:ring-white/10">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Collisions</h3>
+        {!calendar || calendar.collisions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-slate-400">
+            No minute has {threshold} or more workflows scheduled on the same instance.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {calendar.collisions.map(collision => (
+              <div key={`${collision.providerId}:${collision.minute}`} className="flex flex-col gap-1 border-b border-gray-100 dark:border-slate-700 pb-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {day(collision.minute)} {time(collision.minute)}
+                  </span>
+                  <Badge color="zinc">{collision.providerName}</Badge>
+                  <Badge color="red">{collision.workflows.length} workflows</Badge>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {collision.workflows.map(workflow => (
+                    <button
+                      key={workflow.id}
+                      type="button"
+                      className="text-xs text-indigo-600 hover:text-indigo-500 dark:text-indigo-400"
+                      onClick={() => router.push(`/workflows/${workflow.id}`)}
+                    >
+                      {workflow.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {calendar && calendar.unsupportedSchedules.length > 0 && (
+        <div className="rounded-md bg-yellow-50 dark:bg-yellow-900/20 p-4 text-sm text-yellow-800 dark:text-yellow-300">
+          Not shown, schedule could not be evaluated:{' '}
+          {calendar.unsupportedSchedules.map(schedule => `${schedule.workflowName} (${schedule.expression})`).join(', ')}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function CronCalendarPage() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    }
+  }, [user, loading, router])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <AppLayout>
+      <WithN8NConnection>
+        <CronCalendarContent />
+      </WithN8NConnection>
+    </AppLayout>
+  )
+}
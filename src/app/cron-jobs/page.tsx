@@ -1,8 +1,9 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, Fragment } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/AuthContext'
+import { useTimezone } from '@/contexts/TimezoneContext'
 import { AppLayout } from '@/components/app-layout'
 import { WithN8NConnection } from '@/components/with-n8n-connection'
 import { apiClient } from '@/lib/api-client'
@@ -11,9 +12,12 @@ import {
   ClockIcon,
   ExclamationTriangleIcon,
   ArrowPathIcon,
-  ArchiveBoxIcon
+  ArchiveBoxIcon,
+  CalendarDaysIcon,
+  ChevronDownIcon,
+  ChevronRightIcon
 } from '@heroicons/react/24/outline'
-import { Provider } from '@/types'
+import { CronRunCheck, CronRunOccurrence, Provider } from '@/types'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/table'
 import { Badge } from '@/components/badge'
 import { Button } from '@/components/button'
@@ -36,9 +40,24 @@ interface CronJob {
     cronExpression: string
   }>
   updatedAt: string
+  runCheck: CronRunCheck | null
+}
+
+const TOLERANCE_OPTIONS = [
+  { value: '60', label: '1 minute' },
+  { value: '120', label: '2 minutes' },
+  { value: '300', label: '5 minutes' },
+  { value: '900', label: '15 minutes' }
+]
+
+const formatDelay = (ms: number) => {
+  if (ms < 60 * 1000) return `${Math.round(ms / 1000)}s`
+  if (ms < 60 * 60 * 1000) return `${Math.round(ms / 60000)}m`
+  return `${Math.round(ms / 360000) / 10}h`
 }
 
 function CronJobsContent() {
+  const { timeZone } = useTimezone()
   const [cronJobs, setCronJobs] = useState<CronJob[]>([])
   const [providers, setProviders] = useState<Provider[]>([])
   const [loading, setLoading] = useState(true)
@@ -46,6 +65,8 @@ function CronJobsContent() {
   const [error, setError] = useState<string | null>(null)
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive' | 'archived'>('active')
   const [providerFilter, setProviderFilter] = useState<string>('all')
+  const [toleranceSeconds, setToleranceSeconds] = useState('120')
+  const [expandedJob, setExpandedJob] = useState<string | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
   const [totalCount, setTotalCount] = useState(0)
   const [totalPages, setTotalPages] = useState(0)
@@ -71,6 +92,7 @@ function CronJobsContent() {
       const params = new URLSearchParams()
       params.append('page', page.toString())
       params.append('limit', itemsPerPage.toString())
+      params.append('toleranceSeconds', toleranceSeconds)
 
       if (statusFilter !== 'all') {
         params.append('status', statusFilter)
@@ -91,12 +113,12 @@ function CronJobsContent() {
     } finally {
       setLoading(false)
     }
-  }, [statusFilter, providerFilter, itemsPerPage])
+  }, [statusFilter, providerFilter, toleranceSeconds, itemsPerPage])
 
   useEffect(() => {
     setCurrentPage(1)
     fetchCronJobs(1)
-  }, [statusFilter, providerFilter])
+  }, [statusFilter, providerFilter, toleranceSeconds])
 
   useEffect(() => {
     fetchCronJobs(currentPage)
@@ -129,7 +151,7 @@ function CronJobsContent() {
     }
   }
 
-  const formatDate = (date: string | undefined | null) => {
+  const formatDate = (date: string | Date | undefined | null) => {
     if (!date) return 'Never'
     try {
       const dateObj = new Date(date)
@@ -137,7 +159,8 @@ function CronJobsContent() {
         month: 'short',
         day: 'numeric',
         hour: '2-digit',
-        minute: '2-digit'
+        minute: '2-digit',
+        timeZone
       }).format(dateObj)
     } catch (error) {
       console.error('Failed to format date:', date, error)
@@ -160,6 +183,42 @@ function CronJobsContent() {
     }
   }
 
+  const renderRunHealth = (check: CronRunCheck | null) => {
+    if (!check) {
+      return <span className="text-xs text-gray-400">Not scheduled</span>
+    }
+    if (check.expectedRuns === 0) {
+      return (
+        <span className="text-xs text-gray-500 dark:text-slate-400">
+          {check.unsupportedSchedules.length > 0 ? 'Unsupported schedule' : 'No runs due yet'}
+        </span>
+      )
+    }
+
+    const flagged = check.missedRuns > 0 || check.lateRuns > 0 || check.duplicateRuns > 0
+    return (
+      <div className="flex flex-col gap-1">
+        <div className="flex flex-wrap gap-1">
+          {!flagged && <Badge color="green">On schedule</Badge>}
+          {check.missedRuns > 0 && <Badge color="red">{check.missedRuns} missed</Badge>}
+          {check.lateRuns > 0 && <Badge color="amber">{check.lateRuns} late</Badge>}
+          {check.duplicateRuns > 0 && <Badge color="purple">{check.duplicateRuns} duplicate</Badge>}
+        </div>
+        <span className="text-xs text-gray-500 dark:text-slate-400">
+          {check.onTimeRuns}/{check.expectedRuns} on time since {formatDate(check.windowStart)}
+        </span>
+      </div>
+    )
+  }
+
+  const describeOccurrence = (occurrence: CronRunOccurrence) => {
+    const parts: string[] = []
+    if (occurrence.timing === 'missed') parts.push('No run')
+    if (occurrence.timing === 'late' && occurrence.delayMs !== null) parts.push(`Started ${formatDelay(occurrence.delayMs)} late`)
+    if (occurrence.duplicates > 0) parts.push(`${occurrence.duplicates} duplicate run${occurrence.duplicates !== 1 ? 's' : ''}`)
+    return parts.join(', ')
+  }
+
   if (error) {
     return (
       <div className="text-center py-12">
@@ -180,10 +239,14 @@ function CronJobsContent() {
         <div>
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white dark:text-white">Cron Jobs</h1>
           <p className="mt-2 text-sm text-gray-600 dark:text-slate-400">
-            View all scheduled cron jobs from your workflows
+            View all scheduled cron jobs from your workflows and whether they ran on schedule
           </p>
         </div>
         <div className="flex space-x-3">
+          <Button outline href="/cron-jobs/calendar" className="flex items-center space-x-2">
+            <CalendarDaysIcon className="h-4 w-4" />
+            <span>Calendar</span>
+          </Button>
           <Button
             outline
             onClick={syncWorkflows}
@@ -200,7 +263,7 @@ function CronJobsContent() {
       </div>
 
       {/* Filters */}
-      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
         <div>
           <label htmlFor="provider" className="block text-sm font-medium text-gray-700 dark:text-slate-300 dark:text-slate-300 mb-1">
             n8n Instance
@@ -232,6 +295,22 @@ function CronJobsContent() {
             <option value="archived">Archived only</option>
           </Select>
         </div>
+
+        <div>
+          <label htmlFor="tolerance" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+            Late After
+          </label>
+          <Select
+            value={toleranceSeconds}
+            onChange={(e) => setToleranceSeconds(e.target.value)}
+          >
+            {TOLERANCE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Select>
+        </div>
       </div>
 
       {/* Results Summary */}
@@ -255,6 +334,8 @@ function CronJobsContent() {
               <TableHeader>Instance</TableHeader>
               <TableHeader>Workflow Name</TableHeader>
               <TableHeader>Cron Schedules</TableHeader>
+              <TableHeader>Run Health</TableHeader>
+              <TableHeader>Next Run</TableHeader>
             </TableRow>
           </TableHead>
           <TableBody>
@@ -262,7 +343,7 @@ function CronJobsContent() {
               // Loading rows
               Array.from({ length: 5 }).map((_, i) => (
                 <TableRow key={i}>
-                  <TableCell colSpan={4}>
+                  <TableCell colSpan={6}>
                     <div className="animate-pulse flex space-x-4 py-4">
                       <div className="rounded-full bg-gray-300 h-6 w-6"></div>
                       <div className="flex-1 space-y-2">
@@ -275,68 +356,133 @@ function CronJobsContent() {
               ))
             ) : cronJobs.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={4} className="text-center py-8 text-gray-500">
+                <TableCell colSpan={6} className="text-center py-8 text-gray-500">
                   No workflows with cron schedules found
                 </TableCell>
               </TableRow>
             ) : (
               cronJobs.map((job) => {
                 const provider = providers.find(p => p.id === job.providerId)
+                const issues = job.runCheck?.issues || []
+                const isExpanded = expandedJob === job.id
                 return (
-                  <TableRow
-                    key={job.id}
-                    className="hover:bg-gray-50 dark:hover:bg-slate-800 cursor-pointer"
-                    onClick={() => router.push(`/workflows/${job.workflowId}`)}
-                  >
-                    <TableCell>
-                      <Badge
-                        color={job.isActive ? 'green' : job.isArchived ? 'orange' : 'zinc'}
-                        className="flex items-center space-x-1"
-                      >
-                        {job.isActive ? (
-                          <CheckCircleIcon className="h-3 w-3" />
-                        ) : job.isArchived ? (
-                          <ArchiveBoxIcon className="h-3 w-3" />
+                  <Fragment key={job.id}>
+                    <TableRow
+                      className="hover:bg-gray-50 dark:hover:bg-slate-800 cursor-pointer"
+                      onClick={() => router.push(`/workflows/${job.workflowId}`)}
+                    >
+                      <TableCell>
+                        <Badge
+                          color={job.isActive ? 'green' : job.isArchived ? 'orange' : 'zinc'}
+                          className="flex items-center space-x-1"
+                        >
+                          {job.isActive ? (
+                            <CheckCircleIcon className="h-3 w-3" />
+                          ) : job.isArchived ? (
+                            <ArchiveBoxIcon className="h-3 w-3" />
+                          ) : (
+                            <ClockIcon className="h-3 w-3" />
+                          )}
+                          <span>
+                            {job.isActive ? 'Active' : job.isArchived ? 'Archived' : 'Inactive'}
+                          </span>
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {provider ? (
+                          <Badge color="zinc" className="text-xs">
+                            {provider.name}
+                          </Badge>
                         ) : (
-                          <ClockIcon className="h-3 w-3" />
+                          <span className="text-xs text-gray-400">Unknown</span>
                         )}
-                        <span>
-                          {job.isActive ? 'Active' : job.isArchived ? 'Archived' : 'Inactive'}
-                        </span>
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      {provider ? (
-                        <Badge color="zinc" className="text-xs">
-                          {provider.name}
-                        </Badge>
-                      ) : (
-                        <span className="text-xs text-gray-400">Unknown</span>
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex flex-col">
-                        <span
-                          className="font-medium text-gray-900 dark:text-white truncate max-w-xs"
-                          title={job.workflowName}
-                        >
-                          {job.workflowName}
-                        </span>
-                        <span className="text-xs text-gray-500 font-mono truncate max-w-xs" title={job.workflowId}>
-                          {job.workflowId}
-                        </span>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex flex-col gap-2">
-                        {job.cronSchedules.map((schedule, index) => (
-                          <div key={index} className="text-sm text-gray-900 dark:text-white">
-                            {formatCronExpression(schedule.cronExpression)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span
+                            className="font-medium text-gray-900 dark:text-white truncate max-w-xs"
+                            title={job.workflowName}
+                          >
+                            {job.workflowName}
+                          </span>
+                          <span className="text-xs text-gray-500 font-mono truncate max-w-xs" title={job.workflowId}>
+                            {job.workflowId}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col gap-2">
+                          {job.cronSchedules.map((schedule, index) => (
+                            <div key={index} className="text-sm text-gray-900 dark:text-white">
+                              {formatCronExpression(schedule.cronExpression)}
+                            </div>
+                          ))}
+                          {job.runCheck && (
+                            <span className="text-xs text-gray-500 dark:text-slate-400">
+                              Evaluated in {job.runCheck.timeZone}
+                            </span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-start gap-1">
+                          {issues.length > 0 && (
+                            <button
+                              type="button"
+                              className="mt-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-slate-200"
+                              title={isExpanded ? 'Hide flagged runs' : 'Show flagged runs'}
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                setExpandedJob(isExpanded ? null : job.id)
+                              }}
+                            >
+                              {isExpanded ? <ChevronDownIcon className="h-4 w-4" /> : <ChevronRightIcon className="h-4 w-4" />}
+                            </button>
+                          )}
+                          {renderRunHealth(job.runCheck)}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col text-sm text-gray-900 dark:text-white">
+                          <span>{job.runCheck?.nextRunAt ? formatDate(job.runCheck.nextRunAt) : '—'}</span>
+                          {job.runCheck && (
+                            <span className="text-xs text-gray-500 dark:text-slate-400">
+                              Last: {formatDate(job.runCheck.lastRunAt)}
+                            </span>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="bg-gray-50 dark:bg-slate-900">
+                          <div className="space-y-1 py-1">
+                            <p className="text-xs text-gray-500 dark:text-slate-400">
+                              Most recent flagged fire times ({job.runCheck?.timeZone} schedule, late after {formatDelay(job.runCheck?.toleranceMs || 0)})
+                            </p>
+                            {issues.map(occurrence => (
+                              <div key={String(occurrence.expectedAt)} className="flex items-center gap-3 text-sm">
+                                <span className="w-32 text-gray-900 dark:text-white">{formatDate(occurrence.expectedAt)}</span>
+                                <Badge color={occurrence.timing === 'missed' ? 'red' : occurrence.timing === 'late' ? 'amber' : 'purple'}>
+                                  {occurrence.timing === 'on_time' ? 'duplicate' : occurrence.timing}
+                                </Badge>
+                                <span className="text-gray-600 dark:text-slate-400">{describeOccurrence(occurrence)}</span>
+                                {occurrence.executionIds[0] && (
+                                  <button
+                                    type="button"
+                                    className="text-xs text-indigo-600 hover:text-indigo-500 dark:text-indigo-400"
+                                    onClick={() => router.push(`/executions/${occurrence.executionIds[0]}`)}
+                                  >
+                                    View execution
+                                  </button>
+                                )}
+                              </div>
+                            ))}
                           </div>
-                        ))}
-                      </div>
-                    </TableCell>
-                  </TableRow>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
                 )
               })
             )}
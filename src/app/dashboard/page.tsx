@@ -1,13 +1,15 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/AuthContext'
 import { AppLayout } from '@/components/app-layout'
 import { WithN8NConnection } from '@/components/with-n8n-connection'
 import { MetricsChart } from '@/components/charts/metrics-chart'
 import { apiClient } from '@/lib/api-client'
+import { useLiveEvents } from '@/hooks/use-live-events'
 import { DashboardStats, TimeRange } from '@/types'
+import { Badge } from '@/components/badge'
 import { 
   PlayIcon,
   ClockIcon,
@@ -16,30 +18,52 @@ import {
   ExclamationTriangleIcon
 } from '@heroicons/react/24/outline'
 
+// Stats aggregate the whole time range, so live updates are batched into one refresh
+const LIVE_REFRESH_DELAY_MS = 5000
+
 function DashboardContent() {
   const [stats, setStats] = useState<DashboardStats | null>(null)
   const [timeRange, setTimeRange] = useState<TimeRange>('30d') // Changed to 30d to show more realistic totals
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const liveRefreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
 
-  useEffect(() => {
-    const fetchStats = async () => {
-      try {
-        setLoading(true)
-        const response = await apiClient.get<{ data: DashboardStats }>(`/dashboard/stats?timeRange=${timeRange}`)
-        setStats(response.data)
-        setError(null)
-      } catch (err) {
-        console.error('Failed to fetch dashboard stats:', err)
-        setError('Failed to load dashboard data')
-      } finally {
-        setLoading(false)
-      }
+  const fetchStats = async (silent = false) => {
+    try {
+      if (!silent) setLoading(true)
+      const response = await apiClient.get<{ data: DashboardStats }>(`/dashboard/stats?timeRange=${timeRange}`)
+      setStats(response.data)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to fetch dashboard stats:', err)
+      if (!silent) setError('Failed to load dashboard data')
+    } finally {
+      setLoading(false)
     }
+  }
 
+  useEffect(() => {
     fetchStats()
   }, [timeRange])
 
+  // Refreshes scheduled before the time range changed would load the old range
+  useEffect(() => () => {
+    if (liveRefreshTimer.current) clearTimeout(liveRefreshTimer.current)
+    liveRefreshTimer.current = null
+  }, [timeRange])
+
+  const liveConnected = useLiveEvents({
+    onExecution: () => {
+      if (liveRefreshTimer.current) return
+      liveRefreshTimer.current = setTimeout(() => {
+        liveRefreshTimer.current = null
+        fetchStats(true)
+        setRefreshKey(key => key + 1)
+      }, LIVE_REFRESH_DELAY_MS)
+    }
+  })
+
   const statsDisplay = [
     { 
       name: 'Total Executions', 
@@ -66,7 +90,9 @@ function DashboardContent() {
       name: 'Avg Response Time', 
       value: loading ? '...' : `${stats?.avgResponseTime ?? 0}ms`,
       icon: ClockIcon, 
-      change: '',
+      change: stats?.responseTimePercentiles
+        ? `p50 ${stats.responseTimePercentiles.p50}ms · p95 ${stats.responseTimePercentiles.p95}ms · p99 ${stats.responseTimePercentiles.p99}ms`
+        : '',
       changeType: 'neutral' as const
     },
   ]
@@ -93,7 +119,12 @@ function DashboardContent() {
       <div className="mb-8">
         <div className="flex items-start justify-between mb-6">
           <div>
-            <h1 className="text-2xl font-bold text-gray-900 dark:text-white dark:text-white">Dashboard</h1>
+            <div className="flex items-center space-x-3">
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white dark:text-white">Dashboard</h1>
+              {liveConnected && (
+                <Badge color="green" title="Stats refresh as syncs store new executions">Live</Badge>
+              )}
+            </div>
             <p className="mt-2 text-sm text-gray-600 dark:text-slate-400">
               Overview of your workflow automation across all platforms
             </p>
@@ -110,6 +141,9 @@ function DashboardContent() {
               {item.name}
             </dt>
             <dd className="mt-1 text-3xl font-semibold text-gray-900 dark:text-white">{item.value}</dd>
+            {!loading && item.change && (
+              <dd className="mt-1 text-xs text-gray-500 dark:text-slate-400 truncate">{item.change}</dd>
+            )}
           </div>
         ))}
       </div>
@@ -118,6 +152,7 @@ function DashboardContent() {
       <MetricsChart 
         timeRange={timeRange}
         onTimeRangeChange={setTimeRange}
+        refreshKey={refreshKey}
       />
     </div>
   )
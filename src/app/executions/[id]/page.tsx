@@ -6,6 +6,7 @@ import { useAuth } from '@/contexts/AuthContext'
 import { AppLayout } from '@/components/app-layout'
 import { WithN8NConnection } from '@/components/with-n8n-connection'
 import { apiClient } from '@/lib/api-client'
+import { useLiveEvents } from '@/hooks/use-live-events'
 import {
   ArrowLeftIcon,
   ClockIcon,
@@ -19,11 +20,18 @@ import {
   ChartBarIcon,
   ClipboardDocumentIcon,
   ChevronRightIcon,
-  ChevronDownIcon
+  ChevronDownIcon,
+  ArrowsRightLeftIcon,
+  ArrowPathIcon,
+  StopIcon
 } from '@heroicons/react/24/outline'
 import { Badge } from '@/components/badge'
 import { Button } from '@/components/button'
+import { showToast } from '@/components/toast'
+import { ExecutionErrorAnalysisPanel } from '@/components/execution-error-analysis'
+import { WorkflowGraph } from '@/components/workflow-graph'
 import { createN8nExecutionUrl } from '@/lib/utils'
+import { ExecutionActionRecord, ExecutionActionType, ExecutionGraph, RetryChain } from '@/types'
 
 interface ExecutionData {
   id: string
@@ -91,22 +99,28 @@ function ExecutionDetailContent() {
   const params = useParams()
   const router = useRouter()
   const executionId = params?.id as string
+  const { user } = useAuth()
 
   const [execution, setExecution] = useState<ExecutionData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedNode, setSelectedNode] = useState<string | null>(null)
   const [copiedNode, setCopiedNode] = useState<string | null>(null)
+  const [graph, setGraph] = useState<ExecutionGraph | null>(null)
+  const [retryChain, setRetryChain] = useState<RetryChain | null>(null)
+  const [actions, setActions] = useState<ExecutionActionRecord[]>([])
+  const [runningAction, setRunningAction] = useState<ExecutionActionType | null>(null)
 
-  const fetchExecution = async () => {
+  // silent refetches keep the page on screen while the execution updates
+  const fetchExecution = async (silent = false) => {
     try {
-      setLoading(true)
+      if (!silent) setLoading(true)
       const response = await apiClient.get<{ data: ExecutionData }>(`/executions/${executionId}`)
       setExecution(response.data)
       setError(null)
     } catch (err) {
       console.error('Failed to fetch execution:', err)
-      setError('Failed to load execution details')
+      if (!silent) setError('Failed to load execution details')
     } finally {
       setLoading(false)
     }
@@ -118,6 +132,97 @@ function ExecutionDetailContent() {
     }
   }, [executionId])
 
+  const fetchGraph = () => {
+    apiClient.get<{ data: ExecutionGraph }>(`/executions/${executionId}/graph`)
+      .then(response => setGraph(response.data))
+      .catch(err => console.error('Failed to fetch execution graph:', err))
+  }
+
+  const fetchRetryChain = () => {
+    apiClient.get<{ data: RetryChain }>(`/executions/${executionId}/retry-chain`)
+      .then(response => setRetryChain(response.data))
+      .catch(err => console.error('Failed to fetch retry chain:', err))
+  }
+
+  useEffect(() => {
+    if (executionId) {
+      fetchGraph()
+      fetchRetryChain()
+    }
+  }, [executionId])
+
+  // A running execution finishes, or a retry of it arrives, while the page is open
+  useLiveEvents({
+    onExecution: (event) => {
+      if (event.executionId === executionId) {
+        fetchExecution(true)
+        fetchGraph()
+        fetchRetryChain()
+      } else if (
+        event.change === 'inserted' &&
+        execution &&
+        event.providerId === execution.providerId &&
+        event.providerWorkflowId === execution.providerWorkflowId
+      ) {
+        fetchRetryChain()
+      }
+    }
+  }, Boolean(executionId))
+
+  const fetchActions = async () => {
+    try {
+      const response = await apiClient.get<{ data: ExecutionActionRecord[] }>(`/executions/${executionId}/actions`)
+      setActions(response.data)
+    } catch (err) {
+      console.error('Failed to fetch execution actions:', err)
+    }
+  }
+
+  useEffect(() => {
+    if (executionId) {
+      fetchActions()
+    }
+  }, [executionId])
+
+  const runAction = async (action: ExecutionActionType) => {
+    if (!execution) return
+    const prompt = action === 'retry'
+      ? `Retry execution #${execution.providerExecutionId} on n8n with the currently saved workflow?`
+      : `Stop execution #${execution.providerExecutionId} on n8n?`
+    if (!confirm(prompt)) return
+
+    try {
+      setRunningAction(action)
+      await apiClient.post(`/executions/${execution.id}`, { action })
+      if (action === 'stop') {
+        // Shows the state n8n reported after the stop, which is not always canceled
+        await fetchExecution(true)
+      }
+      showToast({
+        type: 'success',
+        title: action === 'retry' ? 'Execution retried' : 'Execution stopped',
+        message: action === 'retry'
+          ? 'The retry shows up in its retry chain after the next sync'
+          : `Execution #${execution.providerExecutionId} was stopped on n8n`
+      })
+    } catch (err) {
+      console.error(`Failed to ${action} execution:`, err)
+      showToast({
+        type: 'error',
+        title: action === 'retry' ? 'Retry failed' : 'Stop failed',
+        message: 'n8n did not accept the request, see the action history for details'
+      })
+    } finally {
+      setRunningAction(null)
+      fetchActions()
+    }
+  }
+
+  const selectGraphNode = (nodeName: string) => {
+    setSelectedNode(nodeName)
+    document.getElementById(`node-run-${nodeName}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
       year: 'numeric',
@@ -175,7 +280,7 @@ function ExecutionDetailContent() {
             <ArrowLeftIcon className="h-4 w-4 mr-2" />
             Go Back
           </Button>
-          <Button outline onClick={fetchExecution}>
+          <Button outline onClick={() => fetchExecution()}>
             Try Again
           </Button>
         </div>
@@ -184,6 +289,7 @@ function ExecutionDetailContent() {
   }
 
   const StatusIcon = statusIcons[execution.status]
+  const canOperate = user?.role === 'admin'
   const nodeNames = execution.executionData?.resultData?.runData ? Object.keys(execution.executionData.resultData.runData) : []
 
   return (
@@ -221,6 +327,22 @@ function ExecutionDetailContent() {
           </div>
         </div>
         <div className="flex space-x-2">
+          {canOperate && (execution.status === 'error' || execution.status === 'canceled') && (
+            <Button outline onClick={() => runAction('retry')} disabled={runningAction !== null}>
+              <ArrowPathIcon className={`h-4 w-4 mr-2 ${runningAction === 'retry' ? 'animate-spin' : ''}`} />
+              {runningAction === 'retry' ? 'Retrying...' : 'Retry'}
+            </Button>
+          )}
+          {canOperate && (execution.status === 'running' || execution.status === 'waiting') && (
+            <Button outline onClick={() => runAction('stop')} disabled={runningAction !== null}>
+              <StopIcon className="h-4 w-4 mr-2" />
+              {runningAction === 'stop' ? 'Stopping...' : 'Stop'}
+            </Button>
+          )}
+          <Button outline href={`/executions/compare?target=${execution.id}`}>
+            <ArrowsRightLeftIcon className="h-4 w-4 mr-2" />
+            Compare
+          </Button>
           <Button onClick={openInN8n}>
             <ArrowTopRightOnSquareIcon className="h-4 w-4 mr-2" />
             Open in n8n
@@ -299,6 +421,87 @@ function ExecutionDetailContent() {
         </div>
       </div>
 
+      {execution.status === 'error' && (
+        <ExecutionErrorAnalysisPanel executionId={execution.id} workflowId={execution.providerWorkflowId} />
+      )}
+
+      {/* Retry Chain */}
+      {retryChain && retryChain.attempts.length > 1 && (
+        <div className="bg-white dark:bg-slate-800 shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-300">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+                <ArrowPathIcon className="h-5 w-5 mr-2 text-gray-400" />
+                Retry Chain
+              </h3>
+              <Badge color={retryChain.outcome === 'recovered' ? 'green' : retryChain.outcome === 'failed' ? 'red' : 'yellow'} className="capitalize">
+                {retryChain.outcome}
+              </Badge>
+            </div>
+            <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">
+              {retryChain.outcome === 'recovered'
+                ? `Recovered after ${retryChain.retries} ${retryChain.retries === 1 ? 'retry' : 'retries'}${retryChain.timeToRecovery !== null ? ` in ${formatDuration(retryChain.timeToRecovery)}` : ''}`
+                : retryChain.outcome === 'pending'
+                  ? `Retry ${retryChain.retries} is still running`
+                  : `Still failing after ${retryChain.retries} ${retryChain.retries === 1 ? 'retry' : 'retries'}`}
+            </p>
+          </div>
+          <ul className="divide-y divide-gray-200 dark:divide-slate-700">
+            {retryChain.attempts.map((attempt) => {
+              const AttemptStatusIcon = statusIcons[attempt.status]
+              const isCurrent = attempt.id === execution.id
+              return (
+                <li
+                  key={attempt.id}
+                  className={`px-6 py-3 flex items-center justify-between ${isCurrent ? 'bg-indigo-50 dark:bg-indigo-900/20' : 'hover:bg-gray-50 dark:hover:bg-slate-700 cursor-pointer'}`}
+                  onClick={() => !isCurrent && router.push(`/executions/${attempt.id}`)}
+                >
+                  <div className="flex items-center space-x-3">
+                    <Badge color={statusColors[attempt.status]} className="flex items-center space-x-1">
+                      <AttemptStatusIcon className="h-3 w-3" />
+                      <span className="capitalize">{attempt.status}</span>
+                    </Badge>
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">
+                      {attempt.attempt === 0 ? 'Original' : `Retry ${attempt.attempt}`}
+                    </span>
+                    <span className="text-sm text-gray-500 dark:text-slate-400 font-mono">#{attempt.providerExecutionId}</span>
+                    {isCurrent && <span className="text-xs text-indigo-600 dark:text-indigo-400">This execution</span>}
+                  </div>
+                  <div className="flex items-center space-x-4 text-sm text-gray-500 dark:text-slate-400">
+                    <span>{formatDate(attempt.startedAt)}</span>
+                    <span className="w-16 text-right">{formatDuration(attempt.duration)}</span>
+                    {!isCurrent && <ChevronRightIcon className="h-4 w-4" />}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
+      {/* Workflow Graph */}
+      {graph && graph.graph.nodes.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-300">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Workflow Graph</h3>
+            <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">
+              Nodes coloured by status with duration and items in → out; click a node to open its output
+              {graph.source?.type === 'version' && ` • Workflow version ${graph.source.versionNumber}`}
+              {graph.source?.type === 'execution' && ' • Workflow snapshot stored with this execution'}
+              {graph.source?.type === 'current' && ' • Current workflow definition'}
+            </p>
+          </div>
+          <div className="px-6 py-6">
+            <WorkflowGraph
+              graph={graph.graph}
+              overlay
+              selectedNode={selectedNode}
+              onNodeClick={selectGraphNode}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Node Execution Timeline */}
       {nodeNames.length > 0 && (
         <div className="bg-white dark:bg-slate-800 shadow rounded-lg">
@@ -320,7 +523,7 @@ function ExecutionDetailContent() {
                 const isExpanded = selectedNode === nodeName
 
                 return (
-                  <div key={nodeName} className="relative">
+                  <div key={nodeName} id={`node-run-${nodeName}`} className="relative">
                     {/* Timeline line */}
                     {!isLast && (
                       <div className="absolute left-[13px] top-7 bottom-0 w-0.5 bg-gray-200 dark:bg-slate-700" />
@@ -488,6 +691,35 @@ function ExecutionDetailContent() {
           </dl>
         </div>
       </div>
+
+      {/* Action History */}
+      {actions.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-300">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Action History</h3>
+            <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">Retries and stops requested from Elova</p>
+          </div>
+          <ul className="divide-y divide-gray-200 dark:divide-slate-700">
+            {actions.map((action) => (
+              <li key={action.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <Badge color={action.status === 'success' ? 'green' : 'red'} className="capitalize">
+                    {action.action}
+                  </Badge>
+                  <span className="text-gray-900 dark:text-white">{action.requestedBy}</span>
+                  {action.retryExecutionId && (
+                    <span className="text-gray-500 dark:text-slate-400 font-mono">→ #{action.retryExecutionId}</span>
+                  )}
+                  {action.error && (
+                    <span className="text-red-600 truncate" title={action.error}>{action.error}</span>
+                  )}
+                </div>
+                <span className="shrink-0 text-gray-500 dark:text-slate-400">{formatDate(action.createdAt)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,369 @@
+'use client'
+
+import { Fragment, useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/contexts/AuthContext'
+import { useTimezone } from '@/contexts/TimezoneContext'
+import { AppLayout } from '@/components/app-layout'
+import { WithN8NConnection } from '@/components/with-n8n-connection'
+import { apiClient } from '@/lib/api-client'
+import { formatInTimeZone } from '@/lib/timezone'
+import {
+  ArrowLeftIcon,
+  ArrowsRightLeftIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline'
+import { Badge } from '@/components/badge'
+import { Button } from '@/components/button'
+import { Select } from '@/components/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/table'
+import { DiffDetails, ValueChanges } from '@/components/workflow-version-history'
+import {
+  Execution,
+  ExecutionCompareSide,
+  ExecutionComparison,
+  ExecutionNodeRunSummary,
+  ExecutionStatus,
+  ExecutionWorkflowSource
+} from '@/types'
+
+const statusColors: Record<ExecutionStatus, 'green' | 'red' | 'blue' | 'yellow' | 'zinc'> = {
+  success: 'green',
+  error: 'red',
+  running: 'blue',
+  waiting: 'yellow',
+  canceled: 'zinc',
+  unknown: 'zinc'
+}
+
+function formatMs(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`
+  const minutes = Math.floor(ms / 60000)
+  return `${minutes}m ${Math.round((ms % 60000) / 1000)}s`
+}
+
+function formatDelta(value: number | null, format: (value: number) => string = String): React.ReactNode {
+  if (value === null) return <span className="text-gray-400">—</span>
+  if (value === 0) return <span className="text-gray-500 dark:text-slate-400">0</span>
+  const sign = value > 0 ? '+' : '−'
+  return (
+    <span className={value > 0 ? 'text-orange-600 dark:text-orange-400' : 'text-blue-600 dark:text-blue-400'}>
+      {sign}{format(Math.abs(value))}
+    </span>
+  )
+}
+
+function describeSource(source: ExecutionWorkflowSource | null): string {
+  if (!source) return 'Workflow definition unknown'
+  if (source.type === 'version') return `Workflow version ${source.versionNumber}`
+  if (source.type === 'execution') return 'Workflow snapshot stored with the execution'
+  return 'Current workflow definition'
+}
+
+function RunCell({ run }: { run: ExecutionNodeRunSummary | null }) {
+  if (!run) return <span className="text-xs text-gray-400">Did not run</span>
+
+  return (
+    <div className="flex items-center gap-2">
+      <Badge color={statusColors[run.status]}>{run.status}</Badge>
+      <span className="text-sm">{formatMs(run.duration)}</span>
+      <span className="text-xs text-gray-500 dark:text-slate-400">
+        {run.items} item{run.items !== 1 ? 's' : ''}{run.runs > 1 ? ` · ${run.runs} runs` : ''}
+      </span>
+    </div>
+  )
+}
+
+function ExecutionCompareContent() {
+  const router = useRouter()
+  const { timeZone } = useTimezone()
+  const [baseId, setBaseId] = useState<string | null>(null)
+  const [targetId, setTargetId] = useState<string | null>(null)
+  const [comparison, setComparison] = useState<ExecutionComparison | null>(null)
+  const [candidates, setCandidates] = useState<Execution[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedNode, setExpandedNode] = useState<string | null>(null)
+  const [showWorkflowDiff, setShowWorkflowDiff] = useState(false)
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    setBaseId(params.get('base'))
+    setTargetId(params.get('target'))
+    if (!params.get('target')) {
+      setLoading(false)
+      setError('Choose an execution to compare from its detail page')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!targetId) return
+
+    const params = new URLSearchParams({ target: targetId })
+    if (baseId) params.append('base', baseId)
+
+    setLoading(true)
+    apiClient.get<{ data: ExecutionComparison }>(`/executions/compare?${params}`)
+      .then(response => {
+        setComparison(response.data)
+        setError(null)
+        // Keep the URL shareable once the default baseline has been picked
+        window.history.replaceState(null, '', `/executions/compare?base=${response.data.base.id}&target=${targetId}`)
+      })
+      .catch(err => {
+        console.error('Failed to compare executions:', err)
+        setError(baseId
+          ? 'Failed to compare these executions'
+          : 'No earlier successful execution of this workflow to compare with')
+      })
+      .finally(() => setLoading(false))
+  }, [baseId, targetId])
+
+  // Other recent runs of the workflow to pick as the baseline
+  const workflowId = comparison?.target.workflowId
+  useEffect(() => {
+    if (!workflowId) return
+    apiClient.get<{ data: { items: Execution[] } }>(`/executions?workflowId=${encodeURIComponent(workflowId)}&timeRange=30d&limit=100`)
+      .then(response => setCandidates(response.data.items))
+      .catch(err => console.error('Failed to fetch executions:', err))
+  }, [workflowId])
+
+  const formatDate = (date: Date | string) => formatInTimeZone(date, timeZone, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  })
+
+  const renderSide = (label: string, side: ExecutionCompareSide, selectable: boolean) => (
+    <div className="bg-white dark:bg-slate-800 shadow rounded-lg p-5">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-500 dark:text-slate-400">{label}</h3>
+        <Badge color={statusColors[side.status]}>{side.status}</Badge>
+      </div>
+      {selectable ? (
+        <Select
+          value={side.id}
+          onChange={(e) => setBaseId(e.target.value)}
+        >
+          {!candidates.some(candidate => candidate.id === side.id) && (
+            <option value={side.id}>#{side.providerExecutionId} · {formatDate(side.startedAt)}</option>
+          )}
+          {candidates
+            .filter(candidate => candidate.id !== comparison?.target.id)
+            .map(candidate => (
+              <option key={candidate.id} value={candidate.id}>
+                #{candidate.providerExecutionId} · {candidate.status} · {formatDate(candidate.startedAt)}
+              </option>
+            ))}
+        </Select>
+      ) : (
+        <Link href={`/executions/${side.id}`} className="font-mono text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">
+          #{side.providerExecutionId}
+        </Link>
+      )}
+      <dl className="mt-3 grid grid-cols-2 gap-2 text-sm">
+        <dt className="text-gray-500 dark:text-slate-400">Started</dt>
+        <dd className="text-gray-900 dark:text-white">{formatDate(side.startedAt)}</dd>
+        <dt className="text-gray-500 dark:text-slate-400">Duration</dt>
+        <dd className="text-gray-900 dark:text-white">{side.duration !== null ? formatMs(side.duration) : 'N/A'}</dd>
+        <dt className="text-gray-500 dark:text-slate-400">Definition</dt>
+        <dd className="text-gray-900 dark:text-white">{describeSource(side.workflowSource)}</dd>
+      </dl>
+    </div>
+  )
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  if (error || !comparison) {
+    return (
+      <div className="text-center py-12">
+        <ExclamationTriangleIcon className="mx-auto h-12 w-12 text-red-400" />
+        <h3 className="mt-2 text-sm font-semibold text-gray-900 dark:text-white">Cannot compare executions</h3>
+        <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">{error || 'Execution not found'}</p>
+        <div className="mt-6">
+          <Button onClick={() => router.back()}>
+            <ArrowLeftIcon className="h-4 w-4 mr-2" />
+            Go Back
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const changedNodes = comparison.nodes.filter(node =>
+    node.base?.status !== node.target?.status || node.itemDelta !== 0 || node.outputChanges.length > 0
+  ).length
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start space-x-4">
+        <Button outline onClick={() => router.back()} className="flex items-center">
+          <ArrowLeftIcon className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <div>
+          <div className="flex items-center space-x-3">
+            <ArrowsRightLeftIcon className="h-6 w-6 text-gray-400" />
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Compare Executions</h1>
+          </div>
+          <p className="text-gray-600 dark:text-slate-400 mt-1">
+            {comparison.target.workflowName} • {changedNodes} of {comparison.nodes.length} nodes differ
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-5 md:grid-cols-2">
+        {renderSide('Base', comparison.base, true)}
+        {renderSide('Target', comparison.target, false)}
+      </div>
+
+      {/* Workflow definition */}
+      {comparison.versionChanged === true ? (
+        <div className="rounded-lg border border-yellow-300 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-900/20 p-4">
+          <button
+            type="button"
+            onClick={() => setShowWorkflowDiff(!showWorkflowDiff)}
+            className="flex items-center text-sm font-medium text-yellow-800 dark:text-yellow-200"
+          >
+            {showWorkflowDiff ? <ChevronDownIcon className="h-4 w-4 mr-2" /> : <ChevronRightIcon className="h-4 w-4 mr-2" />}
+            The workflow changed between these runs ({describeSource(comparison.base.workflowSource)} → {describeSource(comparison.target.workflowSource)})
+          </button>
+          {showWorkflowDiff && comparison.workflowDiff && (
+            <div className="mt-4 ml-6">
+              <DiffDetails diff={comparison.workflowDiff} />
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-slate-400">
+          {comparison.versionChanged === false
+            ? 'Both runs used the same workflow definition.'
+            : 'No workflow versions were captured for these runs, so definition changes cannot be detected.'}
+        </p>
+      )}
+
+      {/* Nodes */}
+      <div className="bg-white dark:bg-slate-800 shadow rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-300">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Nodes</h3>
+          <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">Aligned by node name in execution order; expand a node to see how its output changed</p>
+        </div>
+        <div className="px-6 py-4">
+          <Table dense>
+            <TableHead>
+              <TableRow>
+                <TableHeader>Node</TableHeader>
+                <TableHeader>Base</TableHeader>
+                <TableHeader>Target</TableHeader>
+                <TableHeader>Δ Duration</TableHeader>
+                <TableHeader>Δ Items</TableHeader>
+                <TableHeader>Output</TableHeader>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {comparison.nodes.map(node => {
+                const isExpanded = expandedNode === node.nodeName
+                const regressed = node.target?.status === 'error' && node.base?.status !== 'error'
+                return (
+                  <Fragment key={node.nodeName}>
+                    <TableRow className={regressed ? 'bg-red-50 dark:bg-red-900/10' : undefined}>
+                      <TableCell>
+                        <button
+                          type="button"
+                          onClick={() => setExpandedNode(isExpanded ? null : node.nodeName)}
+                          className="flex items-center font-medium hover:text-indigo-600 dark:hover:text-indigo-400"
+                        >
+                          {isExpanded ? <ChevronDownIcon className="h-4 w-4 mr-2" /> : <ChevronRightIcon className="h-4 w-4 mr-2" />}
+                          {node.nodeName}
+                        </button>
+                      </TableCell>
+                      <TableCell><RunCell run={node.base} /></TableCell>
+                      <TableCell><RunCell run={node.target} /></TableCell>
+                      <TableCell>{formatDelta(node.durationDelta, formatMs)}</TableCell>
+                      <TableCell>{formatDelta(node.itemDelta)}</TableCell>
+                      <TableCell>
+                        {node.outputChanges.length > 0 ? (
+                          <Badge color="yellow">
+                            {node.outputChanges.length}{node.outputChangesTruncated ? '+' : ''} change{node.outputChanges.length !== 1 ? 's' : ''}
+                          </Badge>
+                        ) : (
+                          <span className="text-xs text-gray-500 dark:text-slate-400">Identical</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="whitespace-normal">
+                          {node.target?.error && (
+                            <p className="mb-2 text-sm text-red-700 dark:text-red-300 font-mono">Target error: {node.target.error}</p>
+                          )}
+                          {node.base?.error && (
+                            <p className="mb-2 text-sm text-red-700 dark:text-red-300 font-mono">Base error: {node.base.error}</p>
+                          )}
+                          {node.outputChanges.length > 0 ? (
+                            <>
+                              <ValueChanges changes={node.outputChanges} />
+                              {node.outputChangesTruncated && (
+                                <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">Only the first {node.outputChanges.length} changes are shown</p>
+                              )}
+                            </>
+                          ) : (
+                            <p className="text-sm text-gray-500 dark:text-slate-400">The last run of this node produced the same output items in both executions</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function ExecutionComparePage() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    }
+  }, [user, loading, router])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <AppLayout>
+      <WithN8NConnection>
+        <ExecutionCompareContent />
+      </WithN8NConnection>
+    </AppLayout>
+  )
+}
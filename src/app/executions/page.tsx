@@ -1,17 +1,22 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, Fragment } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/AuthContext'
 import { AppLayout } from '@/components/app-layout'
 import { WithN8NConnection } from '@/components/with-n8n-connection'
 import { apiClient } from '@/lib/api-client'
 import { useDebounce } from '@/hooks/use-debounce'
+import { useLiveEvents } from '@/hooks/use-live-events'
 import {
   ExecutionStatus,
   TimeRange,
   Execution,
-  Provider
+  Provider,
+  RetryChain,
+  RetryChainOutcome,
+  ExecutionActionType,
+  LiveSyncEvent
 } from '@/types'
 import {
   PlayIcon,
@@ -25,7 +30,8 @@ import {
   ChevronRightIcon,
   ChevronLeftIcon,
   ChevronDownIcon,
-  ListBulletIcon
+  ListBulletIcon,
+  StopIcon
 } from '@heroicons/react/24/outline'
 import { DEMO_WORKFLOWS } from '@/lib/demo-data'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/table'
@@ -56,6 +62,15 @@ const statusColors = {
   'unknown': 'zinc'
 } as const
 
+const retryOutcomeColors: Record<RetryChainOutcome, 'green' | 'red' | 'yellow'> = {
+  'recovered': 'green',
+  'failed': 'red',
+  'pending': 'yellow'
+}
+
+// Wait for a burst of inserted executions to settle before refetching the first page
+const LIVE_REFETCH_DELAY_MS = 1000
+
 interface ExecutionGroup {
   type: 'group'
   id: string
@@ -214,7 +229,11 @@ function ExecutionsContent() {
   const [timeRange, setTimeRange] = useState<TimeRange>('24h')
   const [n8nUrl, setN8nUrl] = useState<string>('')
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set())
+  const [retryChains, setRetryChains] = useState<Record<string, RetryChain>>({})
+  const [actionExecutionId, setActionExecutionId] = useState<string | null>(null)
   const [showPricing, setShowPricing] = useState(false)
+  const [liveSync, setLiveSync] = useState<LiveSyncEvent | null>(null)
+  const liveRefetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1)
@@ -223,6 +242,7 @@ function ExecutionsContent() {
   const itemsPerPage = 20
 
   const router = useRouter()
+  const { user } = useAuth()
 
   useEffect(() => {
     fetchProviders()
@@ -271,9 +291,10 @@ function ExecutionsContent() {
     }
   }
 
-  const fetchExecutions = async (page = 1) => {
+  // silent refetches keep the table on screen and leave errors to the next manual refresh
+  const fetchExecutions = async (page = 1, silent = false) => {
     try {
-      setLoading(true)
+      if (!silent) setLoading(true)
 
       const params = new URLSearchParams()
       if (statusFilter !== 'all') {
@@ -305,13 +326,47 @@ function ExecutionsContent() {
       setError(null)
     } catch (err) {
       console.error('Failed to fetch executions:', err)
-      setError('Failed to load executions')
+      if (!silent) setError('Failed to load executions')
     } finally {
       setLoading(false)
     }
   }
 
+  // Rows on screen are patched in place; new executions only shift the first page,
+  // which is refetched once a burst of sync writes settles
+  const liveConnected = useLiveEvents({
+    onExecution: (event) => {
+      setExecutions(prev => prev.map(execution => execution.id === event.executionId
+        ? {
+          ...execution,
+          status: event.status,
+          stoppedAt: event.stoppedAt,
+          duration: event.duration
+        }
+        : execution))
+
+      if (event.change === 'inserted' && currentPage === 1) {
+        if (liveRefetchTimer.current) clearTimeout(liveRefetchTimer.current)
+        liveRefetchTimer.current = setTimeout(() => {
+          liveRefetchTimer.current = null
+          fetchExecutions(1, true)
+        }, LIVE_REFETCH_DELAY_MS)
+      }
+    },
+    onSync: (event) => {
+      if (event.syncType !== 'executions' && event.syncType !== 'full') return
+      setLiveSync(event.phase === 'completed' || event.phase === 'failed' ? null : event)
+    }
+  })
+
+  // Refetches scheduled before the filters changed would load the old filters
+  useEffect(() => () => {
+    if (liveRefetchTimer.current) clearTimeout(liveRefetchTimer.current)
+    liveRefetchTimer.current = null
+  }, [statusFilter, timeRange, providerFilter, debouncedSearchTerm])
+
   const filteredExecutions = executions
+  const canOperate = user?.role === 'admin'
 
   const groupedExecutions = (() => {
     const groups: ExecutionItem[] = []
@@ -353,6 +408,13 @@ function ExecutionsContent() {
     }
 
     filteredExecutions.forEach((execution) => {
+      // Retry chains expand on their own row, so they never fold into a group
+      if (execution.retryChain) {
+        flushGroup()
+        groups.push(execution)
+        return
+      }
+
       if (currentGroup.length === 0) {
         currentGroup.push(execution)
         return
@@ -388,6 +450,24 @@ function ExecutionsContent() {
     setExpandedGroups(newExpanded)
   }
 
+  const toggleRetryChain = async (execution: Execution, e: React.MouseEvent) => {
+    const chainKey = `retries-${execution.id}`
+    toggleGroup(chainKey, e)
+    if (expandedGroups.has(chainKey) || retryChains[execution.id]) return
+
+    try {
+      const response = await apiClient.get<{ success: boolean; data: RetryChain }>(`/executions/${execution.id}/retry-chain`)
+      setRetryChains(prev => ({ ...prev, [execution.id]: response.data }))
+    } catch (err) {
+      console.error('Failed to fetch retry chain:', err)
+      showToast({
+        type: 'error',
+        title: 'Failed to load retries',
+        message: 'Could not load the retries of this execution'
+      })
+    }
+  }
+
   const formatDuration = (duration?: number) => {
     if (!duration) return '-'
     if (duration < 1000) return `${duration}ms`
@@ -424,6 +504,37 @@ function ExecutionsContent() {
     window.open(executionUrl, '_blank')
   }
 
+  const runExecutionAction = async (execution: Execution, action: ExecutionActionType) => {
+    const prompt = action === 'retry'
+      ? `Retry execution #${execution.providerExecutionId} on n8n with the currently saved workflow?`
+      : `Stop execution #${execution.providerExecutionId} on n8n?`
+    if (!confirm(prompt)) return
+
+    try {
+      setActionExecutionId(execution.id)
+      await apiClient.post(`/executions/${execution.id}`, { action })
+      showToast({
+        type: 'success',
+        title: action === 'retry' ? 'Execution retried' : 'Execution stopped',
+        message: action === 'retry'
+          ? 'The retry shows up after the next sync'
+          : `Execution #${execution.providerExecutionId} was stopped on n8n`
+      })
+      if (action === 'stop') {
+        await fetchExecutions(currentPage)
+      }
+    } catch (err) {
+      console.error(`Failed to ${action} execution:`, err)
+      showToast({
+        type: 'error',
+        title: action === 'retry' ? 'Retry failed' : 'Stop failed',
+        message: 'n8n did not accept the request, see the execution for details'
+      })
+    } finally {
+      setActionExecutionId(null)
+    }
+  }
+
   const viewExecutionDetails = (executionId: string) => {
     router.push(`/executions/${executionId}`)
   }
@@ -448,9 +559,16 @@ function ExecutionsContent() {
           {/* Page Header */}
           <div className="flex items-center justify-between">
             <div>
-              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Executions</h1>
+              <div className="flex items-center space-x-3">
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Executions</h1>
+                {liveConnected && (
+                  <Badge color="green" title="Executions update here as syncs store them">Live</Badge>
+                )}
+              </div>
               <p className="mt-2 text-sm text-gray-600 dark:text-slate-400">
-                Monitor and debug workflow execution history
+                {liveSync
+                  ? `Syncing ${liveSync.providerName}: ${liveSync.processed} processed, ${liveSync.inserted} new, ${liveSync.updated} updated`
+                  : 'Monitor and debug workflow execution history'}
               </p>
             </div>
             <div className="flex space-x-3">
@@ -792,101 +910,186 @@ function ExecutionsContent() {
                     const execution = item as Execution
                     const StatusIcon = statusIcons[execution.status]
                     const provider = providers.find(p => p.id === execution.providerId)
+                    const retryChainExpanded = expandedGroups.has(`retries-${execution.id}`)
                     return (
-                      <TableRow
-                        key={execution.id}
-                        className="hover:bg-gray-50 dark:hover:bg-slate-800 cursor-pointer"
-                        onClick={() => viewExecutionDetails(execution.id)}
-                      >
-                        <TableCell>
-                          <Badge color={statusColors[execution.status]} className="flex items-center space-x-1">
-                            <StatusIcon className="h-3 w-3" />
-                            <span className="capitalize">{execution.status}</span>
-                          </Badge>
-                        </TableCell>
-                        <TableCell className="font-mono text-sm">
-                          {formatExecutionId(execution.providerExecutionId)}
-                        </TableCell>
-                        <TableCell>
-                          {provider ? (
-                            <Badge color="zinc" className="text-xs">
-                              {provider.name}
+                      <Fragment key={execution.id}>
+                        <TableRow
+                          className="hover:bg-gray-50 dark:hover:bg-slate-800 cursor-pointer"
+                          onClick={() => viewExecutionDetails(execution.id)}
+                        >
+                          <TableCell>
+                            <Badge color={statusColors[execution.status]} className="flex items-center space-x-1">
+                              <StatusIcon className="h-3 w-3" />
+                              <span className="capitalize">{execution.status}</span>
                             </Badge>
-                          ) : (
-                            <span className="text-xs text-gray-400">Unknown</span>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex flex-col">
-                            <span className="font-medium text-gray-900 dark:text-white">
-                              {(typeof execution.metadata?.workflowName === 'string' ? execution.metadata.workflowName : null) ||
-                                DEMO_WORKFLOWS.find(w => w.id === execution.workflowId)?.name ||
-                                execution.workflowId}
-                            </span>
-                            <span className="text-xs text-gray-500 font-mono">
-                              {execution.providerWorkflowId}
-                            </span>
-                            {execution.error && (
-                              <span className="text-sm text-red-600 truncate max-w-xs">
-                                {execution.error.message}
-                              </span>
+                            {execution.retryChain && (
+                              <button
+                                className="mt-1 flex items-center space-x-1 rounded p-0.5 hover:bg-gray-200 dark:hover:bg-slate-700"
+                                onClick={(e) => toggleRetryChain(execution, e)}
+                              >
+                                {retryChainExpanded ? (
+                                  <ChevronDownIcon className="h-3 w-3 text-gray-500" />
+                                ) : (
+                                  <ChevronRightIcon className="h-3 w-3 text-gray-500" />
+                                )}
+                                <Badge color={retryOutcomeColors[execution.retryChain.outcome]} className="text-xs">
+                                  {execution.retryChain.retries} {execution.retryChain.retries === 1 ? 'retry' : 'retries'} · {execution.retryChain.outcome}
+                                </Badge>
+                              </button>
                             )}
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          {formatDate(execution.startedAt)}
-                        </TableCell>
-                        <TableCell>
-                          {formatDuration(execution.duration)}
-                        </TableCell>
-                        <TableCell>
-                          <Badge color="blue" className="capitalize">
-                            {(execution.metadata as any)?.firstNode?.name || execution.mode}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          {execution.totalTokens && execution.totalTokens > 0 ? (
-                            <div className="text-sm">
-                              <div className="font-medium text-gray-900 dark:text-white">
-                                {execution.totalTokens.toLocaleString()}
-                              </div>
-                              <div className="text-xs text-gray-500">
-                                {execution.inputTokens?.toLocaleString() || 0} in / {execution.outputTokens?.toLocaleString() || 0} out
-                              </div>
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">
+                            {formatExecutionId(execution.providerExecutionId)}
+                          </TableCell>
+                          <TableCell>
+                            {provider ? (
+                              <Badge color="zinc" className="text-xs">
+                                {provider.name}
+                              </Badge>
+                            ) : (
+                              <span className="text-xs text-gray-400">Unknown</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="font-medium text-gray-900 dark:text-white">
+                                {(typeof execution.metadata?.workflowName === 'string' ? execution.metadata.workflowName : null) ||
+                                  DEMO_WORKFLOWS.find(w => w.id === execution.workflowId)?.name ||
+                                  execution.workflowId}
+                              </span>
+                              <span className="text-xs text-gray-500 font-mono">
+                                {execution.providerWorkflowId}
+                              </span>
+                              {execution.error && (
+                                <span className="text-sm text-red-600 truncate max-w-xs">
+                                  {execution.error.message}
+                                </span>
+                              )}
                             </div>
-                          ) : (
-                            <span className="text-gray-400 text-sm">-</span>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          {execution.aiCost && execution.aiCost > 0 ? (
-                            <div className="text-sm">
-                              <div className="font-medium text-gray-900 dark:text-white">
-                                ${execution.aiCost.toFixed(4)}
+                          </TableCell>
+                          <TableCell>
+                            {formatDate(execution.startedAt)}
+                          </TableCell>
+                          <TableCell>
+                            {formatDuration(execution.duration)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge color="blue" className="capitalize">
+                              {(execution.metadata as any)?.firstNode?.name || execution.mode}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            {execution.totalTokens && execution.totalTokens > 0 ? (
+                              <div className="text-sm">
+                                <div className="font-medium text-gray-900 dark:text-white">
+                                  {execution.totalTokens.toLocaleString()}
+                                </div>
+                                <div className="text-xs text-gray-500">
+                                  {execution.inputTokens?.toLocaleString() || 0} in / {execution.outputTokens?.toLocaleString() || 0} out
+                                </div>
                               </div>
-                              {execution.aiProvider && (
-                                <div className="text-xs text-gray-500 capitalize">
-                                  {execution.aiProvider}
+                            ) : (
+                              <span className="text-gray-400 text-sm">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {execution.aiCost && execution.aiCost > 0 ? (
+                              <div className="text-sm">
+                                <div className="font-medium text-gray-900 dark:text-white">
+                                  ${execution.aiCost.toFixed(4)}
                                 </div>
+                                {execution.aiProvider && (
+                                  <div className="text-xs text-gray-500 capitalize">
+                                    {execution.aiProvider}
+                                  </div>
+                                )}
+                              </div>
+                            ) : (
+                              <span className="text-gray-400 text-sm">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center space-x-1">
+                              <Button
+                                outline
+                                className="text-sm px-2 py-1"
+                                onClick={(e: React.MouseEvent) => {
+                                  e.stopPropagation()
+                                  openN8nExecution(execution)
+                                }}
+                              >
+                                n8n
+                              </Button>
+                              {canOperate && (execution.status === 'error' || execution.status === 'canceled') && (
+                                <Button
+                                  plain
+                                  className="text-sm px-2 py-1"
+                                  title="Retry on n8n"
+                                  disabled={actionExecutionId === execution.id}
+                                  onClick={(e: React.MouseEvent) => {
+                                    e.stopPropagation()
+                                    runExecutionAction(execution, 'retry')
+                                  }}
+                                >
+                                  <ArrowPathIcon className={`h-4 w-4 ${actionExecutionId === execution.id ? 'animate-spin' : ''}`} />
+                                </Button>
+                              )}
+                              {canOperate && (execution.status === 'running' || execution.status === 'waiting') && (
+                                <Button
+                                  plain
+                                  className="text-sm px-2 py-1"
+                                  title="Stop on n8n"
+                                  disabled={actionExecutionId === execution.id}
+                                  onClick={(e: React.MouseEvent) => {
+                                    e.stopPropagation()
+                                    runExecutionAction(execution, 'stop')
+                                  }}
+                                >
+                                  <StopIcon className="h-4 w-4" />
+                                </Button>
                               )}
                             </div>
-                          ) : (
-                            <span className="text-gray-400 text-sm">-</span>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          <Button
-                            outline
-                            className="text-sm px-2 py-1"
-                            onClick={(e: React.MouseEvent) => {
-                              e.stopPropagation()
-                              openN8nExecution(execution)
-                            }}
-                          >
-                            n8n
-                          </Button>
-                        </TableCell>
-                      </TableRow>
+                          </TableCell>
+                        </TableRow>
+                        {retryChainExpanded && retryChains[execution.id]?.attempts.slice(1).map((attempt) => {
+                          const AttemptStatusIcon = statusIcons[attempt.status]
+                          return (
+                            <TableRow
+                              key={attempt.id}
+                              className="hover:bg-gray-50 dark:hover:bg-slate-800 cursor-pointer bg-gray-50/30 dark:bg-slate-800/30"
+                              onClick={() => viewExecutionDetails(attempt.id)}
+                            >
+                              <TableCell>
+                                <div className="pl-8 flex items-center space-x-2">
+                                  <Badge color={statusColors[attempt.status]} className="flex items-center space-x-1 scale-90 origin-left">
+                                    <AttemptStatusIcon className="h-3 w-3" />
+                                  </Badge>
+                                  <span className="text-xs text-gray-500">Retry {attempt.attempt}</span>
+                                </div>
+                              </TableCell>
+                              <TableCell className="font-mono text-xs text-gray-500">
+                                {formatExecutionId(attempt.providerExecutionId)}
+                              </TableCell>
+                              <TableCell></TableCell>
+                              <TableCell></TableCell>
+                              <TableCell className="text-xs">
+                                {formatDate(attempt.startedAt)}
+                              </TableCell>
+                              <TableCell className="text-xs">
+                                {formatDuration(attempt.duration)}
+                              </TableCell>
+                              <TableCell>
+                                <Badge color="blue" className="capitalize text-xs">
+                                  {attempt.mode}
+                                </Badge>
+                              </TableCell>
+                              <TableCell></TableCell>
+                              <TableCell></TableCell>
+                              <TableCell></TableCell>
+                            </TableRow>
+                          )
+                        })}
+                      </Fragment>
                     )
                   })
                 )}
@@ -0,0 +1,520 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/contexts/AuthContext'
+import { useTheme } from '@/contexts/ThemeContext'
+import { useTimezone } from '@/contexts/TimezoneContext'
+import { AppLayout } from '@/components/app-layout'
+import { WithN8NConnection } from '@/components/with-n8n-connection'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts'
+import {
+  ArrowPathIcon,
+  BugAntIcon,
+  CheckCircleIcon,
+  EyeIcon,
+  EyeSlashIcon,
+  ArrowUturnLeftIcon
+} from '@heroicons/react/24/outline'
+import { Badge } from '@/components/badge'
+import { Button } from '@/components/button'
+import { Input } from '@/components/input'
+import { Select } from '@/components/select'
+import { showToast } from '@/components/toast'
+import { TablePagination } from '@/components/TablePagination'
+import { apiClient } from '@/lib/api-client'
+import { formatInTimeZone } from '@/lib/timezone'
+import { BulkRetryResult, ErrorIssue, ErrorIssueDetail, ErrorIssueStatus, Provider } from '@/types'
+
+type StatusTab = ErrorIssueStatus | 'open' | 'all'
+
+interface IssueListResponse {
+  items: ErrorIssue[]
+  total: number
+  page: number
+  limit: number
+  statusCounts: Record<ErrorIssueStatus, number>
+}
+
+const ITEMS_PER_PAGE = 25
+
+const STATUS_TABS: { value: StatusTab; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'regressed', label: 'Regressed' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'ignored', label: 'Ignored' },
+  { value: 'all', label: 'All' }
+]
+
+const STATUS_COLORS: Record<ErrorIssueStatus, 'red' | 'orange' | 'green' | 'zinc'> = {
+  unresolved: 'red',
+  regressed: 'orange',
+  resolved: 'green',
+  ignored: 'zinc'
+}
+
+const STATUS_LABELS: Record<ErrorIssueStatus, string> = {
+  unresolved: 'Unresolved',
+  regressed: 'Regressed',
+  resolved: 'Resolved',
+  ignored: 'Ignored'
+}
+
+function tabCount(tab: StatusTab, counts: Record<ErrorIssueStatus, number> | null): number | null {
+  if (!counts) return null
+  if (tab === 'open') return counts.unresolved + counts.regressed
+  if (tab === 'all') return counts.unresolved + counts.regressed + counts.resolved + counts.ignored
+  return counts[tab]
+}
+
+function IssuesContent() {
+  const { user } = useAuth()
+  const { theme } = useTheme()
+  const { timeZone } = useTimezone()
+  const [issues, setIssues] = useState<ErrorIssue[]>([])
+  const [statusCounts, setStatusCounts] = useState<Record<ErrorIssueStatus, number> | null>(null)
+  const [providers, setProviders] = useState<Provider[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusTab, setStatusTab] = useState<StatusTab>('open')
+  const [providerFilter, setProviderFilter] = useState('all')
+  const [sort, setSort] = useState('last_seen')
+  const [search, setSearch] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [currentPage, setCurrentPage] = useState(1)
+  const [totalCount, setTotalCount] = useState(0)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [detail, setDetail] = useState<ErrorIssueDetail | null>(null)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [retryingId, setRetryingId] = useState<string | null>(null)
+
+  const gridColor = theme === 'dark' ? '#3f3f46' : '#f3f4f6'
+  const axisColor = theme === 'dark' ? '#a1a1aa' : '#6b7280'
+  const textColor = theme === 'dark' ? '#e4e4e7' : '#374151'
+
+  const formatDate = (date: Date | string) => formatInTimeZone(date, timeZone, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+  useEffect(() => {
+    apiClient.get<{ data: Provider[] }>('/providers')
+      .then(response => setProviders(response.data))
+      .catch(error => console.error('Failed to fetch providers:', error))
+  }, [])
+
+  // Links from an execution's error analysis open the issue by title across all states
+  useEffect(() => {
+    const initialSearch = new URLSearchParams(window.location.search).get('search')
+    if (initialSearch) {
+      setSearch(initialSearch)
+      setDebouncedSearch(initialSearch)
+      setStatusTab('all')
+    }
+  }, [])
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search), 300)
+    return () => clearTimeout(timeout)
+  }, [search])
+
+  // Filters start from the first page again
+  useEffect(() => {
+    setCurrentPage(1)
+  }, [statusTab, providerFilter, sort, debouncedSearch])
+
+  const fetchIssues = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({
+        status: statusTab,
+        sort,
+        page: String(currentPage),
+        limit: String(ITEMS_PER_PAGE)
+      })
+      if (providerFilter !== 'all') params.append('providerId', providerFilter)
+      if (debouncedSearch) params.append('search', debouncedSearch)
+
+      const response = await apiClient.get<{ data: IssueListResponse }>(`/issues?${params}`)
+      setIssues(response.data.items)
+      setTotalCount(response.data.total)
+      setStatusCounts(response.data.statusCounts)
+    } catch (error) {
+      console.error('Failed to fetch issues:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to load issues',
+        message: 'Please try again'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [statusTab, providerFilter, sort, debouncedSearch, currentPage])
+
+  useEffect(() => {
+    fetchIssues()
+  }, [fetchIssues])
+
+  const fetchDetail = async (issueId: string) => {
+    const response = await apiClient.get<{ data: ErrorIssueDetail }>(`/issues/${issueId}`)
+    setDetail(response.data)
+  }
+
+  const handleToggleView = async (issue: ErrorIssue) => {
+    if (expandedId === issue.id) {
+      setExpandedId(null)
+      return
+    }
+
+    setExpandedId(issue.id)
+    setDetail(null)
+    try {
+      await fetchDetail(issue.id)
+    } catch (error) {
+      console.error('Failed to fetch issue details:', error)
+    }
+  }
+
+  const handleStatusChange = async (issue: ErrorIssue, status: ErrorIssueStatus) => {
+    try {
+      setUpdatingId(issue.id)
+      await apiClient.patch(`/issues/${issue.id}`, { status })
+      showToast({
+        type: 'success',
+        title: status === 'unresolved' ? 'Issue reopened' : `Issue ${status}`,
+        message: issue.title
+      })
+      if (expandedId === issue.id) await fetchDetail(issue.id)
+      await fetchIssues()
+    } catch (error) {
+      console.error('Failed to update issue:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to update issue',
+        message: 'Please try again'
+      })
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const handleRetryFailed = async (issue: ErrorIssue) => {
+    if (!confirm(`Retry every failed execution of "${issue.title}" that has not been retried yet on n8n?`)) return
+
+    try {
+      setRetryingId(issue.id)
+      const response = await apiClient.post<{ data: BulkRetryResult }>(`/issues/${issue.id}/retry`)
+      const result = response.data
+      showToast({
+        type: result.failed > 0 ? 'error' : 'success',
+        title: result.attempted === 0
+          ? 'Nothing to retry'
+          : `Retried ${result.succeeded} of ${result.attempted} executions`,
+        message: [
+          result.failed > 0 && `${result.failed} retries were rejected by n8n`,
+          result.skipped > 0 && `${result.skipped} already retried`
+        ].filter(Boolean).join(' • ') || 'Retries show up after the next sync'
+      })
+    } catch (error) {
+      console.error('Failed to retry issue executions:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to retry executions',
+        message: 'Please try again'
+      })
+    } finally {
+      setRetryingId(null)
+    }
+  }
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / ITEMS_PER_PAGE))
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Issues</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-slate-400">
+            Failed executions grouped by failing node, error message and HTTP status
+          </p>
+        </div>
+        <Button outline onClick={fetchIssues} disabled={loading}>
+          <ArrowPathIcon className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          {loading ? 'Refreshing...' : 'Refresh'}
+        </Button>
+      </div>
+
+      {/* Status Tabs */}
+      <div className="border-b border-gray-200 dark:border-slate-700">
+        <nav className="-mb-px flex space-x-6">
+          {STATUS_TABS.map(tab => {
+            const count = tabCount(tab.value, statusCounts)
+            return (
+              <button
+                key={tab.value}
+                type="button"
+                onClick={() => setStatusTab(tab.value)}
+                className={`whitespace-nowrap border-b-2 py-2 text-sm font-medium ${
+                  statusTab === tab.value
+                    ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 dark:text-slate-400 dark:hover:text-slate-200'
+                }`}
+              >
+                {tab.label}
+                {count !== null && <span className="ml-2 text-xs text-gray-400">{count}</span>}
+              </button>
+            )
+          })}
+        </nav>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <label htmlFor="search" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+            Search
+          </label>
+          <Input
+            id="search"
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Error message or node"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="provider" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+            n8n Instance
+          </label>
+          <Select
+            id="provider"
+            value={providerFilter}
+            onChange={(e) => setProviderFilter(e.target.value)}
+          >
+            <option value="all">All instances</option>
+            {providers.map(provider => (
+              <option key={provider.id} value={provider.id}>
+                {provider.name}
+              </option>
+            ))}
+          </Select>
+        </div>
+
+        <div>
+          <label htmlFor="sort" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+            Sort By
+          </label>
+          <Select
+            id="sort"
+            value={sort}
+            onChange={(e) => setSort(e.target.value)}
+          >
+            <option value="last_seen">Last seen</option>
+            <option value="first_seen">First seen</option>
+            <option value="occurrences">Occurrences</option>
+          </Select>
+        </div>
+      </div>
+
+      {/* Issue List */}
+      <div className="bg-white dark:bg-slate-800 shadow overflow-hidden sm:rounded-md ring-1 ring-zinc-950/5 dark:ring-white/10">
+        {loading && issues.length === 0 ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600 dark:text-slate-400">Loading issues...</p>
+          </div>
+        ) : issues.length === 0 ? (
+          <div className="p-12 text-center">
+            <BugAntIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-semibold text-gray-900 dark:text-white">No issues</h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">
+              Failed executions show up here once they are synced
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-slate-700">
+            {issues.map(issue => (
+              <li key={issue.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate" title={issue.title}>
+                        {issue.title}
+                      </p>
+                      <Badge color={STATUS_COLORS[issue.status]}>{STATUS_LABELS[issue.status]}</Badge>
+                      {issue.httpStatus !== null && <Badge color="purple">HTTP {issue.httpStatus}</Badge>}
+                    </div>
+                    <p className="mt-1 text-sm text-gray-500 dark:text-slate-400 truncate" title={issue.lastMessage}>
+                      {issue.nodeName ? <span className="font-medium text-gray-700 dark:text-slate-300">{issue.nodeName}</span> : 'Unknown node'}
+                      {issue.errorName && ` • ${issue.errorName}`}
+                      {issue.lastMessage !== issue.title && ` • ${issue.lastMessage}`}
+                    </p>
+                    <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-700 dark:text-slate-300">
+                      <span>
+                        <span className="font-medium">{issue.occurrences}</span> occurrence{issue.occurrences !== 1 ? 's' : ''}
+                        {issue.recentOccurrences > 0 && ` (${issue.recentOccurrences} in 24h)`}
+                      </span>
+                      <span>First seen {formatDate(issue.firstSeenAt)}</span>
+                      <span>Last seen {formatDate(issue.lastSeenAt)}</span>
+                      {issue.providerName && <span>{issue.providerName}</span>}
+                    </div>
+                    {issue.workflows.length > 0 && (
+                      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                        {issue.workflows.slice(0, 3).map(workflow => (
+                          <Link
+                            key={workflow.id}
+                            href={`/workflows/${workflow.id}`}
+                            className="rounded bg-gray-100 px-2 py-0.5 text-gray-700 hover:bg-gray-200 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600"
+                          >
+                            {workflow.name} ({workflow.occurrences})
+                          </Link>
+                        ))}
+                        {issue.workflows.length > 3 && (
+                          <span className="text-gray-500 dark:text-slate-400">+{issue.workflows.length - 3} more</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center space-x-2">
+                    <Button outline onClick={() => handleToggleView(issue)}>
+                      <EyeIcon className="h-4 w-4 mr-1" />
+                      {expandedId === issue.id ? 'Hide' : 'View'}
+                    </Button>
+                    {issue.status === 'resolved' || issue.status === 'ignored' ? (
+                      <Button outline onClick={() => handleStatusChange(issue, 'unresolved')} disabled={updatingId === issue.id}>
+                        <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                        Reopen
+                      </Button>
+                    ) : (
+                      <>
+                        <Button outline onClick={() => handleStatusChange(issue, 'resolved')} disabled={updatingId === issue.id}>
+                          <CheckCircleIcon className="h-4 w-4 mr-1" />
+                          Resolve
+                        </Button>
+                        <Button outline onClick={() => handleStatusChange(issue, 'ignored')} disabled={updatingId === issue.id}>
+                          <EyeSlashIcon className="h-4 w-4 mr-1" />
+                          Ignore
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {expandedId === issue.id && (
+                  <div className="mt-4 space-y-4">
+                    {!detail || detail.id !== issue.id ? (
+                      <p className="text-sm text-gray-500 dark:text-slate-400">Loading occurrences...</p>
+                    ) : (
+                      <>
+                        <div>
+                          <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Occurrences per day (UTC, last 30 days)</h4>
+                          <ResponsiveContainer width="100%" height={160}>
+                            <BarChart data={detail.dailyOccurrences}>
+                              <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                              <XAxis dataKey="date" stroke={axisColor} tick={{ fill: textColor, fontSize: 11 }} tickFormatter={(date) => date.slice(5)} />
+                              <YAxis allowDecimals={false} stroke={axisColor} tick={{ fill: textColor, fontSize: 11 }} />
+                              <Tooltip />
+                              <Bar dataKey="count" name="Failed executions" fill="#ef4444" />
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </div>
+
+                        <div>
+                          <div className="flex items-center justify-between mb-2">
+                            <h4 className="text-sm font-medium text-gray-900 dark:text-white">Latest failed executions</h4>
+                            {user?.role === 'admin' && detail.latestOccurrences.length > 0 && (
+                              <Button outline onClick={() => handleRetryFailed(issue)} disabled={retryingId === issue.id}>
+                                <ArrowPathIcon className={`h-4 w-4 mr-1 ${retryingId === issue.id ? 'animate-spin' : ''}`} />
+                                {retryingId === issue.id ? 'Retrying...' : 'Retry all failed'}
+                              </Button>
+                            )}
+                          </div>
+                          {detail.latestOccurrences.length === 0 ? (
+                            <p className="text-sm text-gray-500 dark:text-slate-400">
+                              The failed executions of this issue have been pruned by data retention
+                            </p>
+                          ) : (
+                            <div className="space-y-1">
+                              {detail.latestOccurrences.map(occurrence => (
+                                <div key={occurrence.executionId} className="flex items-center gap-3 text-sm">
+                                  <span className="w-32 shrink-0 text-gray-500 dark:text-slate-400">{formatDate(occurrence.occurredAt)}</span>
+                                  <Link
+                                    href={`/executions/${occurrence.executionId}`}
+                                    className="shrink-0 font-mono text-indigo-600 hover:text-indigo-500 dark:text-indigo-400"
+                                  >
+                                    #{occurrence.providerExecutionId}
+                                  </Link>
+                                  <span className="shrink-0 text-gray-900 dark:text-white">{occurrence.workflowName}</span>
+                                  <span className="truncate text-gray-500 dark:text-slate-400" title={occurrence.message}>
+                                    {occurrence.message}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {totalCount > ITEMS_PER_PAGE && (
+          <TablePagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            totalCount={totalCount}
+            itemsPerPage={ITEMS_PER_PAGE}
+            onPageChange={(page) => setCurrentPage(page)}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function IssuesPage() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    }
+  }, [user, loading, router])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <AppLayout>
+      <WithN8NConnection>
+        <IssuesContent />
+      </WithN8NConnection>
+    </AppLayout>
+  )
+}
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { AuthProvider } from '@/contexts/AuthContext'
 import { ThemeProvider } from '@/contexts/ThemeContext'
+import { TimezoneProvider } from '@/contexts/TimezoneContext'
 import { ToastContainer } from '@/components/toast'
 import { ThemeToggle } from '@/components/theme-toggle'
 import "./globals.css";
@@ -50,9 +51,11 @@ export default function RootLayout({
       >
         <AuthProvider>
           <ThemeProvider>
-            {children}
-            <ToastContainer />
-            <ThemeToggle />
+            <TimezoneProvider>
+              {children}
+              <ToastContainer />
+              <ThemeToggle />
+            </TimezoneProvider>
           </ThemeProvider>
         </AuthProvider>
       </body>
@@ -14,66 +14,69 @@ import {
   EyeIcon,
   Cog6ToothIcon,
   ArrowPathIcon,
-  SignalIcon
+  SignalIcon,
+  TrashIcon
 } from '@heroicons/react/24/outline'
 import { Badge } from '@/components/badge'
 import { Button } from '@/components/button'
+import { Input } from '@/components/input'
+import { showToast } from '@/components/toast'
+import { apiClient } from '@/lib/api-client'
+import { EndpointCheck, EndpointResult } from '@/types'
 
-// Mock data for monitors until we implement the backend
-const mockMonitors = [
-  {
-    id: '1',
-    name: 'n8n Instance',
-    url: 'https://n8n.srv1041535.hstgr.cloud',
-    method: 'GET',
-    status: 'healthy',
-    lastCheck: new Date(Date.now() - 2 * 60 * 1000), // 2 minutes ago
-    responseTime: 245,
-    uptime: 99.8,
-    interval: 5, // minutes
-    isEnabled: true
-  },
-  {
-    id: '2', 
-    name: 'n8n API Health',
-    url: 'https://n8n.srv1041535.hstgr.cloud/healthz',
-    method: 'GET',
-    status: 'healthy',
-    lastCheck: new Date(Date.now() - 1 * 60 * 1000), // 1 minute ago
-    responseTime: 89,
-    uptime: 100,
-    interval: 1, // minutes
-    isEnabled: true
-  },
-  {
-    id: '3',
-    name: 'Webhook Endpoint',
-    url: 'https://n8n.srv1041535.hstgr.cloud/webhook/test',
-    method: 'POST',
-    status: 'down',
-    lastCheck: new Date(Date.now() - 30 * 1000), // 30 seconds ago
-    responseTime: null,
-    uptime: 87.5,
-    interval: 1, // minutes
-    isEnabled: true
-  },
-  {
-    id: '4',
-    name: 'Database Connection',
-    url: 'Internal Check',
-    method: 'GET',
-    status: 'warning',
-    lastCheck: new Date(Date.now() - 5 * 60 * 1000), // 5 minutes ago
-    responseTime: 1200,
-    uptime: 98.2,
-    interval: 5, // minutes
-    isEnabled: false
-  }
-]
+interface MonitorFormData {
+  name: string
+  url: string
+  method: EndpointCheck['method']
+  expectedStatus: string
+  timeout: string
+  interval: string
+  isEnabled: boolean
+}
+
+const emptyForm: MonitorFormData = {
+  name: '',
+  url: '',
+  method: 'GET',
+  expectedStatus: '',
+  timeout: '10000',
+  interval: '5',
+  isEnabled: true
+}
 
 function MonitorsContent() {
-  const [monitors] = useState(mockMonitors)
+  const [monitors, setMonitors] = useState<EndpointCheck[]>([])
   const [loading, setLoading] = useState(false)
+  const [initialLoading, setInitialLoading] = useState(true)
+  const [showModal, setShowModal] = useState(false)
+  const [editingMonitor, setEditingMonitor] = useState<EndpointCheck | null>(null)
+  const [formData, setFormData] = useState<MonitorFormData>(emptyForm)
+  const [submitting, setSubmitting] = useState(false)
+  const [checkingId, setCheckingId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [results, setResults] = useState<EndpointResult[]>([])
+
+  useEffect(() => {
+    fetchMonitors().finally(() => setInitialLoading(false))
+
+    // Keep statuses fresh while the page is open
+    const interval = setInterval(fetchMonitors, 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const fetchMonitors = async () => {
+    try {
+      const response = await apiClient.get<{ data: EndpointCheck[] }>('/monitors')
+      setMonitors(response.data)
+    } catch (error) {
+      console.error('Failed to fetch monitors:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to load monitors',
+        message: 'Please try again'
+      })
+    }
+  }
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -101,9 +104,11 @@ function MonitorsContent() {
     }
   }
 
-  const formatLastCheck = (date: Date) => {
+  const formatLastCheck = (date?: Date | string) => {
+    if (!date) return 'Never'
+
     const now = new Date()
-    const diffMs = now.getTime() - date.getTime()
+    const diffMs = now.getTime() - new Date(date).getTime()
     const diffMins = Math.floor(diffMs / 60000)
     const diffSecs = Math.floor(diffMs / 1000)
     
@@ -116,11 +121,145 @@ function MonitorsContent() {
 
   const refreshMonitors = async () => {
     setLoading(true)
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000))
+    await fetchMonitors()
     setLoading(false)
   }
 
+  const handleAdd = () => {
+    setFormData(emptyForm)
+    setEditingMonitor(null)
+    setShowModal(true)
+  }
+
+  const handleEdit = (monitor: EndpointCheck) => {
+    setFormData({
+      name: monitor.name,
+      url: monitor.url,
+      method: monitor.method,
+      expectedStatus: monitor.expectedStatus ? String(monitor.expectedStatus) : '',
+      timeout: String(monitor.timeout),
+      interval: String(monitor.interval),
+      isEnabled: monitor.isEnabled
+    })
+    setEditingMonitor(monitor)
+    setShowModal(true)
+  }
+
+  const handleCloseModal = () => {
+    setShowModal(false)
+    setEditingMonitor(null)
+    setFormData(emptyForm)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const payload = {
+      name: formData.name,
+      url: formData.url,
+      method: formData.method,
+      expectedStatus: formData.expectedStatus ? Number(formData.expectedStatus) : null,
+      timeout: Number(formData.timeout),
+      interval: Number(formData.interval),
+      isEnabled: formData.isEnabled
+    }
+
+    try {
+      setSubmitting(true)
+
+      if (editingMonitor) {
+        await apiClient.put(`/monitors/${editingMonitor.id}`, payload)
+        showToast({
+          type: 'success',
+          title: 'Monitor updated',
+          message: `${formData.name} has been updated successfully`
+        })
+      } else {
+        await apiClient.post('/monitors', payload)
+        showToast({
+          type: 'success',
+          title: 'Monitor added',
+          message: `${formData.name} is now being monitored`
+        })
+      }
+
+      handleCloseModal()
+      await fetchMonitors()
+    } catch (error) {
+      console.error('Failed to save monitor:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to save monitor',
+        message: 'Please check your details and try again'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDelete = async (monitor: EndpointCheck) => {
+    if (!confirm(`Are you sure you want to delete "${monitor.name}"? All of its check history will be removed.`)) {
+      return
+    }
+
+    try {
+      await apiClient.delete(`/monitors/${monitor.id}`)
+      showToast({
+        type: 'success',
+        title: 'Monitor deleted',
+        message: `${monitor.name} has been deleted`
+      })
+      await fetchMonitors()
+    } catch (error) {
+      console.error('Failed to delete monitor:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to delete monitor',
+        message: 'Please try again'
+      })
+    }
+  }
+
+  const handleCheckNow = async (monitor: EndpointCheck) => {
+    try {
+      setCheckingId(monitor.id)
+      await apiClient.post(`/monitors/${monitor.id}/check`)
+      await fetchMonitors()
+      if (expandedId === monitor.id) {
+        await fetchResults(monitor.id)
+      }
+    } catch (error) {
+      console.error('Failed to run check:', error)
+      showToast({
+        type: 'error',
+        title: 'Check failed',
+        message: 'Unable to run the check right now'
+      })
+    } finally {
+      setCheckingId(null)
+    }
+  }
+
+  const fetchResults = async (monitorId: string) => {
+    const response = await apiClient.get<{ data: EndpointCheck & { results: EndpointResult[] } }>(`/monitors/${monitorId}?limit=20`)
+    setResults(response.data.results)
+  }
+
+  const handleToggleView = async (monitor: EndpointCheck) => {
+    if (expandedId === monitor.id) {
+      setExpandedId(null)
+      return
+    }
+
+    setExpandedId(monitor.id)
+    setResults([])
+    try {
+      await fetchResults(monitor.id)
+    } catch (error) {
+      console.error('Failed to fetch monitor results:', error)
+    }
+  }
+
   const healthyCount = monitors.filter(m => m.status === 'healthy' && m.isEnabled).length
   const downCount = monitors.filter(m => m.status === 'down' && m.isEnabled).length
   const warningCount = monitors.filter(m => m.status === 'warning' && m.isEnabled).length
@@ -146,7 +285,7 @@ function MonitorsContent() {
             <ArrowPathIcon className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
             {loading ? 'Refreshing...' : 'Refresh'}
           </Button>
-          <Button>
+          <Button onClick={handleAdd}>
             <PlusIcon className="h-4 w-4 mr-2" />
             Add Monitor
           </Button>
@@ -229,10 +368,31 @@ function MonitorsContent() {
           </p>
         </div>
         
+        {initialLoading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600 dark:text-slate-400">Loading monitors...</p>
+          </div>
+        ) : monitors.length === 0 ? (
+          <div className="p-12 text-center">
+            <SignalIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-semibold text-gray-900 dark:text-white">No monitors</h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">
+              Add a monitor to start tracking the availability of an endpoint
+            </p>
+            <div className="mt-6">
+              <Button onClick={handleAdd}>
+                <PlusIcon className="h-4 w-4 mr-2" />
+                Add Monitor
+              </Button>
+            </div>
+          </div>
+        ) : (
         <ul className="divide-y divide-gray-200">
           {monitors.map((monitor) => {
-            const StatusIcon = getStatusIcon(monitor.status)
-            const statusColor = getStatusColor(monitor.status)
+            const status = monitor.status || 'unknown'
+            const StatusIcon = getStatusIcon(status)
+            const statusColor = getStatusColor(status)
             
             return (
               <li key={monitor.id} className="px-4 py-4 sm:px-6">
@@ -240,19 +400,19 @@ function MonitorsContent() {
                   <div className="flex items-center">
                     <div className="flex-shrink-0">
                       <StatusIcon className={`h-6 w-6 ${
-                        monitor.status === 'healthy' ? 'text-green-500' :
-                        monitor.status === 'down' ? 'text-red-500' :
-                        monitor.status === 'warning' ? 'text-yellow-500' :
+                        status === 'healthy' ? 'text-green-500' :
+                        status === 'down' ? 'text-red-500' :
+                        status === 'warning' ? 'text-yellow-500' :
                         'text-gray-400'
                       }`} />
                     </div>
                     <div className="ml-4 min-w-0 flex-1">
                       <div className="flex items-center space-x-3">
-                        <p className="text-sm font-medium text-gray-900 truncate">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
                           {monitor.name}
                         </p>
                         <Badge color={statusColor} className="capitalize">
-                          {monitor.status}
+                          {status}
                         </Badge>
                         {!monitor.isEnabled && (
                           <Badge color="zinc">
@@ -265,35 +425,87 @@ function MonitorsContent() {
                         <span>•</span>
                         <span>Every {monitor.interval}m</span>
                         <span>•</span>
-                        <span>{monitor.uptime}% uptime</span>
-                        {monitor.responseTime && (
+                        <span>{monitor.uptime !== undefined ? `${monitor.uptime}% uptime` : 'No data'}</span>
+                        {monitor.avgResponseTime !== undefined && (
                           <>
                             <span>•</span>
-                            <span>{monitor.responseTime}ms</span>
+                            <span>{monitor.avgResponseTime}ms avg</span>
                           </>
                         )}
                       </div>
                       <p className="text-xs text-gray-400 mt-1">
-                        Last checked: {formatLastCheck(monitor.lastCheck)}
+                        Last checked: {formatLastCheck(monitor.lastResult?.timestamp)}
+                        {monitor.lastResult?.error && ` — ${monitor.lastResult.error}`}
                       </p>
                     </div>
                   </div>
                   
                   <div className="flex items-center space-x-2">
-                    <Button outline>
+                    <Button
+                      outline
+                      onClick={() => handleCheckNow(monitor)}
+                      disabled={checkingId === monitor.id}
+                    >
+                      <ArrowPathIcon className={`h-4 w-4 mr-1 ${checkingId === monitor.id ? 'animate-spin' : ''}`} />
+                      Check
+                    </Button>
+                    <Button outline onClick={() => handleToggleView(monitor)}>
                       <EyeIcon className="h-4 w-4 mr-1" />
-                      View
+                      {expandedId === monitor.id ? 'Hide' : 'View'}
                     </Button>
-                    <Button outline>
+                    <Button outline onClick={() => handleEdit(monitor)}>
                       <Cog6ToothIcon className="h-4 w-4 mr-1" />
                       Edit
                     </Button>
+                    <Button
+                      outline
+                      onClick={() => handleDelete(monitor)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </Button>
                   </div>
                 </div>
+
+                {expandedId === monitor.id && (
+                  <div className="mt-4 ml-10">
+                    {results.length === 0 ? (
+                      <p className="text-sm text-gray-500 dark:text-slate-400">No check results yet</p>
+                    ) : (
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs text-gray-500 dark:text-slate-400">
+                            <th className="py-1 pr-4 font-medium">Time</th>
+                            <th className="py-1 pr-4 font-medium">Result</th>
+                            <th className="py-1 pr-4 font-medium">Status Code</th>
+                            <th className="py-1 pr-4 font-medium">Response Time</th>
+                            <th className="py-1 font-medium">Error</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {results.map((result) => (
+                            <tr key={result.id} className="text-gray-700 dark:text-slate-300">
+                              <td className="py-1 pr-4">{new Date(result.timestamp).toLocaleString()}</td>
+                              <td className="py-1 pr-4">
+                                <Badge color={result.success ? 'green' : 'red'}>
+                                  {result.success ? 'Up' : 'Down'}
+                                </Badge>
+                              </td>
+                              <td className="py-1 pr-4">{result.statusCode ?? '—'}</td>
+                              <td className="py-1 pr-4">{result.responseTime !== undefined ? `${result.responseTime}ms` : '—'}</td>
+                              <td className="py-1 text-red-600 truncate max-w-xs">{result.error || ''}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
               </li>
             )
           })}
         </ul>
+        )}
       </div>
 
       {/* Info Card */}
@@ -322,6 +534,117 @@ function MonitorsContent() {
           </div>
         </div>
       </div>
+
+      {/* Add/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+              {editingMonitor ? 'Edit Monitor' : 'Add Monitor'}
+            </h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Name
+                </label>
+                <Input
+                  id="name"
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="n8n Health"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="url" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  URL
+                </label>
+                <Input
+                  id="url"
+                  type="url"
+                  value={formData.url}
+                  onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                  placeholder="https://n8n.example.com/healthz"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="method" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    Method
+                  </label>
+                  <select
+                    id="method"
+                    value={formData.method}
+                    onChange={(e) => setFormData({ ...formData, method: e.target.value as EndpointCheck['method'] })}
+                    className="block w-full rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-2 text-sm text-gray-900 dark:text-white"
+                  >
+                    {['GET', 'POST', 'PUT', 'DELETE', 'HEAD'].map(method => (
+                      <option key={method} value={method}>{method}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="expectedStatus" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    Expected Status
+                  </label>
+                  <Input
+                    id="expectedStatus"
+                    type="number"
+                    value={formData.expectedStatus}
+                    onChange={(e) => setFormData({ ...formData, expectedStatus: e.target.value })}
+                    placeholder="Any 2xx"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="interval" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    Interval (minutes)
+                  </label>
+                  <Input
+                    id="interval"
+                    type="number"
+                    min={1}
+                    value={formData.interval}
+                    onChange={(e) => setFormData({ ...formData, interval: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="timeout" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    Timeout (ms)
+                  </label>
+                  <Input
+                    id="timeout"
+                    type="number"
+                    min={1000}
+                    step={500}
+                    value={formData.timeout}
+                    onChange={(e) => setFormData({ ...formData, timeout: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={formData.isEnabled}
+                  onChange={(e) => setFormData({ ...formData, isEnabled: e.target.checked })}
+                />
+                <span>Enabled</span>
+              </label>
+              <div className="flex justify-end space-x-3 pt-4">
+                <Button type="button" outline onClick={handleCloseModal}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? 'Saving...' : editingMonitor ? 'Update' : 'Add Monitor'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
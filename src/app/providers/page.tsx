@@ -19,11 +19,13 @@ import { Button } from '@/components/button'
 import { Input } from '@/components/input'
 import { showToast } from '@/components/toast'
 import { Badge } from '@/components/badge'
+import { COMMON_TIMEZONES } from '@/lib/timezone'
 
 interface ProviderFormData {
   name: string
   baseUrl: string
   apiKey: string
+  timezone: string
 }
 
 function ProvidersContent() {
@@ -34,7 +36,8 @@ function ProvidersContent() {
   const [formData, setFormData] = useState<ProviderFormData>({
     name: '',
     baseUrl: '',
-    apiKey: ''
+    apiKey: '',
+    timezone: ''
   })
   const [submitting, setSubmitting] = useState(false)
   const [testingId, setTestingId] = useState<string | null>(null)
@@ -61,7 +64,7 @@ function ProvidersContent() {
   }
 
   const handleAdd = () => {
-    setFormData({ name: '', baseUrl: '', apiKey: '' })
+    setFormData({ name: '', baseUrl: '', apiKey: '', timezone: '' })
     setEditingProvider(null)
     setShowAddModal(true)
   }
@@ -70,7 +73,8 @@ function ProvidersContent() {
     setFormData({
       name: provider.name,
       baseUrl: provider.baseUrl,
-      apiKey: '' // Don't populate API key for security
+      apiKey: '', // Don't populate API key for security
+      timezone: typeof provider.metadata?.timezone === 'string' ? provider.metadata.timezone : ''
     })
     setEditingProvider(provider)
     setShowAddModal(true)
@@ -79,7 +83,7 @@ function ProvidersContent() {
   const handleCloseModal = () => {
     setShowAddModal(false)
     setEditingProvider(null)
-    setFormData({ name: '', baseUrl: '', apiKey: '' })
+    setFormData({ name: '', baseUrl: '', apiKey: '', timezone: '' })
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -110,7 +114,8 @@ function ProvidersContent() {
         // Update existing provider
         const updateData: any = {
           name: formData.name,
-          baseUrl: formData.baseUrl
+          baseUrl: formData.baseUrl,
+          metadata: { ...editingProvider.metadata, timezone: formData.timezone || undefined }
         }
         // Only include API key if it was changed
         if (formData.apiKey) {
@@ -126,7 +131,12 @@ function ProvidersContent() {
         })
       } else {
         // Create new provider
-        await apiClient.post('/providers', formData)
+        await apiClient.post('/providers', {
+          name: formData.name,
+          baseUrl: formData.baseUrl,
+          apiKey: formData.apiKey,
+          metadata: formData.timezone ? { timezone: formData.timezone } : {}
+        })
         
         showToast({
           type: 'success',
@@ -367,6 +377,29 @@ function ProvidersContent() {
                   required={!editingProvider}
                 />
               </div>
+              <div>
+                <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Default Timezone <span className="text-xs text-gray-500 dark:text-slate-400">(optional)</span>
+                </label>
+                <Input
+                  id="timezone"
+                  type="text"
+                  list="provider-timezones"
+                  value={formData.timezone}
+                  onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                  placeholder="Same as the app timezone"
+                />
+                <datalist id="provider-timezones">
+                  {COMMON_TIMEZONES.map(timezone => (
+                    <option key={timezone.value} value={timezone.value}>
+                      {timezone.label}
+                    </option>
+                  ))}
+                </datalist>
+                <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                  The instance&apos;s GENERIC_TIMEZONE, used for schedules of workflows without their own timezone setting
+                </p>
+              </div>
               <div className="flex justify-end space-x-3 pt-4">
                 <Button type="button" outline onClick={handleCloseModal}>
                   Cancel
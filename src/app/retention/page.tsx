@@ -0,0 +1,457 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/contexts/AuthContext'
+import { AppLayout } from '@/components/app-layout'
+import {
+  ArchiveBoxIcon,
+  ArrowPathIcon,
+  CircleStackIcon,
+  ScissorsIcon
+} from '@heroicons/react/24/outline'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/table'
+import { Badge } from '@/components/badge'
+import { Button } from '@/components/button'
+import { Input } from '@/components/input'
+import { showToast } from '@/components/toast'
+import { apiClient } from '@/lib/api-client'
+import {
+  RetentionPolicy,
+  RetentionPruneResult,
+  WorkflowPayloadUsage
+} from '@/types'
+
+type PolicyFormData = Record<keyof RetentionPolicy, string>
+
+const POLICY_FIELDS: { key: keyof RetentionPolicy; label: string; help: string }[] = [
+  { key: 'successPayloadDays', label: 'Successful runs: full data', help: 'Execution data and raw n8n response' },
+  { key: 'successSummaryDays', label: 'Successful runs: summaries', help: 'Status, timing and token usage' },
+  { key: 'errorPayloadDays', label: 'Failed runs: full data', help: 'Execution data and raw n8n response' },
+  { key: 'errorSummaryDays', label: 'Failed runs: summaries', help: 'Status, timing and token usage' }
+]
+
+const emptyPolicyForm: PolicyFormData = {
+  successSummaryDays: '',
+  successPayloadDays: '',
+  errorSummaryDays: '',
+  errorPayloadDays: ''
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  const units = ['KB', 'MB', 'GB']
+  let value = bytes / 1024
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(value >= 10 ? 0 : 1)} ${units[unit]}`
+}
+
+function formatDays(days: number | null | undefined): string {
+  if (days === null || days === undefined) return 'Default'
+  return days === 0 ? 'Forever' : `${days} days`
+}
+
+function RetentionContent() {
+  const [policy, setPolicy] = useState<RetentionPolicy | null>(null)
+  const [policyForm, setPolicyForm] = useState<PolicyFormData>(emptyPolicyForm)
+  const [usage, setUsage] = useState<WorkflowPayloadUsage[]>([])
+  const [databaseSize, setDatabaseSize] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [savingPolicy, setSavingPolicy] = useState(false)
+  const [pruning, setPruning] = useState(false)
+  const [lastPrune, setLastPrune] = useState<RetentionPruneResult | null>(null)
+  const [editingWorkflow, setEditingWorkflow] = useState<WorkflowPayloadUsage | null>(null)
+  const [overrideForm, setOverrideForm] = useState<PolicyFormData>(emptyPolicyForm)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    fetchRetention()
+  }, [])
+
+  const fetchRetention = async () => {
+    try {
+      setLoading(true)
+      const response = await apiClient.get<{
+        data: { policy: RetentionPolicy; usage: WorkflowPayloadUsage[]; databaseSizeBytes: number }
+      }>('/retention')
+      setPolicy(response.data.policy)
+      setPolicyForm({
+        successSummaryDays: String(response.data.policy.successSummaryDays),
+        successPayloadDays: String(response.data.policy.successPayloadDays),
+        errorSummaryDays: String(response.data.policy.errorSummaryDays),
+        errorPayloadDays: String(response.data.policy.errorPayloadDays)
+      })
+      setUsage(response.data.usage)
+      setDatabaseSize(response.data.databaseSizeBytes)
+    } catch (error) {
+      console.error('Failed to fetch retention settings:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to load retention settings',
+        message: 'Please try again'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSavePolicy = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setSavingPolicy(true)
+      const response = await apiClient.put<{ data: RetentionPolicy }>('/retention', policyForm)
+      setPolicy(response.data)
+      showToast({
+        type: 'success',
+        title: 'Retention policy saved',
+        message: 'It will be applied on the next pruning run'
+      })
+    } catch (error) {
+      console.error('Failed to save retention policy:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to save retention policy',
+        message: 'Days must be whole numbers, 0 keeps data forever'
+      })
+    } finally {
+      setSavingPolicy(false)
+    }
+  }
+
+  const handlePrune = async () => {
+    if (!confirm('Prune expired execution data now? Deleted data cannot be recovered.')) {
+      return
+    }
+
+    try {
+      setPruning(true)
+      const response = await apiClient.post<{ data: RetentionPruneResult }>('/retention/prune')
+      setLastPrune(response.data)
+      showToast({
+        type: 'success',
+        title: 'Pruning completed',
+        message: `Freed ${formatBytes(Math.max(response.data.sizeBeforeBytes - response.data.sizeAfterBytes, 0))}`
+      })
+      await fetchRetention()
+    } catch (error) {
+      console.error('Failed to prune execution data:', error)
+      showToast({
+        type: 'error',
+        title: 'Pruning failed',
+        message: 'Please try again'
+      })
+    } finally {
+      setPruning(false)
+    }
+  }
+
+  const handleEditOverride = (workflow: WorkflowPayloadUsage) => {
+    setEditingWorkflow(workflow)
+    setOverrideForm({
+      successSummaryDays: workflow.override?.successSummaryDays?.toString() ?? '',
+      successPayloadDays: workflow.override?.successPayloadDays?.toString() ?? '',
+      errorSummaryDays: workflow.override?.errorSummaryDays?.toString() ?? '',
+      errorPayloadDays: workflow.override?.errorPayloadDays?.toString() ?? ''
+    })
+  }
+
+  const handleCloseOverride = () => {
+    setEditingWorkflow(null)
+    setOverrideForm(emptyPolicyForm)
+  }
+
+  const handleSaveOverride = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editingWorkflow) return
+
+    try {
+      setSubmitting(true)
+      // Blank fields are sent as null so they fall back to the global policy
+      const body = Object.fromEntries(
+        Object.entries(overrideForm).map(([key, value]) => [key, value === '' ? null : value])
+      )
+      await apiClient.put(`/retention/workflows/${editingWorkflow.workflowId}`, body)
+      showToast({
+        type: 'success',
+        title: 'Override saved',
+        message: `${editingWorkflow.workflowName} now uses its own retention`
+      })
+      handleCloseOverride()
+      await fetchRetention()
+    } catch (error) {
+      console.error('Failed to save retention override:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to save override',
+        message: 'Days must be whole numbers, 0 keeps data forever'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleRemoveOverride = async () => {
+    if (!editingWorkflow) return
+
+    try {
+      setSubmitting(true)
+      await apiClient.delete(`/retention/workflows/${editingWorkflow.workflowId}`)
+      showToast({
+        type: 'success',
+        title: 'Override removed',
+        message: `${editingWorkflow.workflowName} uses the global policy again`
+      })
+      handleCloseOverride()
+      await fetchRetention()
+    } catch (error) {
+      console.error('Failed to remove retention override:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to remove override',
+        message: 'Please try again'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const totalPayloadBytes = usage.reduce((sum, w) => sum + w.payloadBytes + w.metadataBytes, 0)
+
+  return (
+    <div className="space-y-8">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Data Retention</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-slate-400">
+            Control how long execution history is kept. Expired data is pruned daily.
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <Button outline onClick={fetchRetention} disabled={loading}>
+            <ArrowPathIcon className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </Button>
+          <Button onClick={handlePrune} disabled={pruning}>
+            <ScissorsIcon className="h-4 w-4 mr-2" />
+            {pruning ? 'Pruning...' : 'Prune Now'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Storage Summary */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div className="bg-white dark:bg-slate-800 shadow border border-gray-200 dark:border-slate-300 rounded-md p-5">
+          <div className="flex items-center space-x-3">
+            <CircleStackIcon className="h-6 w-6 text-indigo-500" />
+            <div>
+              <p className="text-sm text-gray-500 dark:text-slate-400">Database size</p>
+              <p className="text-xl font-semibold text-gray-900 dark:text-white">{formatBytes(databaseSize)}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white dark:bg-slate-800 shadow border border-gray-200 dark:border-slate-300 rounded-md p-5">
+          <div className="flex items-center space-x-3">
+            <ArchiveBoxIcon className="h-6 w-6 text-indigo-500" />
+            <div>
+              <p className="text-sm text-gray-500 dark:text-slate-400">Execution payloads</p>
+              <p className="text-xl font-semibold text-gray-900 dark:text-white">{formatBytes(totalPayloadBytes)}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white dark:bg-slate-800 shadow border border-gray-200 dark:border-slate-300 rounded-md p-5">
+          <p className="text-sm text-gray-500 dark:text-slate-400">Last manual pruning</p>
+          {lastPrune ? (
+            <p className="mt-1 text-sm text-gray-900 dark:text-white">
+              {lastPrune.payloadsCleared} payloads cleared, {lastPrune.summariesDeleted} executions deleted
+              {lastPrune.vacuumed ? ', vacuumed' : ''}
+            </p>
+          ) : (
+            <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">Not run in this session</p>
+          )}
+        </div>
+      </div>
+
+      {/* Global Policy */}
+      <div className="bg-white dark:bg-slate-800 shadow border border-gray-200 dark:border-slate-300 overflow-hidden sm:rounded-md">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Default Policy</h3>
+          <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">
+            Days to keep each kind of data. Use 0 to keep it forever. Running executions are never pruned.
+          </p>
+        </div>
+        <form onSubmit={handleSavePolicy} className="px-4 py-5 sm:px-6 space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            {POLICY_FIELDS.map(field => (
+              <div key={field.key}>
+                <label htmlFor={field.key} className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  {field.label}
+                </label>
+                <Input
+                  id={field.key}
+                  type="number"
+                  min="0"
+                  value={policyForm[field.key]}
+                  onChange={(e) => setPolicyForm({ ...policyForm, [field.key]: e.target.value })}
+                  required
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">{field.help}</p>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={savingPolicy || !policy}>
+              {savingPolicy ? 'Saving...' : 'Save Policy'}
+            </Button>
+          </div>
+        </form>
+      </div>
+
+      {/* Per-workflow Usage */}
+      <div className="bg-white dark:bg-slate-800 shadow overflow-hidden sm:rounded-md ring-1 ring-zinc-950/5 dark:ring-white/10">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Storage by Workflow</h3>
+          <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">
+            Space used by stored execution data, largest first
+          </p>
+        </div>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableHeader>Workflow</TableHeader>
+              <TableHeader>Executions</TableHeader>
+              <TableHeader>With Full Data</TableHeader>
+              <TableHeader>Payload Size</TableHeader>
+              <TableHeader>Retention</TableHeader>
+              <TableHeader></TableHeader>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {usage.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                  {loading ? 'Loading...' : 'No stored executions yet'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              usage.map(workflow => (
+                <TableRow key={workflow.workflowId}>
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span className="font-medium text-gray-900 dark:text-white truncate max-w-xs" title={workflow.workflowName}>
+                        {workflow.workflowName}
+                      </span>
+                      <span className="text-xs text-gray-500 font-mono truncate max-w-xs">
+                        {workflow.providerWorkflowId}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell>{workflow.executionCount.toLocaleString()}</TableCell>
+                  <TableCell>{workflow.payloadCount.toLocaleString()}</TableCell>
+                  <TableCell>{formatBytes(workflow.payloadBytes + workflow.metadataBytes)}</TableCell>
+                  <TableCell>
+                    {workflow.override ? (
+                      <Badge color="indigo" title={POLICY_FIELDS.map(f => `${f.label}: ${formatDays(workflow.override?.[f.key])}`).join('\n')}>
+                        Custom
+                      </Badge>
+                    ) : (
+                      <Badge color="zinc">Default</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button plain onClick={() => handleEditOverride(workflow)}>
+                      Override
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Override Modal */}
+      {editingWorkflow && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1">
+              Retention for {editingWorkflow.workflowName}
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">
+              Leave a field blank to use the default policy
+            </p>
+            <form onSubmit={handleSaveOverride} className="space-y-4">
+              {POLICY_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label htmlFor={`override-${field.key}`} className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    {field.label}
+                  </label>
+                  <Input
+                    id={`override-${field.key}`}
+                    type="number"
+                    min="0"
+                    value={overrideForm[field.key]}
+                    onChange={(e) => setOverrideForm({ ...overrideForm, [field.key]: e.target.value })}
+                    placeholder={policy ? `Default: ${formatDays(policy[field.key])}` : ''}
+                  />
+                </div>
+              ))}
+              <div className="flex justify-between pt-4">
+                <div>
+                  {editingWorkflow.override && (
+                    <Button type="button" outline onClick={handleRemoveOverride} disabled={submitting}>
+                      Use Default
+                    </Button>
+                  )}
+                </div>
+                <div className="flex space-x-3">
+                  <Button type="button" outline onClick={handleCloseOverride}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={submitting}>
+                    {submitting ? 'Saving...' : 'Save Override'}
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function RetentionPage() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    }
+  }, [user, loading, router])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <AppLayout>
+      <RetentionContent />
+    </AppLayout>
+  )
+}
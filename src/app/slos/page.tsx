@@ -0,0 +1,619 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/contexts/AuthContext'
+import { useTheme } from '@/contexts/ThemeContext'
+import { AppLayout } from '@/components/app-layout'
+import { WithN8NConnection } from '@/components/with-n8n-connection'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts'
+import {
+  ShieldCheckIcon,
+  PlusIcon,
+  EyeIcon,
+  Cog6ToothIcon,
+  ArrowPathIcon,
+  TrashIcon,
+  BellAlertIcon
+} from '@heroicons/react/24/outline'
+import { Badge } from '@/components/badge'
+import { Button } from '@/components/button'
+import { Input } from '@/components/input'
+import { showToast } from '@/components/toast'
+import { apiClient } from '@/lib/api-client'
+import { Slo, SloHealth, SloObjectiveType, SloScopeType, SloStatus, Workflow } from '@/types'
+
+interface SloFormData {
+  name: string
+  scopeType: SloScopeType
+  scopeValue: string
+  objectiveType: SloObjectiveType
+  target: string
+  latencyThresholdMs: string
+  windowDays: string
+  isEnabled: boolean
+}
+
+const emptyForm: SloFormData = {
+  name: '',
+  scopeType: 'workflow',
+  scopeValue: '',
+  objectiveType: 'success_rate',
+  target: '99.5',
+  latencyThresholdMs: '10000',
+  windowDays: '30',
+  isEnabled: true
+}
+
+const HEALTH_COLORS: Record<SloHealth, 'green' | 'yellow' | 'red' | 'zinc'> = {
+  healthy: 'green',
+  at_risk: 'yellow',
+  breached: 'red',
+  no_data: 'zinc'
+}
+
+const HEALTH_LABELS: Record<SloHealth, string> = {
+  healthy: 'Healthy',
+  at_risk: 'At risk',
+  breached: 'Budget exhausted',
+  no_data: 'No data'
+}
+
+const selectClassName = 'block w-full rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 px-3 py-2 text-sm text-gray-900 dark:text-white'
+
+function describeObjective(slo: Slo): string {
+  return slo.objectiveType === 'latency'
+    ? `${slo.target}% of runs under ${slo.latencyThresholdMs}ms over ${slo.windowDays} days`
+    : `${slo.target}% success over ${slo.windowDays} days`
+}
+
+function formatWindow(minutes: number): string {
+  return minutes >= 24 * 60 ? `${minutes / (24 * 60)}d` : minutes >= 60 ? `${minutes / 60}h` : `${minutes}m`
+}
+
+function budgetBarColor(remaining: number): string {
+  if (remaining <= 0) return 'bg-red-500'
+  if (remaining < 25) return 'bg-yellow-500'
+  return 'bg-green-500'
+}
+
+function SlosContent() {
+  const { theme } = useTheme()
+  const [statuses, setStatuses] = useState<SloStatus[]>([])
+  const [workflows, setWorkflows] = useState<Workflow[]>([])
+  const [loading, setLoading] = useState(false)
+  const [initialLoading, setInitialLoading] = useState(true)
+  const [showModal, setShowModal] = useState(false)
+  const [editingSlo, setEditingSlo] = useState<Slo | null>(null)
+  const [formData, setFormData] = useState<SloFormData>(emptyForm)
+  const [submitting, setSubmitting] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [detail, setDetail] = useState<SloStatus | null>(null)
+
+  // Theme-aware colors
+  const gridColor = theme === 'dark' ? '#3f3f46' : '#f3f4f6'
+  const axisColor = theme === 'dark' ? '#a1a1aa' : '#6b7280'
+  const textColor = theme === 'dark' ? '#e4e4e7' : '#374151'
+
+  useEffect(() => {
+    Promise.all([fetchSlos(), fetchWorkflows()]).finally(() => setInitialLoading(false))
+
+    // Keep compliance fresh while the page is open
+    const interval = setInterval(fetchSlos, 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const fetchSlos = async () => {
+    try {
+      const response = await apiClient.get<{ data: SloStatus[] }>('/slos')
+      setStatuses(response.data)
+    } catch (error) {
+      console.error('Failed to fetch SLOs:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to load SLOs',
+        message: 'Please try again'
+      })
+    }
+  }
+
+  const fetchWorkflows = async () => {
+    try {
+      const response = await apiClient.get<{ data: { items: Workflow[] } }>('/workflows?limit=500')
+      setWorkflows(response.data.items)
+    } catch (error) {
+      console.error('Failed to fetch workflows:', error)
+    }
+  }
+
+  const refresh = async () => {
+    setLoading(true)
+    await fetchSlos()
+    if (expandedId) await fetchDetail(expandedId)
+    setLoading(false)
+  }
+
+  const tags = [...new Set(workflows.flatMap(w => w.tags))].sort()
+
+  const describeScope = (slo: Slo) => slo.scopeType === 'workflow'
+    ? `Workflow: ${workflows.find(w => w.id === slo.scopeValue)?.name || slo.scopeValue}`
+    : `Tag: ${slo.scopeValue}`
+
+  const handleAdd = () => {
+    setFormData(emptyForm)
+    setEditingSlo(null)
+    setShowModal(true)
+  }
+
+  const handleEdit = (slo: Slo) => {
+    setFormData({
+      name: slo.name,
+      scopeType: slo.scopeType,
+      scopeValue: slo.scopeValue,
+      objectiveType: slo.objectiveType,
+      target: String(slo.target),
+      latencyThresholdMs: String(slo.latencyThresholdMs ?? 10000),
+      windowDays: String(slo.windowDays),
+      isEnabled: slo.isEnabled
+    })
+    setEditingSlo(slo)
+    setShowModal(true)
+  }
+
+  const handleCloseModal = () => {
+    setShowModal(false)
+    setEditingSlo(null)
+    setFormData(emptyForm)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const payload = {
+      name: formData.name,
+      scopeType: formData.scopeType,
+      scopeValue: formData.scopeValue,
+      objectiveType: formData.objectiveType,
+      target: Number(formData.target),
+      latencyThresholdMs: formData.objectiveType === 'latency' ? Number(formData.latencyThresholdMs) : null,
+      windowDays: Number(formData.windowDays),
+      isEnabled: formData.isEnabled
+    }
+
+    try {
+      setSubmitting(true)
+
+      if (editingSlo) {
+        await apiClient.put(`/slos/${editingSlo.id}`, payload)
+        showToast({
+          type: 'success',
+          title: 'SLO updated',
+          message: `${formData.name} has been updated successfully`
+        })
+      } else {
+        await apiClient.post('/slos', payload)
+        showToast({
+          type: 'success',
+          title: 'SLO added',
+          message: `${formData.name} is now being tracked`
+        })
+      }
+
+      handleCloseModal()
+      await fetchSlos()
+    } catch (error) {
+      console.error('Failed to save SLO:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to save SLO',
+        message: 'Please check your details and try again'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDelete = async (slo: Slo) => {
+    if (!confirm(`Are you sure you want to delete the SLO "${slo.name}"?`)) {
+      return
+    }
+
+    try {
+      await apiClient.delete(`/slos/${slo.id}`)
+      showToast({
+        type: 'success',
+        title: 'SLO deleted',
+        message: `${slo.name} has been deleted`
+      })
+      if (expandedId === slo.id) setExpandedId(null)
+      await fetchSlos()
+    } catch (error) {
+      console.error('Failed to delete SLO:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to delete SLO',
+        message: 'Please try again'
+      })
+    }
+  }
+
+  const fetchDetail = async (sloId: string) => {
+    const response = await apiClient.get<{ data: SloStatus }>(`/slos/${sloId}`)
+    setDetail(response.data)
+  }
+
+  const handleToggleView = async (slo: Slo) => {
+    if (expandedId === slo.id) {
+      setExpandedId(null)
+      return
+    }
+
+    setExpandedId(slo.id)
+    setDetail(null)
+    try {
+      await fetchDetail(slo.id)
+    } catch (error) {
+      console.error('Failed to fetch SLO budget history:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Service Level Objectives</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-slate-400">
+            Track success and latency objectives for critical workflows and their remaining error budget
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <Button outline onClick={refresh} disabled={loading}>
+            <ArrowPathIcon className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </Button>
+          <Button onClick={handleAdd}>
+            <PlusIcon className="h-4 w-4 mr-2" />
+            Add SLO
+          </Button>
+        </div>
+      </div>
+
+      {/* SLO List */}
+      <div className="bg-white dark:bg-slate-800 shadow border border-gray-200 dark:border-slate-300 overflow-hidden sm:rounded-md">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">All SLOs</h3>
+          <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">
+            Burn rate 1x spends exactly the error budget over the SLO window
+          </p>
+        </div>
+
+        {initialLoading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600 dark:text-slate-400">Loading SLOs...</p>
+          </div>
+        ) : statuses.length === 0 ? (
+          <div className="p-12 text-center">
+            <ShieldCheckIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-semibold text-gray-900 dark:text-white">No SLOs</h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-slate-400">
+              Declare an objective such as &quot;99.5% success over 30 days&quot; for a workflow or tag
+            </p>
+            <div className="mt-6">
+              <Button onClick={handleAdd}>
+                <PlusIcon className="h-4 w-4 mr-2" />
+                Add SLO
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {statuses.map((status) => {
+              const { slo } = status
+              const remaining = status.budgetRemainingPct
+
+              return (
+                <li key={slo.id} className="px-4 py-4 sm:px-6">
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center space-x-3">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{slo.name}</p>
+                        <Badge color={HEALTH_COLORS[status.health]}>{HEALTH_LABELS[status.health]}</Badge>
+                        {!slo.isEnabled && <Badge color="zinc">Disabled</Badge>}
+                      </div>
+                      <div className="flex items-center space-x-4 text-sm text-gray-500 mt-1">
+                        <span>{describeObjective(slo)}</span>
+                        <span>•</span>
+                        <span>{describeScope(slo)}</span>
+                      </div>
+                      <div className="flex items-center space-x-4 text-sm text-gray-700 dark:text-slate-300 mt-2">
+                        <span>
+                          Compliance: <span className="font-medium">{status.compliance !== null ? `${status.compliance}%` : '—'}</span>
+                          {' '}({status.badExecutions}/{status.totalExecutions} bad, {status.allowedBadExecutions} allowed)
+                        </span>
+                        {status.burnRates.map(burn => (
+                          <span key={burn.windowMinutes}>
+                            {formatWindow(burn.windowMinutes)} burn:{' '}
+                            <span className={`font-medium ${(burn.burnRate ?? 0) > 1 ? 'text-red-600' : ''}`}>
+                              {burn.burnRate !== null ? `${burn.burnRate}x` : '—'}
+                            </span>
+                          </span>
+                        ))}
+                      </div>
+                      {remaining !== null && (
+                        <div className="mt-2 flex items-center space-x-3 max-w-md">
+                          <div className="flex-1 h-2 bg-gray-200 dark:bg-slate-700 rounded">
+                            <div
+                              className={`h-2 rounded ${budgetBarColor(remaining)}`}
+                              style={{ width: `${Math.min(100, Math.max(0, remaining))}%` }}
+                            />
+                          </div>
+                          <span className="text-xs text-gray-500 dark:text-slate-400 whitespace-nowrap">
+                            {remaining}% budget left
+                          </span>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <Button outline onClick={() => handleToggleView(slo)}>
+                        <EyeIcon className="h-4 w-4 mr-1" />
+                        {expandedId === slo.id ? 'Hide' : 'View'}
+                      </Button>
+                      <Button outline onClick={() => handleEdit(slo)}>
+                        <Cog6ToothIcon className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        outline
+                        onClick={() => handleDelete(slo)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {expandedId === slo.id && (
+                    <div className="mt-4">
+                      {!detail || detail.slo.id !== slo.id ? (
+                        <p className="text-sm text-gray-500 dark:text-slate-400">Loading budget history...</p>
+                      ) : !detail.budgetHistory || detail.budgetHistory.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-slate-400">No executions in the SLO window yet</p>
+                      ) : (
+                        <>
+                          <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Error budget remaining</h4>
+                          <ResponsiveContainer width="100%" height={220}>
+                            <LineChart data={detail.budgetHistory}>
+                              <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                              <XAxis dataKey="date" stroke={axisColor} tick={{ fill: textColor }} />
+                              <YAxis
+                                stroke={axisColor}
+                                tick={{ fill: textColor }}
+                                tickFormatter={(value) => `${value}%`}
+                              />
+                              <Tooltip formatter={(value: number) => `${value}%`} />
+                              <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="3 3" />
+                              <Line
+                                type="monotone"
+                                dataKey="budgetRemainingPct"
+                                stroke="#6366f1"
+                                strokeWidth={2}
+                                dot={false}
+                                name="Budget remaining"
+                              />
+                            </LineChart>
+                          </ResponsiveContainer>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Info Card */}
+      <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+        <div className="flex">
+          <div className="flex-shrink-0">
+            <BellAlertIcon className="h-5 w-5 text-blue-400" />
+          </div>
+          <div className="ml-3">
+            <h3 className="text-sm font-medium text-blue-800">
+              Burn rate alerts
+            </h3>
+            <div className="mt-2 text-sm text-blue-700">
+              <p>
+                Add an alert rule with the &quot;SLO error budget burn rate&quot; condition to get notified when a budget
+                burns too fast, e.g. 14.4x over 60 minutes for fast burns or 6x over 360 minutes for slow ones.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Add/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+              {editingSlo ? 'Edit SLO' : 'Add SLO'}
+            </h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Name
+                </label>
+                <Input
+                  id="name"
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Order sync availability"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="scopeType" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    Applies to
+                  </label>
+                  <select
+                    id="scopeType"
+                    value={formData.scopeType}
+                    onChange={(e) => setFormData({ ...formData, scopeType: e.target.value as SloScopeType, scopeValue: '' })}
+                    className={selectClassName}
+                  >
+                    <option value="workflow">Workflow</option>
+                    <option value="tag">Tag</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="scopeValue" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    {formData.scopeType === 'workflow' ? 'Workflow' : 'Tag'}
+                  </label>
+                  <select
+                    id="scopeValue"
+                    value={formData.scopeValue}
+                    onChange={(e) => setFormData({ ...formData, scopeValue: e.target.value })}
+                    className={selectClassName}
+                    required
+                  >
+                    <option value="">Select...</option>
+                    {formData.scopeType === 'workflow' && workflows.map(w => (
+                      <option key={w.id} value={w.id}>{w.name}</option>
+                    ))}
+                    {formData.scopeType === 'tag' && tags.map(tag => (
+                      <option key={tag} value={tag}>{tag}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="objectiveType" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Objective
+                </label>
+                <select
+                  id="objectiveType"
+                  value={formData.objectiveType}
+                  onChange={(e) => setFormData({ ...formData, objectiveType: e.target.value as SloObjectiveType })}
+                  className={selectClassName}
+                >
+                  <option value="success_rate">Success rate</option>
+                  <option value="latency">Runs faster than a threshold</option>
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="target" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    Target (%)
+                  </label>
+                  <Input
+                    id="target"
+                    type="number"
+                    min={50}
+                    max={99.999}
+                    step={0.001}
+                    value={formData.target}
+                    onChange={(e) => setFormData({ ...formData, target: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="windowDays" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    Window (days)
+                  </label>
+                  <Input
+                    id="windowDays"
+                    type="number"
+                    min={1}
+                    max={90}
+                    value={formData.windowDays}
+                    onChange={(e) => setFormData({ ...formData, windowDays: e.target.value })}
+                    required
+                  />
+                </div>
+                {formData.objectiveType === 'latency' && (
+                  <div>
+                    <label htmlFor="latencyThresholdMs" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                      Threshold (ms)
+                    </label>
+                    <Input
+                      id="latencyThresholdMs"
+                      type="number"
+                      min={1}
+                      value={formData.latencyThresholdMs}
+                      onChange={(e) => setFormData({ ...formData, latencyThresholdMs: e.target.value })}
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={formData.isEnabled}
+                  onChange={(e) => setFormData({ ...formData, isEnabled: e.target.checked })}
+                />
+                <span>Enabled</span>
+              </label>
+              <div className="flex justify-end space-x-3 pt-4">
+                <Button type="button" outline onClick={handleCloseModal}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? 'Saving...' : editingSlo ? 'Update' : 'Add SLO'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function SlosPage() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    }
+  }, [user, loading, router])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <AppLayout>
+      <WithN8NConnection>
+        <SlosContent />
+      </WithN8NConnection>
+    </AppLayout>
+  )
+}
@@ -1,12 +1,16 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/AuthContext'
 import { AppLayout } from '@/components/app-layout'
 import { WithN8NConnection } from '@/components/with-n8n-connection'
 import { apiClient } from '@/lib/api-client'
 import { N8nDemoWorkflow } from '@/components/n8n-demo-workflow'
+import { WorkflowGraph } from '@/components/workflow-graph'
+import { WorkflowVersionHistory } from '@/components/workflow-version-history'
+import { NodeTimingCharts } from '@/components/charts/node-timing-charts'
+import { WorkflowRunDialog } from '@/components/workflow-run-dialog'
 import {
   ArrowLeftIcon,
   ClockIcon,
@@ -16,10 +20,12 @@ import {
   TagIcon,
   ChartBarIcon,
   ExclamationTriangleIcon,
-  ArrowDownTrayIcon
+  ArrowDownTrayIcon,
+  PlayIcon
 } from '@heroicons/react/24/outline'
 import { Badge } from '@/components/badge'
 import { Button } from '@/components/button'
+import { buildWorkflowGraph } from '@/lib/workflows/workflow-graph'
 
 interface WorkflowData {
   id: string
@@ -50,10 +56,18 @@ function WorkflowDetailContent() {
   const params = useParams()
   const router = useRouter()
   const workflowId = params?.id as string
+  const { user } = useAuth()
   
   const [workflow, setWorkflow] = useState<WorkflowData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [visualization, setVisualization] = useState<'graph' | 'n8n'>('graph')
+  const [showRunDialog, setShowRunDialog] = useState(false)
+
+  const graph = useMemo(
+    () => workflow?.workflowJson ? buildWorkflowGraph(workflow.workflowJson) : null,
+    [workflow?.workflowJson]
+  )
 
   const fetchWorkflow = async () => {
     try {
@@ -182,6 +196,12 @@ function WorkflowDetailContent() {
           </div>
         </div>
         <div className="flex space-x-2">
+          {user?.role === 'admin' && !workflow.isArchived && (
+            <Button onClick={() => setShowRunDialog(true)}>
+              <PlayIcon className="h-4 w-4 mr-2" />
+              Run now
+            </Button>
+          )}
           <Button 
             outline 
             onClick={handleDownloadWorkflow}
@@ -282,34 +302,68 @@ function WorkflowDetailContent() {
 
       {/* Workflow Visualization */}
       <div className="bg-white dark:bg-slate-800 shadow rounded-lg flex flex-col">
-        <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-300 flex-shrink-0">
-          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Workflow Visualization</h3>
-          <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">Interactive preview of your n8n workflow</p>
-        </div>
-        <div className="flex-1 flex flex-col" style={{ minHeight: '85vh', height: '85vh' }}>
-          {workflow.workflowJson ? (
-            <N8nDemoWorkflow 
-              workflow={workflow.workflowJson} 
-              height="85vh"
-              className="flex-1"
-              frame={true}
-              fitView={true}
-              zoom={0.8}
-            />
-          ) : (
-            <div className="text-center py-12 flex-1 flex items-center justify-center">
-              <div>
-                <ExclamationTriangleIcon className="mx-auto h-12 w-12 text-gray-400" />
-                <h3 className="mt-2 text-sm font-semibold text-gray-900 dark:text-white">No workflow data available</h3>
-                <p className="mt-1 text-sm text-gray-500 dark:text-slate-400 dark:text-slate-400">
-                  The workflow JSON data is not available for visualization.
-                </p>
-              </div>
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-300 flex-shrink-0 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Workflow Visualization</h3>
+            <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">
+              {visualization === 'graph' ? 'Nodes and connections of the stored workflow' : 'Interactive preview of your n8n workflow'}
+            </p>
+          </div>
+          {workflow.workflowJson && (
+            <div className="inline-flex rounded-md ring-1 ring-gray-200 dark:ring-slate-700 overflow-hidden">
+              {([['graph', 'Graph'], ['n8n', 'n8n Preview']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setVisualization(value)}
+                  className={`px-3 py-1.5 text-sm font-medium ${
+                    visualization === value
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-white text-gray-700 hover:bg-gray-50 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
           )}
         </div>
+        {workflow.workflowJson && graph && visualization === 'graph' ? (
+          <div className="p-6">
+            <WorkflowGraph graph={graph} height={600} />
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col" style={{ minHeight: '85vh', height: '85vh' }}>
+            {workflow.workflowJson ? (
+              <N8nDemoWorkflow 
+                workflow={workflow.workflowJson} 
+                height="85vh"
+                className="flex-1"
+                frame={true}
+                fitView={true}
+                zoom={0.8}
+              />
+            ) : (
+              <div className="text-center py-12 flex-1 flex items-center justify-center">
+                <div>
+                  <ExclamationTriangleIcon className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-semibold text-gray-900 dark:text-white">No workflow data available</h3>
+                  <p className="mt-1 text-sm text-gray-500 dark:text-slate-400 dark:text-slate-400">
+                    The workflow JSON data is not available for visualization.
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
+      {/* Node Performance */}
+      <NodeTimingCharts workflowId={workflow.providerWorkflowId} />
+
+      {/* Version History */}
+      <WorkflowVersionHistory workflowId={workflow.providerWorkflowId} />
+
       {/* Metadata */}
       <div className="bg-white dark:bg-slate-800 shadow rounded-lg">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -344,6 +398,15 @@ function WorkflowDetailContent() {
           </dl>
         </div>
       </div>
+
+      {showRunDialog && (
+        <WorkflowRunDialog
+          workflowId={workflow.providerWorkflowId}
+          providerId={workflow.providerId}
+          workflowName={workflow.name}
+          onClose={() => setShowRunDialog(false)}
+        />
+      )}
     </div>
   )
 }
@@ -13,7 +13,8 @@ import {
   MagnifyingGlassIcon,
   FunnelIcon,
   ArrowPathIcon,
-  ArchiveBoxIcon
+  ArchiveBoxIcon,
+  ArrowDownTrayIcon
 } from '@heroicons/react/24/outline'
 import { Provider } from '@/types'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/table'
@@ -23,6 +24,7 @@ import { Input } from '@/components/input'
 import { Select } from '@/components/select'
 import { showToast } from '@/components/toast'
 import { TablePagination } from '@/components/TablePagination'
+import { BackupExportModal } from '@/components/backup-export-modal'
 
 interface Workflow {
   id: string
@@ -55,6 +57,7 @@ function WorkflowsContent() {
   const [loading, setLoading] = useState(true)
   const [syncing, setSyncing] = useState(false)
   const [backing, setBacking] = useState(false)
+  const [showExport, setShowExport] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive' | 'archived'>('all')
@@ -235,6 +238,14 @@ function WorkflowsContent() {
             <ArchiveBoxIcon className={`h-4 w-4 ${backing ? 'animate-pulse' : ''}`} />
             <span>{backing ? 'Backing up...' : 'Backup now'}</span>
           </Button>
+          <Button
+            outline
+            onClick={() => setShowExport(true)}
+            className="flex items-center space-x-2"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4" />
+            <span>Export</span>
+          </Button>
           <Button
             outline
             onClick={syncWorkflows}
@@ -472,6 +483,9 @@ function WorkflowsContent() {
           />
         )}
       </div>
+
+      {/* Export Modal */}
+      {showExport && <BackupExportModal onClose={() => setShowExport(false)} />}
     </div>
   )
 }
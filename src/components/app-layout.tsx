@@ -24,22 +24,27 @@ import {
   ProfileIcon,
   ToolsIcon
 } from './icons'
-import { ServerIcon, ClockIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/outline'
+import { ServerIcon, ClockIcon, BellAlertIcon, BugAntIcon, ShieldCheckIcon, ArchiveBoxIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/outline'
 import { Navbar, NavbarItem, NavbarSection, NavbarSpacer } from './navbar'
 import { Dropdown, DropdownButton, DropdownItem, DropdownMenu } from './dropdown'
 import { Avatar } from './avatar'
 import { ToastContainer } from './toast'
 import { InitialSyncModal } from './initial-sync-modal'
+import { TimezoneSwitcher } from './timezone-switcher'
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: DashboardIcon, current: true },
   { name: 'Executions', href: '/executions', icon: ExecutionsIcon, current: false },
+  { name: 'Issues', href: '/issues', icon: BugAntIcon, current: false },
   { name: 'Workflows', href: '/workflows', icon: WorkflowsIcon, current: false },
   { name: 'Cron Jobs', href: '/cron-jobs', icon: ClockIcon, current: false },
   { name: 'n8n Instances', href: '/providers', icon: ServerIcon, current: false },
   { name: 'Analytics', href: '/analytics', icon: AnalyticsIcon, current: false },
   { name: 'Monitors', href: '/monitors', icon: MonitorsIcon, current: false },
+  { name: 'SLOs', href: '/slos', icon: ShieldCheckIcon, current: false },
+  { name: 'Alerts', href: '/alerts', icon: BellAlertIcon, current: false },
   { name: 'History', href: '/history', icon: HistoryIcon, current: false },
+  { name: 'Data Retention', href: '/retention', icon: ArchiveBoxIcon, current: false },
 ]
 
 function AppSidebar() {
@@ -73,6 +78,7 @@ function AppSidebar() {
       </SidebarBody>
 
       <SidebarFooter>
+        <TimezoneSwitcher />
         <UserProfileSection />
       </SidebarFooter>
     </Sidebar>
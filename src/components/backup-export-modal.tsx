@@ -0,0 +1,189 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ArrowDownTrayIcon, CodeBracketIcon } from '@heroicons/react/24/outline'
+import { Button } from '@/components/button'
+import { Input } from '@/components/input'
+import { Select } from '@/components/select'
+import { showToast } from '@/components/toast'
+import { useAuth } from '@/contexts/AuthContext'
+import { apiClient } from '@/lib/api-client'
+import { BackupArchiveFormat, BackupExportSettings, BackupGitExportResult } from '@/types'
+
+interface BackupExportModalProps {
+  onClose: () => void
+}
+
+export function BackupExportModal({ onClose }: BackupExportModalProps) {
+  const [format, setFormat] = useState<BackupArchiveFormat>('zip')
+  const [archiveVersions, setArchiveVersions] = useState(false)
+  const [downloading, setDownloading] = useState(false)
+  const [settings, setSettings] = useState<BackupExportSettings>({ gitRepositoryPath: '', includeVersions: false })
+  const [savingSettings, setSavingSettings] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const { user } = useAuth()
+  const canChangeRepository = user?.role === 'admin'
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await apiClient.get<{ data: BackupExportSettings }>('/backups')
+        setSettings(response.data)
+      } catch (error) {
+        console.error('Failed to fetch backup settings:', error)
+      }
+    }
+
+    fetchSettings()
+  }, [])
+
+  const handleDownload = async () => {
+    try {
+      setDownloading(true)
+      const blob = await apiClient.download(`/backups/export?format=${format}&versions=${archiveVersions}`)
+
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `elova-workflows-${new Date().toISOString().slice(0, 10)}.${format === 'zip' ? 'zip' : 'tar.gz'}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Failed to download workflow export:', error)
+      showToast({
+        type: 'error',
+        title: 'Export failed',
+        message: 'Failed to build the workflow archive. Please try again.'
+      })
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setSavingSettings(true)
+      const response = await apiClient.put<{ data: BackupExportSettings }>(
+        '/backups',
+        canChangeRepository ? settings : { includeVersions: settings.includeVersions }
+      )
+      setSettings(response.data)
+      showToast({
+        type: 'success',
+        title: 'Backup settings saved',
+        message: response.data.gitRepositoryPath
+          ? 'Workflows will be committed after each daily backup'
+          : 'Git export is disabled'
+      })
+    } catch (error) {
+      console.error('Failed to save backup settings:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to save backup settings',
+        message: 'The repository path must be an absolute path'
+      })
+    } finally {
+      setSavingSettings(false)
+    }
+  }
+
+  const handleExportToGit = async () => {
+    try {
+      setExporting(true)
+      const response = await apiClient.post<{ data: BackupGitExportResult; message: string }>('/backups/git')
+      showToast({
+        type: 'success',
+        title: 'Git export completed',
+        message: response.message
+      })
+    } catch (error) {
+      console.error('Failed to export workflows to git:', error)
+      showToast({
+        type: 'error',
+        title: 'Git export failed',
+        message: 'Check that the repository path is writable and git is installed'
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-lg">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1">Export Workflows</h2>
+        <p className="text-sm text-gray-500 dark:text-slate-400 mb-6">
+          Every workflow is written as instance/workflow-name.json. Credentials and pinned data are stripped.
+        </p>
+
+        {/* Archive download */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white">Download archive</h3>
+          <div className="flex items-center space-x-3">
+            <Select value={format} onChange={(e) => setFormat(e.target.value as BackupArchiveFormat)}>
+              <option value="zip">.zip</option>
+              <option value="tar">.tar.gz</option>
+            </Select>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={archiveVersions}
+                onChange={(e) => setArchiveVersions(e.target.checked)}
+              />
+              <span>All versions</span>
+            </label>
+            <Button onClick={handleDownload} disabled={downloading} className="whitespace-nowrap">
+              <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+              {downloading ? 'Preparing...' : 'Download'}
+            </Button>
+          </div>
+        </div>
+
+        {/* Git repository */}
+        <form onSubmit={handleSaveSettings} className="space-y-3 mt-6 pt-6 border-t border-gray-200">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white">Git repository</h3>
+          <p className="text-xs text-gray-500 dark:text-slate-400">
+            A local repository path on the Elova server. Changes are committed after each daily backup sync.
+          </p>
+          <Input
+            type="text"
+            placeholder="/app/data/workflow-backups"
+            value={settings.gitRepositoryPath}
+            onChange={(e) => setSettings({ ...settings, gitRepositoryPath: e.target.value })}
+            disabled={!canChangeRepository}
+            title={canChangeRepository ? undefined : 'Only admins can change the repository path'}
+          />
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={settings.includeVersions}
+              onChange={(e) => setSettings({ ...settings, includeVersions: e.target.checked })}
+            />
+            <span>Include all stored versions</span>
+          </label>
+          <div className="flex justify-between pt-4">
+            <Button
+              type="button"
+              outline
+              onClick={handleExportToGit}
+              disabled={exporting || !settings.gitRepositoryPath}
+            >
+              <CodeBracketIcon className="h-4 w-4 mr-2" />
+              {exporting ? 'Committing...' : 'Commit now'}
+            </Button>
+            <div className="flex space-x-3">
+              <Button type="button" outline onClick={onClose}>
+                Close
+              </Button>
+              <Button type="submit" disabled={savingSettings}>
+                {savingSettings ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useTheme } from '@/contexts/ThemeContext'
+import { useTimezone } from '@/contexts/TimezoneContext'
 import {
   LineChart,
   Line,
@@ -9,6 +10,7 @@ import {
   Area,
   BarChart,
   Bar,
+  ComposedChart,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -17,20 +19,22 @@ import {
   ResponsiveContainer,
   ReferenceLine
 } from 'recharts'
-import { TimeRange } from '@/types'
+import { AnomalyMetric, TimeRange, WorkflowAnomaly } from '@/types'
 import { apiClient } from '@/lib/api-client'
 import { ChartDataPoint } from '@/app/api/dashboard/charts/route'
 import { 
   CalendarDaysIcon, 
   ClockIcon, 
   CheckCircleIcon,
-  XCircleIcon
+  XCircleIcon,
+  ExclamationTriangleIcon
 } from '@heroicons/react/24/outline'
 
 interface ChartResponse {
   success: boolean
   data: ChartDataPoint[]
   timeRange: TimeRange
+  timeZone: string
   count: number
 }
 
@@ -49,7 +53,7 @@ const TIME_RANGE_OPTIONS: { value: TimeRange; label: string }[] = [
 ]
 
 // Custom tooltip component
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CustomTooltip = ({ active, payload, label, timeZone }: any) => {
   if (active && payload && payload.length) {
     const data = payload[0].payload as ChartDataPoint
     const date = new Date(data.timestamp)
@@ -57,7 +61,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
     return (
       <div className="bg-white dark:bg-slate-800 p-4 shadow-lg rounded-lg border border-gray-200 dark:border-slate-300">
         <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">
-          {date.toLocaleDateString()} {date.toLocaleTimeString()}
+          {date.toLocaleDateString([], { timeZone })} {date.toLocaleTimeString([], { timeZone })}
         </p>
         <div className="space-y-1">
           {payload.map((entry: any, index: number) => (
@@ -74,22 +78,93 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null
 }
 
+// Response time tooltip listing every percentile of the bucket
+const LatencyTooltip = ({ active, payload, timeZone }: any) => {
+  if (active && payload && payload.length) {
+    const data = payload[0].payload as ChartDataPoint
+    const date = new Date(data.timestamp)
+    const rows = [
+      { label: 'p99', value: data.p99ResponseTime, color: '#c4b5fd' },
+      { label: 'p95', value: data.p95ResponseTime, color: '#f59e0b' },
+      { label: 'p90', value: data.p90ResponseTime, color: '#a78bfa' },
+      { label: 'p50', value: data.p50ResponseTime, color: '#8b5cf6' },
+      { label: 'Avg', value: data.avgResponseTime, color: '#6b7280' }
+    ]
+
+    return (
+      <div className="bg-white dark:bg-slate-800 p-4 shadow-lg rounded-lg border border-gray-200 dark:border-slate-300">
+        <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+          {date.toLocaleDateString([], { timeZone })} {date.toLocaleTimeString([], { timeZone })}
+        </p>
+        <div className="space-y-1">
+          {rows.map((row) => (
+            <p key={row.label} className="text-sm" style={{ color: row.color }}>
+              <span className="font-medium">{row.label}:</span> {row.value ?? '—'}
+              {row.value !== null && 'ms'}
+            </p>
+          ))}
+        </div>
+      </div>
+    )
+  }
+  return null
+}
+
+// Band between two percentiles; null leaves a gap where a bucket has no durations
+const percentileBand = (lower: keyof ChartDataPoint, upper: keyof ChartDataPoint) => (point: ChartDataPoint) =>
+  point[lower] !== null && point[upper] !== null ? [point[lower], point[upper]] : null
+
+const ANOMALY_COLOR = '#f97316'
+
+const ANOMALY_METRIC_LABELS: Record<AnomalyMetric, string> = {
+  volume: 'Execution volume',
+  duration: 'Duration',
+  error_rate: 'Error rate'
+}
+
+const formatAnomalyValue = (anomaly: WorkflowAnomaly, value: number) => {
+  switch (anomaly.metric) {
+    case 'volume':
+      return `${value} runs`
+    case 'duration':
+      return `${Math.round(value)}ms`
+    default:
+      return `${Math.round(value * 10) / 10}%`
+  }
+}
+
+// Vertical markers at the start of each anomalous hour
+const anomalyMarkers = (anomalies: WorkflowAnomaly[], metric: AnomalyMetric) =>
+  anomalies
+    .filter(anomaly => anomaly.metric === metric)
+    .map(anomaly => (
+      <ReferenceLine
+        key={anomaly.id}
+        x={new Date(anomaly.bucketStart).getTime()}
+        stroke={ANOMALY_COLOR}
+        strokeDasharray="2 2"
+        label={{ value: anomaly.direction === 'high' ? '▲' : '▼', position: 'top', fill: ANOMALY_COLOR }}
+      />
+    ))
+
 // Format X-axis labels based on time range
-const formatXAxisLabel = (timestamp: number, timeRange: TimeRange) => {
+const formatXAxisLabel = (timestamp: number, timeRange: TimeRange, timeZone: string) => {
   const date = new Date(timestamp)
   
   if (timeRange === '1h' || timeRange === '24h') {
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })
   } else if (timeRange === '7d' || timeRange === '30d') {
-    return date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone })
   } else {
-    return date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone })
   }
 }
 
 export function ExecutionCharts({ timeRange, onTimeRangeChange }: ExecutionChartsProps) {
   const { theme } = useTheme()
+  const { timeZone } = useTimezone()
   const [chartData, setChartData] = useState<ChartDataPoint[]>([])
+  const [anomalies, setAnomalies] = useState<WorkflowAnomaly[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   
@@ -102,8 +177,13 @@ export function ExecutionCharts({ timeRange, onTimeRangeChange }: ExecutionChart
     const fetchChartData = async () => {
       try {
         setLoading(true)
-        const response = await apiClient.get<ChartResponse>(`/dashboard/charts?timeRange=${timeRange}`)
+        const [response, anomalyResponse] = await Promise.all([
+          apiClient.get<ChartResponse>(`/dashboard/charts?timeRange=${timeRange}&timezone=${encodeURIComponent(timeZone)}`),
+          // Charts still render when anomalies cannot be loaded
+          apiClient.get<{ data: WorkflowAnomaly[] }>(`/anomalies?timeRange=${timeRange}`).catch(() => ({ data: [] }))
+        ])
         setChartData(response.data)
+        setAnomalies(anomalyResponse.data)
         setError(null)
       } catch (err) {
         console.error('Failed to fetch chart data:', err)
@@ -115,7 +195,7 @@ export function ExecutionCharts({ timeRange, onTimeRangeChange }: ExecutionChart
     }
 
     fetchChartData()
-  }, [timeRange])
+  }, [timeRange, timeZone])
 
   if (error) {
     return (
@@ -191,12 +271,12 @@ export function ExecutionCharts({ timeRange, onTimeRangeChange }: ExecutionChart
                   type="number"
                   scale="time"
                   domain={['dataMin', 'dataMax']}
-                  tickFormatter={(timestamp) => formatXAxisLabel(timestamp, timeRange)}
+                  tickFormatter={(timestamp) => formatXAxisLabel(timestamp, timeRange, timeZone)}
                   stroke={axisColor}
                   tick={{ fill: textColor }}
                 />
                 <YAxis stroke={axisColor} tick={{ fill: textColor }} />
-                <Tooltip content={<CustomTooltip />} />
+                <Tooltip content={<CustomTooltip timeZone={timeZone} />} />
                 <Legend />
                 <Area
                   type="monotone"
@@ -214,6 +294,7 @@ export function ExecutionCharts({ timeRange, onTimeRangeChange }: ExecutionChart
                   fill="url(#failureGradient)"
                   name="Failed"
                 />
+                {anomalyMarkers(anomalies, 'volume')}
               </AreaChart>
             </ResponsiveContainer>
           </div>
@@ -232,7 +313,7 @@ export function ExecutionCharts({ timeRange, onTimeRangeChange }: ExecutionChart
                   type="number"
                   scale="time"
                   domain={['dataMin', 'dataMax']}
-                  tickFormatter={(timestamp) => formatXAxisLabel(timestamp, timeRange)}
+                  tickFormatter={(timestamp) => formatXAxisLabel(timestamp, timeRange, timeZone)}
                   stroke={axisColor} tick={{ fill: textColor }}
                 />
                 <YAxis 
@@ -240,8 +321,9 @@ export function ExecutionCharts({ timeRange, onTimeRangeChange }: ExecutionChart
                   stroke={axisColor} tick={{ fill: textColor }}
                   tickFormatter={(value) => `${value}%`}
                 />
-                <Tooltip content={<CustomTooltip />} />
+                <Tooltip content={<CustomTooltip timeZone={timeZone} />} />
                 <ReferenceLine y={90} stroke="#10b981" strokeDasharray="3 3" />
+                {anomalyMarkers(anomalies, 'error_rate')}
                 <Line
                   type="monotone"
                   dataKey="successRate"
@@ -258,34 +340,73 @@ export function ExecutionCharts({ timeRange, onTimeRangeChange }: ExecutionChart
           <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow">
             <h4 className="text-md font-medium text-gray-900 dark:text-white mb-4 flex items-center">
               <ClockIcon className="h-5 w-5 mr-2 text-purple-500" />
-              Average Response Time
+              Response Time Percentiles
             </h4>
             <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={chartData}>
+              <ComposedChart data={chartData}>
                 <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
                 <XAxis 
                   dataKey="timestamp"
                   type="number"
                   scale="time"
                   domain={['dataMin', 'dataMax']}
-                  tickFormatter={(timestamp) => formatXAxisLabel(timestamp, timeRange)}
+                  tickFormatter={(timestamp) => formatXAxisLabel(timestamp, timeRange, timeZone)}
                   stroke={axisColor} tick={{ fill: textColor }}
                 />
                 <YAxis 
                   stroke={axisColor} tick={{ fill: textColor }}
                   tickFormatter={(value) => `${value}ms`}
                 />
-                <Tooltip content={<CustomTooltip />} />
+                <Tooltip content={<LatencyTooltip timeZone={timeZone} />} />
+                <Legend />
+                <Area
+                  type="monotone"
+                  dataKey={percentileBand('p90ResponseTime', 'p99ResponseTime')}
+                  stroke="none"
+                  fill="#c4b5fd"
+                  fillOpacity={0.35}
+                  connectNulls={false}
+                  name="p90–p99"
+                />
+                <Area
+                  type="monotone"
+                  dataKey={percentileBand('p50ResponseTime', 'p90ResponseTime')}
+                  stroke="none"
+                  fill="#a78bfa"
+                  fillOpacity={0.5}
+                  connectNulls={false}
+                  name="p50–p90"
+                />
                 <Line
                   type="monotone"
-                  dataKey="avgResponseTime"
+                  dataKey="p50ResponseTime"
                   stroke="#8b5cf6"
                   strokeWidth={2}
-                  dot={{ fill: '#8b5cf6', strokeWidth: 2, r: 4 }}
+                  dot={{ fill: '#8b5cf6', strokeWidth: 2, r: 3 }}
                   connectNulls={false}
-                  name="Avg Response Time"
+                  name="p50"
                 />
-              </LineChart>
+                <Line
+                  type="monotone"
+                  dataKey="p95ResponseTime"
+                  stroke="#f59e0b"
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls={false}
+                  name="p95"
+                />
+                <Line
+                  type="monotone"
+                  dataKey="avgResponseTime"
+                  stroke="#6b7280"
+                  strokeWidth={1}
+                  strokeDasharray="4 4"
+                  dot={false}
+                  connectNulls={false}
+                  name="Avg"
+                />
+                {anomalyMarkers(anomalies, 'duration')}
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
 
@@ -303,11 +424,11 @@ export function ExecutionCharts({ timeRange, onTimeRangeChange }: ExecutionChart
                   type="number"
                   scale="time"
                   domain={['dataMin', 'dataMax']}
-                  tickFormatter={(timestamp) => formatXAxisLabel(timestamp, timeRange)}
+                  tickFormatter={(timestamp) => formatXAxisLabel(timestamp, timeRange, timeZone)}
                   stroke={axisColor} tick={{ fill: textColor }}
                 />
                 <YAxis stroke={axisColor} tick={{ fill: textColor }} />
-                <Tooltip content={<CustomTooltip />} />
+                <Tooltip content={<CustomTooltip timeZone={timeZone} />} />
                 <Legend />
                 <Bar
                   dataKey="totalExecutions"
@@ -321,6 +442,35 @@ export function ExecutionCharts({ timeRange, onTimeRangeChange }: ExecutionChart
         </div>
       )}
 
+      {/* Detected Anomalies */}
+      {!loading && anomalies.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow">
+          <h4 className="text-md font-medium text-gray-900 dark:text-white mb-1 flex items-center">
+            <ExclamationTriangleIcon className="h-5 w-5 mr-2" style={{ color: ANOMALY_COLOR }} />
+            Detected Anomalies
+          </h4>
+          <p className="text-xs text-gray-500 dark:text-slate-400 mb-4">
+            Compared with the same hour of the week over the previous weeks. Marked on the charts above.
+          </p>
+          <ul className="divide-y divide-gray-200">
+            {anomalies.slice(0, 10).map((anomaly) => (
+              <li key={anomaly.id} className="py-2 flex items-center justify-between text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-white truncate">{anomaly.workflowName}</p>
+                  <p className="text-gray-500 dark:text-slate-400">
+                    {ANOMALY_METRIC_LABELS[anomaly.metric]} {anomaly.direction === 'high' ? 'spiked' : 'dropped'} to{' '}
+                    {formatAnomalyValue(anomaly, anomaly.observed)} (usually {formatAnomalyValue(anomaly, anomaly.expected)})
+                  </p>
+                </div>
+                <span className="ml-4 text-gray-500 dark:text-slate-400 whitespace-nowrap">
+                  {new Date(anomaly.bucketStart).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', timeZone })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Chart Summary */}
       {!loading && chartData.length > 0 && (
         <div className="bg-white dark:bg-slate-800 p-4 rounded-lg shadow">
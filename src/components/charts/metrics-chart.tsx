@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useTheme } from '@/contexts/ThemeContext'
+import { useTimezone } from '@/contexts/TimezoneContext'
 import {
   Line,
   AreaChart,
@@ -19,12 +20,14 @@ import { ChartDataPoint } from '@/app/api/dashboard/charts/route'
 interface MetricsChartProps {
   timeRange: TimeRange
   onTimeRangeChange: (range: TimeRange) => void
+  refreshKey?: number // Changing it refetches in the background, e.g. after live execution updates
 }
 
 interface ChartResponse {
   success: boolean
   data: ChartDataPoint[]
   timeRange: TimeRange
+  timeZone: string
   count: number
 }
 
@@ -37,7 +40,7 @@ const TIME_RANGE_OPTIONS: { value: TimeRange; label: string }[] = [
 ]
 
 // Custom tooltip matching PlanetScale design
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CustomTooltip = ({ active, payload, label, timeZone }: any) => {
   if (active && payload && payload.length) {
     const data = payload[0].payload as ChartDataPoint
     const date = new Date(data.timestamp)
@@ -49,7 +52,8 @@ const CustomTooltip = ({ active, payload, label }: any) => {
             month: 'short', 
             day: 'numeric',
             hour: '2-digit',
-            minute: '2-digit'
+            minute: '2-digit',
+            timeZone
           })}
         </p>
         <div className="space-y-1">
@@ -77,22 +81,23 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 }
 
 // Format X-axis labels
-const formatXAxisLabel = (timestamp: number, timeRange: TimeRange) => {
+const formatXAxisLabel = (timestamp: number, timeRange: TimeRange, timeZone: string) => {
   const date = new Date(timestamp)
   
   if (timeRange === '1h') {
-    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', timeZone })
   } else if (timeRange === '24h') {
-    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', timeZone })
   } else if (timeRange === '7d') {
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone })
   } else {
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone })
   }
 }
 
-export function MetricsChart({ timeRange, onTimeRangeChange }: MetricsChartProps) {
+export function MetricsChart({ timeRange, onTimeRangeChange, refreshKey }: MetricsChartProps) {
   const { theme } = useTheme()
+  const { timeZone } = useTimezone()
   const [chartData, setChartData] = useState<ChartDataPoint[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -103,24 +108,31 @@ export function MetricsChart({ timeRange, onTimeRangeChange }: MetricsChartProps
   const axisColor = theme === 'dark' ? '#a1a1aa' : '#6b7280'
   const textColor = theme === 'dark' ? '#e4e4e7' : '#374151'
 
-  useEffect(() => {
-    const fetchChartData = async () => {
-      try {
-        setLoading(true)
-        const response = await apiClient.get<ChartResponse>(`/dashboard/charts?timeRange=${timeRange}`)
-        setChartData(response.data)
-        setError(null)
-      } catch (err) {
-        console.error('Failed to fetch chart data:', err)
+  const fetchChartData = async (silent = false) => {
+    try {
+      if (!silent) setLoading(true)
+      const response = await apiClient.get<ChartResponse>(`/dashboard/charts?timeRange=${timeRange}&timezone=${encodeURIComponent(timeZone)}`)
+      setChartData(response.data)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to fetch chart data:', err)
+      // A failed background refresh keeps the chart that is already shown
+      if (!silent) {
         setError('Failed to load chart data')
         setChartData([])
-      } finally {
-        setLoading(false)
       }
+    } finally {
+      setLoading(false)
     }
+  }
 
+  useEffect(() => {
     fetchChartData()
-  }, [timeRange])
+  }, [timeRange, timeZone])
+
+  useEffect(() => {
+    if (refreshKey) fetchChartData(true)
+  }, [refreshKey])
 
   if (error) {
     return (
@@ -221,7 +233,7 @@ export function MetricsChart({ timeRange, onTimeRangeChange }: MetricsChartProps
                 type="number"
                 scale="time"
                 domain={['dataMin', 'dataMax']}
-                tickFormatter={(timestamp) => formatXAxisLabel(timestamp, timeRange)}
+                tickFormatter={(timestamp) => formatXAxisLabel(timestamp, timeRange, timeZone)}
                 axisLine={false}
                 tickLine={false}
                 tick={{ fontSize: 12, fill: textColor }}
@@ -237,7 +249,7 @@ export function MetricsChart({ timeRange, onTimeRangeChange }: MetricsChartProps
               />
               
               {/* Tooltip */}
-              <Tooltip content={<CustomTooltip />} />
+              <Tooltip content={<CustomTooltip timeZone={timeZone} />} />
               
               {/* Areas */}
               {showEvents && (
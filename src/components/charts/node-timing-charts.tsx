@@ -0,0 +1,235 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useTheme } from '@/contexts/ThemeContext'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts'
+import { ArrowTrendingUpIcon, BoltIcon } from '@heroicons/react/24/outline'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/table'
+import { Badge } from '@/components/badge'
+import { Select } from '@/components/select'
+import { apiClient } from '@/lib/api-client'
+import { WorkflowNodeTimingAnalytics } from '@/types'
+
+interface NodeTimingChartsProps {
+  workflowId: string // Provider workflow ID
+}
+
+const WINDOW_OPTIONS = [
+  { value: 7, label: 'Last 7 Days' },
+  { value: 30, label: 'Last 30 Days' },
+  { value: 90, label: 'Last 90 Days' }
+]
+
+function formatMs(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`
+  const minutes = Math.floor(ms / 60000)
+  return `${minutes}m ${Math.round((ms % 60000) / 1000)}s`
+}
+
+function formatDelta(ms: number): string {
+  return `${ms > 0 ? '+' : ms < 0 ? '−' : ''}${formatMs(Math.abs(ms))}`
+}
+
+export function NodeTimingCharts({ workflowId }: NodeTimingChartsProps) {
+  const { theme } = useTheme()
+  const [days, setDays] = useState(30)
+  const [selectedNode, setSelectedNode] = useState<string | null>(null)
+  const [analytics, setAnalytics] = useState<WorkflowNodeTimingAnalytics | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  // Theme-aware colors
+  const gridColor = theme === 'dark' ? '#3f3f46' : '#f3f4f6'
+  const axisColor = theme === 'dark' ? '#a1a1aa' : '#6b7280'
+  const textColor = theme === 'dark' ? '#e4e4e7' : '#374151'
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      try {
+        setLoading(true)
+        const nodeParam = selectedNode ? `&node=${encodeURIComponent(selectedNode)}` : ''
+        const response = await apiClient.get<{ data: WorkflowNodeTimingAnalytics }>(
+          `/workflows/${workflowId}/node-timings?days=${days}${nodeParam}`
+        )
+        setAnalytics(response.data)
+      } catch (error) {
+        console.error('Failed to fetch node timings:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchAnalytics()
+  }, [workflowId, days, selectedNode])
+
+  const regression = analytics?.regression
+  const culprit = regression?.nodes.find(node => node.nodeName === regression.culprit)
+  const changedNodes = regression?.nodes.filter(node => node.deltaMs !== 0).slice(0, 10) || []
+
+  return (
+    <div className="bg-white dark:bg-slate-800 shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Node Performance</h3>
+          <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">
+            Per-node execution time from synced run data
+          </p>
+        </div>
+        <div className="w-40">
+          <Select value={days} onChange={(e) => setDays(parseInt(e.target.value))}>
+            {WINDOW_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </Select>
+        </div>
+      </div>
+
+      {loading && !analytics ? (
+        <div className="px-6 py-8 text-sm text-gray-500 dark:text-slate-400">Loading node timings...</div>
+      ) : !analytics || analytics.slowestNodes.length === 0 ? (
+        <div className="px-6 py-8 text-center">
+          <BoltIcon className="mx-auto h-10 w-10 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500 dark:text-slate-400">
+            No node timings yet. They are collected from executions synced with their run data.
+          </p>
+        </div>
+      ) : (
+        <div className="px-6 py-4 space-y-8">
+          {/* Regression summary */}
+          {regression && regression.changePct !== null && regression.nodes.length > 0 && (
+            <div className={`rounded-md p-4 ${culprit ? 'bg-red-50 dark:bg-red-900/20' : 'bg-gray-50 dark:bg-slate-700/40'}`}>
+              <div className="flex items-start">
+                <ArrowTrendingUpIcon className={`h-5 w-5 mr-3 mt-0.5 ${culprit ? 'text-red-500' : 'text-gray-400'}`} />
+                <div className="text-sm text-gray-700 dark:text-slate-300">
+                  <p>
+                    Average duration over the last {regression.recentDays} days is{' '}
+                    <span className="font-medium">{formatMs(regression.recentAvgMs)}</span> vs{' '}
+                    <span className="font-medium">{formatMs(regression.baselineAvgMs)}</span> in the{' '}
+                    {regression.baselineDays} days before ({regression.changePct > 0 ? '+' : ''}{regression.changePct}%).
+                  </p>
+                  {culprit && (
+                    <p className="mt-1">
+                      <span className="font-medium">{culprit.nodeName}</span> regressed the most:{' '}
+                      {formatDelta(culprit.deltaMs)} per execution
+                      {culprit.contributionPct !== null && `, ${culprit.contributionPct}% of the slowdown`}.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Slowest nodes */}
+          <div>
+            <h4 className="text-md font-medium text-gray-900 dark:text-white mb-2">Slowest Nodes</h4>
+            <p className="text-xs text-gray-500 dark:text-slate-400 mb-2">Sorted by p95. Select a node to chart its latency.</p>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableHeader>Node</TableHeader>
+                  <TableHeader>Runs</TableHeader>
+                  <TableHeader>p50</TableHeader>
+                  <TableHeader>p95</TableHeader>
+                  <TableHeader>p99</TableHeader>
+                  <TableHeader>Max</TableHeader>
+                  <TableHeader>Share of Time</TableHeader>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {analytics.slowestNodes.slice(0, 15).map(node => (
+                  <TableRow
+                    key={node.nodeName}
+                    onClick={() => setSelectedNode(node.nodeName)}
+                    className={`cursor-pointer ${analytics.latency.nodeName === node.nodeName ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''}`}
+                  >
+                    <TableCell>
+                      <div className="font-medium text-gray-900 dark:text-white">{node.nodeName}</div>
+                      {node.nodeType && (
+                        <div className="text-xs text-gray-500 dark:text-slate-400">{node.nodeType.replace(/^.*\./, '')}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{node.runs}</TableCell>
+                    <TableCell>{formatMs(node.p50Ms)}</TableCell>
+                    <TableCell>{formatMs(node.p95Ms)}</TableCell>
+                    <TableCell>{formatMs(node.p99Ms)}</TableCell>
+                    <TableCell>{formatMs(node.maxMs)}</TableCell>
+                    <TableCell>{node.shareOfTotal}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Latency over time */}
+          {analytics.latency.nodeName && (
+            <div>
+              <h4 className="text-md font-medium text-gray-900 dark:text-white mb-4">
+                {analytics.latency.nodeName} latency
+              </h4>
+              <ResponsiveContainer width="100%" height={260}>
+                <LineChart data={analytics.latency.points}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                  <XAxis dataKey="date" stroke={axisColor} tick={{ fill: textColor }} />
+                  <YAxis stroke={axisColor} tick={{ fill: textColor }} tickFormatter={(value) => formatMs(value)} />
+                  <Tooltip formatter={(value: number) => formatMs(value)} />
+                  <Legend />
+                  <Line type="monotone" dataKey="p50Ms" name="p50" stroke="#10b981" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="p95Ms" name="p95" stroke="#f59e0b" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="p99Ms" name="p99" stroke="#ef4444" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {/* Regression breakdown */}
+          {changedNodes.length > 0 && (
+            <div>
+              <h4 className="text-md font-medium text-gray-900 dark:text-white mb-2">
+                Change per Node (last {regression!.recentDays} days vs previous {regression!.baselineDays})
+              </h4>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableHeader>Node</TableHeader>
+                    <TableHeader>Before</TableHeader>
+                    <TableHeader>Now</TableHeader>
+                    <TableHeader>Change</TableHeader>
+                    <TableHeader>Share of Slowdown</TableHeader>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {changedNodes.map(node => (
+                    <TableRow key={node.nodeName}>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium text-gray-900 dark:text-white">{node.nodeName}</span>
+                          {node.regressed && <Badge color="red">Regressed</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatMs(node.baselineMs)}</TableCell>
+                      <TableCell>{formatMs(node.recentMs)}</TableCell>
+                      <TableCell className={node.deltaMs > 0 ? 'text-red-600' : 'text-green-600'}>
+                        {formatDelta(node.deltaMs)}
+                        {node.changePct !== null && ` (${node.changePct > 0 ? '+' : ''}${node.changePct}%)`}
+                      </TableCell>
+                      <TableCell>{node.contributionPct !== null ? `${node.contributionPct}%` : '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
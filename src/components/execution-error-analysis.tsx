@@ -0,0 +1,229 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  BugAntIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline'
+import { Badge } from '@/components/badge'
+import { useTimezone } from '@/contexts/TimezoneContext'
+import { apiClient } from '@/lib/api-client'
+import { formatInTimeZone } from '@/lib/timezone'
+import { ExecutionErrorAnalysis, ExecutionWorkflowSource } from '@/types'
+
+interface ExecutionErrorAnalysisPanelProps {
+  executionId: string // Internal execution ID
+  workflowId: string // Provider workflow ID
+}
+
+const NODE_SOURCE_LABELS: Record<NonNullable<ExecutionErrorAnalysis['failingNode']>['source'], string> = {
+  error: 'named by the execution error',
+  run_data: 'last node run that reported an error',
+  last_node: 'last node executed'
+}
+
+function describeParametersSource(source: ExecutionWorkflowSource): string {
+  if (source.type === 'version') return `Workflow version ${source.versionNumber}, live when this execution started`
+  if (source.type === 'execution') return 'Workflow snapshot stored with this execution'
+  return 'Current workflow; no version was captured before this execution'
+}
+
+function JsonBlock({ value }: { value: unknown }) {
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-slate-900 rounded-lg border border-gray-200 dark:border-slate-700 overflow-x-auto max-h-96">
+      <pre className="text-xs text-gray-800 dark:text-gray-200 font-mono whitespace-pre-wrap">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  )
+}
+
+function Section({ title, defaultOpen = false, children }: { title: string; defaultOpen?: boolean; children: React.ReactNode }) {
+  const [open, setOpen] = useState(defaultOpen)
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center text-sm font-medium text-gray-900 dark:text-white hover:text-indigo-600 dark:hover:text-indigo-400"
+      >
+        {open ? <ChevronDownIcon className="h-4 w-4 mr-2" /> : <ChevronRightIcon className="h-4 w-4 mr-2" />}
+        {title}
+      </button>
+      {open && <div className="mt-2 ml-6">{children}</div>}
+    </div>
+  )
+}
+
+export function ExecutionErrorAnalysisPanel({ executionId, workflowId }: ExecutionErrorAnalysisPanelProps) {
+  const { timeZone } = useTimezone()
+  const [analysis, setAnalysis] = useState<ExecutionErrorAnalysis | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    setLoading(true)
+    apiClient.get<{ data: ExecutionErrorAnalysis }>(`/executions/${executionId}/error-analysis`)
+      .then(response => setAnalysis(response.data))
+      .catch(error => console.error('Failed to fetch error analysis:', error))
+      .finally(() => setLoading(false))
+  }, [executionId])
+
+  const formatDate = (date: Date | string) => formatInTimeZone(date, timeZone, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  })
+
+  if (loading) {
+    return (
+      <div className="bg-white dark:bg-slate-800 shadow rounded-lg p-6">
+        <div className="h-24 animate-pulse bg-gray-100 dark:bg-slate-700 rounded" />
+      </div>
+    )
+  }
+
+  if (!analysis) return null
+
+  const { failingNode, error, sameNodeFailures } = analysis
+
+  return (
+    <div className="bg-white dark:bg-slate-800 shadow rounded-lg border border-red-200 dark:border-red-900">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-slate-300">
+        <div className="flex items-center">
+          <ExclamationTriangleIcon className="h-5 w-5 text-red-500 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Error Analysis</h3>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">The node that failed, what it received and how it was configured</p>
+      </div>
+
+      <div className="px-6 py-4 space-y-5">
+        {/* Failing node and error */}
+        <div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-500 dark:text-slate-400">Failing node</span>
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">{failingNode?.name || 'Unknown'}</span>
+            {failingNode?.type && <Badge color="zinc">{failingNode.type}</Badge>}
+            {error.name && <Badge color="red">{error.name}</Badge>}
+            {error.httpStatus !== null && <Badge color="purple">HTTP {error.httpStatus}</Badge>}
+          </div>
+          {failingNode && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+              Identified as the {NODE_SOURCE_LABELS[failingNode.source]}
+              {error.timestamp && ` • Failed at ${formatDate(error.timestamp)}`}
+            </p>
+          )}
+          <div className="mt-3 p-3 bg-red-50 dark:bg-red-900/20 rounded-md border border-red-200 dark:border-red-800">
+            <p className="text-sm text-red-800 dark:text-red-200 font-mono break-words">{error.message}</p>
+            {error.description && (
+              <p className="mt-2 text-xs text-red-700 dark:text-red-300 font-mono whitespace-pre-wrap break-words">{error.description}</p>
+            )}
+          </div>
+        </div>
+
+        {analysis.issue && (
+          <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-slate-300">
+            <BugAntIcon className="h-4 w-4 text-gray-400" />
+            <span>Part of issue</span>
+            <Link
+              href={`/issues?search=${encodeURIComponent(analysis.issue.title)}`}
+              className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 truncate"
+            >
+              {analysis.issue.title}
+            </Link>
+            <span className="whitespace-nowrap text-gray-500 dark:text-slate-400">
+              ({analysis.issue.occurrences} occurrence{analysis.issue.occurrences !== 1 ? 's' : ''}, {analysis.issue.status})
+            </span>
+          </div>
+        )}
+
+        {/* Input items */}
+        <Section title={`Input items (${analysis.inputs.reduce((sum, input) => sum + input.totalItems, 0)})`} defaultOpen>
+          {analysis.inputs.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-slate-400">No input data was stored for this node</p>
+          ) : (
+            <div className="space-y-3">
+              {analysis.inputs.map((input, index) => (
+                <div key={index}>
+                  <p className="text-xs text-gray-500 dark:text-slate-400 mb-1">
+                    {analysis.inputs.length > 1 && `Input ${index + 1} • `}
+                    {input.sourceNode ? `From ${input.sourceNode}` : 'Source unknown'} • {input.totalItems} item{input.totalItems !== 1 ? 's' : ''}
+                    {input.items.length < input.totalItems && `, showing the first ${input.items.length}`}
+                  </p>
+                  <JsonBlock value={input.items} />
+                </div>
+              ))}
+            </div>
+          )}
+        </Section>
+
+        {/* Node parameters */}
+        <Section title="Node parameters">
+          {analysis.parameters && analysis.parametersSource ? (
+            <>
+              <p className="text-xs text-gray-500 dark:text-slate-400 mb-1">
+                {describeParametersSource(analysis.parametersSource)}
+              </p>
+              <JsonBlock value={analysis.parameters} />
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-slate-400">The node was not found in any stored workflow definition</p>
+          )}
+        </Section>
+
+        {/* Stack trace */}
+        <Section title="Stack trace">
+          {error.stack ? (
+            <div className="p-4 bg-gray-50 dark:bg-slate-900 rounded-lg border border-gray-200 dark:border-slate-700 overflow-x-auto max-h-96">
+              <pre className="text-xs text-gray-800 dark:text-gray-200 font-mono">{error.stack}</pre>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-slate-400">No stack trace was reported</p>
+          )}
+        </Section>
+
+        {/* Other failures at the same node */}
+        {failingNode && (
+          <Section title={`Other failures at ${failingNode.name} (${sameNodeFailures.total})`} defaultOpen={sameNodeFailures.total > 0}>
+            {sameNodeFailures.executions.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-slate-400">No other execution of this workflow failed at this node</p>
+            ) : (
+              <div className="space-y-1">
+                {sameNodeFailures.executions.map(occurrence => (
+                  <div key={occurrence.executionId} className="flex items-center gap-3 text-sm">
+                    <span className="w-36 shrink-0 text-gray-500 dark:text-slate-400">{formatDate(occurrence.occurredAt)}</span>
+                    <Link
+                      href={`/executions/${occurrence.executionId}`}
+                      className="shrink-0 font-mono text-indigo-600 hover:text-indigo-500 dark:text-indigo-400"
+                    >
+                      #{occurrence.providerExecutionId}
+                    </Link>
+                    <span className="truncate text-gray-500 dark:text-slate-400" title={occurrence.message}>
+                      {occurrence.message}
+                    </span>
+                  </div>
+                ))}
+                {sameNodeFailures.total > sameNodeFailures.executions.length && (
+                  <p className="pt-1 text-xs text-gray-500 dark:text-slate-400">
+                    and {sameNodeFailures.total - sameNodeFailures.executions.length} older, see the{' '}
+                    <Link
+                      href={`/workflows/${workflowId}`}
+                      className="text-indigo-600 hover:text-indigo-500 dark:text-indigo-400"
+                    >
+                      workflow&apos;s executions
+                    </Link>
+                  </p>
+                )}
+              </div>
+            )}
+          </Section>
+        )}
+      </div>
+    </div>
+  )
+}
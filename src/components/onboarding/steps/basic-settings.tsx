@@ -11,6 +11,7 @@ import {
   Cog6ToothIcon,
   InformationCircleIcon
 } from '@heroicons/react/24/outline'
+import { COMMON_TIMEZONES } from '@/lib/timezone'
 
 interface BasicSettingsStepProps {
   initialData?: {
@@ -21,41 +22,13 @@ interface BasicSettingsStepProps {
   loading?: boolean
 }
 
-// Common timezones for the dropdown
-const TIMEZONES = [
-  { value: 'UTC', label: 'UTC (Coordinated Universal Time)' },
-  { value: 'America/New_York', label: 'Eastern Time (New York)' },
-  { value: 'America/Chicago', label: 'Central Time (Chicago)' },
-  { value: 'America/Denver', label: 'Mountain Time (Denver)' },
-  { value: 'America/Los_Angeles', label: 'Pacific Time (Los Angeles)' },
-  { value: 'America/Toronto', label: 'Eastern Time (Toronto)' },
-  { value: 'America/Vancouver', label: 'Pacific Time (Vancouver)' },
-  { value: 'Europe/London', label: 'GMT (London)' },
-  { value: 'Europe/Paris', label: 'Central European Time (Paris)' },
-  { value: 'Europe/Berlin', label: 'Central European Time (Berlin)' },
-  { value: 'Europe/Rome', label: 'Central European Time (Rome)' },
-  { value: 'Europe/Amsterdam', label: 'Central European Time (Amsterdam)' },
-  { value: 'Europe/Zurich', label: 'Central European Time (Zurich)' },
-  { value: 'Asia/Tokyo', label: 'Japan Time (Tokyo)' },
-  { value: 'Asia/Shanghai', label: 'China Time (Shanghai)' },
-  { value: 'Asia/Hong_Kong', label: 'Hong Kong Time' },
-  { value: 'Asia/Singapore', label: 'Singapore Time' },
-  { value: 'Asia/Seoul', label: 'Korea Time (Seoul)' },
-  { value: 'Asia/Kolkata', label: 'India Time (Kolkata)' },
-  { value: 'Asia/Dubai', label: 'Gulf Time (Dubai)' },
-  { value: 'Australia/Sydney', label: 'Australian Eastern Time (Sydney)' },
-  { value: 'Australia/Melbourne', label: 'Australian Eastern Time (Melbourne)' },
-  { value: 'Australia/Perth', label: 'Australian Western Time (Perth)' },
-  { value: 'Pacific/Auckland', label: 'New Zealand Time (Auckland)' },
-]
-
 export function BasicSettingsStep({ initialData, onNext, onBack, loading }: BasicSettingsStepProps) {
   const [timezone, setTimezone] = useState(initialData?.timezone || 'UTC')
 
   // Auto-detect user timezone
   const detectTimezone = () => {
     const userTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone
-    const found = TIMEZONES.find(tz => tz.value === userTimezone)
+    const found = COMMON_TIMEZONES.find(tz => tz.value === userTimezone)
     if (found) {
       setTimezone(userTimezone)
     }
@@ -102,7 +75,7 @@ plain
                 <SelectValue placeholder="Select your timezone..." />
               </SelectTrigger>
               <SelectContent>
-                {TIMEZONES.map((tz) => (
+                {COMMON_TIMEZONES.map((tz) => (
                   <SelectItem key={tz.value} value={tz.value}>
                     {tz.label}
                   </SelectItem>
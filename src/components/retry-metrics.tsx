@@ -0,0 +1,106 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowPathIcon } from '@heroicons/react/24/outline'
+import { apiClient } from '@/lib/api-client'
+import { RetryMetrics, TimeRange } from '@/types'
+
+interface RetryMetricsPanelProps {
+  timeRange: TimeRange
+}
+
+function formatRecoveryTime(ms: number | null): string {
+  if (ms === null) return '-'
+  if (ms < 1000) return `${ms}ms`
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  return `${hours}h ${minutes % 60}m`
+}
+
+/**
+ * Recovery rate, time to recovery and the most retried workflows for the selected range
+ */
+export function RetryMetricsPanel({ timeRange }: RetryMetricsPanelProps) {
+  const [metrics, setMetrics] = useState<RetryMetrics | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    setLoading(true)
+    apiClient.get<{ data: RetryMetrics }>(`/executions/retry-metrics?timeRange=${timeRange}`)
+      .then(response => setMetrics(response.data))
+      .catch(err => console.error('Failed to fetch retry metrics:', err))
+      .finally(() => setLoading(false))
+  }, [timeRange])
+
+  const summary = [
+    { label: 'Recovery Rate', value: metrics ? `${metrics.recoveryRate}%` : '-' },
+    { label: 'Mean Time to Recovery', value: formatRecoveryTime(metrics?.meanTimeToRecovery ?? null) },
+    { label: 'Retried Executions', value: metrics?.chains.toLocaleString() ?? '-' },
+    { label: 'Retries', value: metrics?.retries.toLocaleString() ?? '-' },
+    { label: 'Avg Retries per Execution', value: metrics?.avgRetriesPerChain.toString() ?? '-' }
+  ]
+
+  return (
+    <div className="bg-white dark:bg-slate-800 shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4 flex items-center">
+          <ArrowPathIcon className="h-5 w-5 mr-2" />
+          Retries & Recovery
+        </h3>
+
+        {!loading && metrics?.chains === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-slate-400">No executions were retried in this time range</p>
+        ) : (
+          <>
+            <dl className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+              {summary.map(({ label, value }) => (
+                <div key={label}>
+                  <dt className="text-sm font-medium text-gray-500 dark:text-slate-400 truncate">{label}</dt>
+                  <dd className="text-lg font-medium text-gray-900 dark:text-white">{loading ? '...' : value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            {metrics && metrics.workflows.length > 0 && (
+              <div className="mt-6 overflow-x-auto">
+                <h4 className="text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">Most Retried Workflows</h4>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-slate-400">
+                      <th className="py-2 pr-4 font-medium">Workflow</th>
+                      <th className="py-2 pr-4 font-medium text-right">Retried Executions</th>
+                      <th className="py-2 pr-4 font-medium text-right">Retries</th>
+                      <th className="py-2 pr-4 font-medium text-right">Recovered</th>
+                      <th className="py-2 font-medium text-right">Mean Time to Recovery</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {metrics.workflows.map((workflow) => (
+                      <tr key={workflow.workflowId} className="text-gray-900 dark:text-white">
+                        <td className="py-2 pr-4 truncate max-w-xs">
+                          <Link href={`/workflows/${workflow.workflowId}`} className="hover:text-indigo-600 dark:hover:text-indigo-400">
+                            {workflow.workflowName}
+                          </Link>
+                        </td>
+                        <td className="py-2 pr-4 text-right">{workflow.chains.toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">{workflow.retries.toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">
+                          {workflow.recoveredChains.toLocaleString()} ({Math.round((workflow.recoveredChains / workflow.chains) * 100)}%)
+                        </td>
+                        <td className="py-2 text-right">{formatRecoveryTime(workflow.meanTimeToRecovery)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import { GlobeAltIcon } from '@heroicons/react/24/outline'
+import { useTimezone } from '@/contexts/TimezoneContext'
+import { COMMON_TIMEZONES } from '@/lib/timezone'
+
+export function TimezoneSwitcher() {
+  const { timeZone, preference, setPreference } = useTimezone()
+  const isCommon = COMMON_TIMEZONES.some(option => option.value === preference)
+
+  return (
+    <label className="flex items-center gap-2 px-2 py-1.5 text-sm text-zinc-600 dark:text-slate-400">
+      <GlobeAltIcon className="h-5 w-5 shrink-0" aria-hidden="true" />
+      <span className="sr-only">Display timezone</span>
+      <select
+        value={preference}
+        onChange={(e) => setPreference(e.target.value)}
+        className="w-full truncate rounded-md border-0 bg-transparent py-1 pl-0 pr-6 text-sm text-zinc-950 focus:ring-0 dark:text-white"
+        title="Timezone used to display dates and bucket charts"
+      >
+        <option value="local">Browser time ({preference === 'local' ? timeZone : Intl.DateTimeFormat().resolvedOptions().timeZone})</option>
+        {!isCommon && preference !== 'local' && (
+          <option value={preference}>{preference}</option>
+        )}
+        {COMMON_TIMEZONES.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
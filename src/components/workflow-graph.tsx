@@ -0,0 +1,371 @@
+'use client'
+
+import { useState, useMemo, useRef } from 'react'
+import {
+  ArrowsPointingOutIcon,
+  MagnifyingGlassMinusIcon,
+  MagnifyingGlassPlusIcon
+} from '@heroicons/react/24/outline'
+import { ExecutionStatus, GraphConnection, GraphNode, WorkflowGraph as WorkflowGraphData } from '@/types'
+
+interface WorkflowGraphProps {
+  graph: WorkflowGraphData
+  overlay?: boolean // Colour nodes and edges by the execution data on the graph
+  selectedNode?: string | null
+  onNodeClick?: (nodeName: string) => void
+  height?: number
+}
+
+interface ViewBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const NODE_WIDTH = 180
+const NODE_HEIGHT = 60
+const PORT_SPACING = 14
+const PADDING = 60
+
+// n8n positions the top-left corner of a 100px square node
+const N8N_NODE_SIZE = 100
+
+const STATUS_STYLES: Record<ExecutionStatus, { box: string; dot: string; label: string }> = {
+  success: { box: 'fill-green-50 stroke-green-500 dark:fill-green-950', dot: 'fill-green-500', label: 'Success' },
+  error: { box: 'fill-red-50 stroke-red-500 dark:fill-red-950', dot: 'fill-red-500', label: 'Error' },
+  running: { box: 'fill-blue-50 stroke-blue-500 dark:fill-blue-950', dot: 'fill-blue-500', label: 'Running' },
+  waiting: { box: 'fill-yellow-50 stroke-yellow-500 dark:fill-yellow-950', dot: 'fill-yellow-500', label: 'Waiting' },
+  canceled: { box: 'fill-gray-50 stroke-gray-400 dark:fill-slate-900', dot: 'fill-gray-400', label: 'Canceled' },
+  unknown: { box: 'fill-gray-50 stroke-gray-400 dark:fill-slate-900', dot: 'fill-gray-400', label: 'Unknown' }
+}
+
+function formatMs(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`
+  const minutes = Math.floor(ms / 60000)
+  return `${minutes}m ${Math.round((ms % 60000) / 1000)}s`
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
+
+function shortType(type: string): string {
+  return type.split('.').pop() || type
+}
+
+/**
+ * Top-left corner of every node. Uses the canvas positions from the workflow,
+ * or lays nodes out in columns by depth when the workflow has none.
+ */
+function layoutNodes(nodes: GraphNode[], connections: GraphConnection[]): Map<string, { x: number; y: number }> {
+  const positions = new Map<string, { x: number; y: number }>()
+  const distinct = new Set(nodes.map(node => `${node.position.x},${node.position.y}`))
+
+  if (nodes.length <= 1 || distinct.size > 1) {
+    for (const node of nodes) {
+      positions.set(node.id, {
+        x: node.position.x,
+        y: node.position.y + (N8N_NODE_SIZE - NODE_HEIGHT) / 2
+      })
+    }
+    return positions
+  }
+
+  // Longest path from any root, bounded so cycles terminate
+  const depth = new Map(nodes.map(node => [node.id, 0]))
+  for (let pass = 0; pass < nodes.length; pass++) {
+    let changed = false
+    for (const connection of connections) {
+      const next = (depth.get(connection.sourceNodeId) || 0) + 1
+      if (next > (depth.get(connection.targetNodeId) || 0)) {
+        depth.set(connection.targetNodeId, next)
+        changed = true
+      }
+    }
+    if (!changed) break
+  }
+
+  const rows = new Map<number, number>()
+  for (const node of nodes) {
+    const column = depth.get(node.id) || 0
+    const row = rows.get(column) || 0
+    rows.set(column, row + 1)
+    positions.set(node.id, { x: column * (NODE_WIDTH + 80), y: row * (NODE_HEIGHT + 50) })
+  }
+  return positions
+}
+
+function fitViewBox(positions: Map<string, { x: number; y: number }>): ViewBox {
+  const points = Array.from(positions.values())
+  if (points.length === 0) return { x: 0, y: 0, width: 400, height: 200 }
+
+  const minX = Math.min(...points.map(point => point.x))
+  const minY = Math.min(...points.map(point => point.y))
+  const maxX = Math.max(...points.map(point => point.x + NODE_WIDTH))
+  const maxY = Math.max(...points.map(point => point.y + NODE_HEIGHT))
+  return {
+    x: minX - PADDING,
+    y: minY - PADDING,
+    width: maxX - minX + PADDING * 2,
+    height: maxY - minY + PADDING * 2
+  }
+}
+
+/**
+ * Read-only SVG rendering of a workflow. With overlay enabled, nodes are
+ * coloured by their run status and edges that carried data are animated.
+ */
+export function WorkflowGraph({ graph, overlay = false, selectedNode, onNodeClick, height = 480 }: WorkflowGraphProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<{ clientX: number; clientY: number; viewBox: ViewBox } | null>(null)
+
+  const positions = useMemo(() => layoutNodes(graph.nodes, graph.connections), [graph])
+  const fitted = useMemo(() => fitViewBox(positions), [positions])
+  const [viewBox, setViewBox] = useState<ViewBox | null>(null)
+  const view = viewBox || fitted
+
+  // Number of ports on each side so multiple outputs/inputs fan out
+  const ports = useMemo(() => {
+    const outputs = new Map<string, number>()
+    const inputs = new Map<string, number>()
+    for (const connection of graph.connections) {
+      if (connection.connectionType && connection.connectionType !== 'main') continue
+      outputs.set(connection.sourceNodeId, Math.max(outputs.get(connection.sourceNodeId) || 1, (connection.sourceOutputIndex || 0) + 1))
+      inputs.set(connection.targetNodeId, Math.max(inputs.get(connection.targetNodeId) || 1, (connection.targetInputIndex || 0) + 1))
+    }
+    return { outputs, inputs }
+  }, [graph.connections])
+
+  const zoom = (factor: number) => {
+    const width = view.width * factor
+    const height = view.height * factor
+    setViewBox({
+      x: view.x + (view.width - width) / 2,
+      y: view.y + (view.height - height) / 2,
+      width,
+      height
+    })
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if ((event.target as Element).closest('[data-node]')) return
+    dragRef.current = { clientX: event.clientX, clientY: event.clientY, viewBox: view }
+    event.currentTarget.setPointerCapture(event.pointerId)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!drag || !rect || rect.width === 0 || rect.height === 0) return
+
+    // preserveAspectRatio="meet" scales by the larger of the two ratios
+    const scale = Math.max(drag.viewBox.width / rect.width, drag.viewBox.height / rect.height)
+    setViewBox({
+      ...drag.viewBox,
+      x: drag.viewBox.x - (event.clientX - drag.clientX) * scale,
+      y: drag.viewBox.y - (event.clientY - drag.clientY) * scale
+    })
+  }
+
+  const handlePointerUp = () => {
+    dragRef.current = null
+  }
+
+  if (graph.nodes.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-sm text-gray-500 dark:text-slate-400" style={{ height }}>
+        This workflow has no nodes to display
+      </div>
+    )
+  }
+
+  const portOffset = (index: number, count: number) => (index - (count - 1) / 2) * PORT_SPACING
+
+  const renderConnection = (connection: GraphConnection, index: number) => {
+    const source = positions.get(connection.sourceNodeId)
+    const target = positions.get(connection.targetNodeId)
+    if (!source || !target) return null
+
+    const isMain = !connection.connectionType || connection.connectionType === 'main'
+    let path: string
+    let mid: { x: number; y: number }
+
+    if (isMain) {
+      const x1 = source.x + NODE_WIDTH
+      const y1 = source.y + NODE_HEIGHT / 2 + portOffset(connection.sourceOutputIndex || 0, ports.outputs.get(connection.sourceNodeId) || 1)
+      const x2 = target.x
+      const y2 = target.y + NODE_HEIGHT / 2 + portOffset(connection.targetInputIndex || 0, ports.inputs.get(connection.targetNodeId) || 1)
+      const curve = Math.max(40, Math.abs(x2 - x1) / 2)
+      path = `M ${x1} ${y1} C ${x1 + curve} ${y1}, ${x2 - curve} ${y2}, ${x2} ${y2}`
+      mid = { x: (x1 + 3 * (x1 + curve) + 3 * (x2 - curve) + x2) / 8, y: (y1 + y2) / 2 }
+    } else {
+      // Sub-nodes sit below their parent and connect from their top edge
+      const x1 = source.x + NODE_WIDTH / 2
+      const y1 = source.y
+      const x2 = target.x + NODE_WIDTH / 2
+      const y2 = target.y + NODE_HEIGHT
+      path = `M ${x1} ${y1} C ${x1} ${y1 - 40}, ${x2} ${y2 + 40}, ${x2} ${y2}`
+      mid = { x: (x1 + x2) / 2, y: (y1 + y2) / 2 }
+    }
+
+    const active = overlay && connection.executed
+    const className = active
+      ? 'stroke-indigo-500'
+      : overlay
+        ? 'stroke-gray-300 dark:stroke-slate-600'
+        : 'stroke-gray-400 dark:stroke-slate-500'
+
+    return (
+      <g key={`${connection.sourceNodeId}-${connection.targetNodeId}-${index}`}>
+        <path
+          d={path}
+          fill="none"
+          className={className}
+          strokeWidth={active ? 2.5 : 1.5}
+          strokeDasharray={active ? '8 5' : !isMain || overlay ? '4 4' : undefined}
+          markerEnd={isMain ? `url(#${active ? 'graph-arrow-active' : 'graph-arrow'})` : undefined}
+        >
+          {active && (
+            <animate attributeName="stroke-dashoffset" from="26" to="0" dur="1s" repeatCount="indefinite" />
+          )}
+        </path>
+        {active && connection.itemCount !== undefined && (
+          <g transform={`translate(${mid.x}, ${mid.y})`}>
+            <rect x={-22} y={-10} width={44} height={20} rx={10} className="fill-indigo-500" />
+            <text textAnchor="middle" dy="4" className="fill-white text-[11px] font-medium">
+              {connection.itemCount}
+            </text>
+          </g>
+        )}
+      </g>
+    )
+  }
+
+  const renderNode = (node: GraphNode) => {
+    const position = positions.get(node.id)
+    if (!position) return null
+
+    const run = overlay ? node.executionData : undefined
+    const style = run?.status ? STATUS_STYLES[run.status] : null
+    const isSelected = selectedNode === node.name
+    const boxClass = style
+      ? style.box
+      : overlay
+        ? 'fill-white stroke-gray-300 dark:fill-slate-800 dark:stroke-slate-600'
+        : 'fill-white stroke-gray-400 dark:fill-slate-800 dark:stroke-slate-500'
+
+    const detail = run
+      ? [
+        run.duration !== undefined ? formatMs(run.duration) : null,
+        `${run.inputItems ?? '–'} → ${run.outputItems ?? 0} items`,
+        run.runs && run.runs > 1 ? `×${run.runs}` : null
+      ].filter(Boolean).join(' · ')
+      : overlay
+        ? 'Not executed'
+        : shortType(node.type)
+
+    const tooltip = [
+      node.name,
+      node.type,
+      run?.status ? `Status: ${run.status}` : overlay ? 'Not executed' : null,
+      run?.duration !== undefined ? `Duration: ${formatMs(run.duration)}` : null,
+      run ? `Items in: ${run.inputItems ?? 'n/a'}, out: ${run.outputItems ?? 0}` : null,
+      run?.runs && run.runs > 1 ? `Runs: ${run.runs}` : null,
+      run?.error ? `Error: ${run.error}` : null
+    ].filter(Boolean).join('\n')
+
+    return (
+      <g
+        key={node.id}
+        data-node
+        transform={`translate(${position.x}, ${position.y})`}
+        className={`${onNodeClick ? 'cursor-pointer' : ''} ${node.disabled || (overlay && !run) ? 'opacity-50' : ''}`}
+        onClick={() => onNodeClick?.(node.name)}
+      >
+        <title>{tooltip}</title>
+        <rect
+          width={NODE_WIDTH}
+          height={NODE_HEIGHT}
+          rx={8}
+          className={isSelected ? `${boxClass} stroke-indigo-600 dark:stroke-indigo-400` : boxClass}
+          strokeWidth={isSelected ? 3 : 1.5}
+        />
+        {style && <circle cx={NODE_WIDTH - 12} cy={12} r={5} className={style.dot} />}
+        <text x={12} y={25} className="fill-gray-900 dark:fill-white text-[13px] font-semibold">
+          {truncate(node.disabled ? `${node.name} (disabled)` : node.name, 21)}
+        </text>
+        <text x={12} y={44} className={`text-[11px] ${run?.status === 'error' ? 'fill-red-600 dark:fill-red-400' : 'fill-gray-500 dark:fill-slate-400'}`}>
+          {truncate(detail, 28)}
+        </text>
+      </g>
+    )
+  }
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+        preserveAspectRatio="xMidYMid meet"
+        className="w-full select-none cursor-grab active:cursor-grabbing bg-gray-50 dark:bg-slate-900 rounded-lg touch-none"
+        style={{ height }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      >
+        <defs>
+          <marker id="graph-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-gray-400 dark:fill-slate-500" />
+          </marker>
+          <marker id="graph-arrow-active" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-indigo-500" />
+          </marker>
+        </defs>
+        {graph.connections.map(renderConnection)}
+        {graph.nodes.map(renderNode)}
+      </svg>
+
+      <div className="absolute top-3 right-3 flex flex-col gap-1">
+        {[
+          { label: 'Zoom in', icon: MagnifyingGlassPlusIcon, onClick: () => zoom(0.8) },
+          { label: 'Zoom out', icon: MagnifyingGlassMinusIcon, onClick: () => zoom(1.25) },
+          { label: 'Fit to view', icon: ArrowsPointingOutIcon, onClick: () => setViewBox(null) }
+        ].map(control => (
+          <button
+            key={control.label}
+            type="button"
+            title={control.label}
+            onClick={control.onClick}
+            className="p-1.5 rounded-md bg-white dark:bg-slate-800 shadow ring-1 ring-gray-200 dark:ring-slate-700 text-gray-600 dark:text-slate-300 hover:text-indigo-600 dark:hover:text-indigo-400"
+          >
+            <control.icon className="h-4 w-4" />
+          </button>
+        ))}
+      </div>
+
+      {overlay && (
+        <div className="mt-3 flex flex-wrap items-center gap-4 text-xs text-gray-500 dark:text-slate-400">
+          {(['success', 'error', 'running', 'waiting'] as ExecutionStatus[]).map(status => (
+            <span key={status} className="flex items-center">
+              <svg className="h-2.5 w-2.5 mr-1.5" viewBox="0 0 10 10">
+                <circle cx={5} cy={5} r={5} className={STATUS_STYLES[status].dot} />
+              </svg>
+              {STATUS_STYLES[status].label}
+            </span>
+          ))}
+          <span className="flex items-center">
+            <span className="inline-block w-5 border-t-2 border-dashed border-indigo-500 mr-1.5" />
+            Data flowed (item count)
+          </span>
+          <span className="flex items-center">
+            <span className="inline-block w-5 border-t-2 border-dashed border-gray-300 dark:border-slate-600 mr-1.5" />
+            Not executed
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
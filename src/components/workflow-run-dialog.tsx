@@ -0,0 +1,334 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  CheckCircleIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+  PlayIcon,
+  TrashIcon,
+  XCircleIcon
+} from '@heroicons/react/24/outline'
+import { Badge } from '@/components/badge'
+import { Button } from '@/components/button'
+import { Input } from '@/components/input'
+import { Select } from '@/components/select'
+import { Textarea } from '@/components/textarea'
+import { showToast } from '@/components/toast'
+import { apiClient } from '@/lib/api-client'
+import { ExecutionStatus, WorkflowInputPreset, WorkflowRunStart, WorkflowRunStatus } from '@/types'
+
+const POLL_INTERVAL_MS = 2000
+const MAX_POLL_FAILURES = 5
+// Polls after the run finished while waiting for the sync to pick it up
+const MAX_SYNC_WAIT_POLLS = 30
+
+const statusIcons: Record<ExecutionStatus, typeof PlayIcon> = {
+  success: CheckCircleIcon,
+  error: XCircleIcon,
+  running: PlayIcon,
+  waiting: ClockIcon,
+  canceled: ExclamationTriangleIcon,
+  unknown: ClockIcon
+}
+
+const statusColors = {
+  success: 'green',
+  error: 'red',
+  running: 'blue',
+  waiting: 'yellow',
+  canceled: 'zinc',
+  unknown: 'zinc'
+} as const
+
+interface WorkflowRunDialogProps {
+  workflowId: string // Provider workflow ID, as used by the workflow detail page
+  providerId: string
+  workflowName: string
+  onClose: () => void
+}
+
+function parsePayload(text: string): { payload?: Record<string, unknown>; error?: string } {
+  if (!text.trim()) return { payload: {} }
+  try {
+    const payload = JSON.parse(text)
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      return { error: 'The input must be a JSON object' }
+    }
+    return { payload }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid JSON' }
+  }
+}
+
+function formatElapsed(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  const seconds = Math.floor(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+/**
+ * Runs a workflow with a JSON input payload and follows the started execution until it finishes
+ */
+export function WorkflowRunDialog({ workflowId, providerId, workflowName, onClose }: WorkflowRunDialogProps) {
+  const [payloadText, setPayloadText] = useState('{\n  \n}')
+  const [presets, setPresets] = useState<WorkflowInputPreset[]>([])
+  const [selectedPresetId, setSelectedPresetId] = useState('')
+  const [presetName, setPresetName] = useState('')
+  const [savingPreset, setSavingPreset] = useState(false)
+  const [starting, setStarting] = useState(false)
+  const [run, setRun] = useState<WorkflowRunStart | null>(null)
+  const [runStatus, setRunStatus] = useState<WorkflowRunStatus | null>(null)
+  const [followError, setFollowError] = useState<string | null>(null)
+
+  const { payload, error: payloadError } = parsePayload(payloadText)
+  const presetQuery = `providerId=${encodeURIComponent(providerId)}`
+
+  useEffect(() => {
+    apiClient.get<{ data: WorkflowInputPreset[] }>(`/workflows/${workflowId}/presets?${presetQuery}`)
+      .then(response => setPresets(response.data))
+      .catch(error => console.error('Failed to fetch input presets:', error))
+  }, [workflowId, presetQuery])
+
+  // Follow the started execution on n8n until it reports an end state
+  useEffect(() => {
+    if (!run?.providerExecutionId) return
+
+    let cancelled = false
+    let failures = 0
+    let syncWaitPolls = 0
+    let timeout: ReturnType<typeof setTimeout>
+
+    const poll = async () => {
+      try {
+        const response = await apiClient.get<{ data: WorkflowRunStatus }>(
+          `/workflows/${workflowId}/runs/${run.providerExecutionId}?providerId=${encodeURIComponent(run.providerId)}`
+        )
+        if (cancelled) return
+        failures = 0
+        setRunStatus(response.data)
+        if (response.data.finished) {
+          syncWaitPolls += 1
+          if (response.data.executionId || syncWaitPolls > MAX_SYNC_WAIT_POLLS) return
+        }
+      } catch (error) {
+        console.error('Failed to fetch run status:', error)
+        failures += 1
+        if (failures >= MAX_POLL_FAILURES) {
+          if (!cancelled) setFollowError('Lost track of the execution on n8n. It shows up in executions after the next sync.')
+          return
+        }
+      }
+      if (!cancelled) timeout = setTimeout(poll, POLL_INTERVAL_MS)
+    }
+
+    poll()
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [run, workflowId])
+
+  const selectPreset = (presetId: string) => {
+    setSelectedPresetId(presetId)
+    const preset = presets.find(p => p.id === presetId)
+    if (preset) {
+      setPayloadText(JSON.stringify(preset.payload, null, 2))
+      setPresetName(preset.name)
+    }
+  }
+
+  const handleSavePreset = async () => {
+    if (!payload || !presetName.trim()) return
+    try {
+      setSavingPreset(true)
+      const response = await apiClient.post<{ data: WorkflowInputPreset }>(`/workflows/${workflowId}/presets`, {
+        name: presetName.trim(),
+        payload,
+        providerId
+      })
+      const saved = response.data
+      setPresets(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)))
+      setSelectedPresetId(saved.id)
+      showToast({
+        type: 'success',
+        title: 'Preset saved',
+        message: saved.name
+      })
+    } catch (error) {
+      console.error('Failed to save input preset:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to save preset',
+        message: 'Please try again'
+      })
+    } finally {
+      setSavingPreset(false)
+    }
+  }
+
+  const handleDeletePreset = async () => {
+    const preset = presets.find(p => p.id === selectedPresetId)
+    if (!preset || !confirm(`Delete the preset "${preset.name}"?`)) return
+    try {
+      await apiClient.delete(`/workflows/${workflowId}/presets/${preset.id}?${presetQuery}`)
+      setPresets(prev => prev.filter(p => p.id !== preset.id))
+      setSelectedPresetId('')
+    } catch (error) {
+      console.error('Failed to delete input preset:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to delete preset',
+        message: 'Please try again'
+      })
+    }
+  }
+
+  const handleRun = async () => {
+    if (!payload) return
+    try {
+      setStarting(true)
+      setRunStatus(null)
+      setFollowError(null)
+      const response = await apiClient.post<{ data: WorkflowRunStart }>(`/workflows/${workflowId}/run`, {
+        payload,
+        providerId
+      })
+      setRun(response.data)
+    } catch (error) {
+      console.error('Failed to run workflow:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to run workflow',
+        message: 'n8n did not start the workflow'
+      })
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const following = Boolean(run?.providerExecutionId) && !runStatus?.finished && !followError
+  const StatusIcon = runStatus ? statusIcons[runStatus.status] : PlayIcon
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1">Run {workflowName}</h2>
+        <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">
+          Starts the workflow on n8n now with the JSON below as its input data
+        </p>
+
+        <div className="space-y-4">
+          <div className="flex items-end space-x-2">
+            <div className="flex-1">
+              <label htmlFor="preset" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                Preset
+              </label>
+              <Select id="preset" value={selectedPresetId} onChange={(e) => selectPreset(e.target.value)}>
+                <option value="">{presets.length === 0 ? 'No saved presets' : 'Choose a preset'}</option>
+                {presets.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </Select>
+            </div>
+            <Button outline onClick={handleDeletePreset} disabled={!selectedPresetId} title="Delete preset">
+              <TrashIcon className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div>
+            <label htmlFor="payload" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+              Input payload
+            </label>
+            <Textarea
+              id="payload"
+              value={payloadText}
+              onChange={(e) => setPayloadText(e.target.value)}
+              rows={10}
+              spellCheck={false}
+              className="font-mono"
+            />
+            {payloadError && <p className="mt-1 text-xs text-red-600">{payloadError}</p>}
+          </div>
+
+          <div className="flex items-end space-x-2">
+            <div className="flex-1">
+              <label htmlFor="presetName" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                Save as preset
+              </label>
+              <Input
+                id="presetName"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Preset name"
+                maxLength={100}
+              />
+            </div>
+            <Button outline onClick={handleSavePreset} disabled={!payload || !presetName.trim() || savingPreset}>
+              {savingPreset ? 'Saving...' : presets.some(p => p.name === presetName.trim()) ? 'Update' : 'Save'}
+            </Button>
+          </div>
+
+          {run && (
+            <div className="rounded-lg border border-gray-200 dark:border-slate-700 p-4">
+              {!run.providerExecutionId ? (
+                <p className="text-sm text-gray-700 dark:text-slate-300">
+                  The workflow was started. n8n did not report its execution, so it shows up in executions after the next sync.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <Badge color={runStatus ? statusColors[runStatus.status] : 'blue'} className="flex items-center space-x-1">
+                        <StatusIcon className={`h-3 w-3 ${following ? 'animate-pulse' : ''}`} />
+                        <span className="capitalize">{runStatus?.status || 'starting'}</span>
+                      </Badge>
+                      <span className="text-sm font-mono text-gray-500 dark:text-slate-400">#{run.providerExecutionId}</span>
+                    </div>
+                    <span className="text-sm text-gray-500 dark:text-slate-400">
+                      {runStatus?.finished && runStatus.duration !== undefined
+                        ? formatElapsed(runStatus.duration)
+                        : following && 'Following on n8n...'}
+                    </span>
+                  </div>
+                  {runStatus?.error && (
+                    <p className="text-sm text-red-600">{runStatus.error}</p>
+                  )}
+                  {followError && (
+                    <p className="text-sm text-yellow-700 dark:text-yellow-400">{followError}</p>
+                  )}
+                  {runStatus?.finished && (
+                    runStatus.executionId ? (
+                      <Link
+                        href={`/executions/${runStatus.executionId}`}
+                        className="text-sm text-indigo-600 hover:text-indigo-500 dark:text-indigo-400"
+                      >
+                        View execution details →
+                      </Link>
+                    ) : (
+                      <p className="text-sm text-gray-500 dark:text-slate-400">
+                        Execution details are available after the next sync
+                      </p>
+                    )
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-6">
+          <Button type="button" outline onClick={onClose}>
+            Close
+          </Button>
+          <Button type="button" onClick={handleRun} disabled={!payload || starting || following}>
+            <PlayIcon className="h-4 w-4 mr-2" />
+            {starting ? 'Starting...' : run ? 'Run again' : 'Run now'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
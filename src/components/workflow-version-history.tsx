@@ -0,0 +1,405 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  ArrowUturnLeftIcon,
+  ArrowsRightLeftIcon,
+  ClockIcon,
+  MinusCircleIcon,
+  PencilSquareIcon,
+  PlusCircleIcon
+} from '@heroicons/react/24/outline'
+import { Badge } from '@/components/badge'
+import { Button } from '@/components/button'
+import { showToast } from '@/components/toast'
+import { apiClient } from '@/lib/api-client'
+import { isEmptyDiff } from '@/lib/workflows/workflow-diff'
+import {
+  WorkflowConnectionRef,
+  WorkflowDiff,
+  WorkflowRestorePreview,
+  WorkflowRestoreRecord,
+  WorkflowValueChange,
+  WorkflowVersion
+} from '@/types'
+
+interface WorkflowVersionHistoryProps {
+  workflowId: string // Provider workflow ID, as used by the workflow detail page
+}
+
+function formatDate(date: Date) {
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(new Date(date))
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text
+}
+
+function describeConnection(edge: WorkflowConnectionRef): string {
+  const output = edge.outputIndex > 0 ? ` (output ${edge.outputIndex + 1})` : ''
+  const type = edge.type !== 'main' ? ` [${edge.type}]` : ''
+  return `${edge.from}${output} → ${edge.to}${type}`
+}
+
+export function ValueChanges({ changes }: { changes: WorkflowValueChange[] }) {
+  return (
+    <ul className="mt-1 space-y-1">
+      {changes.map(change => (
+        <li key={change.path} className="text-xs font-mono text-gray-600 dark:text-slate-400">
+          <span className="text-gray-900 dark:text-white">{change.path}</span>:{' '}
+          <span className="text-red-600 line-through">{formatValue(change.before)}</span>{' '}
+          <span className="text-green-600">{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function DiffDetails({ diff }: { diff: WorkflowDiff }) {
+  return (
+    <div className="space-y-6">
+      {diff.nameChange && (
+        <div className="text-sm text-gray-700 dark:text-slate-300">
+          Renamed from <span className="font-medium">{diff.nameChange.before}</span> to{' '}
+          <span className="font-medium">{diff.nameChange.after}</span>
+        </div>
+      )}
+
+      {(diff.nodesAdded.length > 0 || diff.nodesRemoved.length > 0) && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Nodes</h4>
+          <ul className="space-y-1">
+            {diff.nodesAdded.map(node => (
+              <li key={`added-${node.name}`} className="flex items-center text-sm text-green-700">
+                <PlusCircleIcon className="h-4 w-4 mr-2" />
+                {node.name} <span className="ml-2 text-xs text-gray-500">{node.type}</span>
+              </li>
+            ))}
+            {diff.nodesRemoved.map(node => (
+              <li key={`removed-${node.name}`} className="flex items-center text-sm text-red-700">
+                <MinusCircleIcon className="h-4 w-4 mr-2" />
+                {node.name} <span className="ml-2 text-xs text-gray-500">{node.type}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {diff.nodesChanged.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Changed Nodes</h4>
+          <ul className="space-y-3">
+            {diff.nodesChanged.map(node => (
+              <li key={`changed-${node.name}`}>
+                <div className="flex items-center text-sm text-yellow-700">
+                  <PencilSquareIcon className="h-4 w-4 mr-2" />
+                  {node.name}
+                  {node.previousName && (
+                    <span className="ml-2 text-xs text-gray-500">(was {node.previousName})</span>
+                  )}
+                </div>
+                {node.changes.length > 0 && <ValueChanges changes={node.changes} />}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(diff.connectionsAdded.length > 0 || diff.connectionsRemoved.length > 0) && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Connections</h4>
+          <ul className="space-y-1">
+            {diff.connectionsAdded.map(edge => (
+              <li key={`added-${describeConnection(edge)}-${edge.inputIndex}`} className="text-sm text-green-700 font-mono">
+                + {describeConnection(edge)}
+              </li>
+            ))}
+            {diff.connectionsRemoved.map(edge => (
+              <li key={`removed-${describeConnection(edge)}-${edge.inputIndex}`} className="text-sm text-red-700 font-mono">
+                − {describeConnection(edge)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {diff.settingsChanges.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Settings</h4>
+          <ValueChanges changes={diff.settingsChanges} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function WorkflowVersionHistory({ workflowId }: WorkflowVersionHistoryProps) {
+  const [versions, setVersions] = useState<WorkflowVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<WorkflowDiff | null>(null)
+  const [diffLoading, setDiffLoading] = useState(false)
+  const [restores, setRestores] = useState<WorkflowRestoreRecord[]>([])
+  const [restoreTarget, setRestoreTarget] = useState<WorkflowVersion | null>(null)
+  const [restorePreview, setRestorePreview] = useState<WorkflowRestorePreview | null>(null)
+  const [restoring, setRestoring] = useState(false)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      try {
+        setLoading(true)
+        const [response, restoresResponse] = await Promise.all([
+          apiClient.get<{ data: WorkflowVersion[] }>(`/workflows/${workflowId}/versions`),
+          apiClient.get<{ data: WorkflowRestoreRecord[] }>(`/workflows/${workflowId}/restores`)
+        ])
+        setVersions(response.data)
+        setRestores(restoresResponse.data)
+
+        // Compare the latest version with the one before it by default
+        if (response.data.length >= 2) {
+          setToId(response.data[0].id)
+          setFromId(response.data[1].id)
+        }
+      } catch (error) {
+        console.error('Failed to fetch workflow versions:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchVersions()
+  }, [workflowId, refreshKey])
+
+  useEffect(() => {
+    if (!fromId || !toId || fromId === toId) {
+      setDiff(null)
+      return
+    }
+
+    const fetchDiff = async () => {
+      try {
+        setDiffLoading(true)
+        const response = await apiClient.get<{ data: { diff: WorkflowDiff } }>(
+          `/workflows/${workflowId}/versions/diff?from=${fromId}&to=${toId}`
+        )
+        setDiff(response.data.diff)
+      } catch (error) {
+        console.error('Failed to diff workflow versions:', error)
+        setDiff(null)
+      } finally {
+        setDiffLoading(false)
+      }
+    }
+
+    fetchDiff()
+  }, [workflowId, fromId, toId])
+
+  const handleOpenRestore = async (version: WorkflowVersion) => {
+    setRestoreTarget(version)
+    setRestorePreview(null)
+
+    try {
+      // Dry run first so the user sees exactly what the restore will change
+      const response = await apiClient.post<{ data: WorkflowRestorePreview }>(
+        `/workflows/${workflowId}/versions/${version.id}/restore`,
+        { dryRun: true }
+      )
+      setRestorePreview(response.data)
+    } catch (error) {
+      console.error('Failed to preview restore:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to preview restore',
+        message: 'Please try again'
+      })
+      setRestoreTarget(null)
+    }
+  }
+
+  const handleCloseRestore = () => {
+    setRestoreTarget(null)
+    setRestorePreview(null)
+  }
+
+  const handleConfirmRestore = async () => {
+    if (!restoreTarget) return
+
+    try {
+      setRestoring(true)
+      await apiClient.post(`/workflows/${workflowId}/versions/${restoreTarget.id}/restore`, { confirm: true })
+      showToast({
+        type: 'success',
+        title: 'Workflow restored',
+        message: `The workflow on n8n now matches v${restoreTarget.versionNumber}`
+      })
+    } catch (error) {
+      console.error('Failed to restore workflow version:', error)
+      showToast({
+        type: 'error',
+        title: 'Failed to restore workflow',
+        message: 'See the restore history for details'
+      })
+    } finally {
+      setRestoring(false)
+      handleCloseRestore()
+      setRefreshKey(key => key + 1)
+    }
+  }
+
+  const versionLabel = (id: string | null) => {
+    const version = versions.find(v => v.id === id)
+    return version ? `v${version.versionNumber}` : '—'
+  }
+
+  return (
+    <div className="bg-white dark:bg-slate-800 shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">Version History</h3>
+        <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">
+          A snapshot is stored each time the workflow changes in n8n. Pick two versions to compare.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="px-6 py-8 text-sm text-gray-500 dark:text-slate-400">Loading versions...</div>
+      ) : versions.length === 0 ? (
+        <div className="px-6 py-8 text-center">
+          <ClockIcon className="mx-auto h-10 w-10 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500 dark:text-slate-400">
+            No versions recorded yet. They are captured on the next workflow sync.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3">
+          {/* Timeline */}
+          <ol className="px-6 py-4 space-y-4 border-b lg:border-b-0 lg:border-r border-gray-200 max-h-[32rem] overflow-y-auto">
+            {versions.map((version, index) => (
+              <li key={version.id} className="relative pl-6">
+                <span className={`absolute left-0 top-1.5 h-3 w-3 rounded-full ${index === 0 ? 'bg-indigo-500' : 'bg-gray-300'}`} />
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">v{version.versionNumber}</span>
+                  {index === 0 && <Badge color="indigo">Latest</Badge>}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-slate-400">
+                  {formatDate(version.workflowUpdatedAt || version.createdAt)} · {version.nodeCount} nodes
+                </p>
+                <p className="text-xs text-gray-400 font-mono">{version.nodeHash.slice(0, 12)}</p>
+                <div className="mt-1 flex space-x-2">
+                  <Button
+                    plain
+                    onClick={() => setFromId(version.id)}
+                    className={fromId === version.id ? 'text-indigo-600' : ''}
+                  >
+                    {fromId === version.id ? '● Base' : 'Base'}
+                  </Button>
+                  <Button
+                    plain
+                    onClick={() => setToId(version.id)}
+                    className={toId === version.id ? 'text-indigo-600' : ''}
+                  >
+                    {toId === version.id ? '● Compare' : 'Compare'}
+                  </Button>
+                  {index > 0 && (
+                    <Button plain onClick={() => handleOpenRestore(version)}>
+                      <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          {/* Diff */}
+          <div className="lg:col-span-2 px-6 py-4">
+            <div className="flex items-center space-x-2 text-sm font-medium text-gray-900 dark:text-white mb-4">
+              <ArrowsRightLeftIcon className="h-5 w-5 text-gray-400" />
+              <span>{versionLabel(fromId)} → {versionLabel(toId)}</span>
+            </div>
+
+            {!fromId || !toId || fromId === toId ? (
+              <p className="text-sm text-gray-500 dark:text-slate-400">Select two different versions to see what changed.</p>
+            ) : diffLoading ? (
+              <p className="text-sm text-gray-500 dark:text-slate-400">Comparing...</p>
+            ) : !diff ? (
+              <p className="text-sm text-red-600">Failed to compare these versions.</p>
+            ) : isEmptyDiff(diff) ? (
+              <p className="text-sm text-gray-500 dark:text-slate-400">
+                No structural changes. Only the layout or metadata changed between these versions.
+              </p>
+            ) : (
+              <DiffDetails diff={diff} />
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Restore Audit Trail */}
+      {restores.length > 0 && (
+        <div className="px-6 py-4 border-t border-gray-200">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Restore History</h4>
+          <ul className="space-y-1">
+            {restores.map(restore => (
+              <li key={restore.id} className="flex items-center space-x-2 text-sm text-gray-600 dark:text-slate-400">
+                <Badge color={restore.status === 'success' ? 'green' : 'red'}>
+                  {restore.status === 'success' ? 'Restored' : 'Failed'}
+                </Badge>
+                <span>
+                  v{restore.versionNumber} by {restore.restoredBy} on {formatDate(restore.createdAt)}
+                </span>
+                {restore.error && <span className="text-xs text-red-600">{restore.error}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Restore Modal */}
+      {restoreTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1">
+              Restore v{restoreTarget.versionNumber}?
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">
+              This overwrites the workflow on n8n with the snapshot from{' '}
+              {formatDate(restoreTarget.workflowUpdatedAt || restoreTarget.createdAt)}.
+              {restorePreview?.comparedTo === 'provider'
+                ? ' Changes are shown against the workflow currently on n8n.'
+                : restorePreview?.current && ` n8n could not be reached, so changes are shown against the latest captured version (v${restorePreview.current.versionNumber}).`}
+            </p>
+
+            {!restorePreview ? (
+              <p className="text-sm text-gray-500 dark:text-slate-400">Preparing preview...</p>
+            ) : isEmptyDiff(restorePreview.diff) ? (
+              <p className="text-sm text-gray-500 dark:text-slate-400">
+                No structural changes. The restore only resets layout and metadata.
+              </p>
+            ) : (
+              <DiffDetails diff={restorePreview.diff} />
+            )}
+
+            <div className="flex justify-end space-x-3 pt-6">
+              <Button type="button" outline onClick={handleCloseRestore} disabled={restoring}>
+                Cancel
+              </Button>
+              <Button type="button" color="red" onClick={handleConfirmRestore} disabled={!restorePreview || restoring}>
+                {restoring ? 'Restoring...' : `Restore v${restoreTarget.versionNumber}`}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import React, { createContext, useContext, useEffect, useState } from 'react'
+import { isValidTimeZone } from '@/lib/timezone'
+
+// 'local' follows the browser, anything else is an IANA timezone
+type TimezonePreference = 'local' | string
+
+interface TimezoneContextType {
+  timeZone: string // Resolved IANA timezone to display times in
+  preference: TimezonePreference
+  setPreference: (preference: TimezonePreference) => void
+}
+
+const STORAGE_KEY = 'displayTimezone'
+
+const TimezoneContext = createContext<TimezoneContextType | undefined>(undefined)
+
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+export function TimezoneProvider({ children }: { children: React.ReactNode }) {
+  const [preference, setPreferenceState] = useState<TimezonePreference>('local')
+
+  useEffect(() => {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (saved && (saved === 'local' || isValidTimeZone(saved))) {
+      setPreferenceState(saved)
+    }
+  }, [])
+
+  const setPreference = (newPreference: TimezonePreference) => {
+    setPreferenceState(newPreference)
+    localStorage.setItem(STORAGE_KEY, newPreference)
+  }
+
+  const timeZone = preference === 'local' ? browserTimeZone() : preference
+
+  return (
+    <TimezoneContext.Provider value={{ timeZone, preference, setPreference }}>
+      {children}
+    </TimezoneContext.Provider>
+  )
+}
+
+export function useTimezone() {
+  const context = useContext(TimezoneContext)
+  if (context === undefined) {
+    throw new Error('useTimezone must be used within a TimezoneProvider')
+  }
+  return context
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react'
+import { AlertEvent, LiveExecutionEvent, LiveSyncEvent } from '@/types'
+
+export interface LiveEventHandlers {
+  onExecution?: (event: LiveExecutionEvent) => void
+  onSync?: (event: LiveSyncEvent) => void
+  onAlert?: (event: AlertEvent) => void
+}
+
+function reviveDates<T>(data: string, fields: string[]): T {
+  const value = JSON.parse(data)
+  for (const field of fields) {
+    if (value[field]) value[field] = new Date(value[field])
+  }
+  return value
+}
+
+/**
+ * Subscribe to the live event stream at /api/events while mounted.
+ * Handlers are read on every event, so they may close over current state.
+ * Returns whether the stream is connected; the browser reconnects on its own after a drop.
+ */
+export function useLiveEvents(handlers: LiveEventHandlers, enabled = true): boolean {
+  const handlersRef = useRef(handlers)
+  const [connected, setConnected] = useState(false)
+
+  useEffect(() => {
+    handlersRef.current = handlers
+  })
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return
+
+    // The session cookie authenticates the stream, EventSource cannot send headers
+    const source = new EventSource('/api/events', { withCredentials: true })
+
+    source.onopen = () => setConnected(true)
+    source.onerror = () => setConnected(false)
+
+    source.addEventListener('execution', (event) => {
+      handlersRef.current.onExecution?.(
+        reviveDates<LiveExecutionEvent>((event as MessageEvent).data, ['startedAt', 'stoppedAt'])
+      )
+    })
+    source.addEventListener('sync', (event) => {
+      handlersRef.current.onSync?.(reviveDates<LiveSyncEvent>((event as MessageEvent).data, ['at']))
+    })
+    source.addEventListener('alert', (event) => {
+      handlersRef.current.onAlert?.(
+        reviveDates<AlertEvent>((event as MessageEvent).data, ['firstSeenAt', 'lastSeenAt'])
+      )
+    })
+
+    return () => {
+      source.close()
+      setConnected(false)
+    }
+  }, [enabled])
+
+  return connected
+}
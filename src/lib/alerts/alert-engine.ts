@@ -0,0 +1,334 @@
+/**
+ * Alert Engine
+ *
+ * Evaluates alert rules against executions that were just inserted or updated by
+ * the execution sync. Repeat alerts for the same rule and workflow are folded into
+ * the existing event while the rule's cooldown is active.
+ */
+
+import { getDb } from '@/lib/db'
+import { getAlertService } from '@/lib/services/alert-service'
+import { getSloService } from '@/lib/services/slo-service'
+import { AlertEvent, AlertRule, Slo } from '@/types'
+
+// Errors older than this are treated as historical backfill and never alert on their own
+const ANY_ERROR_HORIZON_MS = 60 * 60 * 1000
+
+const FINISHED_STATUSES = ['success', 'error', 'canceled']
+
+// SLO burn rate alerts confirm the rule's window with one of 1/12 its length (min 5 minutes)
+const SLO_SHORT_WINDOW_DIVISOR = 12
+const SLO_MIN_SHORT_WINDOW_MINUTES = 5
+
+// Burn rates at or above this exhaust a 30 day budget within 5 days
+const SLO_CRITICAL_BURN_RATE = 6
+
+interface ExecutionRow {
+  id: string
+  provider_id: string
+  provider_workflow_id: string
+  provider_execution_id: string
+  status: string
+  started_at: string
+  stopped_at: string | null
+  workflow_name: string | null
+  workflow_tags: string | null
+  error_message: string | null
+  last_node_executed: string | null
+}
+
+export class AlertEngine {
+  /**
+   * Evaluate all enabled rules for the given internal execution IDs
+   * @returns Newly created alert events (suppressed repeats are not returned)
+   */
+  async evaluateExecutions(executionIds: string[]): Promise<AlertEvent[]> {
+    if (executionIds.length === 0) return []
+
+    const alertService = getAlertService()
+    const rules = await alertService.listRules(true)
+    if (rules.length === 0) return []
+
+    const executions = (await this.loadExecutions(executionIds))
+      .filter(e => FINISHED_STATUSES.includes(e.status))
+    if (executions.length === 0) return []
+
+    const created: AlertEvent[] = []
+
+    for (const rule of rules) {
+      try {
+        const matching = executions.filter(e => this.matchesScope(rule, e))
+        if (matching.length === 0) continue
+
+        const events = await this.evaluateRule(rule, matching)
+        created.push(...events)
+      } catch (error) {
+        console.error(`❌ Failed to evaluate alert rule ${rule.name}:`, error)
+      }
+    }
+
+    if (created.length > 0) {
+      console.log(`🚨 ${created.length} new alert(s) raised`)
+    }
+
+    return created
+  }
+
+  private async evaluateRule(rule: AlertRule, executions: ExecutionRow[]): Promise<AlertEvent[]> {
+    const now = Date.now()
+    const created: AlertEvent[] = []
+
+    if (rule.conditionType === 'any_error') {
+      const failures = executions.filter(e =>
+        e.status === 'error' && this.finishedAt(e) >= now - ANY_ERROR_HORIZON_MS
+      )
+
+      for (const execution of failures) {
+        const nodeSuffix = execution.last_node_executed ? ` at node "${execution.last_node_executed}"` : ''
+        const event = await this.raise(rule, execution, {
+          severity: 'critical',
+          title: `Workflow "${this.workflowName(execution)}" failed`,
+          message: `${execution.error_message || 'Execution failed'}${nodeSuffix}`,
+          metadata: { providerExecutionId: execution.provider_execution_id }
+        })
+        if (event) created.push(event)
+      }
+
+      return created
+    }
+
+    if (rule.conditionType === 'slo_burn_rate') {
+      return this.evaluateSloBurnRate(rule, executions)
+    }
+
+    const windowMs = (rule.windowMinutes || 60) * 60 * 1000
+    const since = new Date(now - windowMs).toISOString()
+
+    // Threshold rules are evaluated once per affected workflow, using the latest execution as trigger
+    for (const group of this.groupByWorkflow(executions).values()) {
+      const latest = group.reduce((a, b) => (this.finishedAt(a) >= this.finishedAt(b) ? a : b))
+      if (this.finishedAt(latest) < now - windowMs) continue
+
+      const stats = await this.getWindowStats(latest.provider_id, latest.provider_workflow_id, since)
+
+      if (rule.conditionType === 'failure_count') {
+        if (!group.some(e => e.status === 'error')) continue
+        if (stats.failed < (rule.threshold || 1)) continue
+
+        const event = await this.raise(rule, latest, {
+          severity: 'critical',
+          title: `${stats.failed} failures in ${rule.windowMinutes} min for "${this.workflowName(latest)}"`,
+          message: latest.error_message
+            ? `Most recent error: ${latest.error_message}`
+            : `${stats.failed} of ${stats.total} executions failed in the last ${rule.windowMinutes} minutes`,
+          metadata: { failed: stats.failed, total: stats.total, windowMinutes: rule.windowMinutes }
+        })
+        if (event) created.push(event)
+      }
+
+      if (rule.conditionType === 'success_rate') {
+        if (stats.total < (rule.minExecutions || 1)) continue
+
+        const successRate = (stats.succeeded / stats.total) * 100
+        if (successRate >= (rule.threshold || 0)) continue
+
+        const rounded = Math.round(successRate * 10) / 10
+        const event = await this.raise(rule, latest, {
+          severity: 'warning',
+          title: `Success rate ${rounded}% for "${this.workflowName(latest)}"`,
+          message: `Success rate dropped below ${rule.threshold}% over the last ${rule.windowMinutes} minutes (${stats.succeeded}/${stats.total} succeeded)`,
+          metadata: { successRate: rounded, succeeded: stats.succeeded, total: stats.total, windowMinutes: rule.windowMinutes }
+        })
+        if (event) created.push(event)
+      }
+    }
+
+    return created
+  }
+
+  /**
+   * Alert on every enabled SLO covering the executions whose error budget burns at or
+   * above the rule's threshold over both the rule's window and its short window
+   */
+  private async evaluateSloBurnRate(rule: AlertRule, executions: ExecutionRow[]): Promise<AlertEvent[]> {
+    const sloService = getSloService()
+    const slos = await sloService.listSlos(true)
+    const now = Date.now()
+    const longWindowMinutes = rule.windowMinutes || 60
+    const shortWindowMinutes = Math.max(
+      SLO_MIN_SHORT_WINDOW_MINUTES,
+      Math.round(longWindowMinutes / SLO_SHORT_WINDOW_DIVISOR)
+    )
+    const threshold = rule.threshold || 1
+    const created: AlertEvent[] = []
+
+    for (const slo of slos) {
+      const covered = executions.filter(e => this.matchesSlo(slo, e))
+      if (covered.length === 0) continue
+
+      const latest = covered.reduce((a, b) => (this.finishedAt(a) >= this.finishedAt(b) ? a : b))
+      if (this.finishedAt(latest) < now - longWindowMinutes * 60 * 1000) continue
+
+      const long = await sloService.getBurnRate(slo, longWindowMinutes)
+      if (long.totalExecutions < (rule.minExecutions || 1) || (long.burnRate ?? 0) < threshold) continue
+
+      const short = await sloService.getBurnRate(slo, shortWindowMinutes)
+      if ((short.burnRate ?? 0) < threshold) continue
+
+      const event = await this.raise(rule, latest, {
+        severity: (long.burnRate ?? 0) >= SLO_CRITICAL_BURN_RATE ? 'critical' : 'warning',
+        title: `SLO "${slo.name}" burning error budget at ${long.burnRate}x`,
+        message: `${long.badExecutions} of ${long.totalExecutions} executions missed the ${slo.target}% objective in the last ${longWindowMinutes} minutes `
+          + `(${short.burnRate}x over the last ${shortWindowMinutes} minutes, threshold ${threshold}x)`,
+        metadata: {
+          sloId: slo.id,
+          burnRate: long.burnRate,
+          shortBurnRate: short.burnRate,
+          windowMinutes: longWindowMinutes,
+          shortWindowMinutes
+        }
+      }, `${rule.id}:slo:${slo.id}`)
+      if (event) created.push(event)
+    }
+
+    return created
+  }
+
+  /**
+   * Create a new alert event, or fold it into the open one while the cooldown is active.
+   * Repeats are matched per rule and workflow unless a dedup key is given.
+   */
+  private async raise(
+    rule: AlertRule,
+    execution: ExecutionRow,
+    details: Pick<AlertEvent, 'severity' | 'title' | 'message' | 'metadata'>,
+    dedupKey = `${rule.id}:${execution.provider_id}:${execution.provider_workflow_id}`
+  ): Promise<AlertEvent | null> {
+    const alertService = getAlertService()
+    const seenAt = new Date()
+
+    if (rule.cooldownMinutes > 0) {
+      const cooldownStart = new Date(seenAt.getTime() - rule.cooldownMinutes * 60 * 1000)
+      const existing = await alertService.findRecentEvent(dedupKey, cooldownStart)
+      if (existing) {
+        await alertService.recordOccurrence(existing.id, seenAt, execution.id)
+        return null
+      }
+    }
+
+    return alertService.createEvent({
+      ruleId: rule.id,
+      providerId: execution.provider_id,
+      workflowId: execution.provider_workflow_id,
+      workflowName: this.workflowName(execution),
+      executionId: execution.id,
+      dedupKey,
+      firstSeenAt: seenAt,
+      lastSeenAt: seenAt,
+      ...details
+    })
+  }
+
+  private matchesScope(rule: AlertRule, execution: ExecutionRow): boolean {
+    switch (rule.scopeType) {
+      case 'global':
+        return true
+      case 'provider':
+        return execution.provider_id === rule.scopeValue
+      case 'workflow':
+        return execution.provider_workflow_id === rule.scopeValue
+      case 'tag':
+        return this.parseTags(execution.workflow_tags).includes(rule.scopeValue || '')
+      default:
+        return false
+    }
+  }
+
+  private matchesSlo(slo: Slo, execution: ExecutionRow): boolean {
+    return slo.scopeType === 'workflow'
+      ? execution.provider_workflow_id === slo.scopeValue
+      : this.parseTags(execution.workflow_tags).includes(slo.scopeValue)
+  }
+
+  private parseTags(raw: string | null): string[] {
+    try {
+      const tags = raw ? JSON.parse(raw) : []
+      // n8n tags may be stored as objects ({ id, name }) or plain strings
+      return Array.isArray(tags) ? tags.map((t: any) => (typeof t === 'string' ? t : t?.name)).filter(Boolean) : []
+    } catch {
+      return []
+    }
+  }
+
+  private groupByWorkflow(executions: ExecutionRow[]): Map<string, ExecutionRow[]> {
+    const groups = new Map<string, ExecutionRow[]>()
+    for (const execution of executions) {
+      const key = `${execution.provider_id}:${execution.provider_workflow_id}`
+      const group = groups.get(key) || []
+      group.push(execution)
+      groups.set(key, group)
+    }
+    return groups
+  }
+
+  private finishedAt(execution: ExecutionRow): number {
+    return new Date(execution.stopped_at || execution.started_at).getTime()
+  }
+
+  private workflowName(execution: ExecutionRow): string {
+    return execution.workflow_name || `Workflow ${execution.provider_workflow_id}`
+  }
+
+  private async loadExecutions(executionIds: string[]): Promise<ExecutionRow[]> {
+    const db = getDb()
+    const placeholders = executionIds.map(() => '?').join(',')
+
+    return new Promise((resolve, reject) => {
+      db.all(
+        `SELECT
+          e.id, e.provider_id, e.provider_workflow_id, e.provider_execution_id,
+          e.status, e.started_at, e.stopped_at,
+          w.name as workflow_name, w.tags as workflow_tags,
+          json_extract(e.execution_data, '$.resultData.error.message') as error_message,
+          json_extract(e.execution_data, '$.resultData.lastNodeExecuted') as last_node_executed
+        FROM executions e
+        LEFT JOIN workflows w ON w.id = e.workflow_id
+        WHERE e.id IN (${placeholders})`,
+        executionIds,
+        (err, rows: ExecutionRow[]) => {
+          if (err) reject(err)
+          else resolve(rows || [])
+        }
+      )
+    })
+  }
+
+  private async getWindowStats(providerId: string, providerWorkflowId: string, since: string) {
+    const db = getDb()
+
+    return new Promise<{ total: number; succeeded: number; failed: number }>((resolve, reject) => {
+      db.get(
+        `SELECT
+          COUNT(*) as total,
+          SUM(CASE WHEN status = 'success' THEN 1 ELSE 0 END) as succeeded,
+          SUM(CASE WHEN status = 'error' THEN 1 ELSE 0 END) as failed
+        FROM executions
+        WHERE provider_id = ? AND provider_workflow_id = ?
+          AND status IN ('success', 'error', 'canceled')
+          AND COALESCE(stopped_at, started_at) >= ?`,
+        [providerId, providerWorkflowId, since],
+        (err, row: any) => {
+          if (err) reject(err)
+          else resolve({
+            total: Number(row?.total) || 0,
+            succeeded: Number(row?.succeeded) || 0,
+            failed: Number(row?.failed) || 0
+          })
+        }
+      )
+    })
+  }
+}
+
+// Export singleton instance
+export const alertEngine = new AlertEngine()
@@ -0,0 +1,54 @@
+/**
+ * Percentile helpers for duration analytics.
+ * SQLite has no percentile aggregate, so durations are summarized in memory.
+ */
+
+import { LatencyPercentiles } from '@/types'
+
+export interface DurationSummary {
+  count: number
+  avg: number
+  p50: number
+  p90: number
+  p95: number
+  p99: number
+  max: number
+}
+
+/**
+ * Percentile of an ascending sorted array using linear interpolation
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  if (sorted.length === 1) return sorted[0]
+
+  const rank = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+export function summarizeDurations(values: number[]): DurationSummary {
+  const sorted = [...values].sort((a, b) => a - b)
+  const total = sorted.reduce((sum, value) => sum + value, 0)
+
+  return {
+    count: sorted.length,
+    avg: sorted.length > 0 ? Math.round(total / sorted.length) : 0,
+    p50: Math.round(percentile(sorted, 50)),
+    p90: Math.round(percentile(sorted, 90)),
+    p95: Math.round(percentile(sorted, 95)),
+    p99: Math.round(percentile(sorted, 99)),
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0
+  }
+}
+
+/**
+ * p50/p90/p95/p99 of a set of durations, or undefined when there are none
+ */
+export function latencyPercentiles(values: number[]): LatencyPercentiles | undefined {
+  if (values.length === 0) return undefined
+
+  const { p50, p90, p95, p99 } = summarizeDurations(values)
+  return { p50, p90, p95, p99 }
+}
@@ -0,0 +1,38 @@
+/**
+ * Outlier-resistant statistics for anomaly detection.
+ * The median and median absolute deviation (MAD) are not skewed by the very
+ * outliers they are used to detect, unlike the mean and standard deviation.
+ */
+
+import { percentile } from '@/lib/analytics/percentiles'
+
+// Scales the MAD to estimate the standard deviation of normally distributed data
+const MAD_NORMAL_SCALE = 1.4826
+
+export interface RobustBaseline {
+  median: number
+  mad: number
+  samples: number
+}
+
+export function median(values: number[]): number {
+  return percentile([...values].sort((a, b) => a - b), 50)
+}
+
+export function robustBaseline(values: number[]): RobustBaseline {
+  const center = median(values)
+  return {
+    median: center,
+    mad: median(values.map(value => Math.abs(value - center))),
+    samples: values.length
+  }
+}
+
+/**
+ * Modified z-score of a value against a baseline. minScale keeps perfectly regular
+ * series (MAD of 0) from turning every tiny deviation into an anomaly.
+ */
+export function robustZScore(value: number, baseline: RobustBaseline, minScale: number): number {
+  const scale = Math.max(baseline.mad * MAD_NORMAL_SCALE, minScale)
+  return (value - baseline.median) / scale
+}
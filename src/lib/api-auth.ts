@@ -115,3 +115,9 @@ export function createSessionToken(user: User): string {
   return Buffer.from(JSON.stringify(sessionData)).toString('base64')
 }
 
+/**
+ * Whether the user may change state on a provider, e.g. retry or stop executions
+ */
+export function canOperateExecutions(user: User): boolean {
+  return user.role === 'admin'
+}
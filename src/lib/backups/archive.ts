@@ -0,0 +1,192 @@
+/**
+ * Archive Writers
+ *
+ * Minimal tar.gz and zip writers for workflow backup exports. Entries are
+ * small JSON files, so archives are built in memory.
+ */
+
+import zlib from 'zlib'
+
+export interface ArchiveEntry {
+  path: string // Relative path using forward slashes
+  content: string
+  modifiedAt?: Date
+}
+
+// --- tar (ustar) ---
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value.slice(0, length), offset, length, 'utf8')
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeString(header, `${value.toString(8).padStart(length - 1, '0')}\0`, offset, length)
+}
+
+/**
+ * Split a path into ustar name (100 bytes) and prefix (155 bytes) fields at any
+ * slash where both fit. Returns null when no split fits.
+ */
+function splitTarPath(path: string): { name: string; prefix: string } | null {
+  if (Buffer.byteLength(path) <= 100) return { name: path, prefix: '' }
+
+  for (let slash = path.indexOf('/'); slash > 0; slash = path.indexOf('/', slash + 1)) {
+    const name = path.slice(slash + 1)
+    const prefix = path.slice(0, slash)
+    if (Buffer.byteLength(name) <= 100 && Buffer.byteLength(prefix) <= 155) {
+      return { name, prefix }
+    }
+  }
+  return null
+}
+
+/**
+ * PAX extended header record: "<length> <key>=<value>\n", where length counts itself
+ */
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`
+  let length = Buffer.byteLength(body)
+  while (Buffer.byteLength(`${length}${body}`) !== length) {
+    length = Buffer.byteLength(`${length}${body}`)
+  }
+  return `${length}${body}`
+}
+
+function tarHeader(name: string, prefix: string, size: number, modifiedAt: Date, type = '0'): Buffer {
+  const header = Buffer.alloc(512)
+
+  writeString(header, name, 0, 100)
+  writeOctal(header, 0o644, 100, 8) // mode
+  writeOctal(header, 0, 108, 8) // uid
+  writeOctal(header, 0, 116, 8) // gid
+  writeOctal(header, size, 124, 12)
+  writeOctal(header, Math.floor(modifiedAt.getTime() / 1000), 136, 12)
+  header.fill(' ', 148, 156) // Checksum is computed with this field blank
+  writeString(header, type, 156, 1) // '0' regular file, 'x' PAX extended header
+  writeString(header, 'ustar\0', 257, 6)
+  writeString(header, '00', 263, 2)
+  writeString(header, prefix, 345, 155)
+
+  let checksum = 0
+  for (const byte of header) checksum += byte
+  writeString(header, `${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8)
+
+  return header
+}
+
+function pushTarData(chunks: Buffer[], data: Buffer) {
+  chunks.push(data)
+  const padding = (512 - (data.length % 512)) % 512
+  if (padding > 0) chunks.push(Buffer.alloc(padding))
+}
+
+export function createTarGz(entries: ArchiveEntry[]): Buffer {
+  const chunks: Buffer[] = []
+
+  for (const entry of entries) {
+    const data = Buffer.from(entry.content, 'utf8')
+    const modifiedAt = entry.modifiedAt || new Date()
+    let fields = splitTarPath(entry.path)
+
+    // Paths that fit no ustar split carry the full path in a PAX header before the entry
+    if (!fields) {
+      const pax = Buffer.from(paxRecord('path', entry.path), 'utf8')
+      chunks.push(tarHeader('PaxHeader', '', pax.length, modifiedAt, 'x'))
+      pushTarData(chunks, pax)
+      fields = { name: Buffer.from(entry.path, 'utf8').subarray(-100).toString('utf8'), prefix: '' }
+    }
+
+    chunks.push(tarHeader(fields.name, fields.prefix, data.length, modifiedAt))
+    pushTarData(chunks, data)
+  }
+
+  // Two empty blocks mark the end of the archive
+  chunks.push(Buffer.alloc(1024))
+
+  return zlib.gzipSync(Buffer.concat(chunks))
+}
+
+// --- zip ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+export function createZip(entries: ArchiveEntry[]): Buffer {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, 'utf8')
+    const data = Buffer.from(entry.content, 'utf8')
+    const compressed = zlib.deflateRawSync(data)
+    const crc = crc32(data)
+    const { time, date } = dosDateTime(entry.modifiedAt || new Date())
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4) // Version needed
+    local.writeUInt16LE(0x0800, 6) // UTF-8 file names
+    local.writeUInt16LE(8, 8) // Deflate
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4) // Version made by
+    central.writeUInt16LE(20, 6) // Version needed
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42) // Local header offset
+
+    localParts.push(local, name, compressed)
+    centralParts.push(central, name)
+    offset += local.length + name.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
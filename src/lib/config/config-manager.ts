@@ -50,6 +50,93 @@ export interface ConfigUpdateOptions {
   userAgent?: string;
 }
 
+/**
+ * Keys introduced after the seed migration shipped. The seed only runs on new
+ * installs, so these are added on startup when missing and never overwritten.
+ */
+const ADDED_CONFIG_KEYS: Array<Pick<ConfigItem, 'key' | 'value' | 'value_type' | 'category' | 'description' | 'validation_rules'>> = [
+  {
+    key: 'retention.success_summary_days',
+    value: '0',
+    value_type: 'number',
+    category: 'database',
+    description: 'Days to keep successful executions (0 keeps forever)',
+    validation_rules: '{"type": "number", "minimum": 0}'
+  },
+  {
+    key: 'retention.success_payload_days',
+    value: '0',
+    value_type: 'number',
+    category: 'database',
+    description: 'Days to keep full execution data of successful executions (0 keeps forever)',
+    validation_rules: '{"type": "number", "minimum": 0}'
+  },
+  {
+    key: 'retention.error_summary_days',
+    value: '0',
+    value_type: 'number',
+    category: 'database',
+    description: 'Days to keep failed executions (0 keeps forever)',
+    validation_rules: '{"type": "number", "minimum": 0}'
+  },
+  {
+    key: 'retention.error_payload_days',
+    value: '0',
+    value_type: 'number',
+    category: 'database',
+    description: 'Days to keep full execution data of failed executions (0 keeps forever)',
+    validation_rules: '{"type": "number", "minimum": 0}'
+  },
+  {
+    key: 'retention.vacuum_enabled',
+    value: 'true',
+    value_type: 'boolean',
+    category: 'database',
+    description: 'Run VACUUM after pruning to reclaim disk space',
+    validation_rules: '{"type": "boolean"}'
+  },
+  {
+    key: 'backup.git_repository_path',
+    value: '',
+    value_type: 'string',
+    category: 'database',
+    description: 'Local git repository that receives the daily workflow backup export (empty disables it)',
+    validation_rules: '{"type": "string"}'
+  },
+  {
+    key: 'backup.include_versions',
+    value: 'false',
+    value_type: 'boolean',
+    category: 'database',
+    description: 'Include every stored workflow version in git backup exports',
+    validation_rules: '{"type": "boolean"}'
+  },
+  {
+    key: 'notifications.email.recipients',
+    value: '',
+    value_type: 'string',
+    category: 'notifications',
+    description: 'Comma-separated notification recipients (defaults to the admin email)',
+    validation_rules: '{"type": "string"}'
+  },
+  {
+    key: 'notifications.email.digest_enabled',
+    value: 'true',
+    value_type: 'boolean',
+    category: 'notifications',
+    description: 'Send a daily execution digest',
+    validation_rules: '{"type": "boolean"}'
+  },
+  {
+    key: 'notifications.email.digest_hour',
+    value: '8',
+    value_type: 'number',
+    category: 'notifications',
+    description: 'Hour of day (app timezone) to send the daily digest',
+    validation_rules: '{"type": "number", "minimum": 0, "maximum": 23}'
+  }
+];
+
 /**
  * Secure configuration management system for Elova
  * Handles reading, writing, validation, and encryption of configuration values
@@ -129,6 +216,9 @@ export class ConfigManager {
       // Always ensure the config_view exists (critical for operation)
       await this.ensureConfigView();
 
+      // Existing installs never re-run the seed, so add keys introduced since
+      await this.ensureAddedKeys();
+
       // Drop legacy timestamp trigger if present (we set updated_at explicitly)
       await this.executeSql('DROP TRIGGER IF EXISTS tr_app_config_updated_at;');
 
@@ -720,6 +810,26 @@ export class ConfigManager {
     });
   }
 
+  /**
+   * Insert keys from ADDED_CONFIG_KEYS that are missing, keeping existing values
+   */
+  private async ensureAddedKeys(): Promise<void> {
+    for (const item of ADDED_CONFIG_KEYS) {
+      await new Promise<void>((resolve, reject) => {
+        this.db!.run(
+          `INSERT OR IGNORE INTO app_config
+          (key, value, value_type, category, description, is_sensitive, is_readonly, validation_rules, updated_by)
+          VALUES (?, ?, ?, ?, ?, 0, 0, ?, 'system')`,
+          [item.key, item.value, item.value_type, item.category, item.description, item.validation_rules],
+          (err) => {
+            if (err) reject(err);
+            else resolve();
+          }
+        );
+      });
+    }
+  }
+
   /**
    * Ensure the config_view exists - critical for all config operations
    */
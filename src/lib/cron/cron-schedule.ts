@@ -0,0 +1,275 @@
+/**
+ * Fire time calculation for the schedules stored in workflows.cron_schedules.
+ * Understands 5 and 6 field cron expressions (with optional seconds), the common
+ * @macros, and the interval strings written by WorkflowSyncService for Schedule
+ * Trigger nodes ("Every 15 minutes", "Daily @ 6:0"). Schedules are evaluated on the
+ * wall clock of a timezone (see lib/timezone), like n8n does.
+ */
+
+import { fromWallTime, toWallTime } from '@/lib/timezone'
+
+const SECOND_MS = 1000
+const MINUTE_MS = 60 * SECOND_MS
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+const WEEK_MS = 7 * DAY_MS
+
+// Give up looking for a matching time after this long (e.g. "0 0 30 2 *")
+const MAX_SEARCH_MS = 5 * 366 * DAY_MS
+
+// Wall times skipped or repeated by daylight saving changes are stepped over,
+// at most an hour of every-second fire times
+const MAX_DST_STEPS = 3600
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+}
+
+export interface CronSchedule {
+  expression: string
+  timeZone: string
+  // First fire time strictly after `after` (epoch ms), null if there is none
+  next: (after: number) => number | null
+}
+
+// Same as CronSchedule.next, on wall times
+type WallNext = (after: number) => number | null
+
+interface CronField {
+  values: Set<number>
+  restricted: boolean
+}
+
+interface CronFields {
+  second: CronField
+  minute: CronField
+  hour: CronField
+  dayOfMonth: CronField
+  month: CronField
+  dayOfWeek: CronField
+}
+
+/**
+ * Parse a stored schedule. Schedule Trigger intervals only keep their period, so the
+ * second, minute, hour and day they fire at is taken from `runs` (recent start times,
+ * newest last): the most common offset wins, so a single late run does not shift it.
+ * n8n counts intervals from the start of the enclosing minute, hour, day or year.
+ * Returns null for schedules that cannot be evaluated.
+ */
+export function parseSchedule(expression: string, runs: number[] = [], timeZone = 'UTC'): CronSchedule | null {
+  const wallNext = parseWallSchedule(expression, runs.map(run => toWallTime(run, timeZone)))
+  if (!wallNext) return null
+
+  return {
+    expression,
+    timeZone,
+    next: after => {
+      let wall = toWallTime(after, timeZone)
+      for (let step = 0; step < MAX_DST_STEPS; step++) {
+        const candidate = wallNext(wall)
+        if (candidate === null) return null
+
+        // Skipped wall times do not fire, repeated ones only the first time
+        const time = fromWallTime(candidate, timeZone)
+        if (time !== null && time > after) return time
+        wall = candidate
+      }
+      return null
+    }
+  }
+}
+
+function parseWallSchedule(expression: string, runs: number[]): WallNext | null {
+  const trimmed = expression.trim()
+
+  const interval = trimmed.match(/^Every (\d+) (seconds|minutes|hours|days|weeks|months)$/i)
+  if (interval) {
+    const every = parseInt(interval[1])
+    if (every < 1) return null
+
+    const unit = interval[2].toLowerCase()
+    if (unit === 'weeks') {
+      return periodSchedule(every * WEEK_MS, commonOffset(runs, every * WEEK_MS))
+    }
+
+    const unitMs = unit === 'minutes' ? MINUTE_MS : unit === 'hours' ? HOUR_MS : DAY_MS
+    const offset = new Date(commonOffset(runs, unitMs))
+    const second = offset.getUTCSeconds()
+    const minute = offset.getUTCMinutes()
+    const hour = offset.getUTCHours()
+
+    switch (unit) {
+      case 'seconds':
+        return cronSchedule(`*/${every} * * * * *`)
+      case 'minutes':
+        return cronSchedule(`${second} */${every} * * * *`)
+      case 'hours':
+        return cronSchedule(`${second} ${minute} */${every} * * *`)
+      case 'days':
+        return cronSchedule(`${second} ${minute} ${hour} */${every} * *`)
+      case 'months': {
+        const dayOfMonth = runs.length > 0 ? new Date(runs[runs.length - 1]).getUTCDate() : 1
+        return cronSchedule(`${second} ${minute} ${hour} ${dayOfMonth} */${every} *`)
+      }
+    }
+  }
+
+  // Older Schedule Trigger rules, stored as "<days> @ <hours>:<minutes>"
+  const rule = trimmed.match(/^(.+) @ ([^:]+):(.+)$/)
+  if (rule) {
+    const days = rule[1].trim() === 'Daily' ? '*' : rule[1]
+    return cronSchedule([0, rule[3], rule[2], '*', '*', days].map(part => String(part).replace(/\s+/g, '')).join(' '))
+  }
+
+  return cronSchedule(MACROS[trimmed.toLowerCase()] || trimmed)
+}
+
+/**
+ * Fire times in [from, to], at most `limit` of them
+ */
+export function fireTimesBetween(schedule: CronSchedule, from: number, to: number, limit = 5000): number[] {
+  const times: number[] = []
+  let time = schedule.next(from - 1)
+
+  while (time !== null && time <= to && times.length < limit) {
+    times.push(time)
+    time = schedule.next(time)
+  }
+
+  return times
+}
+
+// Most common position of the runs within a period of `periodMs`, to the second
+function commonOffset(runs: number[], periodMs: number): number {
+  const counts = new Map<number, number>()
+  let best = 0
+  let bestCount = 0
+
+  for (const run of runs) {
+    const offset = Math.round((((run % periodMs) + periodMs) % periodMs) / SECOND_MS) * SECOND_MS
+    const count = (counts.get(offset) || 0) + 1
+    counts.set(offset, count)
+    // Ties go to the newest run
+    if (count >= bestCount) {
+      best = offset
+      bestCount = count
+    }
+  }
+
+  return best
+}
+
+function cronSchedule(cron: string): WallNext | null {
+  const fields = parseCronFields(cron)
+  if (!fields) return null
+
+  return after => nextCronTime(fields, after)
+}
+
+function periodSchedule(periodMs: number, anchor: number): WallNext {
+  return after => anchor + (Math.floor((after - anchor) / periodMs) + 1) * periodMs
+}
+
+function parseCronFields(cron: string): CronFields | null {
+  const parts = cron.split(/\s+/)
+  if (parts.length === 5) parts.unshift('0')
+  if (parts.length !== 6) return null
+
+  const second = parseField(parts[0], 0, 59)
+  const minute = parseField(parts[1], 0, 59)
+  const hour = parseField(parts[2], 0, 23)
+  const dayOfMonth = parseField(parts[3], 1, 31)
+  const month = parseField(parts[4], 1, 12, MONTH_NAMES, 1)
+  const dayOfWeek = parseField(parts[5], 0, 7, DAY_NAMES, 0)
+  if (!second || !minute || !hour || !dayOfMonth || !month || !dayOfWeek) return null
+
+  // 7 is an alias for Sunday
+  if (dayOfWeek.values.delete(7)) dayOfWeek.values.add(0)
+
+  return { second, minute, hour, dayOfMonth, month, dayOfWeek }
+}
+
+/**
+ * Parse one field: lists, ranges, steps, names and * or ?.
+ * Special characters such as L, W and # are not supported.
+ */
+function parseField(source: string, min: number, max: number, names?: string[], nameOffset = 0): CronField | null {
+  const parseValue = (value: string): number => {
+    const nameIndex = names ? names.indexOf(value.slice(0, 3).toUpperCase()) : -1
+    if (nameIndex >= 0) return nameIndex + nameOffset
+    return /^\d+$/.test(value) ? parseInt(value) : NaN
+  }
+
+  const values = new Set<number>()
+  for (const part of source.split(',')) {
+    const [range, stepSource, ...rest] = part.split('/')
+    const step = stepSource === undefined ? 1 : Number(stepSource)
+    if (rest.length > 0 || !Number.isInteger(step) || step < 1) return null
+
+    let start = min
+    let end = max
+    if (range !== '*' && range !== '?') {
+      const [from, to] = range.split('-')
+      start = parseValue(from)
+      // "5/15" runs from 5 to the end of the range
+      end = to !== undefined ? parseValue(to) : stepSource !== undefined ? max : start
+    }
+    if (Number.isNaN(start) || Number.isNaN(end) || start < min || end > max || start > end) return null
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  // Like cron, a day field starting with * does not restrict the day
+  return { values, restricted: !source.startsWith('*') && source !== '?' }
+}
+
+function nextCronTime(fields: CronFields, after: number): number | null {
+  let date = new Date(Math.floor(after / SECOND_MS) * SECOND_MS + SECOND_MS)
+  const limit = after + MAX_SEARCH_MS
+
+  // Skip whole months, days, hours and minutes that cannot match
+  while (date.getTime() <= limit) {
+    const year = date.getUTCFullYear()
+    const month = date.getUTCMonth()
+    const day = date.getUTCDate()
+    const hour = date.getUTCHours()
+
+    if (!fields.month.values.has(month + 1)) {
+      date = new Date(Date.UTC(year, month + 1, 1))
+    } else if (!dayMatches(fields, date)) {
+      date = new Date(Date.UTC(year, month, day + 1))
+    } else if (!fields.hour.values.has(hour)) {
+      date = new Date(Date.UTC(year, month, day, hour + 1))
+    } else if (!fields.minute.values.has(date.getUTCMinutes())) {
+      date = new Date(Date.UTC(year, month, day, hour, date.getUTCMinutes() + 1))
+    } else if (!fields.second.values.has(date.getUTCSeconds())) {
+      date = new Date(date.getTime() + SECOND_MS)
+    } else {
+      return date.getTime()
+    }
+  }
+
+  return null
+}
+
+// When both day fields are restricted, matching either one is enough
+function dayMatches(fields: CronFields, date: Date): boolean {
+  const dayOfMonth = fields.dayOfMonth.values.has(date.getUTCDate())
+  const dayOfWeek = fields.dayOfWeek.values.has(date.getUTCDay())
+
+  if (fields.dayOfMonth.restricted && fields.dayOfWeek.restricted) return dayOfMonth || dayOfWeek
+  if (fields.dayOfMonth.restricted) return dayOfMonth
+  if (fields.dayOfWeek.restricted) return dayOfWeek
+  return true
+}
@@ -16,7 +16,21 @@ function migrateAIMetrics(database: Database) {
       'ALTER TABLE executions ADD COLUMN ai_cost REAL DEFAULT 0.0',
       'ALTER TABLE executions ADD COLUMN ai_provider TEXT DEFAULT NULL',
       'ALTER TABLE executions ADD COLUMN ai_model TEXT DEFAULT NULL',
-      'ALTER TABLE workflows ADD COLUMN workflow_json TEXT'
+      'ALTER TABLE workflows ADD COLUMN workflow_json TEXT',
+      'ALTER TABLE alert_rules ADD COLUMN notify_email BOOLEAN DEFAULT 1',
+      "ALTER TABLE alert_rules ADD COLUMN channel_ids TEXT DEFAULT '[]'",
+      'ALTER TABLE notification_deliveries ADD COLUMN channel_id TEXT',
+      'ALTER TABLE notification_deliveries ADD COLUMN payload TEXT',
+      'ALTER TABLE sync_logs ADD COLUMN newest_seen_id TEXT',
+      'ALTER TABLE sync_logs ADD COLUMN backfill_cursor TEXT',
+      'ALTER TABLE sync_logs ADD COLUMN backfill_complete BOOLEAN DEFAULT 0',
+      'ALTER TABLE executions ADD COLUMN node_timings_extracted BOOLEAN DEFAULT 0',
+      'CREATE INDEX IF NOT EXISTS idx_executions_node_timings_pending ON executions (id) WHERE node_timings_extracted = 0',
+      'ALTER TABLE executions ADD COLUMN error_classified BOOLEAN DEFAULT 0',
+      "CREATE INDEX IF NOT EXISTS idx_executions_error_classification_pending ON executions (id) WHERE status = 'error' AND error_classified = 0",
+      'ALTER TABLE executions ADD COLUMN retry_root_id TEXT',
+      'CREATE INDEX IF NOT EXISTS idx_executions_retry_root ON executions (retry_root_id) WHERE retry_root_id IS NOT NULL',
+      'CREATE INDEX IF NOT EXISTS idx_executions_retry_unlinked ON executions (id) WHERE retry_of IS NOT NULL AND retry_root_id IS NULL'
     ]
 
     migrations.forEach(sql => {
@@ -109,10 +123,322 @@ function ensureSchema(database: Database) {
         error_message TEXT,
         metadata TEXT DEFAULT '{}',
         last_cursor TEXT,
+        newest_seen_id TEXT,
+        backfill_cursor TEXT,
+        backfill_complete BOOLEAN DEFAULT 0,
         created_at TEXT DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (provider_id) REFERENCES providers (id) ON DELETE CASCADE
       )
     `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS endpoint_checks (
+        id TEXT PRIMARY KEY,
+        provider_id TEXT,
+        name TEXT NOT NULL,
+        url TEXT NOT NULL,
+        method TEXT NOT NULL DEFAULT 'GET',
+        expected_status INTEGER,
+        timeout_ms INTEGER NOT NULL DEFAULT 10000,
+        interval_minutes INTEGER NOT NULL DEFAULT 5,
+        is_enabled BOOLEAN DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (provider_id) REFERENCES providers (id) ON DELETE CASCADE
+      )
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS endpoint_results (
+        id TEXT PRIMARY KEY,
+        endpoint_check_id TEXT NOT NULL,
+        checked_at TEXT NOT NULL,
+        success BOOLEAN NOT NULL,
+        response_time INTEGER,
+        status_code INTEGER,
+        error TEXT,
+        response_headers TEXT,
+        response_body TEXT,
+        FOREIGN KEY (endpoint_check_id) REFERENCES endpoint_checks (id) ON DELETE CASCADE
+      )
+    `)
+
+    database.run(`
+      CREATE INDEX IF NOT EXISTS idx_endpoint_results_check_time
+      ON endpoint_results (endpoint_check_id, checked_at)
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS alert_rules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        scope_type TEXT NOT NULL DEFAULT 'global',
+        scope_value TEXT,
+        condition_type TEXT NOT NULL,
+        threshold REAL,
+        window_minutes INTEGER,
+        min_executions INTEGER,
+        cooldown_minutes INTEGER NOT NULL DEFAULT 60,
+        notify_email BOOLEAN DEFAULT 1,
+        channel_ids TEXT DEFAULT '[]',
+        is_enabled BOOLEAN DEFAULT 1,
+        last_triggered_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS alert_events (
+        id TEXT PRIMARY KEY,
+        rule_id TEXT NOT NULL,
+        provider_id TEXT,
+        workflow_id TEXT,
+        workflow_name TEXT,
+        execution_id TEXT,
+        dedup_key TEXT NOT NULL,
+        severity TEXT NOT NULL DEFAULT 'critical',
+        title TEXT NOT NULL,
+        message TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        occurrences INTEGER NOT NULL DEFAULT 1,
+        first_seen_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        metadata TEXT DEFAULT '{}',
+        FOREIGN KEY (rule_id) REFERENCES alert_rules (id) ON DELETE CASCADE
+      )
+    `)
+
+    database.run(`
+      CREATE INDEX IF NOT EXISTS idx_alert_events_dedup
+      ON alert_events (dedup_key, last_seen_at)
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS notification_deliveries (
+        id TEXT PRIMARY KEY,
+        channel TEXT NOT NULL DEFAULT 'email',
+        channel_id TEXT,
+        kind TEXT NOT NULL,
+        reference_id TEXT,
+        recipients TEXT NOT NULL DEFAULT '[]',
+        subject TEXT NOT NULL,
+        html_body TEXT,
+        text_body TEXT,
+        payload TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        sent_at TEXT
+      )
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS notification_channels (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        url TEXT NOT NULL,
+        is_enabled BOOLEAN DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS workflow_versions (
+        id TEXT PRIMARY KEY,
+        workflow_id TEXT NOT NULL,
+        provider_id TEXT,
+        provider_workflow_id TEXT,
+        version_number INTEGER NOT NULL,
+        name TEXT,
+        node_hash TEXT NOT NULL,
+        node_count INTEGER DEFAULT 0,
+        workflow_updated_at TEXT,
+        workflow_data TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (workflow_id, version_number),
+        FOREIGN KEY (workflow_id) REFERENCES workflows (id) ON DELETE CASCADE
+      )
+    `)
+
+    database.run(`
+      CREATE INDEX IF NOT EXISTS idx_workflow_versions_provider_workflow
+      ON workflow_versions (provider_workflow_id, version_number)
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS workflow_restores (
+        id TEXT PRIMARY KEY,
+        workflow_id TEXT NOT NULL,
+        provider_id TEXT,
+        provider_workflow_id TEXT,
+        version_id TEXT,
+        version_number INTEGER,
+        restored_by TEXT NOT NULL,
+        status TEXT NOT NULL,
+        error TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    database.run(`
+      CREATE INDEX IF NOT EXISTS idx_workflow_restores_provider_workflow
+      ON workflow_restores (provider_workflow_id, created_at)
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS workflow_input_presets (
+        id TEXT PRIMARY KEY,
+        provider_id TEXT NOT NULL,
+        provider_workflow_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        payload TEXT NOT NULL DEFAULT '{}',
+        created_by TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (provider_id, provider_workflow_id, name)
+      )
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS execution_actions (
+        id TEXT PRIMARY KEY,
+        execution_id TEXT NOT NULL,
+        provider_id TEXT,
+        provider_execution_id TEXT,
+        action TEXT NOT NULL,
+        requested_by TEXT NOT NULL,
+        status TEXT NOT NULL,
+        error TEXT,
+        retry_execution_id TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    database.run(`
+      CREATE INDEX IF NOT EXISTS idx_execution_actions_execution
+      ON execution_actions (execution_id, created_at)
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS execution_node_timings (
+        execution_id TEXT NOT NULL,
+        workflow_id TEXT NOT NULL,
+        node_name TEXT NOT NULL,
+        node_type TEXT,
+        run_index INTEGER NOT NULL DEFAULT 0,
+        started_at TEXT NOT NULL,
+        execution_time_ms INTEGER NOT NULL,
+        status TEXT,
+        PRIMARY KEY (execution_id, node_name, run_index),
+        FOREIGN KEY (execution_id) REFERENCES executions (id) ON DELETE CASCADE
+      )
+    `)
+
+    database.run(`
+      CREATE INDEX IF NOT EXISTS idx_execution_node_timings_workflow
+      ON execution_node_timings (workflow_id, started_at)
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS workflow_retention_policies (
+        workflow_id TEXT PRIMARY KEY,
+        success_summary_days INTEGER,
+        success_payload_days INTEGER,
+        error_summary_days INTEGER,
+        error_payload_days INTEGER,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (workflow_id) REFERENCES workflows (id) ON DELETE CASCADE
+      )
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS slos (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        scope_type TEXT NOT NULL,
+        scope_value TEXT NOT NULL,
+        objective_type TEXT NOT NULL,
+        target REAL NOT NULL,
+        latency_threshold_ms INTEGER,
+        window_days INTEGER NOT NULL DEFAULT 30,
+        is_enabled BOOLEAN DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS anomaly_events (
+        id TEXT PRIMARY KEY,
+        workflow_id TEXT NOT NULL,
+        metric TEXT NOT NULL,
+        direction TEXT NOT NULL,
+        bucket_start TEXT NOT NULL,
+        observed REAL NOT NULL,
+        expected REAL NOT NULL,
+        mad REAL NOT NULL,
+        score REAL NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (workflow_id) REFERENCES workflows (id) ON DELETE CASCADE,
+        UNIQUE(workflow_id, metric, bucket_start)
+      )
+    `)
+
+    database.run(`
+      CREATE INDEX IF NOT EXISTS idx_anomaly_events_bucket
+      ON anomaly_events (bucket_start)
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS error_issues (
+        id TEXT PRIMARY KEY,
+        provider_id TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        node_name TEXT,
+        node_type TEXT,
+        error_name TEXT,
+        title TEXT NOT NULL,
+        last_message TEXT NOT NULL,
+        http_status INTEGER,
+        status TEXT NOT NULL DEFAULT 'unresolved',
+        first_seen_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        resolved_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (provider_id) REFERENCES providers (id) ON DELETE CASCADE,
+        UNIQUE(provider_id, fingerprint)
+      )
+    `)
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS execution_errors (
+        execution_id TEXT PRIMARY KEY,
+        issue_id TEXT NOT NULL,
+        workflow_id TEXT NOT NULL,
+        node_name TEXT,
+        message TEXT NOT NULL,
+        http_status INTEGER,
+        occurred_at TEXT NOT NULL,
+        FOREIGN KEY (execution_id) REFERENCES executions (id) ON DELETE CASCADE,
+        FOREIGN KEY (issue_id) REFERENCES error_issues (id) ON DELETE CASCADE
+      )
+    `)
+
+    database.run(`
+      CREATE INDEX IF NOT EXISTS idx_execution_errors_issue
+      ON execution_errors (issue_id, occurred_at)
+    `)
+
+    database.run(`
+      CREATE INDEX IF NOT EXISTS idx_notification_deliveries_status
+      ON notification_deliveries (status, next_attempt_at)
+    `)
   })
 }
 
@@ -0,0 +1,144 @@
+/**
+ * Endpoint Checker
+ *
+ * Runs enabled endpoint checks in the background. Each check is executed once its
+ * own interval has elapsed since the last stored result.
+ */
+
+import { EndpointCheck, EndpointResult } from '@/types'
+import { getMonitorService } from '@/lib/services/monitor-service'
+
+// How often we look for checks that are due
+const TICK_INTERVAL_MS = 30 * 1000
+
+// Stored response bodies are truncated to this many characters
+const MAX_BODY_LENGTH = 2000
+
+export class EndpointChecker {
+  private interval: NodeJS.Timeout | null = null
+  private isTicking = false
+  private runningChecks: Set<string> = new Set()
+
+  /**
+   * Start the background checker. A no-op while it is running, so request
+   * handlers can call it to make sure checks keep flowing.
+   */
+  start() {
+    if (this.interval) return
+
+    console.log('📡 Starting endpoint checker...')
+    this.tick()
+    this.interval = setInterval(() => this.tick(), TICK_INTERVAL_MS)
+  }
+
+  /**
+   * Stop the background checker
+   */
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval)
+      this.interval = null
+      console.log('🛑 Endpoint checker stopped')
+    }
+  }
+
+  getStatus() {
+    return {
+      running: !!this.interval,
+      checksInProgress: Array.from(this.runningChecks)
+    }
+  }
+
+  /**
+   * Execute a single check immediately and store its result
+   */
+  async runCheck(check: EndpointCheck): Promise<EndpointResult> {
+    this.runningChecks.add(check.id)
+
+    try {
+      const result = await this.performRequest(check)
+      return await getMonitorService().recordResult(result)
+    } finally {
+      this.runningChecks.delete(check.id)
+    }
+  }
+
+  private async tick() {
+    if (this.isTicking) return
+    this.isTicking = true
+
+    try {
+      const dueChecks = await getMonitorService().getDueChecks()
+      const toRun = dueChecks.filter(check => !this.runningChecks.has(check.id))
+
+      await Promise.allSettled(toRun.map(check => this.runCheck(check)))
+    } catch (error) {
+      console.error('❌ Endpoint checker tick failed:', error)
+    } finally {
+      this.isTicking = false
+    }
+  }
+
+  private async performRequest(check: EndpointCheck): Promise<Omit<EndpointResult, 'id'>> {
+    const timestamp = new Date()
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), check.timeout)
+    const startTime = Date.now()
+
+    try {
+      const response = await fetch(check.url, {
+        method: check.method,
+        signal: controller.signal,
+        redirect: 'follow',
+        cache: 'no-store'
+      })
+      const responseTime = Date.now() - startTime
+
+      const responseHeaders: Record<string, string> = {}
+      response.headers.forEach((value, key) => {
+        responseHeaders[key] = value
+      })
+
+      let responseBody: string | undefined
+      if (check.method !== 'HEAD') {
+        try {
+          responseBody = (await response.text()).slice(0, MAX_BODY_LENGTH)
+        } catch {}
+      }
+
+      const success = check.expectedStatus
+        ? response.status === check.expectedStatus
+        : response.ok
+
+      return {
+        endpointCheckId: check.id,
+        timestamp,
+        success,
+        responseTime,
+        statusCode: response.status,
+        error: success
+          ? undefined
+          : `Unexpected status ${response.status}${check.expectedStatus ? ` (expected ${check.expectedStatus})` : ''}`,
+        responseHeaders,
+        responseBody
+      }
+    } catch (error) {
+      const isTimeout = error instanceof Error && error.name === 'AbortError'
+
+      return {
+        endpointCheckId: check.id,
+        timestamp,
+        success: false,
+        responseTime: isTimeout ? undefined : Date.now() - startTime,
+        error: isTimeout
+          ? `Timed out after ${check.timeout}ms`
+          : error instanceof Error ? error.message : 'Request failed'
+      }
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+}
+
+// Export singleton instance
+export const endpointChecker = new EndpointChecker()
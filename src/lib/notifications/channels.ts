@@ -0,0 +1,192 @@
+/**
+ * Chat & Webhook Channels
+ *
+ * Formats notifications for Slack incoming webhooks, Microsoft Teams connectors
+ * and generic HTTP webhooks. Generic webhooks are signed with an HMAC-SHA256 of
+ * "<timestamp>.<body>" using integrations.webhook.secret.
+ */
+
+import crypto from 'crypto'
+import { getConfigManager } from '@/lib/config/config-manager'
+import { AlertEvent, NotificationChannelType, NotificationKind } from '@/types'
+import { TransportError } from './transports'
+import { ProviderDownData } from './templates'
+
+export interface ChannelMessage {
+  kind: NotificationKind
+  title: string
+  text: string
+  severity: 'info' | 'warning' | 'critical'
+  url?: string
+  fields: [string, string][]
+  data?: Record<string, unknown>
+}
+
+export const SIGNATURE_HEADER = 'X-Elova-Signature'
+export const TIMESTAMP_HEADER = 'X-Elova-Timestamp'
+
+const SEVERITY_COLORS = {
+  info: '#0ea5e9',
+  warning: '#f59e0b',
+  critical: '#ef4444'
+}
+
+export function alertToChannelMessage(event: AlertEvent, appUrl?: string): ChannelMessage {
+  return {
+    kind: 'execution_failure',
+    title: event.title,
+    text: event.message,
+    severity: event.severity,
+    url: appUrl && event.workflowId ? `${appUrl}/workflows/${event.workflowId}` : undefined,
+    fields: [
+      ['Workflow', event.workflowName || event.workflowId || 'Unknown'],
+      ['Rule', event.ruleName || event.ruleId],
+      ['Severity', event.severity]
+    ],
+    data: {
+      alertId: event.id,
+      ruleId: event.ruleId,
+      providerId: event.providerId,
+      workflowId: event.workflowId,
+      executionId: event.executionId,
+      firstSeenAt: event.firstSeenAt.toISOString(),
+      metadata: event.metadata
+    }
+  }
+}
+
+export function providerDownToChannelMessage(providerId: string, data: ProviderDownData, appUrl?: string): ChannelMessage {
+  return {
+    kind: 'provider_down',
+    title: `n8n instance "${data.providerName}" is unreachable`,
+    text: data.error,
+    severity: 'critical',
+    url: appUrl ? `${appUrl}/providers` : undefined,
+    fields: [
+      ['Instance', data.providerName],
+      ['URL', data.baseUrl]
+    ],
+    data: {
+      providerId,
+      baseUrl: data.baseUrl,
+      detectedAt: data.detectedAt.toISOString()
+    }
+  }
+}
+
+export function testChannelMessage(): ChannelMessage {
+  return {
+    kind: 'test',
+    title: 'Elova notification test',
+    text: '✅ This channel is connected and will receive Elova alerts.',
+    severity: 'info',
+    fields: []
+  }
+}
+
+/**
+ * Build the request body for a channel type
+ */
+export function buildChannelPayload(type: NotificationChannelType, message: ChannelMessage): Record<string, unknown> {
+  switch (type) {
+    case 'slack':
+      return {
+        text: `${message.title}: ${message.text}`,
+        attachments: [
+          {
+            color: SEVERITY_COLORS[message.severity],
+            blocks: [
+              {
+                type: 'section',
+                text: { type: 'mrkdwn', text: `*${message.title}*\n${message.text}` }
+              },
+              ...(message.fields.length > 0
+                ? [{
+                    type: 'section',
+                    fields: message.fields.map(([label, value]) => ({ type: 'mrkdwn', text: `*${label}*\n${value}` }))
+                  }]
+                : []),
+              ...(message.url
+                ? [{
+                    type: 'actions',
+                    elements: [{ type: 'button', text: { type: 'plain_text', text: 'Open in Elova' }, url: message.url }]
+                  }]
+                : [])
+            ]
+          }
+        ]
+      }
+
+    case 'teams':
+      return {
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        themeColor: SEVERITY_COLORS[message.severity].replace('#', ''),
+        summary: message.title,
+        title: message.title,
+        text: message.text,
+        sections: message.fields.length > 0
+          ? [{ facts: message.fields.map(([name, value]) => ({ name, value })) }]
+          : [],
+        potentialAction: message.url
+          ? [{ '@type': 'OpenUri', name: 'Open in Elova', targets: [{ os: 'default', uri: message.url }] }]
+          : []
+      }
+
+    case 'webhook':
+      return {
+        event: message.kind,
+        severity: message.severity,
+        title: message.title,
+        message: message.text,
+        url: message.url,
+        data: message.data || {},
+        timestamp: new Date().toISOString()
+      }
+  }
+}
+
+/**
+ * POST a prepared payload to a channel URL
+ */
+export async function postToChannel(type: NotificationChannelType, url: string, body: string): Promise<void> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'Elova-Notifications'
+  }
+
+  if (type === 'webhook') {
+    const config = getConfigManager()
+    await config.initialize()
+    const secret = await config.get('integrations.webhook.secret')
+    if (!secret) {
+      throw new TransportError('Webhook secret is not configured (integrations.webhook.secret)', false)
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000).toString()
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+    headers[TIMESTAMP_HEADER] = timestamp
+    headers[SIGNATURE_HEADER] = `sha256=${signature}`
+  }
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(15000)
+    })
+  } catch (error) {
+    throw new TransportError(
+      `Unable to reach ${type} webhook: ${error instanceof Error ? error.message : 'network error'}`,
+      true
+    )
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 200)
+    const transient = response.status === 429 || response.status >= 500
+    throw new TransportError(`${type} webhook returned ${response.status}${detail ? `: ${detail}` : ''}`, transient)
+  }
+}
@@ -0,0 +1,451 @@
+/**
+ * Notification Dispatcher
+ *
+ * Sends email notifications through the transport configured under
+ * notifications.email.* and chat/webhook notifications through the channels
+ * selected on each alert rule. Every attempt is recorded in the delivery log and
+ * transient failures are retried with backoff by processRetries().
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import { getDb } from '@/lib/db'
+import { getConfigManager } from '@/lib/config/config-manager'
+import { getAlertService } from '@/lib/services/alert-service'
+import { getChannelService } from '@/lib/services/channel-service'
+import {
+  AlertEvent,
+  AlertRule,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationDeliveryStatus,
+  NotificationKind
+} from '@/types'
+import { EmailTransport, ResendTransport, SmtpTransport, TransportError } from './transports'
+import {
+  ChannelMessage,
+  alertToChannelMessage,
+  providerDownToChannelMessage,
+  buildChannelPayload,
+  postToChannel
+} from './channels'
+import {
+  RenderedEmail,
+  DailyDigestData,
+  ProviderDownData,
+  renderExecutionFailure,
+  renderDailyDigest,
+  renderProviderDown,
+  renderTestEmail
+} from './templates'
+
+const MAX_ATTEMPTS = 5
+// Minutes to wait before retry N (after the first failed attempt)
+const RETRY_BACKOFF_MINUTES = [1, 5, 15, 60]
+
+interface EmailSettings {
+  enabled: boolean
+  transport: EmailTransport | null
+  fromAddress: string
+  fromName?: string
+  recipients: string[]
+  digestEnabled: boolean
+  digestHour: number
+  timezone: string
+}
+
+export class NotificationDispatcher {
+  /**
+   * Deliver newly raised alert events to the email and channels chosen on their rule
+   */
+  async notifyAlerts(events: AlertEvent[]): Promise<void> {
+    if (events.length === 0) return
+
+    const settings = await this.loadSettings()
+    const rules = new Map<string, AlertRule | null>()
+
+    for (const event of events) {
+      if (!rules.has(event.ruleId)) {
+        rules.set(event.ruleId, await getAlertService().getRule(event.ruleId))
+      }
+      const rule = rules.get(event.ruleId)
+      if (!rule) continue
+
+      if (settings.enabled && rule.notifyEmail) {
+        await this.dispatch('execution_failure', renderExecutionFailure(event, this.appUrl()), settings.recipients, event.id)
+      }
+
+      for (const channelId of rule.channelIds) {
+        const channel = await getChannelService().getChannel(channelId)
+        if (channel?.isEnabled) {
+          await this.dispatchToChannel(channel, alertToChannelMessage(event, this.appUrl()), event.id)
+        }
+      }
+    }
+  }
+
+  /**
+   * Report that an n8n instance failed to sync and was marked unhealthy.
+   * Not tied to a rule, so it goes to email and every enabled channel.
+   */
+  async notifyProviderDown(providerId: string, data: ProviderDownData): Promise<void> {
+    const settings = await this.loadSettings()
+    if (settings.enabled) {
+      await this.dispatch('provider_down', renderProviderDown(data, this.appUrl()), settings.recipients, providerId)
+    }
+
+    const channels = (await getChannelService().listChannels()).filter(c => c.isEnabled)
+    for (const channel of channels) {
+      await this.dispatchToChannel(channel, providerDownToChannelMessage(providerId, data, this.appUrl()), providerId)
+    }
+  }
+
+  /**
+   * Send today's digest once the configured hour has passed in the app timezone
+   */
+  async sendDailyDigestIfDue(): Promise<void> {
+    const settings = await this.loadSettings()
+    if (!settings.enabled || !settings.digestEnabled) return
+
+    const { date, hour } = this.localDateAndHour(settings.timezone)
+    if (hour < settings.digestHour) return
+
+    const alreadySent = await new Promise<boolean>((resolve, reject) => {
+      getDb().get(
+        `SELECT id FROM notification_deliveries
+        WHERE kind = 'daily_digest' AND reference_id = ? AND status != 'failed'
+        LIMIT 1`,
+        [date],
+        (err, row) => {
+          if (err) reject(err)
+          else resolve(!!row)
+        }
+      )
+    })
+    if (alreadySent) return
+
+    const digest = await this.buildDailyDigest(date)
+    await this.dispatch('daily_digest', renderDailyDigest(digest, this.appUrl()), settings.recipients, date)
+  }
+
+  /**
+   * Send a test email, ignoring the enabled flag so the setup can be verified first
+   */
+  async sendTest(recipient?: string): Promise<NotificationDelivery> {
+    const settings = await this.loadSettings()
+    if (!settings.transport) {
+      throw new Error('Email delivery is not configured')
+    }
+
+    const recipients = recipient ? [recipient] : settings.recipients
+    return this.dispatch('test', renderTestEmail(settings.transport.name, this.appUrl()), recipients)
+  }
+
+  /**
+   * Retry deliveries whose backoff has elapsed
+   */
+  async processRetries(): Promise<number> {
+    const due = await this.queryDeliveries(
+      `WHERE status = 'retrying' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC LIMIT 50`,
+      [new Date().toISOString()]
+    )
+
+    for (const delivery of due) {
+      await this.attempt(delivery)
+    }
+
+    if (due.length > 0) {
+      console.log(`📧 Retried ${due.length} notification deliveries`)
+    }
+
+    return due.length
+  }
+
+  async listDeliveries(options: { status?: NotificationDeliveryStatus; limit?: number } = {}): Promise<NotificationDelivery[]> {
+    const rows = await this.queryDeliveries(
+      `${options.status ? 'WHERE status = ?' : ''} ORDER BY created_at DESC LIMIT ?`,
+      options.status ? [options.status, options.limit || 100] : [options.limit || 100]
+    )
+    return rows.map(row => this.mapDelivery(row))
+  }
+
+  private async dispatch(
+    kind: NotificationKind,
+    email: RenderedEmail,
+    recipients: string[],
+    referenceId?: string
+  ): Promise<NotificationDelivery> {
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await this.run(
+      `INSERT INTO notification_deliveries (
+        id, channel, kind, reference_id, recipients, subject, html_body, text_body, status, attempts, created_at
+      ) VALUES (?, 'email', ?, ?, ?, ?, ?, ?, 'pending', 0, ?)`,
+      [id, kind, referenceId ?? null, JSON.stringify(recipients), email.subject, email.html, email.text, now]
+    )
+
+    const [delivery] = await this.queryDeliveries('WHERE id = ?', [id])
+    return this.attempt(delivery)
+  }
+
+  private async dispatchToChannel(
+    channel: NotificationChannel,
+    message: ChannelMessage,
+    referenceId?: string
+  ): Promise<NotificationDelivery> {
+    const id = uuidv4()
+    const payload = JSON.stringify(buildChannelPayload(channel.type, message))
+
+    await this.run(
+      `INSERT INTO notification_deliveries (
+        id, channel, channel_id, kind, reference_id, recipients, subject, payload, status, attempts, created_at
+      ) VALUES (?, ?, ?, ?, ?, '[]', ?, ?, 'pending', 0, ?)`,
+      [id, channel.type, channel.id, message.kind, referenceId ?? null, message.title, payload, new Date().toISOString()]
+    )
+
+    const [delivery] = await this.queryDeliveries('WHERE id = ?', [id])
+    return this.attempt(delivery)
+  }
+
+  private async attempt(row: any): Promise<NotificationDelivery> {
+    const attempts = (row.attempts || 0) + 1
+    const recipients: string[] = JSON.parse(row.recipients || '[]')
+    let status: NotificationDeliveryStatus
+    let lastError: string | null = null
+    let nextAttemptAt: string | null = null
+
+    try {
+      if (row.channel === 'email') {
+        await this.sendEmail(row, recipients)
+      } else {
+        await this.sendToChannel(row)
+      }
+
+      status = 'sent'
+      console.log(`📧 Sent ${row.kind} notification via ${row.channel}`)
+    } catch (error) {
+      const transient = error instanceof TransportError ? error.transient : true
+      lastError = error instanceof Error ? error.message : 'Unknown error'
+
+      if (transient && attempts < MAX_ATTEMPTS) {
+        status = 'retrying'
+        const backoff = RETRY_BACKOFF_MINUTES[Math.min(attempts - 1, RETRY_BACKOFF_MINUTES.length - 1)]
+        nextAttemptAt = new Date(Date.now() + backoff * 60 * 1000).toISOString()
+        console.warn(`⚠️ ${row.kind} notification failed (attempt ${attempts}), retrying in ${backoff}m: ${lastError}`)
+      } else {
+        status = 'failed'
+        console.error(`❌ ${row.kind} notification failed after ${attempts} attempt(s): ${lastError}`)
+      }
+    }
+
+    await this.run(
+      `UPDATE notification_deliveries
+      SET status = ?, attempts = ?, last_error = ?, next_attempt_at = ?, sent_at = ?
+      WHERE id = ?`,
+      [status, attempts, lastError, nextAttemptAt, status === 'sent' ? new Date().toISOString() : null, row.id]
+    )
+
+    const [updated] = await this.queryDeliveries('WHERE id = ?', [row.id])
+    return this.mapDelivery(updated)
+  }
+
+  private async sendEmail(row: any, recipients: string[]): Promise<void> {
+    const settings = await this.loadSettings()
+    if (!settings.transport) {
+      throw new TransportError('Email delivery is not configured', false)
+    }
+    if (recipients.length === 0) {
+      throw new TransportError('No notification recipients configured', false)
+    }
+
+    await settings.transport.send({
+      from: settings.fromAddress,
+      fromName: settings.fromName,
+      to: recipients,
+      subject: row.subject,
+      html: row.html_body,
+      text: row.text_body
+    })
+  }
+
+  private async sendToChannel(row: any): Promise<void> {
+    const channel = row.channel_id ? await getChannelService().getChannel(row.channel_id) : null
+    if (!channel || !channel.isEnabled) {
+      throw new TransportError('Notification channel was removed or disabled', false)
+    }
+
+    await postToChannel(channel.type, channel.url, row.payload)
+  }
+
+  private async loadSettings(): Promise<EmailSettings> {
+    const config = getConfigManager()
+    await config.initialize()
+
+    const provider = (await config.get('notifications.email.provider')) || 'smtp'
+    const fromAddress = (await config.get('notifications.email.from_address')) || ''
+    let transport: EmailTransport | null = null
+
+    if (provider === 'resend') {
+      const apiKey = await config.get('notifications.email.resend_api_key')
+      if (apiKey) transport = new ResendTransport(apiKey)
+    } else {
+      const host = await config.get('notifications.email.smtp_host')
+      if (host) {
+        transport = new SmtpTransport({
+          host,
+          port: Number(await config.get('notifications.email.smtp_port')) || 587,
+          user: (await config.get('notifications.email.smtp_user')) || undefined,
+          password: (await config.get('notifications.email.smtp_password')) || undefined
+        })
+      }
+    }
+
+    const configuredRecipients = (await config.get('notifications.email.recipients')) || ''
+    let recipients = configuredRecipients.split(',').map(r => r.trim()).filter(Boolean)
+    if (recipients.length === 0) {
+      const adminEmail = await config.get('setup.admin_email')
+      recipients = adminEmail ? [adminEmail] : []
+    }
+
+    const digestEnabled = await config.get('notifications.email.digest_enabled')
+    const digestHour = await config.get('notifications.email.digest_hour')
+
+    return {
+      enabled: String(await config.get('notifications.email.enabled')) === 'true' && !!transport && !!fromAddress,
+      transport: fromAddress ? transport : null,
+      fromAddress,
+      fromName: (await config.get('notifications.email.from_name')) || undefined,
+      recipients,
+      digestEnabled: digestEnabled === null || String(digestEnabled) === 'true',
+      digestHour: digestHour === null ? 8 : Number(digestHour),
+      timezone: (await config.get('app.timezone')) || 'UTC'
+    }
+  }
+
+  private async buildDailyDigest(date: string): Promise<DailyDigestData> {
+    const db = getDb()
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+
+    const totals = await new Promise<any>((resolve, reject) => {
+      db.get(
+        `SELECT
+          COUNT(*) as total,
+          SUM(CASE WHEN status = 'success' THEN 1 ELSE 0 END) as succeeded,
+          SUM(CASE WHEN status = 'error' THEN 1 ELSE 0 END) as failed
+        FROM executions
+        WHERE started_at >= ?`,
+        [since],
+        (err, row) => {
+          if (err) reject(err)
+          else resolve(row || {})
+        }
+      )
+    })
+
+    const topFailing = await new Promise<any[]>((resolve, reject) => {
+      db.all(
+        `SELECT COALESCE(w.name, e.provider_workflow_id) as workflow_name, COUNT(*) as failures
+        FROM executions e
+        LEFT JOIN workflows w ON w.id = e.workflow_id
+        WHERE e.status = 'error' AND e.started_at >= ?
+        GROUP BY e.provider_id, e.provider_workflow_id
+        ORDER BY failures DESC
+        LIMIT 5`,
+        [since],
+        (err, rows) => {
+          if (err) reject(err)
+          else resolve(rows || [])
+        }
+      )
+    })
+
+    const openAlerts = await new Promise<number>((resolve, reject) => {
+      db.get(
+        `SELECT COUNT(*) as count FROM alert_events WHERE status = 'open'`,
+        [],
+        (err, row: any) => {
+          if (err) reject(err)
+          else resolve(Number(row?.count) || 0)
+        }
+      )
+    })
+
+    return {
+      date,
+      totalExecutions: Number(totals.total) || 0,
+      successfulExecutions: Number(totals.succeeded) || 0,
+      failedExecutions: Number(totals.failed) || 0,
+      topFailingWorkflows: topFailing.map(row => ({
+        workflowName: row.workflow_name,
+        failures: Number(row.failures)
+      })),
+      openAlerts
+    }
+  }
+
+  private localDateAndHour(timezone: string): { date: string; hour: number } {
+    let parts: Intl.DateTimeFormatPart[]
+    try {
+      parts = new Intl.DateTimeFormat('en-CA', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        hourCycle: 'h23'
+      }).formatToParts(new Date())
+    } catch {
+      // Unknown timezone in config - fall back to UTC
+      return this.localDateAndHour('UTC')
+    }
+
+    const part = (type: string) => parts.find(p => p.type === type)?.value || ''
+    return {
+      date: `${part('year')}-${part('month')}-${part('day')}`,
+      hour: parseInt(part('hour'))
+    }
+  }
+
+  private appUrl(): string | undefined {
+    return process.env.APP_URL?.replace(/\/$/, '') || undefined
+  }
+
+  private run(sql: string, params: any[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      getDb().run(sql, params, (err) => {
+        if (err) reject(err)
+        else resolve()
+      })
+    })
+  }
+
+  private queryDeliveries(clause: string, params: any[]): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      getDb().all(`SELECT * FROM notification_deliveries ${clause}`, params, (err, rows) => {
+        if (err) reject(err)
+        else resolve(rows || [])
+      })
+    })
+  }
+
+  private mapDelivery(row: any): NotificationDelivery {
+    return {
+      id: row.id,
+      channel: row.channel,
+      channelId: row.channel_id || undefined,
+      kind: row.kind,
+      referenceId: row.reference_id || undefined,
+      recipients: JSON.parse(row.recipients || '[]'),
+      subject: row.subject,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error || undefined,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      createdAt: new Date(row.created_at),
+      sentAt: row.sent_at ? new Date(row.sent_at) : undefined
+    }
+  }
+}
+
+// Export singleton instance
+export const notificationDispatcher = new NotificationDispatcher()
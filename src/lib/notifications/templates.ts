@@ -0,0 +1,227 @@
+/**
+ * Notification Templates
+ *
+ * Each template renders a subject plus matching HTML and plain-text bodies.
+ * The HTML layout follows the onboarding test email.
+ */
+
+import { AlertEvent } from '@/types'
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export interface DailyDigestData {
+  date: string
+  totalExecutions: number
+  successfulExecutions: number
+  failedExecutions: number
+  topFailingWorkflows: { workflowName: string; failures: number }[]
+  openAlerts: number
+}
+
+export interface ProviderDownData {
+  providerName: string
+  baseUrl: string
+  error: string
+  detectedAt: Date
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function layout(title: string, body: string, appUrl?: string): string {
+  const footerLink = appUrl
+    ? `<a href="${escapeHtml(appUrl)}" style="color: #667eea;">Open Elova</a> · `
+    : ''
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">📊 Elova</h1>
+        <p style="color: white; margin: 10px 0 0 0; opacity: 0.9;">Workflow Observability Platform</p>
+      </div>
+
+      <div style="padding: 30px; background: white;">
+        <h2 style="color: #333; margin: 0 0 20px 0;">${escapeHtml(title)}</h2>
+        ${body}
+        <div style="border-top: 1px solid #eee; margin: 30px 0 0 0; padding: 20px 0 0 0;">
+          <p style="color: #999; font-size: 14px; margin: 0;">
+            ${footerLink}You are receiving this because email notifications are enabled in Elova.
+          </p>
+        </div>
+      </div>
+    </div>
+  `
+}
+
+function callout(content: string, tone: 'error' | 'warning' | 'info'): string {
+  const colors = {
+    error: { background: '#fef2f2', border: '#ef4444', text: '#7f1d1d' },
+    warning: { background: '#fffbeb', border: '#f59e0b', text: '#78350f' },
+    info: { background: '#f0f9ff', border: '#0ea5e9', text: '#0c4a6e' }
+  }[tone]
+
+  return `
+    <div style="background: ${colors.background}; border: 1px solid ${colors.border}; border-radius: 8px; padding: 20px; margin: 20px 0;">
+      <p style="margin: 0; color: ${colors.text};">${content}</p>
+    </div>
+  `
+}
+
+function detailList(items: [string, string][]): string {
+  return `
+    <div style="background: #f9f9f9; border-radius: 8px; padding: 20px; margin: 20px 0;">
+      <ul style="margin: 0; padding-left: 20px; color: #666;">
+        ${items.map(([label, value]) => `<li><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</li>`).join('\n')}
+      </ul>
+    </div>
+  `
+}
+
+/**
+ * Alert raised for failing executions
+ */
+export function renderExecutionFailure(event: AlertEvent, appUrl?: string): RenderedEmail {
+  const workflowName = event.workflowName || event.workflowId || 'Unknown workflow'
+  const details: [string, string][] = [
+    ['Workflow', workflowName],
+    ['Rule', event.ruleName || event.ruleId],
+    ['Severity', event.severity],
+    ['First seen', event.firstSeenAt.toISOString()]
+  ]
+
+  const workflowLink = appUrl && event.workflowId
+    ? `<p><a href="${escapeHtml(`${appUrl}/workflows/${event.workflowId}`)}" style="color: #667eea;">View workflow in Elova →</a></p>`
+    : ''
+
+  const html = layout(
+    event.title,
+    callout(`<strong>${event.severity === 'critical' ? '🚨' : '⚠️'} ${escapeHtml(event.message)}</strong>`, event.severity === 'critical' ? 'error' : 'warning') +
+      detailList(details) +
+      workflowLink,
+    appUrl
+  )
+
+  const text = [
+    event.title,
+    '',
+    event.message,
+    '',
+    ...details.map(([label, value]) => `- ${label}: ${value}`),
+    ...(appUrl && event.workflowId ? ['', `View workflow: ${appUrl}/workflows/${event.workflowId}`] : [])
+  ].join('\n')
+
+  return {
+    subject: `[Elova] ${event.title}`,
+    html,
+    text
+  }
+}
+
+/**
+ * Daily summary of execution activity
+ */
+export function renderDailyDigest(digest: DailyDigestData, appUrl?: string): RenderedEmail {
+  const successRate = digest.totalExecutions > 0
+    ? Math.round((digest.successfulExecutions / digest.totalExecutions) * 1000) / 10
+    : 100
+
+  const summary: [string, string][] = [
+    ['Executions', String(digest.totalExecutions)],
+    ['Succeeded', String(digest.successfulExecutions)],
+    ['Failed', String(digest.failedExecutions)],
+    ['Success rate', `${successRate}%`],
+    ['Open alerts', String(digest.openAlerts)]
+  ]
+
+  const failingRows = digest.topFailingWorkflows.map(w => `
+    <tr>
+      <td style="padding: 6px 0; color: #333;">${escapeHtml(w.workflowName)}</td>
+      <td style="padding: 6px 0; color: #b91c1c; text-align: right;">${w.failures}</td>
+    </tr>
+  `).join('')
+
+  const failingSection = digest.topFailingWorkflows.length > 0
+    ? `
+      <h3 style="color: #333; margin: 20px 0 10px 0; font-size: 16px;">Most failing workflows</h3>
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px;">${failingRows}</table>
+    `
+    : callout('<strong>✅ No failed executions.</strong>', 'info')
+
+  const html = layout(`Daily digest for ${digest.date}`, detailList(summary) + failingSection, appUrl)
+
+  const text = [
+    `Daily digest for ${digest.date}`,
+    '',
+    ...summary.map(([label, value]) => `- ${label}: ${value}`),
+    '',
+    ...(digest.topFailingWorkflows.length > 0
+      ? ['Most failing workflows:', ...digest.topFailingWorkflows.map(w => `- ${w.workflowName}: ${w.failures}`)]
+      : ['No failed executions.'])
+  ].join('\n')
+
+  return {
+    subject: `[Elova] Daily digest ${digest.date}: ${digest.failedExecutions} failed of ${digest.totalExecutions}`,
+    html,
+    text
+  }
+}
+
+/**
+ * An n8n instance stopped responding to sync
+ */
+export function renderProviderDown(data: ProviderDownData, appUrl?: string): RenderedEmail {
+  const details: [string, string][] = [
+    ['Instance', data.providerName],
+    ['URL', data.baseUrl],
+    ['Detected', data.detectedAt.toISOString()]
+  ]
+
+  const html = layout(
+    `n8n instance "${data.providerName}" is unreachable`,
+    callout(`<strong>❌ ${escapeHtml(data.error)}</strong>`, 'error') +
+      detailList(details) +
+      '<p style="color: #666; line-height: 1.6;">Syncing is paused for this instance until the connection is tested again from the n8n Instances page.</p>',
+    appUrl
+  )
+
+  const text = [
+    `n8n instance "${data.providerName}" is unreachable`,
+    '',
+    data.error,
+    '',
+    ...details.map(([label, value]) => `- ${label}: ${value}`),
+    '',
+    'Syncing is paused for this instance until the connection is tested again from the n8n Instances page.'
+  ].join('\n')
+
+  return {
+    subject: `[Elova] n8n instance "${data.providerName}" is down`,
+    html,
+    text
+  }
+}
+
+/**
+ * Test message sent from the notification settings
+ */
+export function renderTestEmail(transportName: string, appUrl?: string): RenderedEmail {
+  return {
+    subject: 'Elova notification test',
+    html: layout(
+      'Notification Test',
+      callout(`<strong>✅ Success!</strong> Notifications are delivered through ${escapeHtml(transportName.toUpperCase())}.`, 'info'),
+      appUrl
+    ),
+    text: `Notification Test\n\nSuccess! Notifications are delivered through ${transportName.toUpperCase()}.`
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Email Transports
+ *
+ * Pluggable delivery backends for the notification dispatcher. Each transport
+ * throws a TransportError that tells the dispatcher whether a retry makes sense.
+ */
+
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+import crypto from 'crypto'
+
+export interface EmailMessage {
+  from: string
+  fromName?: string
+  to: string[]
+  subject: string
+  html: string
+  text: string
+}
+
+export interface EmailTransport {
+  readonly name: string
+  send(message: EmailMessage): Promise<{ messageId?: string }>
+}
+
+export class TransportError extends Error {
+  constructor(message: string, public readonly transient: boolean) {
+    super(message)
+    this.name = 'TransportError'
+  }
+}
+
+const TRANSIENT_NETWORK_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'EPIPE']
+
+function formatAddress(address: string, name?: string): string {
+  if (!name) return address
+  return `"${name.replace(/"/g, '\'')}" <${address}>`
+}
+
+/**
+ * Resend HTTP API transport
+ */
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend'
+
+  constructor(private apiKey: string) {}
+
+  async send(message: EmailMessage): Promise<{ messageId?: string }> {
+    let response: Response
+    try {
+      response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          from: formatAddress(message.from, message.fromName),
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          text: message.text
+        }),
+        signal: AbortSignal.timeout(15000)
+      })
+    } catch (error) {
+      throw new TransportError(
+        `Unable to reach Resend API: ${error instanceof Error ? error.message : 'network error'}`,
+        true
+      )
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      const transient = response.status === 429 || response.status >= 500
+      throw new TransportError(`Resend API error (${response.status}): ${errorData.message || response.statusText}`, transient)
+    }
+
+    const result = await response.json().catch(() => ({}))
+    return { messageId: result.id }
+  }
+}
+
+interface SmtpOptions {
+  host: string
+  port: number
+  user?: string
+  password?: string
+  timeoutMs?: number
+}
+
+/**
+ * SASL mechanisms offered in the EHLO reply ("AUTH PLAIN LOGIN" or the older "AUTH=PLAIN LOGIN")
+ */
+function authMechanisms(capabilities: string[]): string[] {
+  const line = capabilities.find(c => /^AUTH[ =]/.test(c))
+  return line ? line.slice(5).trim().split(/\s+/) : []
+}
+
+/**
+ * Minimal SMTP transport (implicit TLS on 465, STARTTLS when offered, AUTH PLAIN or LOGIN).
+ * Credentials are only ever sent over TLS.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp'
+
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: EmailMessage): Promise<{ messageId?: string }> {
+    const messageId = `<${crypto.randomUUID()}@${message.from.split('@')[1] || 'elova.local'}>`
+    const session = new SmtpSession(this.options)
+
+    try {
+      await session.connect()
+      await session.expect(220)
+
+      let capabilities = await session.ehlo()
+      if (!session.secure && capabilities.includes('STARTTLS')) {
+        await session.command('STARTTLS', 220)
+        await session.upgrade()
+        capabilities = await session.ehlo()
+      }
+
+      if (this.options.user) {
+        // A server (or anyone in between) that does not offer STARTTLS must not get the password
+        if (!session.secure) {
+          throw new TransportError('SMTP server does not offer TLS, refusing to send credentials in cleartext', false)
+        }
+        await this.authenticate(session, authMechanisms(capabilities))
+      }
+
+      await session.command(`MAIL FROM:<${message.from}>`, 250)
+      for (const recipient of message.to) {
+        await session.command(`RCPT TO:<${recipient}>`, [250, 251])
+      }
+      await session.command('DATA', 354)
+      await session.command(`${this.buildMime(message, messageId)}\r\n.`, 250)
+      await session.command('QUIT', 221).catch(() => {})
+
+      return { messageId }
+    } catch (error) {
+      if (error instanceof TransportError) throw error
+      const code = (error as NodeJS.ErrnoException).code
+      throw new TransportError(
+        `SMTP delivery failed: ${error instanceof Error ? error.message : 'unknown error'}`,
+        !code || TRANSIENT_NETWORK_CODES.includes(code)
+      )
+    } finally {
+      session.close()
+    }
+  }
+
+  private async authenticate(session: SmtpSession, mechanisms: string[]) {
+    const user = this.options.user || ''
+    const password = this.options.password || ''
+    const base64 = (value: string) => Buffer.from(value, 'utf8').toString('base64')
+
+    if (mechanisms.includes('PLAIN')) {
+      await session.command(`AUTH PLAIN ${base64(`\0${user}\0${password}`)}`, 235)
+    } else if (mechanisms.includes('LOGIN')) {
+      await session.command('AUTH LOGIN', 334)
+      await session.command(base64(user), 334)
+      await session.command(base64(password), 235)
+    } else {
+      throw new TransportError(
+        mechanisms.length > 0
+          ? `SMTP server only offers unsupported authentication (${mechanisms.join(', ')})`
+          : 'SMTP server does not support authentication',
+        false
+      )
+    }
+  }
+
+  private buildMime(message: EmailMessage, messageId: string): string {
+    const boundary = `elova-${crypto.randomBytes(12).toString('hex')}`
+    const encodeBody = (body: string) => Buffer.from(body, 'utf8').toString('base64').replace(/(.{76})/g, '$1\r\n')
+    const encodedSubject = `=?UTF-8?B?${Buffer.from(message.subject, 'utf8').toString('base64')}?=`
+
+    const lines = [
+      `From: ${formatAddress(message.from, message.fromName)}`,
+      `To: ${message.to.join(', ')}`,
+      `Subject: ${encodedSubject}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: ${messageId}`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text),
+      `--${boundary}`,
+      'Content-Type: text/html; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.html),
+      `--${boundary}--`
+    ]
+
+    // Base64 bodies never start with a dot, so no dot-stuffing is required
+    return lines.join('\r\n')
+  }
+}
+
+/**
+ * Line-oriented SMTP conversation over a plain or TLS socket
+ */
+class SmtpSession {
+  private socket: net.Socket | null = null
+  private buffer = ''
+  private waiter: (() => void) | null = null
+  private failure: Error | null = null
+  secure = false
+
+  constructor(private options: SmtpOptions) {}
+
+  async connect(): Promise<void> {
+    this.secure = this.options.port === 465
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const onError = (err: Error) => reject(err)
+      const s = this.secure
+        ? tls.connect({ host: this.options.host, port: this.options.port, servername: this.options.host }, () => resolve(s))
+        : net.connect({ host: this.options.host, port: this.options.port }, () => resolve(s))
+      s.once('error', onError)
+    })
+    this.attach(socket)
+  }
+
+  async upgrade(): Promise<void> {
+    const plain = this.socket!
+    plain.removeAllListeners('data')
+    const secureSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const s = tls.connect({ socket: plain, servername: this.options.host }, () => resolve(s))
+      s.once('error', reject)
+    })
+    this.secure = true
+    this.buffer = ''
+    this.attach(secureSocket)
+  }
+
+  async ehlo(): Promise<string[]> {
+    const lines = await this.command(`EHLO ${os.hostname() || 'localhost'}`, 250)
+    return lines.slice(1).map(line => line.toUpperCase())
+  }
+
+  async command(line: string, expected: number | number[]): Promise<string[]> {
+    this.socket!.write(`${line}\r\n`)
+    return this.expect(expected)
+  }
+
+  async expect(expected: number | number[]): Promise<string[]> {
+    const { code, lines } = await this.readReply()
+    const accepted = Array.isArray(expected) ? expected : [expected]
+    if (!accepted.includes(code)) {
+      throw new TransportError(`SMTP server replied ${code}: ${lines.join(' ')}`, code >= 400 && code < 500)
+    }
+    return lines
+  }
+
+  close() {
+    this.socket?.destroy()
+    this.socket = null
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket
+    socket.setTimeout(this.options.timeoutMs || 30000, () => {
+      socket.destroy(Object.assign(new Error('SMTP connection timed out'), { code: 'ETIMEDOUT' }))
+    })
+    socket.on('data', chunk => {
+      this.buffer += chunk.toString('utf8')
+      this.notify()
+    })
+    socket.on('error', err => {
+      this.failure = err
+      this.notify()
+    })
+    socket.on('close', () => {
+      this.failure = this.failure || Object.assign(new Error('SMTP connection closed'), { code: 'ECONNRESET' })
+      this.notify()
+    })
+  }
+
+  private notify() {
+    const waiter = this.waiter
+    this.waiter = null
+    waiter?.()
+  }
+
+  private async readReply(): Promise<{ code: number; lines: string[] }> {
+    for (;;) {
+      // A reply is complete once a line has a space after the status code ("250 OK")
+      const lines = this.buffer.split('\r\n')
+      const lastIndex = lines.slice(0, -1).findIndex(line => /^\d{3} /.test(line) || /^\d{3}$/.test(line))
+      if (lastIndex !== -1) {
+        const replyLines = lines.slice(0, lastIndex + 1)
+        this.buffer = lines.slice(lastIndex + 1).join('\r\n')
+        return {
+          code: parseInt(replyLines[lastIndex].slice(0, 3)),
+          lines: replyLines.map(line => line.slice(4))
+        }
+      }
+
+      if (this.failure) throw this.failure
+      await new Promise<void>(resolve => { this.waiter = resolve })
+    }
+  }
+}
@@ -6,7 +6,8 @@ import {
   ExecutionFilters,
   WorkflowFilters,
   PaginatedResponse,
-  ApiResponse 
+  ApiResponse,
+  WorkflowDefinition
 } from '@/types'
 
 /**
@@ -76,8 +77,9 @@ export abstract class ProviderAdapter {
 
   /**
    * Trigger a workflow execution (if supported)
+   * @returns Provider ID of the started execution, null when the provider does not report it
    */
-  async triggerWorkflow(providerWorkflowId: string, inputData?: Record<string, unknown>): Promise<ApiResponse<Execution>> {
+  async triggerWorkflow(providerWorkflowId: string, inputData?: Record<string, unknown>): Promise<ApiResponse<{ providerExecutionId: string | null }>> {
     return {
       success: false,
       error: 'Workflow triggering not supported by this provider'
@@ -94,6 +96,28 @@ export abstract class ProviderAdapter {
     }
   }
 
+  /**
+   * Retry a failed execution (if supported)
+   * @param options.loadWorkflow Run the currently saved workflow instead of the one the execution ran with
+   * @returns Provider ID of the new execution, null when the provider does not report it
+   */
+  async retryExecution(providerExecutionId: string, options?: { loadWorkflow?: boolean }): Promise<ApiResponse<{ providerExecutionId: string | null }>> {
+    return {
+      success: false,
+      error: 'Execution retries not supported by this provider'
+    }
+  }
+
+  /**
+   * Replace a workflow's definition on the provider (if supported)
+   */
+  async updateWorkflow(providerWorkflowId: string, definition: WorkflowDefinition): Promise<ApiResponse<Workflow>> {
+    return {
+      success: false,
+      error: 'Workflow updates not supported by this provider'
+    }
+  }
+
   // Utility methods for data transformation
 
   /**
@@ -176,6 +200,8 @@ export abstract class ProviderAdapter {
 export interface ProviderCapabilities {
   canTriggerWorkflows: boolean
   canStopExecutions: boolean
+  canRetryExecutions: boolean
+  canUpdateWorkflows: boolean
   canGetRealTimeStatus: boolean
   canGetWorkflowGraph: boolean
   canGetExecutionLogs: boolean
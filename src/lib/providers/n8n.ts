@@ -13,7 +13,8 @@ import {
   WorkflowFilters,
   PaginatedResponse,
   ApiResponse,
-  ExecutionStatus
+  ExecutionStatus,
+  WorkflowDefinition
 } from '@/types'
 
 /**
@@ -239,16 +240,18 @@ export class N8nAdapter extends ProviderAdapter {
     }
   }
 
-  async triggerWorkflow(providerWorkflowId: string, inputData?: Record<string, unknown>): Promise<ApiResponse<Execution>> {
+  async triggerWorkflow(providerWorkflowId: string, inputData?: Record<string, unknown>): Promise<ApiResponse<{ providerExecutionId: string | null }>> {
     try {
       const response = await this.makeRequest<any>(`/rest/workflows/${providerWorkflowId}/execute`, {
         method: 'POST',
         body: JSON.stringify({ inputData })
       })
-      
+
+      // The run is acknowledged with its execution ID rather than the execution itself
+      const executionId = response?.data?.executionId ?? response?.data?.id
       return {
         success: true,
-        data: this.transformExecution(response.data)
+        data: { providerExecutionId: executionId ? executionId.toString() : null }
       }
     } catch (error) {
       return {
@@ -258,6 +261,70 @@ export class N8nAdapter extends ProviderAdapter {
     }
   }
 
+  async stopExecution(providerExecutionId: string): Promise<ApiResponse<boolean>> {
+    try {
+      await this.makeRequest<any>(`/rest/executions/${providerExecutionId}/stop`, {
+        method: 'POST'
+      })
+
+      return {
+        success: true,
+        data: true
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to stop execution'
+      }
+    }
+  }
+
+  async retryExecution(providerExecutionId: string, options?: { loadWorkflow?: boolean }): Promise<ApiResponse<{ providerExecutionId: string | null }>> {
+    try {
+      const response = await this.makeRequest<any>(`/rest/executions/${providerExecutionId}/retry`, {
+        method: 'POST',
+        body: JSON.stringify({ loadWorkflow: options?.loadWorkflow ?? true })
+      })
+
+      // Older n8n versions only answer with a success flag; the retry then arrives with the next sync
+      const retryId = response?.data?.id
+      return {
+        success: true,
+        data: { providerExecutionId: retryId ? retryId.toString() : null }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retry execution'
+      }
+    }
+  }
+
+  async updateWorkflow(providerWorkflowId: string, definition: WorkflowDefinition): Promise<ApiResponse<Workflow>> {
+    try {
+      // The public API rejects unknown body properties, so only send the editable fields
+      const response = await this.makeRequest<any>(`/api/v1/workflows/${providerWorkflowId}`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          name: definition.name,
+          nodes: definition.nodes,
+          connections: definition.connections,
+          settings: definition.settings || {}
+        })
+      })
+
+      return {
+        success: true,
+        data: this.transformWorkflow(response)
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update workflow'
+      }
+    }
+  }
+
   protected transformWorkflow(providerData: any): Workflow {
     const workflow = providerData
     
@@ -390,6 +457,8 @@ export class N8nAdapter extends ProviderAdapter {
     return {
       canTriggerWorkflows: true,
       canStopExecutions: true,
+      canRetryExecutions: true,
+      canUpdateWorkflows: true,
       canGetRealTimeStatus: false, // n8n doesn't support real-time status via API
       canGetWorkflowGraph: true,
       canGetExecutionLogs: true,
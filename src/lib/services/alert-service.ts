@@ -0,0 +1,424 @@
+import { Database } from 'sqlite3'
+import { getDb } from '@/lib/db'
+import {
+  AlertRule,
+  AlertEvent,
+  AlertEventStatus,
+  AlertScopeType,
+  AlertConditionType
+} from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt' | 'lastTriggeredAt'>
+
+const SCOPE_TYPES: AlertScopeType[] = ['global', 'provider', 'workflow', 'tag']
+const CONDITION_TYPES: AlertConditionType[] = ['any_error', 'failure_count', 'success_rate', 'slo_burn_rate']
+
+/**
+ * Validate a request body describing a complete alert rule.
+ * Updates should merge the body onto the existing rule before validating.
+ */
+export function validateRuleInput(body: any): { data?: AlertRuleInput; error?: string } {
+  if (!body.name || typeof body.name !== 'string' || body.name.trim().length === 0) {
+    return { error: 'Rule name is required' }
+  }
+
+  const scopeType = body.scopeType || 'global'
+  if (!SCOPE_TYPES.includes(scopeType)) {
+    return { error: `Scope must be one of ${SCOPE_TYPES.join(', ')}` }
+  }
+  if (scopeType !== 'global' && (!body.scopeValue || typeof body.scopeValue !== 'string')) {
+    return { error: `A ${scopeType} must be selected for this scope` }
+  }
+
+  const conditionType = body.conditionType
+  if (!CONDITION_TYPES.includes(conditionType)) {
+    return { error: `Condition must be one of ${CONDITION_TYPES.join(', ')}` }
+  }
+
+  let threshold: number | undefined
+  let minExecutions: number | undefined
+  if (conditionType === 'failure_count') {
+    threshold = Number(body.threshold)
+    if (!Number.isInteger(threshold) || threshold < 1) {
+      return { error: 'Failure count threshold must be a positive whole number' }
+    }
+  } else if (conditionType === 'success_rate') {
+    threshold = Number(body.threshold)
+    if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 100) {
+      return { error: 'Success rate threshold must be between 0 and 100' }
+    }
+    minExecutions = Math.max(1, parseInt(body.minExecutions ?? '5') || 5)
+  } else if (conditionType === 'slo_burn_rate') {
+    threshold = Number(body.threshold)
+    if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1000) {
+      return { error: 'Burn rate threshold must be above 0 and at most 1000' }
+    }
+    minExecutions = Math.max(1, parseInt(body.minExecutions ?? '5') || 5)
+  }
+
+  let windowMinutes: number | undefined
+  if (conditionType !== 'any_error') {
+    windowMinutes = Number(body.windowMinutes)
+    if (!Number.isInteger(windowMinutes) || windowMinutes < 1 || windowMinutes > 43200) {
+      return { error: 'Window must be between 1 minute and 30 days' }
+    }
+  }
+
+  const cooldownMinutes = Number(body.cooldownMinutes ?? 60)
+  if (!Number.isInteger(cooldownMinutes) || cooldownMinutes < 0 || cooldownMinutes > 10080) {
+    return { error: 'Cooldown must be between 0 minutes and 7 days' }
+  }
+
+  if (body.channelIds !== undefined && (!Array.isArray(body.channelIds) || body.channelIds.some((c: unknown) => typeof c !== 'string'))) {
+    return { error: 'Channels must be a list of channel IDs' }
+  }
+
+  return {
+    data: {
+      name: body.name.trim(),
+      scopeType,
+      scopeValue: scopeType === 'global' ? undefined : body.scopeValue,
+      conditionType,
+      threshold,
+      windowMinutes,
+      minExecutions,
+      cooldownMinutes,
+      notifyEmail: body.notifyEmail === undefined ? true : Boolean(body.notifyEmail),
+      channelIds: body.channelIds || [],
+      isEnabled: body.isEnabled === undefined ? true : Boolean(body.isEnabled)
+    }
+  }
+}
+
+/**
+ * Alert Service
+ * Persists alert rules and the alert events they produce
+ */
+export class AlertService {
+  private db: Database
+
+  constructor() {
+    this.db = getDb()
+  }
+
+  /**
+   * List alert rules, optionally only enabled ones
+   */
+  async listRules(enabledOnly = false): Promise<AlertRule[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM alert_rules ${enabledOnly ? 'WHERE is_enabled = 1' : ''} ORDER BY name ASC`,
+        [],
+        (err, rows: any[]) => {
+          if (err) reject(err)
+          else resolve((rows || []).map(row => this.mapRule(row)))
+        }
+      )
+    })
+  }
+
+  async getRule(ruleId: string): Promise<AlertRule | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM alert_rules WHERE id = ?', [ruleId], (err, row: any) => {
+        if (err) reject(err)
+        else resolve(row ? this.mapRule(row) : null)
+      })
+    })
+  }
+
+  async createRule(data: AlertRuleInput): Promise<AlertRule> {
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO alert_rules (
+          id, name, scope_type, scope_value, condition_type, threshold, window_minutes,
+          min_executions, cooldown_minutes, notify_email, channel_ids, is_enabled, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id, data.name, data.scopeType, data.scopeValue ?? null, data.conditionType,
+          data.threshold ?? null, data.windowMinutes ?? null, data.minExecutions ?? null,
+          data.cooldownMinutes, data.notifyEmail ? 1 : 0, JSON.stringify(data.channelIds),
+          data.isEnabled ? 1 : 0, now, now
+        ],
+        (err) => {
+          if (err) reject(err)
+          else resolve()
+        }
+      )
+    })
+
+    const rule = await this.getRule(id)
+    if (!rule) {
+      throw new Error('Alert rule not found after create')
+    }
+    return rule
+  }
+
+  async updateRule(ruleId: string, data: Partial<AlertRuleInput>): Promise<AlertRule | null> {
+    const columns: Record<string, string> = {
+      name: 'name',
+      scopeType: 'scope_type',
+      scopeValue: 'scope_value',
+      conditionType: 'condition_type',
+      threshold: 'threshold',
+      windowMinutes: 'window_minutes',
+      minExecutions: 'min_executions',
+      cooldownMinutes: 'cooldown_minutes',
+      notifyEmail: 'notify_email',
+      channelIds: 'channel_ids',
+      isEnabled: 'is_enabled'
+    }
+
+    const updates: string[] = []
+    const values: any[] = []
+
+    for (const [field, column] of Object.entries(columns)) {
+      if (field in data) {
+        const value = (data as Record<string, unknown>)[field]
+        updates.push(`${column} = ?`)
+        if (typeof value === 'boolean') values.push(value ? 1 : 0)
+        else if (Array.isArray(value)) values.push(JSON.stringify(value))
+        else values.push(value ?? null)
+      }
+    }
+
+    if (updates.length === 0) {
+      throw new Error('No fields to update')
+    }
+
+    updates.push('updated_at = ?')
+    values.push(new Date().toISOString(), ruleId)
+
+    const changes = await new Promise<number>((resolve, reject) => {
+      this.db.run(
+        `UPDATE alert_rules SET ${updates.join(', ')} WHERE id = ?`,
+        values,
+        function (err) {
+          if (err) reject(err)
+          else resolve(this.changes)
+        }
+      )
+    })
+
+    return changes > 0 ? this.getRule(ruleId) : null
+  }
+
+  async deleteRule(ruleId: string): Promise<boolean> {
+    await new Promise<void>((resolve, reject) => {
+      this.db.run('DELETE FROM alert_events WHERE rule_id = ?', [ruleId], (err) => {
+        if (err) reject(err)
+        else resolve()
+      })
+    })
+
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM alert_rules WHERE id = ?', [ruleId], function (err) {
+        if (err) reject(err)
+        else resolve(this.changes > 0)
+      })
+    })
+  }
+
+  /**
+   * List alert events, newest activity first
+   */
+  async listEvents(options: { status?: AlertEventStatus; ruleId?: string; limit?: number } = {}): Promise<AlertEvent[]> {
+    const conditions: string[] = []
+    const params: any[] = []
+
+    if (options.status) {
+      conditions.push('e.status = ?')
+      params.push(options.status)
+    }
+    if (options.ruleId) {
+      conditions.push('e.rule_id = ?')
+      params.push(options.ruleId)
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    params.push(options.limit || 100)
+
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT e.*, r.name as rule_name
+        FROM alert_events e
+        LEFT JOIN alert_rules r ON r.id = e.rule_id
+        ${where}
+        ORDER BY e.last_seen_at DESC
+        LIMIT ?`,
+        params,
+        (err, rows: any[]) => {
+          if (err) reject(err)
+          else resolve((rows || []).map(row => this.mapEvent(row)))
+        }
+      )
+    })
+  }
+
+  async getEvent(eventId: string): Promise<AlertEvent | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        `SELECT e.*, r.name as rule_name FROM alert_events e
+        LEFT JOIN alert_rules r ON r.id = e.rule_id
+        WHERE e.id = ?`,
+        [eventId],
+        (err, row: any) => {
+          if (err) reject(err)
+          else resolve(row ? this.mapEvent(row) : null)
+        }
+      )
+    })
+  }
+
+  async updateEventStatus(eventId: string, status: AlertEventStatus): Promise<AlertEvent | null> {
+    const changes = await new Promise<number>((resolve, reject) => {
+      this.db.run('UPDATE alert_events SET status = ? WHERE id = ?', [status, eventId], function (err) {
+        if (err) reject(err)
+        else resolve(this.changes)
+      })
+    })
+
+    return changes > 0 ? this.getEvent(eventId) : null
+  }
+
+  /**
+   * Find the most recent open event for a dedup key seen after the given time.
+   * Acknowledged or resolved events are never reopened by a repeat.
+   */
+  async findRecentEvent(dedupKey: string, since: Date): Promise<AlertEvent | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        `SELECT * FROM alert_events
+        WHERE dedup_key = ? AND status = 'open' AND first_seen_at >= ?
+        ORDER BY first_seen_at DESC
+        LIMIT 1`,
+        [dedupKey, since.toISOString()],
+        (err, row: any) => {
+          if (err) reject(err)
+          else resolve(row ? this.mapEvent(row) : null)
+        }
+      )
+    })
+  }
+
+  /**
+   * Record a suppressed repeat of an existing alert
+   */
+  async recordOccurrence(eventId: string, seenAt: Date, executionId?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE alert_events
+        SET occurrences = occurrences + 1, last_seen_at = ?, execution_id = COALESCE(?, execution_id)
+        WHERE id = ?`,
+        [seenAt.toISOString(), executionId ?? null, eventId],
+        (err) => {
+          if (err) reject(err)
+          else resolve()
+        }
+      )
+    })
+  }
+
+  async createEvent(event: Omit<AlertEvent, 'id' | 'ruleName' | 'occurrences' | 'status'>): Promise<AlertEvent> {
+    const id = uuidv4()
+
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO alert_events (
+          id, rule_id, provider_id, workflow_id, workflow_name, execution_id, dedup_key,
+          severity, title, message, status, occurrences, first_seen_at, last_seen_at, metadata
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'open', 1, ?, ?, ?)`,
+        [
+          id, event.ruleId, event.providerId ?? null, event.workflowId ?? null, event.workflowName ?? null,
+          event.executionId ?? null, event.dedupKey, event.severity, event.title, event.message,
+          event.firstSeenAt.toISOString(), event.lastSeenAt.toISOString(), JSON.stringify(event.metadata || {})
+        ],
+        (err) => {
+          if (err) reject(err)
+          else resolve()
+        }
+      )
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(
+        'UPDATE alert_rules SET last_triggered_at = ? WHERE id = ?',
+        [event.firstSeenAt.toISOString(), event.ruleId],
+        (err) => {
+          if (err) reject(err)
+          else resolve()
+        }
+      )
+    })
+
+    return { ...event, id, status: 'open', occurrences: 1 }
+  }
+
+  private mapRule(row: any): AlertRule {
+    return {
+      id: row.id,
+      name: row.name,
+      scopeType: row.scope_type,
+      scopeValue: row.scope_value || undefined,
+      conditionType: row.condition_type,
+      threshold: row.threshold ?? undefined,
+      windowMinutes: row.window_minutes ?? undefined,
+      minExecutions: row.min_executions ?? undefined,
+      cooldownMinutes: row.cooldown_minutes,
+      notifyEmail: row.notify_email === null || row.notify_email === undefined ? true : Boolean(row.notify_email),
+      channelIds: this.parseChannelIds(row.channel_ids),
+      isEnabled: Boolean(row.is_enabled),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      lastTriggeredAt: row.last_triggered_at ? new Date(row.last_triggered_at) : undefined
+    }
+  }
+
+  private parseChannelIds(raw: string | null): string[] {
+    try {
+      const ids = raw ? JSON.parse(raw) : []
+      return Array.isArray(ids) ? ids : []
+    } catch {
+      return []
+    }
+  }
+
+  private mapEvent(row: any): AlertEvent {
+    let metadata: Record<string, unknown> = {}
+    try {
+      metadata = row.metadata ? JSON.parse(row.metadata) : {}
+    } catch {}
+
+    return {
+      id: row.id,
+      ruleId: row.rule_id,
+      ruleName: row.rule_name || undefined,
+      providerId: row.provider_id || undefined,
+      workflowId: row.workflow_id || undefined,
+      workflowName: row.workflow_name || undefined,
+      executionId: row.execution_id || undefined,
+      dedupKey: row.dedup_key,
+      severity: row.severity,
+      title: row.title,
+      message: row.message,
+      status: row.status,
+      occurrences: row.occurrences,
+      firstSeenAt: new Date(row.first_seen_at),
+      lastSeenAt: new Date(row.last_seen_at),
+      metadata
+    }
+  }
+}
+
+// Export singleton instance
+let alertService: AlertService | null = null
+
+export function getAlertService(): AlertService {
+  if (!alertService) {
+    alertService = new AlertService()
+  }
+  return alertService
+}
@@ -0,0 +1,252 @@
+import { Database } from 'sqlite3'
+import { getDb } from '@/lib/db'
+import { RobustBaseline, robustBaseline, robustZScore } from '@/lib/analytics/robust-stats'
+import { AnomalyDirection, AnomalyMetric, WorkflowAnomaly } from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+const HOUR_MS = 60 * 60 * 1000
+const WEEK_MS = 7 * 24 * HOUR_MS
+
+// Each hour is compared with the same hour of week in this many previous weeks
+const BASELINE_WEEKS = 8
+const MIN_BASELINE_SAMPLES = 4
+
+// Recent hours are re-evaluated on every run; already recorded anomalies are kept
+const EVALUATION_HOURS = 6
+
+// Leave time for the execution sync to catch up before an hour is evaluated
+const SETTLE_MS = 10 * 60 * 1000
+
+// Modified z-score above which a value is anomalous (Iglewicz and Hoaglin)
+const ANOMALY_SCORE = 3.5
+
+// Hours with fewer finished executions are too small to judge their error rate
+const MIN_ERROR_RATE_EXECUTIONS = 3
+
+interface HourStats {
+  total: number
+  finished: number
+  failed: number
+  avgDuration: number | null
+}
+
+interface MetricSpec {
+  metric: AnomalyMetric
+  value: (stats: HourStats | undefined) => number | null
+  minScale: (baseline: RobustBaseline) => number
+  directions: AnomalyDirection[]
+}
+
+// Scale floors keep regular series from flagging every small deviation
+const METRICS: MetricSpec[] = [
+  {
+    // Hours without executions count as 0 so traffic drops are caught
+    metric: 'volume',
+    value: stats => stats?.total ?? 0,
+    minScale: baseline => Math.max(2, baseline.median * 0.25),
+    directions: ['high', 'low']
+  },
+  {
+    metric: 'duration',
+    value: stats => stats?.avgDuration ?? null,
+    minScale: baseline => Math.max(100, baseline.median * 0.1),
+    directions: ['high', 'low']
+  },
+  {
+    metric: 'error_rate',
+    value: stats => stats && stats.finished >= MIN_ERROR_RATE_EXECUTIONS ? (stats.failed / stats.finished) * 100 : null,
+    minScale: () => 5,
+    directions: ['high']
+  }
+]
+
+/**
+ * Anomaly Service
+ * Flags unusual execution volume, duration and error rate per workflow against a
+ * seasonal baseline: the median and MAD of the same UTC hour of week in previous weeks
+ */
+export class AnomalyService {
+  private db: Database
+
+  constructor() {
+    this.db = getDb()
+  }
+
+  /**
+   * Evaluate the most recent completed hours of every active workflow
+   * @returns Number of newly recorded anomalies
+   */
+  async detect(now = new Date()): Promise<number> {
+    const lastHourStart = Math.floor((now.getTime() - SETTLE_MS) / HOUR_MS) * HOUR_MS - HOUR_MS
+    const hours = Array.from({ length: EVALUATION_HOURS }, (_, i) => lastHourStart - i * HOUR_MS)
+    const since = new Date(hours[hours.length - 1] - BASELINE_WEEKS * WEEK_MS).toISOString()
+    const until = new Date(lastHourStart + HOUR_MS).toISOString()
+
+    // Manual test runs are excluded, they say nothing about production traffic
+    const rows = await this.all(
+      `SELECT
+        e.workflow_id,
+        substr(e.started_at, 1, 13) as hour,
+        COUNT(*) as total,
+        SUM(CASE WHEN e.status IN ('success', 'error', 'canceled') THEN 1 ELSE 0 END) as finished,
+        SUM(CASE WHEN e.status = 'error' THEN 1 ELSE 0 END) as failed,
+        AVG(CASE WHEN e.status = 'success' THEN e.duration END) as avg_duration
+      FROM executions e
+      JOIN workflows w ON w.id = e.workflow_id
+      WHERE w.is_active = 1 AND COALESCE(w.is_archived, 0) = 0
+        AND COALESCE(e.mode, '') != 'manual'
+        AND e.started_at >= ? AND e.started_at < ?
+      GROUP BY e.workflow_id, hour`,
+      [since, until]
+    )
+
+    const workflows = new Map<string, { firstHour: number; hours: Map<number, HourStats> }>()
+    for (const row of rows) {
+      const hour = Date.parse(`${row.hour}:00:00.000Z`)
+      if (Number.isNaN(hour)) continue
+
+      const workflow = workflows.get(row.workflow_id) || { firstHour: hour, hours: new Map() }
+      workflow.firstHour = Math.min(workflow.firstHour, hour)
+      workflow.hours.set(hour, {
+        total: Number(row.total) || 0,
+        finished: Number(row.finished) || 0,
+        failed: Number(row.failed) || 0,
+        avgDuration: row.avg_duration !== null ? Math.round(row.avg_duration) : null
+      })
+      workflows.set(row.workflow_id, workflow)
+    }
+
+    let recorded = 0
+    for (const [workflowId, workflow] of workflows) {
+      for (const hour of hours) {
+        // Only weeks in which the workflow already ran form its baseline
+        const baselineHours = Array.from({ length: BASELINE_WEEKS }, (_, i) => hour - (i + 1) * WEEK_MS)
+          .filter(baselineHour => baselineHour >= workflow.firstHour)
+
+        for (const spec of METRICS) {
+          const observed = spec.value(workflow.hours.get(hour))
+          if (observed === null) continue
+
+          const samples = baselineHours
+            .map(baselineHour => spec.value(workflow.hours.get(baselineHour)))
+            .filter((value): value is number => value !== null)
+          if (samples.length < MIN_BASELINE_SAMPLES) continue
+
+          const baseline = robustBaseline(samples)
+          const score = robustZScore(observed, baseline, spec.minScale(baseline))
+          const direction: AnomalyDirection = score > 0 ? 'high' : 'low'
+          if (Math.abs(score) < ANOMALY_SCORE || !spec.directions.includes(direction)) continue
+
+          recorded += await this.record(workflowId, spec.metric, direction, hour, observed, baseline, score)
+        }
+      }
+    }
+
+    if (recorded > 0) {
+      console.log(`📈 Recorded ${recorded} execution anomalies`)
+    }
+    return recorded
+  }
+
+  /**
+   * List anomalies of a user's workflows, newest first
+   */
+  async listAnomalies(
+    userId: string,
+    options: { since?: Date; providerWorkflowId?: string; metric?: AnomalyMetric; limit?: number } = {}
+  ): Promise<WorkflowAnomaly[]> {
+    const conditions = ['p.user_id = ?']
+    const params: any[] = [userId]
+
+    if (options.since) {
+      conditions.push('a.bucket_start >= ?')
+      params.push(options.since.toISOString())
+    }
+    if (options.providerWorkflowId) {
+      conditions.push('w.provider_workflow_id = ?')
+      params.push(options.providerWorkflowId)
+    }
+    if (options.metric) {
+      conditions.push('a.metric = ?')
+      params.push(options.metric)
+    }
+    params.push(options.limit || 200)
+
+    const rows = await this.all(
+      `SELECT a.*, w.provider_id, w.provider_workflow_id, w.name as workflow_name
+      FROM anomaly_events a
+      JOIN workflows w ON w.id = a.workflow_id
+      JOIN providers p ON p.id = w.provider_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY a.bucket_start DESC
+      LIMIT ?`,
+      params
+    )
+
+    return rows.map(row => this.mapAnomaly(row))
+  }
+
+  private record(
+    workflowId: string,
+    metric: AnomalyMetric,
+    direction: AnomalyDirection,
+    hour: number,
+    observed: number,
+    baseline: RobustBaseline,
+    score: number
+  ): Promise<number> {
+    const round = (value: number) => Math.round(value * 100) / 100
+
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT OR IGNORE INTO anomaly_events (
+          id, workflow_id, metric, direction, bucket_start, observed, expected, mad, score, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(), workflowId, metric, direction, new Date(hour).toISOString(),
+          round(observed), round(baseline.median), round(baseline.mad), round(score), new Date().toISOString()
+        ],
+        function (err) {
+          if (err) reject(err)
+          else resolve(this.changes)
+        }
+      )
+    })
+  }
+
+  private mapAnomaly(row: any): WorkflowAnomaly {
+    return {
+      id: row.id,
+      providerId: row.provider_id,
+      workflowId: row.provider_workflow_id,
+      workflowName: row.workflow_name,
+      metric: row.metric,
+      direction: row.direction,
+      bucketStart: new Date(row.bucket_start),
+      observed: row.observed,
+      expected: row.expected,
+      mad: row.mad,
+      score: row.score,
+      createdAt: new Date(row.created_at)
+    }
+  }
+
+  private all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) reject(err)
+        else resolve(rows || [])
+      })
+    })
+  }
+}
+
+// Export singleton instance
+let anomalyService: AnomalyService | null = null
+
+export function getAnomalyService(): AnomalyService {
+  if (!anomalyService) {
+    anomalyService = new AnomalyService()
+  }
+  return anomalyService
+}
@@ -0,0 +1,336 @@
+import { Database } from 'sqlite3'
+import { execFile } from 'child_process'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { promisify } from 'util'
+import { getDb } from '@/lib/db'
+import { getConfigManager } from '@/lib/config/config-manager'
+import { ArchiveEntry, createTarGz, createZip } from '@/lib/backups/archive'
+import { stripCredentials } from '@/lib/workflows/workflow-sanitize'
+import { BackupArchiveFormat, BackupExportSettings, BackupGitExportResult } from '@/types'
+
+const execFileAsync = promisify(execFile)
+
+// Lists the files written by the previous git export so removed workflows can be deleted
+const MANIFEST_FILE = '.elova-backup.json'
+
+const GIT_TIMEOUT_MS = 60 * 1000
+
+/**
+ * Validate a request body describing backup export settings
+ */
+export function validateBackupSettingsInput(body: any): { data?: Partial<BackupExportSettings>; error?: string } {
+  const data: Partial<BackupExportSettings> = {}
+
+  if (body.gitRepositoryPath !== undefined) {
+    if (typeof body.gitRepositoryPath !== 'string') {
+      return { error: 'Git repository path must be a string' }
+    }
+    const repositoryPath = body.gitRepositoryPath.trim()
+    if (repositoryPath && (!path.isAbsolute(repositoryPath) || path.resolve(repositoryPath) === path.parse(repositoryPath).root)) {
+      return { error: 'Git repository path must be an absolute path below the filesystem root' }
+    }
+    data.gitRepositoryPath = repositoryPath
+  }
+
+  if (body.includeVersions !== undefined) {
+    data.includeVersions = Boolean(body.includeVersions)
+  }
+
+  if (Object.keys(data).length === 0) {
+    return { error: 'No backup settings provided' }
+  }
+
+  return { data }
+}
+
+/**
+ * File-system friendly version of a name, e.g. "Sync CRM / Leads" -> "Sync-CRM-Leads"
+ */
+function slugify(name: string, fallback: string): string {
+  const slug = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '')
+    .slice(0, 80)
+  return slug || fallback
+}
+
+/**
+ * Backup Export Service
+ * Writes every workflow's latest definition (and optionally all versions) as
+ * provider/workflow-name.json into a tar.gz/zip archive or a local git repository.
+ * Credentials are stripped from every exported file.
+ */
+export class BackupExportService {
+  private db: Database
+
+  constructor() {
+    this.db = getDb()
+  }
+
+  async getSettings(): Promise<BackupExportSettings> {
+    const config = getConfigManager()
+    await config.initialize()
+
+    const repositoryPath = await config.get('backup.git_repository_path')
+    const includeVersions = await config.get('backup.include_versions')
+
+    return {
+      gitRepositoryPath: repositoryPath ? String(repositoryPath) : '',
+      includeVersions: String(includeVersions) === 'true'
+    }
+  }
+
+  async updateSettings(data: Partial<BackupExportSettings>, changedBy?: string): Promise<BackupExportSettings> {
+    const config = getConfigManager()
+    await config.initialize()
+
+    if (data.gitRepositoryPath !== undefined) {
+      await config.set('backup.git_repository_path', data.gitRepositoryPath, { changedBy })
+    }
+
+    if (data.includeVersions !== undefined) {
+      await config.set('backup.include_versions', data.includeVersions, { changedBy })
+    }
+
+    return this.getSettings()
+  }
+
+  /**
+   * Build the export tree: provider/workflow-name.json for the latest definition,
+   * provider/workflow-name/versions/vN.json for each stored version
+   */
+  async collectEntries(includeVersions: boolean): Promise<{ entries: ArchiveEntry[]; workflowCount: number }> {
+    const workflows = await this.all(
+      `SELECT
+        w.id,
+        w.provider_id,
+        w.provider_workflow_id,
+        w.name,
+        w.updated_at,
+        w.workflow_data,
+        p.name as provider_name,
+        (SELECT v.workflow_data FROM workflow_versions v
+          WHERE v.workflow_id = w.id
+          ORDER BY v.version_number DESC
+          LIMIT 1) as latest_version_data
+      FROM workflows w
+      LEFT JOIN providers p ON p.id = w.provider_id
+      ORDER BY p.name, w.name, w.provider_workflow_id`
+    )
+
+    const versionsByWorkflow = new Map<string, any[]>()
+    if (includeVersions) {
+      const versions = await this.all(
+        `SELECT workflow_id, version_number, workflow_data, workflow_updated_at, created_at
+        FROM workflow_versions
+        ORDER BY workflow_id, version_number`
+      )
+      for (const version of versions) {
+        const list = versionsByWorkflow.get(version.workflow_id) || []
+        list.push(version)
+        versionsByWorkflow.set(version.workflow_id, list)
+      }
+    }
+
+    // Workflows sharing a name within a provider get their ID appended so files never collide
+    const nameCounts = new Map<string, number>()
+    for (const workflow of workflows) {
+      const key = `${workflow.provider_id}/${slugify(workflow.name, 'workflow').toLowerCase()}`
+      nameCounts.set(key, (nameCounts.get(key) || 0) + 1)
+    }
+
+    const entries: ArchiveEntry[] = []
+    let workflowCount = 0
+
+    for (const workflow of workflows) {
+      const definition = this.parseDefinition(workflow.latest_version_data || workflow.workflow_data)
+      if (!definition) continue
+
+      const providerDir = slugify(workflow.provider_name || workflow.provider_id || 'provider', 'provider')
+      const baseName = slugify(workflow.name, 'workflow')
+      const fileName = nameCounts.get(`${workflow.provider_id}/${baseName.toLowerCase()}`)! > 1
+        ? `${baseName}-${slugify(workflow.provider_workflow_id, 'id')}`
+        : baseName
+
+      entries.push({
+        path: `${providerDir}/${fileName}.json`,
+        content: this.serialize(definition),
+        modifiedAt: workflow.updated_at ? new Date(workflow.updated_at) : undefined
+      })
+      workflowCount++
+
+      for (const version of versionsByWorkflow.get(workflow.id) || []) {
+        const versionDefinition = this.parseDefinition(version.workflow_data)
+        if (!versionDefinition) continue
+
+        entries.push({
+          path: `${providerDir}/${fileName}/versions/v${version.version_number}.json`,
+          content: this.serialize(versionDefinition),
+          modifiedAt: new Date(version.workflow_updated_at || version.created_at)
+        })
+      }
+    }
+
+    return { entries, workflowCount }
+  }
+
+  async createArchive(format: BackupArchiveFormat, includeVersions: boolean): Promise<{ buffer: Buffer; filename: string; contentType: string }> {
+    const { entries, workflowCount } = await this.collectEntries(includeVersions)
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')
+
+    console.log(`📦 Exporting ${workflowCount} workflows (${entries.length} files) as ${format}`)
+
+    return format === 'zip'
+      ? { buffer: createZip(entries), filename: `elova-workflows-${stamp}.zip`, contentType: 'application/zip' }
+      : { buffer: createTarGz(entries), filename: `elova-workflows-${stamp}.tar.gz`, contentType: 'application/gzip' }
+  }
+
+  /**
+   * Write the export tree into the configured git repository and commit when anything changed.
+   * Returns null when no repository path is configured.
+   */
+  async exportToGit(): Promise<BackupGitExportResult | null> {
+    const settings = await this.getSettings()
+    if (!settings.gitRepositoryPath) return null
+
+    const startedAt = Date.now()
+    const repositoryPath = settings.gitRepositoryPath
+    const { entries, workflowCount } = await this.collectEntries(settings.includeVersions)
+
+    await fs.mkdir(repositoryPath, { recursive: true })
+    const isRepository = await fs.stat(path.join(repositoryPath, '.git')).then(() => true, () => false)
+    if (!isRepository) {
+      await this.git(repositoryPath, ['init', '-q'])
+      console.log(`🗃️ Initialized backup git repository at ${repositoryPath}`)
+    }
+
+    // Remove files from the previous export that no longer exist
+    const previousFiles = await this.readManifest(repositoryPath)
+    const currentFiles = new Set(entries.map(entry => entry.path))
+    let filesRemoved = 0
+    for (const file of previousFiles) {
+      if (currentFiles.has(file)) continue
+      await fs.rm(this.resolveInRepository(repositoryPath, file), { force: true })
+      await this.removeEmptyParents(repositoryPath, file)
+      filesRemoved++
+    }
+
+    let filesWritten = 0
+    for (const entry of entries) {
+      const target = this.resolveInRepository(repositoryPath, entry.path)
+      const existing = await fs.readFile(target, 'utf8').catch(() => null)
+      if (existing === entry.content) continue
+
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      await fs.writeFile(target, entry.content, 'utf8')
+      filesWritten++
+    }
+
+    await fs.writeFile(
+      path.join(repositoryPath, MANIFEST_FILE),
+      `${JSON.stringify({ files: Array.from(currentFiles).sort() }, null, 2)}\n`,
+      'utf8'
+    )
+
+    await this.git(repositoryPath, ['add', '-A'])
+    const status = await this.git(repositoryPath, ['status', '--porcelain'])
+
+    let commit: string | undefined
+    if (status.trim()) {
+      // Use the repository's own identity when configured, otherwise commit as Elova
+      const hasIdentity = await this.git(repositoryPath, ['config', 'user.email']).then(value => Boolean(value.trim()), () => false)
+      const identity = hasIdentity ? [] : ['-c', 'user.name=Elova', '-c', 'user.email=backups@elova.local']
+      const message = `Backup ${workflowCount} workflows (${new Date().toISOString()})`
+
+      await this.git(repositoryPath, [...identity, 'commit', '-q', '-m', message])
+      commit = (await this.git(repositoryPath, ['rev-parse', '--short', 'HEAD'])).trim()
+    }
+
+    const result: BackupGitExportResult = {
+      repositoryPath,
+      workflowCount,
+      filesWritten,
+      filesRemoved,
+      committed: Boolean(commit),
+      commit,
+      durationMs: Date.now() - startedAt
+    }
+
+    console.log('✅ Git backup export completed:', result)
+    return result
+  }
+
+  private parseDefinition(json: string | null): Record<string, any> | null {
+    if (!json) return null
+    try {
+      const definition = JSON.parse(json)
+      return Array.isArray(definition?.nodes) ? definition : null
+    } catch {
+      return null
+    }
+  }
+
+  private serialize(definition: Record<string, any>): string {
+    return `${JSON.stringify(stripCredentials(definition), null, 2)}\n`
+  }
+
+  /**
+   * Resolve a relative export path, refusing anything that escapes the repository
+   */
+  private resolveInRepository(repositoryPath: string, file: string): string {
+    const target = path.resolve(repositoryPath, file)
+    if (!target.startsWith(path.resolve(repositoryPath) + path.sep)) {
+      throw new Error(`Refusing to write outside the backup repository: ${file}`)
+    }
+    return target
+  }
+
+  private async removeEmptyParents(repositoryPath: string, file: string) {
+    let dir = path.dirname(file)
+    while (dir && dir !== '.') {
+      try {
+        await fs.rmdir(this.resolveInRepository(repositoryPath, dir))
+      } catch {
+        return // Not empty
+      }
+      dir = path.dirname(dir)
+    }
+  }
+
+  private async readManifest(repositoryPath: string): Promise<string[]> {
+    try {
+      const manifest = JSON.parse(await fs.readFile(path.join(repositoryPath, MANIFEST_FILE), 'utf8'))
+      return Array.isArray(manifest.files) ? manifest.files : []
+    } catch {
+      return []
+    }
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd, timeout: GIT_TIMEOUT_MS })
+    return stdout
+  }
+
+  private all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) reject(err)
+        else resolve(rows || [])
+      })
+    })
+  }
+}
+
+// Export singleton instance
+let backupExportService: BackupExportService | null = null
+
+export function getBackupExportService(): BackupExportService {
+  if (!backupExportService) {
+    backupExportService = new BackupExportService()
+  }
+  return backupExportService
+}
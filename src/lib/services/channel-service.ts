@@ -0,0 +1,207 @@
+import { Database } from 'sqlite3'
+import { getDb } from '@/lib/db'
+import { NotificationChannel, NotificationChannelType } from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+export type NotificationChannelInput = Pick<NotificationChannel, 'name' | 'type' | 'url' | 'isEnabled'>
+
+const CHANNEL_TYPES: NotificationChannelType[] = ['slack', 'teams', 'webhook']
+
+/**
+ * Validate a request body describing a notification channel.
+ * With partial=true only the provided fields are validated (for updates).
+ */
+export function validateChannelInput(body: any, partial = false): { data?: Partial<NotificationChannelInput>; error?: string } {
+  const data: Partial<NotificationChannelInput> = {}
+
+  if (!partial || body.name !== undefined) {
+    if (!body.name || typeof body.name !== 'string' || body.name.trim().length === 0) {
+      return { error: 'Channel name is required' }
+    }
+    data.name = body.name.trim()
+  }
+
+  if (!partial || body.type !== undefined) {
+    if (!CHANNEL_TYPES.includes(body.type)) {
+      return { error: `Channel type must be one of ${CHANNEL_TYPES.join(', ')}` }
+    }
+    data.type = body.type
+  }
+
+  if (!partial || body.url !== undefined) {
+    const urlError = validateChannelUrl(body.url)
+    if (urlError) {
+      return { error: urlError }
+    }
+    data.url = body.url.trim()
+  }
+
+  if (body.isEnabled !== undefined) {
+    data.isEnabled = Boolean(body.isEnabled)
+  } else if (!partial) {
+    data.isEnabled = true
+  }
+
+  return { data }
+}
+
+export function validateChannelUrl(url: unknown): string | null {
+  if (!url || typeof url !== 'string') {
+    return 'Webhook URL is required'
+  }
+
+  try {
+    const parsed = new URL(url.trim())
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return 'Webhook URL must use http or https'
+    }
+  } catch {
+    return 'Webhook URL is not a valid URL'
+  }
+
+  return null
+}
+
+/**
+ * Notification Channel Service
+ * Persists Slack, Teams and generic webhook channels used by alert rules
+ */
+export class NotificationChannelService {
+  private db: Database
+
+  constructor() {
+    this.db = getDb()
+  }
+
+  async listChannels(): Promise<NotificationChannel[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM notification_channels ORDER BY name ASC', [], (err, rows: any[]) => {
+        if (err) reject(err)
+        else resolve((rows || []).map(row => this.mapChannel(row)))
+      })
+    })
+  }
+
+  async getChannel(channelId: string): Promise<NotificationChannel | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM notification_channels WHERE id = ?', [channelId], (err, row: any) => {
+        if (err) reject(err)
+        else resolve(row ? this.mapChannel(row) : null)
+      })
+    })
+  }
+
+  async createChannel(data: NotificationChannelInput): Promise<NotificationChannel> {
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO notification_channels (id, name, type, url, is_enabled, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [id, data.name, data.type, data.url, data.isEnabled ? 1 : 0, now, now],
+        (err) => {
+          if (err) reject(err)
+          else resolve()
+        }
+      )
+    })
+
+    const channel = await this.getChannel(id)
+    if (!channel) {
+      throw new Error('Notification channel not found after create')
+    }
+    return channel
+  }
+
+  async updateChannel(channelId: string, data: Partial<NotificationChannelInput>): Promise<NotificationChannel | null> {
+    const updates: string[] = []
+    const values: any[] = []
+
+    if (data.name !== undefined) {
+      updates.push('name = ?')
+      values.push(data.name)
+    }
+    if (data.type !== undefined) {
+      updates.push('type = ?')
+      values.push(data.type)
+    }
+    if (data.url !== undefined) {
+      updates.push('url = ?')
+      values.push(data.url)
+    }
+    if (data.isEnabled !== undefined) {
+      updates.push('is_enabled = ?')
+      values.push(data.isEnabled ? 1 : 0)
+    }
+
+    if (updates.length === 0) {
+      throw new Error('No fields to update')
+    }
+
+    updates.push('updated_at = ?')
+    values.push(new Date().toISOString(), channelId)
+
+    const changes = await new Promise<number>((resolve, reject) => {
+      this.db.run(
+        `UPDATE notification_channels SET ${updates.join(', ')} WHERE id = ?`,
+        values,
+        function (err) {
+          if (err) reject(err)
+          else resolve(this.changes)
+        }
+      )
+    })
+
+    return changes > 0 ? this.getChannel(channelId) : null
+  }
+
+  /**
+   * Delete a channel and detach it from any alert rules that reference it
+   */
+  async deleteChannel(channelId: string): Promise<boolean> {
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(
+        `UPDATE alert_rules
+        SET channel_ids = (
+          SELECT json_group_array(value) FROM json_each(alert_rules.channel_ids) WHERE value != ?
+        )
+        WHERE channel_ids LIKE ?`,
+        [channelId, `%${channelId}%`],
+        (err) => {
+          if (err) reject(err)
+          else resolve()
+        }
+      )
+    })
+
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM notification_channels WHERE id = ?', [channelId], function (err) {
+        if (err) reject(err)
+        else resolve(this.changes > 0)
+      })
+    })
+  }
+
+  private mapChannel(row: any): NotificationChannel {
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      url: row.url,
+      isEnabled: Boolean(row.is_enabled),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+}
+
+// Export singleton instance
+let channelService: NotificationChannelService | null = null
+
+export function getChannelService(): NotificationChannelService {
+  if (!channelService) {
+    channelService = new NotificationChannelService()
+  }
+  return channelService
+}
@@ -0,0 +1,404 @@
+import { Database } from 'sqlite3'
+import { getDb } from '@/lib/db'
+import { getConfigManager } from '@/lib/config/config-manager'
+import { getAppTimeZone, resolveTimeZone, startOfZoned, toWallTime } from '@/lib/timezone'
+import { CronSchedule, fireTimesBetween, parseSchedule } from '@/lib/cron/cron-schedule'
+import { CronCalendar, CronCalendarBucket, CronCalendarRange, CronCollision, CronRunCheck, CronRunOccurrence } from '@/types'
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+export const DEFAULT_LOOKBACK_DAYS = 7
+export const DEFAULT_TOLERANCE_MS = 2 * 60 * 1000
+
+// Leave time for the execution sync to pick up runs before a fire time is judged
+const SETTLE_MS = 5 * 60 * 1000
+
+// Runs starting slightly before their fire time (clock skew) still belong to it
+const EARLY_SLACK_MS = 5 * 1000
+
+// Bounds the work for very frequent schedules such as "Every 10 seconds"
+const MAX_EXPECTED_RUNS = 2000
+
+// Recent runs used to place interval schedules
+const ANCHOR_RUNS = 50
+
+const MAX_ISSUES = 20
+
+export const DEFAULT_COLLISION_THRESHOLD = 3
+const MAX_COLLISIONS = 50
+
+// The day calendar has a cell per minute from the current hour, the week calendar
+// a cell per hour from the current day
+const CALENDAR_RANGES: Record<CronCalendarRange, { bucketMs: number; startOf: 'hour' | 'day'; lengthMs: number; historyDays: number }> = {
+  day: { bucketMs: MINUTE_MS, startOf: 'hour', lengthMs: DAY_MS, historyDays: 7 },
+  week: { bucketMs: HOUR_MS, startOf: 'day', lengthMs: 7 * DAY_MS, historyDays: 28 }
+}
+
+// Timezone overrides, read from the workflow settings and the provider metadata
+const TIMEZONE_COLUMNS = `
+  CASE WHEN json_valid(w.workflow_data) THEN json_extract(w.workflow_data, '$.settings.timezone') END as workflow_timezone,
+  CASE WHEN json_valid(p.metadata) THEN json_extract(p.metadata, '$.timezone') END as provider_timezone`
+
+interface ScheduledWorkflow {
+  id: string
+  is_active: number
+  is_archived: number | null
+  cron_schedules: string | null
+  updated_at: string | null
+  workflow_timezone: string | null
+  provider_timezone: string | null
+}
+
+/**
+ * Cron Run Service
+ * Compares the expected fire times of scheduled workflows with the executions
+ * recorded in mode 'cron' to find missed, late and duplicate runs, and lays out
+ * upcoming fire times to find minutes where many workflows hit one provider
+ */
+export class CronRunService {
+  private db: Database
+
+  constructor() {
+    this.db = getDb()
+  }
+
+  /**
+   * Check the schedules of the given workflows (internal IDs).
+   * Inactive and archived workflows are not expected to run and get no check.
+   */
+  async checkWorkflows(
+    workflowIds: string[],
+    options: { lookbackDays?: number; toleranceMs?: number; now?: Date } = {}
+  ): Promise<Map<string, CronRunCheck>> {
+    const checks = new Map<string, CronRunCheck>()
+    if (workflowIds.length === 0) return checks
+
+    const workflows: ScheduledWorkflow[] = await this.all(
+      `SELECT w.id, w.is_active, w.is_archived, w.cron_schedules, w.updated_at, ${TIMEZONE_COLUMNS}
+      FROM workflows w
+      LEFT JOIN providers p ON p.id = w.provider_id
+      WHERE w.id IN (${workflowIds.map(() => '?').join(', ')})`,
+      workflowIds
+    )
+
+    const appTimeZone = await getAppTimeZone(getConfigManager())
+    for (const workflow of workflows) {
+      if (workflow.is_active !== 1 || workflow.is_archived === 1) continue
+      checks.set(workflow.id, await this.checkWorkflow(workflow, appTimeZone, options))
+    }
+
+    return checks
+  }
+
+  /**
+   * Upcoming fire times of a user's active workflows, next to the average executions
+   * actually seen in each slot. Each workflow fires in its own timezone; cells are
+   * laid out in `timeZone`, the app timezone by default.
+   */
+  async getCalendar(
+    userId: string,
+    options: { range: CronCalendarRange; providerId?: string; collisionThreshold?: number; timeZone?: string; now?: Date }
+  ): Promise<CronCalendar> {
+    const { bucketMs, startOf, lengthMs, historyDays } = CALENDAR_RANGES[options.range]
+    const appTimeZone = await getAppTimeZone(getConfigManager())
+    const timeZone = resolveTimeZone(options.timeZone, appTimeZone)
+    const now = (options.now || new Date()).getTime()
+    const from = startOfZoned(now, startOf, timeZone)
+    const to = from + lengthMs
+    const collisionThreshold = options.collisionThreshold || DEFAULT_COLLISION_THRESHOLD
+
+    const conditions = [
+      'p.user_id = ?',
+      'w.is_active = 1',
+      'COALESCE(w.is_archived, 0) = 0',
+      "w.cron_schedules IS NOT NULL AND w.cron_schedules != '[]'"
+    ]
+    const params: any[] = [userId]
+    if (options.providerId) {
+      conditions.push('w.provider_id = ?')
+      params.push(options.providerId)
+    }
+
+    const workflows = await this.all(
+      `SELECT w.id, w.provider_id, w.provider_workflow_id, w.name, w.is_active, w.is_archived,
+        w.cron_schedules, w.updated_at, p.name as provider_name, ${TIMEZONE_COLUMNS}
+      FROM workflows w
+      JOIN providers p ON p.id = w.provider_id
+      WHERE ${conditions.join(' AND ')}`,
+      params
+    )
+
+    const buckets: CronCalendarBucket[] = []
+    for (let start = from; start < to; start += bucketMs) {
+      buckets.push({ start: new Date(start), scheduledRuns: 0, peakConcurrency: 0, historicalAvg: 0 })
+    }
+
+    const collisions = new Map<string, CronCollision>()
+    const unsupportedSchedules: CronCalendar['unsupportedSchedules'] = []
+
+    for (const workflow of workflows) {
+      const { schedules, unsupportedSchedules: unsupported } = await this.loadSchedules(workflow, appTimeZone)
+      unsupported.forEach(expression => unsupportedSchedules.push({
+        workflowId: workflow.provider_workflow_id,
+        workflowName: workflow.name,
+        expression
+      }))
+
+      // A workflow firing several times within a minute still counts once
+      const minutes = new Set<number>()
+      for (const schedule of schedules) {
+        let time = schedule.next(from - 1)
+        while (time !== null && time < to) {
+          const minute = Math.floor(time / MINUTE_MS) * MINUTE_MS
+          minutes.add(minute)
+          time = schedule.next(minute + MINUTE_MS - 1)
+        }
+      }
+
+      for (const minute of minutes) {
+        buckets[Math.floor((minute - from) / bucketMs)].scheduledRuns++
+
+        const key = `${workflow.provider_id}:${minute}`
+        const collision: CronCollision = collisions.get(key) || {
+          minute: new Date(minute),
+          providerId: workflow.provider_id,
+          providerName: workflow.provider_name,
+          workflows: []
+        }
+        collision.workflows.push({ id: workflow.provider_workflow_id, name: workflow.name })
+        collisions.set(key, collision)
+      }
+    }
+
+    for (const collision of collisions.values()) {
+      const bucket = buckets[Math.floor((collision.minute.getTime() - from) / bucketMs)]
+      bucket.peakConcurrency = Math.max(bucket.peakConcurrency, collision.workflows.length)
+    }
+
+    const history = await this.getHistoricalLoad(userId, options.range, timeZone, new Date(now - historyDays * DAY_MS), options.providerId)
+    for (const bucket of buckets) {
+      const slot = this.historySlot(options.range, bucket.start.getTime(), timeZone)
+      bucket.historicalAvg = Math.round(((history.get(slot) || 0) / historyDays) * 100) / 100
+    }
+
+    return {
+      range: options.range,
+      timeZone,
+      from: new Date(from),
+      to: new Date(to),
+      bucketMinutes: bucketMs / MINUTE_MS,
+      collisionThreshold,
+      historyDays,
+      buckets,
+      collisions: Array.from(collisions.values())
+        .filter(collision => collision.workflows.length >= collisionThreshold)
+        .sort((a, b) => b.workflows.length - a.workflows.length || a.minute.getTime() - b.minute.getTime())
+        .slice(0, MAX_COLLISIONS),
+      unsupportedSchedules
+    }
+  }
+
+  private async checkWorkflow(
+    workflow: ScheduledWorkflow,
+    appTimeZone: string | null,
+    options: { lookbackDays?: number; toleranceMs?: number; now?: Date }
+  ): Promise<CronRunCheck> {
+    const now = (options.now || new Date()).getTime()
+    const windowEnd = now - SETTLE_MS
+
+    const { schedules, unsupportedSchedules, lastRunAt, timeZone } = await this.loadSchedules(workflow, appTimeZone)
+
+    // Fire times before the last edit may belong to an older schedule
+    const updatedAt = workflow.updated_at ? Date.parse(workflow.updated_at) : NaN
+    let windowStart = Math.max(now - (options.lookbackDays || DEFAULT_LOOKBACK_DAYS) * DAY_MS, Number.isNaN(updatedAt) ? 0 : updatedAt)
+
+    const expectedTimes = () => Array.from(new Set(
+      schedules.flatMap(schedule => fireTimesBetween(schedule, windowStart, now, MAX_EXPECTED_RUNS + 1))
+    )).sort((a, b) => a - b)
+
+    let fireTimes = expectedTimes()
+    if (fireTimes.length > MAX_EXPECTED_RUNS) {
+      const spacing = (fireTimes[fireTimes.length - 1] - fireTimes[0]) / (fireTimes.length - 1)
+      windowStart = Math.max(windowStart, now - spacing * MAX_EXPECTED_RUNS)
+      fireTimes = expectedTimes().slice(-MAX_EXPECTED_RUNS)
+    }
+
+    // A run can only be late until the next fire time
+    let minSpacing = Infinity
+    for (let i = 1; i < fireTimes.length; i++) {
+      minSpacing = Math.min(minSpacing, fireTimes[i] - fireTimes[i - 1])
+    }
+    const toleranceMs = Math.max(0, Math.min(options.toleranceMs ?? DEFAULT_TOLERANCE_MS, minSpacing / 2))
+
+    const runs = await this.all(
+      `SELECT id, started_at FROM executions
+      WHERE workflow_id = ? AND mode = 'cron' AND started_at >= ?
+      ORDER BY started_at ASC`,
+      [workflow.id, new Date(windowStart - EARLY_SLACK_MS).toISOString()]
+    )
+
+    const occurrences = this.matchRuns(fireTimes, runs, toleranceMs)
+      .filter(occurrence => occurrence.expectedAt.getTime() + toleranceMs <= windowEnd)
+
+    const nextRuns = schedules
+      .map(schedule => schedule.next(now))
+      .filter((time): time is number => time !== null)
+
+    return {
+      windowStart: new Date(windowStart),
+      windowEnd: new Date(windowEnd),
+      timeZone,
+      toleranceMs,
+      expectedRuns: occurrences.length,
+      onTimeRuns: occurrences.filter(occurrence => occurrence.timing === 'on_time').length,
+      lateRuns: occurrences.filter(occurrence => occurrence.timing === 'late').length,
+      missedRuns: occurrences.filter(occurrence => occurrence.timing === 'missed').length,
+      duplicateRuns: occurrences.reduce((sum, occurrence) => sum + occurrence.duplicates, 0),
+      lastRunAt: lastRunAt !== null ? new Date(lastRunAt) : null,
+      nextRunAt: nextRuns.length > 0 ? new Date(Math.min(...nextRuns)) : null,
+      unsupportedSchedules,
+      issues: occurrences
+        .filter(occurrence => occurrence.timing !== 'on_time' || occurrence.duplicates > 0)
+        .reverse()
+        .slice(0, MAX_ISSUES)
+    }
+  }
+
+  /**
+   * Executions of all modes per minute of day (day) or hour of week (week) in a timezone,
+   * since webhook and manual traffic load a provider just as much as scheduled runs
+   */
+  private async getHistoricalLoad(
+    userId: string,
+    range: CronCalendarRange,
+    timeZone: string,
+    since: Date,
+    providerId?: string
+  ): Promise<Map<string, number>> {
+    // Counted per UTC minute or hour in SQL, then moved to local slots
+    const rows = await this.all(
+      `SELECT substr(e.started_at, 1, ${range === 'day' ? 16 : 13}) as period, COUNT(*) as total
+      FROM executions e
+      JOIN providers p ON p.id = e.provider_id
+      WHERE p.user_id = ? AND e.started_at >= ? ${providerId ? 'AND e.provider_id = ?' : ''}
+      GROUP BY period`,
+      [userId, since.toISOString(), ...(providerId ? [providerId] : [])]
+    )
+
+    const history = new Map<string, number>()
+    for (const row of rows) {
+      const start = Date.parse(range === 'day' ? `${row.period}:00.000Z` : `${row.period}:00:00.000Z`)
+      if (Number.isNaN(start)) continue
+
+      const slot = this.historySlot(range, start, timeZone)
+      history.set(slot, (history.get(slot) || 0) + (Number(row.total) || 0))
+    }
+    return history
+  }
+
+  private historySlot(range: CronCalendarRange, time: number, timeZone: string): string {
+    const wall = new Date(toWallTime(time, timeZone))
+    const hour = String(wall.getUTCHours()).padStart(2, '0')
+    return range === 'day'
+      ? `${hour}:${String(wall.getUTCMinutes()).padStart(2, '0')}`
+      : `${wall.getUTCDay()}-${hour}`
+  }
+
+  /**
+   * Parse the stored schedules of a workflow. Like n8n, schedules run in the workflow's
+   * timezone setting, else the instance default (provider metadata), else the app
+   * timezone. Interval schedules take their offset from recent runs, see parseSchedule.
+   */
+  private async loadSchedules(workflow: ScheduledWorkflow, appTimeZone: string | null): Promise<{
+    schedules: CronSchedule[]
+    unsupportedSchedules: string[]
+    lastRunAt: number | null
+    timeZone: string
+  }> {
+    const timeZone = resolveTimeZone(workflow.workflow_timezone, workflow.provider_timezone, appTimeZone)
+
+    const recentRuns = (await this.all(
+      `SELECT started_at FROM executions
+      WHERE workflow_id = ? AND mode = 'cron'
+      ORDER BY started_at DESC
+      LIMIT ?`,
+      [workflow.id, ANCHOR_RUNS]
+    )).map(row => Date.parse(row.started_at)).reverse()
+
+    let expressions: string[] = []
+    try {
+      expressions = JSON.parse(workflow.cron_schedules || '[]').map((schedule: any) => schedule.cronExpression)
+    } catch (error) {
+      console.error(`Failed to parse cron schedules of workflow ${workflow.id}:`, error)
+    }
+
+    const schedules: CronSchedule[] = []
+    const unsupportedSchedules: string[] = []
+    for (const expression of expressions) {
+      const schedule = expression ? parseSchedule(expression, recentRuns, timeZone) : null
+      if (schedule) schedules.push(schedule)
+      else unsupportedSchedules.push(expression)
+    }
+
+    return {
+      schedules,
+      unsupportedSchedules,
+      lastRunAt: recentRuns.length > 0 ? recentRuns[recentRuns.length - 1] : null,
+      timeZone
+    }
+  }
+
+  /**
+   * Attribute each run to the latest fire time at or before its start. The first run
+   * of a fire time decides whether it was on time or late, any further runs are duplicates.
+   * Runs before the first fire time belong to an earlier schedule and are ignored.
+   */
+  private matchRuns(fireTimes: number[], runs: { id: string; started_at: string }[], toleranceMs: number): CronRunOccurrence[] {
+    const runsByFireTime: { id: string; startedAt: number }[][] = fireTimes.map(() => [])
+
+    let index = -1
+    for (const run of runs) {
+      const startedAt = Date.parse(run.started_at)
+      while (index + 1 < fireTimes.length && fireTimes[index + 1] <= startedAt + EARLY_SLACK_MS) {
+        index++
+      }
+      if (index >= 0) {
+        runsByFireTime[index].push({ id: run.id, startedAt })
+      }
+    }
+
+    return fireTimes.map((fireTime, i) => {
+      const matched = runsByFireTime[i]
+      const delayMs = matched.length > 0 ? Math.max(0, matched[0].startedAt - fireTime) : null
+
+      return {
+        expectedAt: new Date(fireTime),
+        timing: delayMs === null ? 'missed' : delayMs > toleranceMs ? 'late' : 'on_time',
+        delayMs,
+        executionIds: matched.map(run => run.id),
+        duplicates: Math.max(0, matched.length - 1)
+      }
+    })
+  }
+
+  private all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) reject(err)
+        else resolve(rows || [])
+      })
+    })
+  }
+}
+
+// Export singleton instance
+let cronRunService: CronRunService | null = null
+
+export function getCronRunService(): CronRunService {
+  if (!cronRunService) {
+    cronRunService = new CronRunService()
+  }
+  return cronRunService
+}
@@ -0,0 +1,677 @@
+import { Database } from 'sqlite3'
+import { createHash } from 'crypto'
+import { getDb } from '@/lib/db'
+import { getWorkflowVersionService } from '@/lib/services/workflow-version-service'
+import {
+  ErrorIssue,
+  ErrorIssueDetail,
+  ErrorIssueOccurrence,
+  ErrorIssueStatus,
+  ExecutionErrorAnalysis,
+  ExecutionNodeInput
+} from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+export interface ExecutionErrorInfo {
+  nodeName: string | null
+  nodeType: string | null
+  errorName: string | null
+  message: string // First line of the reported message
+  title: string // Message with volatile parts (ids, numbers, timestamps) replaced
+  httpStatus: number | null
+  fingerprint: string
+}
+
+export interface FailingNode {
+  nodeName: string | null
+  nodeType: string | null
+  runIndex: number | null // Run of the node in runData that failed, null when it never ran
+  source: 'error' | 'run_data' | 'last_node' | null // Where the node was identified from
+}
+
+export type ErrorIssueStatusFilter = ErrorIssueStatus | 'open' | 'all'
+
+export type ErrorIssueSort = 'last_seen' | 'first_seen' | 'occurrences'
+
+// Statuses a user can set; 'regressed' is only set when a resolved issue is seen again
+export const SETTABLE_ISSUE_STATUSES: ErrorIssueStatus[] = ['unresolved', 'resolved', 'ignored']
+
+const MAX_MESSAGE_LENGTH = 500
+const BACKFILL_BATCH_SIZE = 200
+const DAY_MS = 24 * 60 * 60 * 1000
+const HISTORY_DAYS = 30
+const LATEST_OCCURRENCES = 25
+const SAME_NODE_FAILURES = 10
+const MAX_INPUT_ITEMS = 50
+
+// Applied in order, so specific shapes are replaced before bare numbers
+const MESSAGE_NORMALIZERS: [RegExp, string][] = [
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g, '<timestamp>'],
+  [/[\w.+-]+@[\w-]+(\.[\w-]+)+/g, '<email>'],
+  [/(https?:\/\/[^\s?#"'`]+)[?#][^\s"'`]*/g, '$1'],
+  [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{12,}\b/gi, '<id>'],
+  [/\d+(\.\d+)?/g, '<n>'],
+  [/\s+/g, ' ']
+]
+
+const ORDER_BY: Record<ErrorIssueSort, string> = {
+  last_seen: 'i.last_seen_at DESC',
+  first_seen: 'i.first_seen_at DESC',
+  occurrences: 'occurrences DESC, i.last_seen_at DESC'
+}
+
+export function normalizeErrorMessage(message: string): string {
+  return MESSAGE_NORMALIZERS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), message).trim()
+}
+
+function toHttpStatus(value: unknown): number | null {
+  const status = typeof value === 'number' ? value : typeof value === 'string' && /^\d{3}$/.test(value.trim()) ? parseInt(value) : NaN
+  return Number.isInteger(status) && status >= 100 && status <= 599 ? status : null
+}
+
+function extractHttpStatus(error: any, message: string): number | null {
+  const candidates = [
+    error?.httpCode,
+    error?.statusCode,
+    error?.status,
+    error?.context?.httpCode,
+    error?.cause?.status,
+    error?.cause?.statusCode,
+    error?.response?.status
+  ]
+  for (const candidate of candidates) {
+    const status = toHttpStatus(candidate)
+    if (status !== null) return status
+  }
+
+  // "Request failed with status code 404" or n8n's "404 - {...}"
+  const match = message.match(/\bstatus code (\d{3})\b/i) || message.match(/^(\d{3}) - /)
+  return match ? toHttpStatus(match[1]) : null
+}
+
+/**
+ * The last node run that reported an error, from resultData.runData
+ */
+function findFailedNodeRun(runData: any): { nodeName: string; runIndex: number; error: any } | null {
+  if (!runData || typeof runData !== 'object') return null
+
+  let failed: { nodeName: string; runIndex: number; error: any; startTime: number } | null = null
+  for (const [nodeName, runs] of Object.entries(runData)) {
+    if (!Array.isArray(runs)) continue
+    for (let runIndex = 0; runIndex < runs.length; runIndex++) {
+      const run = runs[runIndex]
+      if (!run?.error) continue
+      const startTime = typeof run.startTime === 'number' ? run.startTime : 0
+      if (!failed || startTime >= failed.startTime) {
+        failed = { nodeName, runIndex, error: run.error, startTime }
+      }
+    }
+  }
+  return failed
+}
+
+/**
+ * Find the error of a failed n8n execution and the node that threw it: the node named
+ * by resultData.error, else the last node run with an error, else lastNodeExecuted.
+ */
+export function locateExecutionError(executionData: any, workflowNodes?: { name: string; type?: string }[]): FailingNode & { error: any } {
+  const resultData = executionData?.resultData || {}
+  const failedRun = findFailedNodeRun(resultData.runData)
+  const error = resultData.error || failedRun?.error || {}
+
+  const errorNode = typeof error.node === 'string' ? { name: error.node } : error.node
+  const nodeName: string | null = errorNode?.name || failedRun?.nodeName || resultData.lastNodeExecuted || null
+  const source: FailingNode['source'] = errorNode?.name ? 'error' : failedRun ? 'run_data' : nodeName ? 'last_node' : null
+
+  const runs = nodeName ? resultData.runData?.[nodeName] : null
+  const runIndex = failedRun && failedRun.nodeName === nodeName
+    ? failedRun.runIndex
+    : Array.isArray(runs) && runs.length > 0 ? runs.length - 1 : null
+
+  return {
+    nodeName,
+    nodeType: errorNode?.type || workflowNodes?.find(node => node.name === nodeName)?.type || null,
+    runIndex,
+    source,
+    error
+  }
+}
+
+function summarizeItems(items: unknown): Omit<ExecutionNodeInput, 'sourceNode'> {
+  const list = Array.isArray(items) ? items : []
+  return {
+    items: list.slice(0, MAX_INPUT_ITEMS).map((item: any) => item?.json ?? item),
+    totalItems: list.length
+  }
+}
+
+/**
+ * Input items of a node run, one entry per node input. Uses the run's inputOverride when
+ * n8n kept one, else the outputs of the nodes in run.source. Nodes that failed before a
+ * run was recorded still have their input on the execution stack.
+ */
+function extractNodeInputs(executionData: any, nodeName: string, runIndex: number | null): ExecutionNodeInput[] {
+  const runData = executionData?.resultData?.runData || {}
+  const run = runIndex !== null ? runData[nodeName]?.[runIndex] : null
+
+  if (Array.isArray(run?.inputOverride?.main)) {
+    return run.inputOverride.main.map((items: unknown, index: number) => ({
+      sourceNode: run.source?.[index]?.previousNode || null,
+      ...summarizeItems(items)
+    }))
+  }
+
+  if (Array.isArray(run?.source) && run.source.length > 0) {
+    return run.source.map((source: any) => {
+      if (!source?.previousNode) return { sourceNode: null, items: [], totalItems: 0 }
+      const output = runData[source.previousNode]?.[source.previousNodeRun || 0]?.data?.main?.[source.previousNodeOutput || 0]
+      return { sourceNode: source.previousNode, ...summarizeItems(output) }
+    })
+  }
+
+  const stack = executionData?.executionData?.nodeExecutionStack
+  const waiting = Array.isArray(stack) ? stack.find((entry: any) => entry?.node?.name === nodeName) : null
+  if (Array.isArray(waiting?.data?.main)) {
+    return waiting.data.main.map((items: unknown, index: number) => ({
+      sourceNode: waiting.source?.main?.[index]?.previousNode || null,
+      ...summarizeItems(items)
+    }))
+  }
+
+  return []
+}
+
+function parseJson(value: string | null): any {
+  if (!value) return null
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Normalize the error of a failed n8n execution into the parts issues are grouped by:
+ * the failing node, a fingerprint of the message and the HTTP status.
+ * Executions synced without data are grouped as an unknown error.
+ */
+export function classifyExecutionError(executionData: any, workflowNodes?: { name: string; type?: string }[]): ExecutionErrorInfo {
+  const { nodeName, nodeType, error } = locateExecutionError(executionData, workflowNodes)
+
+  const rawMessage = String(error.message || error.description || 'Unknown error')
+  const message = (rawMessage.split('\n').find(line => line.trim()) || rawMessage).trim().slice(0, MAX_MESSAGE_LENGTH)
+  const httpStatus = extractHttpStatus(error, message)
+  const title = normalizeErrorMessage(message) || 'Unknown error'
+
+  const fingerprint = createHash('sha1')
+    .update([nodeName || '', httpStatus ?? '', title].join('\n'))
+    .digest('hex')
+
+  return {
+    nodeName,
+    nodeType,
+    errorName: typeof error.name === 'string' && error.name !== 'Error' ? error.name : null,
+    message,
+    title,
+    httpStatus,
+    fingerprint
+  }
+}
+
+/**
+ * Attach a failed execution to its issue (creating or regressing the issue) and mark it
+ * as classified. Passing null detaches an execution that is no longer failed.
+ * Takes the connection explicitly so the execution sync can write inside its transaction.
+ */
+export async function writeExecutionError(
+  db: Database,
+  execution: { id: string; providerId: string; workflowId: string; occurredAt: string },
+  info: ExecutionErrorInfo | null
+): Promise<void> {
+  const run = (sql: string, params: any[]) => new Promise<void>((resolve, reject) => {
+    db.run(sql, params, (err) => {
+      if (err) reject(err)
+      else resolve()
+    })
+  })
+  const get = (sql: string, params: any[]) => new Promise<any>((resolve, reject) => {
+    db.get(sql, params, (err, row) => {
+      if (err) reject(err)
+      else resolve(row)
+    })
+  })
+
+  if (!info) {
+    await run('DELETE FROM execution_errors WHERE execution_id = ?', [execution.id])
+    await run('UPDATE executions SET error_classified = 1 WHERE id = ?', [execution.id])
+    return
+  }
+
+  const issue = await get(
+    'SELECT id, status, last_message, first_seen_at, last_seen_at, resolved_at FROM error_issues WHERE provider_id = ? AND fingerprint = ?',
+    [execution.providerId, info.fingerprint]
+  )
+
+  let issueId: string
+  if (!issue) {
+    issueId = uuidv4()
+    await run(
+      `INSERT INTO error_issues (
+        id, provider_id, fingerprint, node_name, node_type, error_name, title, last_message,
+        http_status, status, first_seen_at, last_seen_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'unresolved', ?, ?)`,
+      [
+        issueId, execution.providerId, info.fingerprint, info.nodeName, info.nodeType, info.errorName,
+        info.title, info.message, info.httpStatus, execution.occurredAt, execution.occurredAt
+      ]
+    )
+  } else {
+    issueId = issue.id
+    const isLatest = execution.occurredAt >= issue.last_seen_at
+    const regressed = issue.status === 'resolved' && issue.resolved_at && execution.occurredAt > issue.resolved_at
+
+    await run(
+      `UPDATE error_issues SET
+        first_seen_at = ?, last_seen_at = ?, last_message = ?, status = ?,
+        node_type = COALESCE(node_type, ?), error_name = COALESCE(error_name, ?),
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?`,
+      [
+        execution.occurredAt < issue.first_seen_at ? execution.occurredAt : issue.first_seen_at,
+        isLatest ? execution.occurredAt : issue.last_seen_at,
+        isLatest ? info.message : issue.last_message,
+        regressed ? 'regressed' : issue.status,
+        info.nodeType,
+        info.errorName,
+        issueId
+      ]
+    )
+  }
+
+  await run(
+    `INSERT OR REPLACE INTO execution_errors (
+      execution_id, issue_id, workflow_id, node_name, message, http_status, occurred_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [execution.id, issueId, execution.workflowId, info.nodeName, info.message, info.httpStatus, execution.occurredAt]
+  )
+  await run('UPDATE executions SET error_classified = 1 WHERE id = ?', [execution.id])
+}
+
+/**
+ * Error Issue Service
+ * Failed executions grouped into issues by failing node, message fingerprint and HTTP status
+ */
+export class ErrorIssueService {
+  private db: Database
+
+  constructor() {
+    this.db = getDb()
+  }
+
+  /**
+   * A user's issues with occurrence counts and affected workflows, plus counts per status
+   */
+  async listIssues(
+    userId: string,
+    options: {
+      status?: ErrorIssueStatusFilter
+      providerId?: string
+      workflowId?: string // Provider workflow ID
+      search?: string
+      sort?: ErrorIssueSort
+      limit?: number
+      offset?: number
+    } = {}
+  ): Promise<{ issues: ErrorIssue[]; total: number; statusCounts: Record<ErrorIssueStatus, number> }> {
+    const conditions = ['p.user_id = ?']
+    const params: any[] = [userId]
+
+    if (options.providerId) {
+      conditions.push('i.provider_id = ?')
+      params.push(options.providerId)
+    }
+    if (options.workflowId) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM execution_errors x
+        JOIN workflows xw ON xw.id = x.workflow_id
+        WHERE x.issue_id = i.id AND xw.provider_workflow_id = ?
+      )`)
+      params.push(options.workflowId)
+    }
+    if (options.search) {
+      conditions.push('(i.title LIKE ? OR i.last_message LIKE ? OR i.node_name LIKE ?)')
+      const searchTerm = `%${options.search}%`
+      params.push(searchTerm, searchTerm, searchTerm)
+    }
+
+    // Status counts ignore the status filter so every tab shows its size
+    const countRows = await this.all(
+      `SELECT i.status, COUNT(*) as count
+      FROM error_issues i
+      JOIN providers p ON p.id = i.provider_id
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY i.status`,
+      params
+    )
+    const statusCounts: Record<ErrorIssueStatus, number> = { unresolved: 0, resolved: 0, ignored: 0, regressed: 0 }
+    for (const row of countRows) {
+      if (row.status in statusCounts) statusCounts[row.status as ErrorIssueStatus] = row.count
+    }
+
+    const status = options.status || 'open'
+    if (status === 'open') {
+      conditions.push("i.status IN ('unresolved', 'regressed')")
+    } else if (status !== 'all') {
+      conditions.push('i.status = ?')
+      params.push(status)
+    }
+
+    const totalRow = await this.get(
+      `SELECT COUNT(*) as total
+      FROM error_issues i
+      JOIN providers p ON p.id = i.provider_id
+      WHERE ${conditions.join(' AND ')}`,
+      params
+    )
+
+    const rows = await this.all(
+      `SELECT i.*, p.name as provider_name,
+        COUNT(ee.execution_id) as occurrences,
+        COALESCE(SUM(CASE WHEN ee.occurred_at >= ? THEN 1 ELSE 0 END), 0) as recent_occurrences
+      FROM error_issues i
+      JOIN providers p ON p.id = i.provider_id
+      LEFT JOIN execution_errors ee ON ee.issue_id = i.id
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY i.id
+      ORDER BY ${ORDER_BY[options.sort || 'last_seen']}
+      LIMIT ? OFFSET ?`,
+      [new Date(Date.now() - DAY_MS).toISOString(), ...params, options.limit || 50, options.offset || 0]
+    )
+
+    const workflows = await this.getAffectedWorkflows(rows.map(row => row.id))
+    return {
+      issues: rows.map(row => this.mapIssue(row, workflows.get(row.id) || [])),
+      total: totalRow?.total || 0,
+      statusCounts
+    }
+  }
+
+  /**
+   * An issue with its daily occurrences and latest failed executions
+   */
+  async getIssue(userId: string, issueId: string): Promise<ErrorIssueDetail | null> {
+    const row = await this.get(
+      `SELECT i.*, p.name as provider_name,
+        (SELECT COUNT(*) FROM execution_errors ee WHERE ee.issue_id = i.id) as occurrences,
+        (SELECT COUNT(*) FROM execution_errors ee WHERE ee.issue_id = i.id AND ee.occurred_at >= ?) as recent_occurrences
+      FROM error_issues i
+      JOIN providers p ON p.id = i.provider_id
+      WHERE i.id = ? AND p.user_id = ?`,
+      [new Date(Date.now() - DAY_MS).toISOString(), issueId, userId]
+    )
+    if (!row) return null
+
+    const now = Date.now()
+    const historyStart = new Date(now - (HISTORY_DAYS - 1) * DAY_MS).toISOString().slice(0, 10)
+    const dailyRows = await this.all(
+      `SELECT substr(occurred_at, 1, 10) as date, COUNT(*) as count
+      FROM execution_errors
+      WHERE issue_id = ? AND occurred_at >= ?
+      GROUP BY date`,
+      [issueId, historyStart]
+    )
+    const dailyCounts = new Map(dailyRows.map(daily => [daily.date, daily.count]))
+    const dailyOccurrences = Array.from({ length: HISTORY_DAYS }, (_, index) => {
+      const date = new Date(now - (HISTORY_DAYS - 1 - index) * DAY_MS).toISOString().slice(0, 10)
+      return { date, count: dailyCounts.get(date) || 0 }
+    })
+
+    const occurrenceRows = await this.all(
+      `SELECT ee.execution_id, ee.message, ee.occurred_at, e.provider_execution_id,
+        w.provider_workflow_id, w.name as workflow_name
+      FROM execution_errors ee
+      JOIN executions e ON e.id = ee.execution_id
+      JOIN workflows w ON w.id = ee.workflow_id
+      WHERE ee.issue_id = ?
+      ORDER BY ee.occurred_at DESC
+      LIMIT ?`,
+      [issueId, LATEST_OCCURRENCES]
+    )
+    const latestOccurrences = occurrenceRows.map(occurrence => this.mapOccurrence(occurrence))
+
+    const workflows = await this.getAffectedWorkflows([issueId])
+    return {
+      ...this.mapIssue(row, workflows.get(issueId) || []),
+      dailyOccurrences,
+      latestOccurrences
+    }
+  }
+
+  /**
+   * Resolve, ignore or reopen an issue
+   */
+  async updateStatus(userId: string, issueId: string, status: ErrorIssueStatus): Promise<ErrorIssueDetail | null> {
+    const changes = await new Promise<number>((resolve, reject) => {
+      this.db.run(
+        `UPDATE error_issues SET status = ?, resolved_at = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND provider_id IN (SELECT id FROM providers WHERE user_id = ?)`,
+        [status, status === 'resolved' ? new Date().toISOString() : null, issueId, userId],
+        function (err) {
+          if (err) reject(err)
+          else resolve(this.changes)
+        }
+      )
+    })
+
+    return changes > 0 ? this.getIssue(userId, issueId) : null
+  }
+
+  /**
+   * Root cause of a failed execution: the node that threw, its input items, its parameters
+   * in the workflow version that ran, and other failures of the workflow at that node
+   */
+  async analyzeExecution(userId: string, executionId: string): Promise<ExecutionErrorAnalysis | null> {
+    const execution = await this.get(
+      `SELECT e.id, e.workflow_id, e.started_at, e.execution_data, e.metadata, w.workflow_json
+      FROM executions e
+      JOIN providers p ON p.id = e.provider_id
+      LEFT JOIN workflows w ON w.id = e.workflow_id
+      WHERE e.id = ? AND p.user_id = ?`,
+      [executionId, userId]
+    )
+    if (!execution) return null
+
+    const executionData = parseJson(execution.execution_data)
+    const snapshot = parseJson(execution.metadata)?.originalData?.workflowData
+    const snapshotNodes = snapshot?.nodes
+    const located = locateExecutionError(executionData, snapshotNodes)
+    const info = classifyExecutionError(executionData, snapshotNodes)
+    const error = located.error
+
+    // Parameters come from the version that was live when the execution started
+    const resolved = await getWorkflowVersionService().resolveExecutionWorkflow({
+      workflowId: execution.workflow_id,
+      startedAt: new Date(execution.started_at),
+      snapshot,
+      current: parseJson(execution.workflow_json)
+    })
+    const workflowNodes: any[] | undefined = resolved?.workflow.nodes
+    const node = located.nodeName ? workflowNodes?.find(candidate => candidate?.name === located.nodeName) : null
+
+    const issueRow = await this.get(
+      `SELECT i.id, i.title, i.status,
+        (SELECT COUNT(*) FROM execution_errors x WHERE x.issue_id = i.id) as occurrences
+      FROM execution_errors ee
+      JOIN error_issues i ON i.id = ee.issue_id
+      WHERE ee.execution_id = ?`,
+      [executionId]
+    )
+
+    let sameNodeFailures: ExecutionErrorAnalysis['sameNodeFailures'] = { total: 0, executions: [] }
+    if (located.nodeName && execution.workflow_id) {
+      const params = [execution.workflow_id, located.nodeName, executionId]
+      const totalRow = await this.get(
+        'SELECT COUNT(*) as total FROM execution_errors WHERE workflow_id = ? AND node_name = ? AND execution_id != ?',
+        params
+      )
+      const rows = await this.all(
+        `SELECT ee.execution_id, ee.message, ee.occurred_at, e.provider_execution_id,
+          w.provider_workflow_id, w.name as workflow_name
+        FROM execution_errors ee
+        JOIN executions e ON e.id = ee.execution_id
+        JOIN workflows w ON w.id = ee.workflow_id
+        WHERE ee.workflow_id = ? AND ee.node_name = ? AND ee.execution_id != ?
+        ORDER BY ee.occurred_at DESC
+        LIMIT ?`,
+        [...params, SAME_NODE_FAILURES]
+      )
+      sameNodeFailures = {
+        total: totalRow?.total || 0,
+        executions: rows.map(row => this.mapOccurrence(row))
+      }
+    }
+
+    return {
+      executionId,
+      failingNode: located.nodeName && located.source
+        ? { name: located.nodeName, type: located.nodeType || node?.type || null, source: located.source }
+        : null,
+      error: {
+        name: info.errorName,
+        message: typeof error.message === 'string' && error.message ? error.message : info.message,
+        description: typeof error.description === 'string' ? error.description : null,
+        httpStatus: info.httpStatus,
+        stack: typeof error.stack === 'string' ? error.stack : null,
+        timestamp: typeof error.timestamp === 'number' ? new Date(error.timestamp) : null
+      },
+      inputs: located.nodeName ? extractNodeInputs(executionData, located.nodeName, located.runIndex) : [],
+      parameters: node?.parameters || null,
+      parametersSource: node && resolved ? resolved.source : null,
+      issue: issueRow
+        ? { id: issueRow.id, title: issueRow.title, status: issueRow.status, occurrences: issueRow.occurrences }
+        : null,
+      sameNodeFailures
+    }
+  }
+
+  /**
+   * Classify failed executions synced before error issues existed
+   */
+  async backfill(batchSize = BACKFILL_BATCH_SIZE): Promise<number> {
+    const executions = await this.all(
+      `SELECT id, provider_id, workflow_id, started_at, stopped_at, execution_data FROM executions
+      WHERE status = 'error' AND error_classified = 0
+      LIMIT ?`,
+      [batchSize]
+    )
+
+    for (const execution of executions) {
+      let executionData: any = null
+      if (execution.execution_data) {
+        try {
+          executionData = JSON.parse(execution.execution_data)
+        } catch (error) {
+          console.error(`Failed to parse execution data of ${execution.id}:`, error)
+        }
+      }
+      await writeExecutionError(
+        this.db,
+        {
+          id: execution.id,
+          providerId: execution.provider_id,
+          workflowId: execution.workflow_id,
+          occurredAt: execution.stopped_at || execution.started_at
+        },
+        classifyExecutionError(executionData)
+      )
+    }
+
+    if (executions.length > 0) {
+      console.log(`🐞 Classified errors of ${executions.length} failed executions`)
+    }
+    return executions.length
+  }
+
+  private async getAffectedWorkflows(issueIds: string[]): Promise<Map<string, ErrorIssue['workflows']>> {
+    const workflows = new Map<string, ErrorIssue['workflows']>()
+    if (issueIds.length === 0) return workflows
+
+    const rows = await this.all(
+      `SELECT ee.issue_id, w.provider_workflow_id, w.name, COUNT(*) as occurrences
+      FROM execution_errors ee
+      JOIN workflows w ON w.id = ee.workflow_id
+      WHERE ee.issue_id IN (${issueIds.map(() => '?').join(',')})
+      GROUP BY ee.issue_id, ee.workflow_id
+      ORDER BY occurrences DESC`,
+      issueIds
+    )
+    for (const row of rows) {
+      const list = workflows.get(row.issue_id) || []
+      list.push({ id: row.provider_workflow_id, name: row.name, occurrences: row.occurrences })
+      workflows.set(row.issue_id, list)
+    }
+    return workflows
+  }
+
+  private mapIssue(row: any, workflows: ErrorIssue['workflows']): ErrorIssue {
+    return {
+      id: row.id,
+      providerId: row.provider_id,
+      providerName: row.provider_name || undefined,
+      fingerprint: row.fingerprint,
+      nodeName: row.node_name,
+      nodeType: row.node_type,
+      errorName: row.error_name,
+      title: row.title,
+      lastMessage: row.last_message,
+      httpStatus: row.http_status,
+      status: row.status,
+      firstSeenAt: new Date(row.first_seen_at),
+      lastSeenAt: new Date(row.last_seen_at),
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+      occurrences: row.occurrences || 0,
+      recentOccurrences: row.recent_occurrences || 0,
+      workflows
+    }
+  }
+
+  private mapOccurrence(row: any): ErrorIssueOccurrence {
+    return {
+      executionId: row.execution_id,
+      providerExecutionId: row.provider_execution_id,
+      workflowId: row.provider_workflow_id,
+      workflowName: row.workflow_name,
+      message: row.message,
+      occurredAt: new Date(row.occurred_at)
+    }
+  }
+
+  private get(sql: string, params: any[] = []): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.db.get(sql, params, (err, row) => {
+        if (err) reject(err)
+        else resolve(row)
+      })
+    })
+  }
+
+  private all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) reject(err)
+        else resolve(rows || [])
+      })
+    })
+  }
+}
+
+// Export singleton instance
+let errorIssueService: ErrorIssueService | null = null
+
+export function getErrorIssueService(): ErrorIssueService {
+  if (!errorIssueService) {
+    errorIssueService = new ErrorIssueService()
+  }
+  return errorIssueService
+}
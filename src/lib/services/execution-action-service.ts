@@ -0,0 +1,270 @@
+import { Database } from 'sqlite3'
+import { getDb } from '@/lib/db'
+import { ProviderRegistry } from '@/lib/providers'
+import { getProviderService } from '@/lib/services/provider-service'
+import { BulkRetryResult, ExecutionActionRecord, ExecutionActionType, ExecutionStatus } from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+// Retries are sent one after another, so a bulk retry is capped to keep the request short
+const MAX_BULK_RETRIES = 50
+
+// Statuses the sync never re-fetches, so they may only be stored once the provider reports them
+const FINISHED_STATUSES: ExecutionStatus[] = ['success', 'error', 'canceled']
+
+const ACTION_STATUSES: Record<ExecutionActionType, ExecutionStatus[]> = {
+  retry: ['error', 'canceled'],
+  stop: ['running', 'waiting']
+}
+
+export interface ExecutionActionTarget {
+  id: string
+  providerId: string
+  providerExecutionId: string
+  status: ExecutionStatus
+}
+
+/**
+ * Whether an execution in the given status can be retried or stopped
+ */
+export function canPerformAction(action: ExecutionActionType, status: ExecutionStatus): boolean {
+  return ACTION_STATUSES[action].includes(status)
+}
+
+/**
+ * Execution Action Service
+ * Retries and stops executions on their provider and records every attempt in
+ * execution_actions as an audit trail
+ */
+export class ExecutionActionService {
+  private db: Database = getDb()
+
+  /**
+   * Execution an action would apply to, if it belongs to one of the user's providers
+   */
+  async getTarget(userId: string, executionId: string): Promise<ExecutionActionTarget | null> {
+    const row = await this.get(
+      `SELECT e.id, e.provider_id, e.provider_execution_id, e.status
+      FROM executions e
+      JOIN providers p ON p.id = e.provider_id
+      WHERE e.id = ? AND p.user_id = ?`,
+      [executionId, userId]
+    )
+    return row ? this.mapTarget(row) : null
+  }
+
+  /**
+   * Retry or stop an execution on its provider
+   * @param options.loadWorkflow Retry with the currently saved workflow instead of the one the execution ran with
+   */
+  async perform(
+    user: { id: string; email: string },
+    target: ExecutionActionTarget,
+    action: ExecutionActionType,
+    options: { loadWorkflow?: boolean } = {}
+  ): Promise<ExecutionActionRecord> {
+    const provider = await getProviderService().getProviderWithApiKey(target.providerId, user.id)
+    if (!provider) {
+      return this.logAction(target, action, user.email, { error: 'Provider not found' })
+    }
+
+    let error: string | undefined
+    let retryExecutionId: string | undefined
+    try {
+      const adapter = ProviderRegistry.create(provider)
+
+      if (action === 'retry') {
+        const result = await adapter.retryExecution(target.providerExecutionId, options)
+        if (!result.success) {
+          error = result.error || 'Provider rejected the retry'
+        } else {
+          retryExecutionId = result.data?.providerExecutionId || undefined
+        }
+      } else {
+        const result = await adapter.stopExecution(target.providerExecutionId)
+        if (!result.success) {
+          error = result.error || 'Provider rejected the stop'
+        } else {
+          await this.storeStoppedState(adapter, target)
+        }
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : `Failed to ${action} execution`
+    }
+
+    const record = await this.logAction(target, action, user.email, { error, retryExecutionId })
+    console.log(error
+      ? `❌ ${action} of execution ${target.providerExecutionId} by ${user.email} failed: ${error}`
+      : `${action === 'retry' ? '🔁' : '⏹️'} ${user.email} ran ${action} on execution ${target.providerExecutionId}`)
+    return record
+  }
+
+  /**
+   * Store the state the provider reports after a stop. The run may have ended as
+   * success or error before the stop arrived, so canceled is never assumed; while
+   * the provider still reports it as running the row stays unfinished and the
+   * sync's refresh of unfinished executions picks up the final state.
+   */
+  private async storeStoppedState(adapter: ReturnType<typeof ProviderRegistry.create>, target: ExecutionActionTarget) {
+    try {
+      const result = await adapter.getExecution(target.providerExecutionId)
+      if (!result.success || !result.data) return
+
+      const execution = result.data
+      if (!FINISHED_STATUSES.includes(execution.status)) return
+
+      await this.run(
+        `UPDATE executions SET status = ?, finished = 1, stopped_at = COALESCE(?, stopped_at), duration = COALESCE(?, duration),
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?`,
+        [
+          execution.status,
+          execution.stoppedAt ? new Date(execution.stoppedAt).toISOString() : null,
+          execution.duration ?? null,
+          target.id
+        ]
+      )
+    } catch (error) {
+      // The stop itself succeeded; the next sync brings the final state
+      console.error(`Failed to read execution ${target.providerExecutionId} after stop:`, error)
+    }
+  }
+
+  /**
+   * Retry the failed executions of an issue that have not been retried yet, newest first
+   */
+  async retryIssueFailures(user: { id: string; email: string }, issueId: string): Promise<BulkRetryResult> {
+    const rows = await this.all(
+      `SELECT e.id, e.provider_id, e.provider_execution_id, e.status,
+        EXISTS (
+          SELECT 1 FROM executions r
+          WHERE r.provider_id = e.provider_id AND r.retry_of = e.provider_execution_id
+        ) as has_retry
+      FROM execution_errors ee
+      JOIN executions e ON e.id = ee.execution_id
+      JOIN providers p ON p.id = e.provider_id
+      WHERE ee.issue_id = ? AND p.user_id = ? AND e.status = 'error'
+      ORDER BY e.started_at DESC`,
+      [issueId, user.id]
+    )
+
+    const pending = rows.filter(row => !row.has_retry)
+    const actions: ExecutionActionRecord[] = []
+    for (const row of pending.slice(0, MAX_BULK_RETRIES)) {
+      actions.push(await this.perform(user, this.mapTarget(row), 'retry'))
+    }
+
+    const succeeded = actions.filter(action => action.status === 'success').length
+    return {
+      attempted: actions.length,
+      succeeded,
+      failed: actions.length - succeeded,
+      skipped: rows.length - pending.length,
+      actions
+    }
+  }
+
+  /**
+   * Action audit trail of an execution, newest first
+   */
+  async listActions(executionId: string): Promise<ExecutionActionRecord[]> {
+    const rows = await this.all(
+      'SELECT * FROM execution_actions WHERE execution_id = ? ORDER BY created_at DESC',
+      [executionId]
+    )
+    return rows.map(row => this.mapAction(row))
+  }
+
+  private async logAction(
+    target: ExecutionActionTarget,
+    action: ExecutionActionType,
+    requestedBy: string,
+    outcome: { error?: string; retryExecutionId?: string }
+  ): Promise<ExecutionActionRecord> {
+    const record: ExecutionActionRecord = {
+      id: uuidv4(),
+      executionId: target.id,
+      providerId: target.providerId,
+      providerExecutionId: target.providerExecutionId,
+      action,
+      requestedBy,
+      status: outcome.error ? 'failed' : 'success',
+      error: outcome.error,
+      retryExecutionId: outcome.retryExecutionId,
+      createdAt: new Date()
+    }
+
+    await this.run(
+      `INSERT INTO execution_actions (
+        id, execution_id, provider_id, provider_execution_id, action,
+        requested_by, status, error, retry_execution_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.id, record.executionId, record.providerId, record.providerExecutionId, record.action,
+        record.requestedBy, record.status, record.error || null, record.retryExecutionId || null, record.createdAt.toISOString()
+      ]
+    )
+
+    return record
+  }
+
+  private mapTarget(row: any): ExecutionActionTarget {
+    return {
+      id: row.id,
+      providerId: row.provider_id,
+      providerExecutionId: row.provider_execution_id,
+      status: row.status
+    }
+  }
+
+  private mapAction(row: any): ExecutionActionRecord {
+    return {
+      id: row.id,
+      executionId: row.execution_id,
+      providerId: row.provider_id,
+      providerExecutionId: row.provider_execution_id,
+      action: row.action,
+      requestedBy: row.requested_by,
+      status: row.status,
+      error: row.error || undefined,
+      retryExecutionId: row.retry_execution_id || undefined,
+      createdAt: new Date(row.created_at)
+    }
+  }
+
+  private run(sql: string, params: any[] = []): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, function (err) {
+        if (err) reject(err)
+        else resolve(this.changes)
+      })
+    })
+  }
+
+  private get(sql: string, params: any[] = []): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.db.get(sql, params, (err, row) => {
+        if (err) reject(err)
+        else resolve(row)
+      })
+    })
+  }
+
+  private all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) reject(err)
+        else resolve(rows || [])
+      })
+    })
+  }
+}
+
+// Export singleton instance
+let executionActionService: ExecutionActionService | null = null
+
+export function getExecutionActionService(): ExecutionActionService {
+  if (!executionActionService) {
+    executionActionService = new ExecutionActionService()
+  }
+  return executionActionService
+}
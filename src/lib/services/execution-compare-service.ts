@@ -0,0 +1,197 @@
+import { Database } from 'sqlite3'
+import { getDb } from '@/lib/db'
+import { computeNodeHash, getWorkflowVersionService } from '@/lib/services/workflow-version-service'
+import { compareValues, diffWorkflows } from '@/lib/workflows/workflow-diff'
+import {
+  ExecutionCompareSide,
+  ExecutionComparison,
+  ExecutionNodeComparison,
+  ExecutionNodeRunSummary,
+  ExecutionStatus,
+  ExecutionWorkflowSource
+} from '@/types'
+
+// Output items per node that go into the JSON diff
+const MAX_DIFF_ITEMS = 20
+// Changed paths reported per node
+const MAX_OUTPUT_CHANGES = 100
+
+interface LoadedRun {
+  side: ExecutionCompareSide
+  runData: Record<string, any[]>
+  workflow: Record<string, any> | null
+}
+
+function parseJson(value: string | null): any {
+  if (!value) return null
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+function summarizeRuns(runs: any[] | undefined): ExecutionNodeRunSummary | null {
+  if (!Array.isArray(runs) || runs.length === 0) return null
+
+  const failedRun = runs.find(run => run?.error)
+  return {
+    status: failedRun ? 'error' : 'success',
+    duration: runs.reduce((sum, run) => sum + (Number(run?.executionTime) || 0), 0),
+    items: runs.reduce((sum, run) => {
+      const outputs = Array.isArray(run?.data?.main) ? run.data.main : []
+      return sum + outputs.reduce((count: number, output: unknown) => count + (Array.isArray(output) ? output.length : 0), 0)
+    }, 0),
+    runs: runs.length,
+    error: failedRun ? failedRun.error.message || 'Unknown error' : undefined
+  }
+}
+
+/**
+ * Item JSON of a node's last run. Single-output nodes are reduced to their item
+ * list so diff paths read as [itemIndex].field rather than [0][itemIndex].field.
+ */
+function lastRunOutput(runs: any[] | undefined): unknown {
+  const outputs = Array.isArray(runs) && runs.length > 0 ? runs[runs.length - 1]?.data?.main : null
+  if (!Array.isArray(outputs)) return []
+
+  const items = outputs.map((output: unknown) =>
+    Array.isArray(output) ? output.slice(0, MAX_DIFF_ITEMS).map(item => item?.json ?? null) : []
+  )
+  return items.length === 1 ? items[0] : items
+}
+
+/**
+ * Node names ordered by when they first started
+ */
+function executionOrder(runData: Record<string, any[]>): string[] {
+  const firstStart = (name: string) => {
+    const times = (runData[name] || []).map(run => run?.startTime).filter((time): time is number => typeof time === 'number')
+    return times.length > 0 ? Math.min(...times) : Number.MAX_SAFE_INTEGER
+  }
+  return Object.keys(runData).sort((a, b) => firstStart(a) - firstStart(b))
+}
+
+/**
+ * Execution Compare Service
+ * Aligns the runData of two executions of a workflow by node name and reports
+ * per-node duration, item count and output differences
+ */
+export class ExecutionCompareService {
+  private db: Database = getDb()
+
+  /**
+   * Latest successful execution of the same workflow that started before the given one
+   */
+  async findBaseline(userId: string, executionId: string): Promise<string | null> {
+    const row = await this.get(
+      `SELECT prev.id
+      FROM executions e
+      JOIN providers p ON p.id = e.provider_id
+      JOIN executions prev ON prev.workflow_id = e.workflow_id
+        AND prev.status = 'success'
+        AND prev.started_at < e.started_at
+      WHERE e.id = ? AND p.user_id = ?
+      ORDER BY prev.started_at DESC
+      LIMIT 1`,
+      [executionId, userId]
+    )
+    return row?.id || null
+  }
+
+  /**
+   * Compare two executions. Returns null when either does not exist for the user.
+   */
+  async compare(userId: string, baseId: string, targetId: string): Promise<ExecutionComparison | null> {
+    const [base, target] = await Promise.all([this.loadRun(userId, baseId), this.loadRun(userId, targetId)])
+    if (!base || !target) return null
+
+    const targetOnly = executionOrder(target.runData).filter(name => !(name in base.runData))
+    const nodes: ExecutionNodeComparison[] = [...executionOrder(base.runData), ...targetOnly].map(nodeName => {
+      const baseSummary = summarizeRuns(base.runData[nodeName])
+      const targetSummary = summarizeRuns(target.runData[nodeName])
+      const changes = compareValues(lastRunOutput(base.runData[nodeName]), lastRunOutput(target.runData[nodeName]))
+
+      return {
+        nodeName,
+        base: baseSummary,
+        target: targetSummary,
+        durationDelta: baseSummary && targetSummary ? targetSummary.duration - baseSummary.duration : null,
+        itemDelta: baseSummary && targetSummary ? targetSummary.items - baseSummary.items : null,
+        outputChanges: changes.slice(0, MAX_OUTPUT_CHANGES),
+        outputChangesTruncated: changes.length > MAX_OUTPUT_CHANGES
+      }
+    })
+
+    // Two fallbacks to the current workflow say nothing about what each run executed
+    const comparable = base.workflow && target.workflow &&
+      !(base.side.workflowSource?.type === 'current' && target.side.workflowSource?.type === 'current')
+    const versionChanged = comparable
+      ? computeNodeHash(base.workflow!) !== computeNodeHash(target.workflow!)
+      : null
+
+    return {
+      base: base.side,
+      target: target.side,
+      nodes,
+      versionChanged,
+      workflowDiff: versionChanged ? diffWorkflows(base.workflow!, target.workflow!) : null
+    }
+  }
+
+  private async loadRun(userId: string, executionId: string): Promise<LoadedRun | null> {
+    const row = await this.get(
+      `SELECT e.id, e.provider_id, e.provider_execution_id, e.workflow_id, e.status, e.started_at,
+        e.duration, e.execution_data, e.metadata, w.provider_workflow_id, w.name as workflow_name, w.workflow_json
+      FROM executions e
+      JOIN providers p ON p.id = e.provider_id
+      LEFT JOIN workflows w ON w.id = e.workflow_id
+      WHERE e.id = ? AND p.user_id = ?`,
+      [executionId, userId]
+    )
+    if (!row) return null
+
+    const resolved = await getWorkflowVersionService().resolveExecutionWorkflow({
+      workflowId: row.workflow_id,
+      startedAt: new Date(row.started_at),
+      snapshot: parseJson(row.metadata)?.originalData?.workflowData,
+      current: parseJson(row.workflow_json)
+    })
+    const workflowSource: ExecutionWorkflowSource | null = resolved?.source || null
+
+    return {
+      side: {
+        id: row.id,
+        providerId: row.provider_id,
+        providerExecutionId: row.provider_execution_id,
+        workflowId: row.provider_workflow_id,
+        workflowName: row.workflow_name || 'Unknown Workflow',
+        status: row.status as ExecutionStatus,
+        startedAt: new Date(row.started_at),
+        duration: row.duration ?? null,
+        workflowSource
+      },
+      runData: parseJson(row.execution_data)?.resultData?.runData || {},
+      workflow: resolved?.workflow || null
+    }
+  }
+
+  private get(sql: string, params: any[] = []): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.db.get(sql, params, (err, row) => {
+        if (err) reject(err)
+        else resolve(row)
+      })
+    })
+  }
+}
+
+// Export singleton instance
+let executionCompareService: ExecutionCompareService | null = null
+
+export function getExecutionCompareService(): ExecutionCompareService {
+  if (!executionCompareService) {
+    executionCompareService = new ExecutionCompareService()
+  }
+  return executionCompareService
+}
@@ -0,0 +1,454 @@
+import { Database } from 'sqlite3'
+import { getDb } from '@/lib/db'
+import { EndpointCheck, EndpointResult, EndpointStatus } from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+// Uptime and average response time are computed over this window
+const STATS_WINDOW_MS = 24 * 60 * 60 * 1000
+
+// Keep result history bounded per check
+const MAX_RESULTS_PER_CHECK = 5000
+
+export type EndpointCheckInput = {
+  providerId?: string | null
+  name: string
+  url: string
+  method: EndpointCheck['method']
+  expectedStatus?: number | null
+  timeout: number
+  interval: number
+  isEnabled: boolean
+}
+
+const HTTP_METHODS: EndpointCheck['method'][] = ['GET', 'POST', 'PUT', 'DELETE', 'HEAD']
+
+/**
+ * Validate a create/update request body for an endpoint check.
+ * With `partial`, only the fields present in the body are validated and returned.
+ */
+export function validateCheckInput(
+  body: any,
+  partial = false
+): { data?: Partial<EndpointCheckInput>; error?: string } {
+  const data: Partial<EndpointCheckInput> = {}
+
+  if (!partial || body.name !== undefined) {
+    if (!body.name || typeof body.name !== 'string' || body.name.trim().length === 0) {
+      return { error: 'Monitor name is required' }
+    }
+    data.name = body.name.trim()
+  }
+
+  if (!partial || body.url !== undefined) {
+    if (!body.url || typeof body.url !== 'string' || !/^https?:\/\//.test(body.url.trim())) {
+      return { error: 'Valid URL is required (must start with http:// or https://)' }
+    }
+    data.url = body.url.trim()
+  }
+
+  if (!partial || body.method !== undefined) {
+    const method = (body.method || 'GET').toString().toUpperCase()
+    if (!HTTP_METHODS.includes(method)) {
+      return { error: `Method must be one of ${HTTP_METHODS.join(', ')}` }
+    }
+    data.method = method
+  }
+
+  if (body.expectedStatus !== undefined) {
+    if (body.expectedStatus === null || body.expectedStatus === '') {
+      data.expectedStatus = null
+    } else {
+      const status = Number(body.expectedStatus)
+      if (!Number.isInteger(status) || status < 100 || status > 599) {
+        return { error: 'Expected status must be a valid HTTP status code' }
+      }
+      data.expectedStatus = status
+    }
+  }
+
+  if (!partial || body.timeout !== undefined) {
+    const timeout = Number(body.timeout ?? 10000)
+    if (!Number.isFinite(timeout) || timeout < 1000 || timeout > 60000) {
+      return { error: 'Timeout must be between 1000 and 60000 milliseconds' }
+    }
+    data.timeout = Math.round(timeout)
+  }
+
+  if (!partial || body.interval !== undefined) {
+    const interval = Number(body.interval ?? 5)
+    if (!Number.isInteger(interval) || interval < 1 || interval > 1440) {
+      return { error: 'Interval must be between 1 and 1440 minutes' }
+    }
+    data.interval = interval
+  }
+
+  if (!partial || body.isEnabled !== undefined) {
+    data.isEnabled = body.isEnabled === undefined ? true : Boolean(body.isEnabled)
+  }
+
+  if (body.providerId !== undefined) {
+    data.providerId = body.providerId || null
+  }
+
+  return { data }
+}
+
+/**
+ * Monitor Service
+ * Persists endpoint checks and their results, and computes uptime statistics
+ */
+export class MonitorService {
+  private db: Database
+
+  constructor() {
+    this.db = getDb()
+  }
+
+  /**
+   * List all endpoint checks with their latest result and 24h statistics
+   */
+  async listChecks(): Promise<EndpointCheck[]> {
+    const rows = await this.queryChecks('', [])
+    const latestResults = await this.getLatestResults(rows.map(r => r.id))
+
+    return rows.map(row => this.mapCheck(row, latestResults.get(row.id)))
+  }
+
+  /**
+   * Get a single endpoint check by ID
+   */
+  async getCheck(checkId: string): Promise<EndpointCheck | null> {
+    const [row] = await this.queryChecks('WHERE c.id = ?', [checkId])
+
+    if (!row) {
+      return null
+    }
+
+    const latestResults = await this.getLatestResults([row.id])
+    return this.mapCheck(row, latestResults.get(row.id))
+  }
+
+  /**
+   * Create a new endpoint check
+   */
+  async createCheck(data: EndpointCheckInput): Promise<EndpointCheck> {
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO endpoint_checks (
+          id, provider_id, name, url, method, expected_status, timeout_ms, interval_minutes, is_enabled, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id, data.providerId || null, data.name, data.url, data.method, data.expectedStatus ?? null,
+          data.timeout, data.interval, data.isEnabled ? 1 : 0, now, now
+        ],
+        (err) => {
+          if (err) reject(err)
+          else resolve()
+        }
+      )
+    })
+
+    const check = await this.getCheck(id)
+    if (!check) {
+      throw new Error('Endpoint check not found after create')
+    }
+    return check
+  }
+
+  /**
+   * Update an existing endpoint check
+   */
+  async updateCheck(checkId: string, data: Partial<EndpointCheckInput>): Promise<EndpointCheck | null> {
+    const updates: string[] = []
+    const values: any[] = []
+
+    if (data.providerId !== undefined) {
+      updates.push('provider_id = ?')
+      values.push(data.providerId || null)
+    }
+    if (data.name !== undefined) {
+      updates.push('name = ?')
+      values.push(data.name)
+    }
+    if (data.url !== undefined) {
+      updates.push('url = ?')
+      values.push(data.url)
+    }
+    if (data.method !== undefined) {
+      updates.push('method = ?')
+      values.push(data.method)
+    }
+    if (data.expectedStatus !== undefined) {
+      updates.push('expected_status = ?')
+      values.push(data.expectedStatus ?? null)
+    }
+    if (data.timeout !== undefined) {
+      updates.push('timeout_ms = ?')
+      values.push(data.timeout)
+    }
+    if (data.interval !== undefined) {
+      updates.push('interval_minutes = ?')
+      values.push(data.interval)
+    }
+    if (data.isEnabled !== undefined) {
+      updates.push('is_enabled = ?')
+      values.push(data.isEnabled ? 1 : 0)
+    }
+
+    if (updates.length === 0) {
+      throw new Error('No fields to update')
+    }
+
+    updates.push('updated_at = ?')
+    values.push(new Date().toISOString(), checkId)
+
+    const changes = await new Promise<number>((resolve, reject) => {
+      this.db.run(
+        `UPDATE endpoint_checks SET ${updates.join(', ')} WHERE id = ?`,
+        values,
+        function (err) {
+          if (err) reject(err)
+          else resolve(this.changes)
+        }
+      )
+    })
+
+    if (changes === 0) {
+      return null
+    }
+
+    return this.getCheck(checkId)
+  }
+
+  /**
+   * Delete an endpoint check and its results
+   */
+  async deleteCheck(checkId: string): Promise<boolean> {
+    // Results are removed explicitly in case foreign keys are disabled on this connection
+    await new Promise<void>((resolve, reject) => {
+      this.db.run('DELETE FROM endpoint_results WHERE endpoint_check_id = ?', [checkId], (err) => {
+        if (err) reject(err)
+        else resolve()
+      })
+    })
+
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM endpoint_checks WHERE id = ?', [checkId], function (err) {
+        if (err) reject(err)
+        else resolve(this.changes > 0)
+      })
+    })
+  }
+
+  /**
+   * Get enabled checks whose interval has elapsed since their last result
+   */
+  async getDueChecks(now: Date = new Date()): Promise<EndpointCheck[]> {
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db.all(
+        `SELECT c.*, MAX(r.checked_at) as last_checked_at
+        FROM endpoint_checks c
+        LEFT JOIN endpoint_results r ON r.endpoint_check_id = c.id
+        WHERE c.is_enabled = 1
+        GROUP BY c.id`,
+        [],
+        (err, rows: any[]) => {
+          if (err) reject(err)
+          else resolve(rows || [])
+        }
+      )
+    })
+
+    return rows
+      .filter(row => {
+        if (!row.last_checked_at) return true
+        const nextDue = new Date(row.last_checked_at).getTime() + row.interval_minutes * 60 * 1000
+        return nextDue <= now.getTime()
+      })
+      .map(row => this.mapCheck(row))
+  }
+
+  /**
+   * Store the result of a check run
+   */
+  async recordResult(result: Omit<EndpointResult, 'id'>): Promise<EndpointResult> {
+    const id = uuidv4()
+
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO endpoint_results (
+          id, endpoint_check_id, checked_at, success, response_time, status_code, error, response_headers, response_body
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id, result.endpointCheckId, result.timestamp.toISOString(), result.success ? 1 : 0,
+          result.responseTime ?? null, result.statusCode ?? null, result.error ?? null,
+          result.responseHeaders ? JSON.stringify(result.responseHeaders) : null,
+          result.responseBody ?? null
+        ],
+        (err) => {
+          if (err) reject(err)
+          else resolve()
+        }
+      )
+    })
+
+    await this.trimResults(result.endpointCheckId)
+
+    return { id, ...result }
+  }
+
+  /**
+   * Get recent results for a check, newest first
+   */
+  async getResults(checkId: string, limit = 100): Promise<EndpointResult[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM endpoint_results WHERE endpoint_check_id = ? ORDER BY checked_at DESC LIMIT ?`,
+        [checkId, limit],
+        (err, rows: any[]) => {
+          if (err) reject(err)
+          else resolve((rows || []).map(row => this.mapResult(row)))
+        }
+      )
+    })
+  }
+
+  private async queryChecks(where: string, params: any[]): Promise<any[]> {
+    const since = new Date(Date.now() - STATS_WINDOW_MS).toISOString()
+
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT c.*,
+          (SELECT COUNT(*) FROM endpoint_results r WHERE r.endpoint_check_id = c.id AND r.checked_at >= ?) as total_results,
+          (SELECT SUM(CASE WHEN r.success = 1 THEN 1 ELSE 0 END) FROM endpoint_results r WHERE r.endpoint_check_id = c.id AND r.checked_at >= ?) as successful_results,
+          (SELECT AVG(r.response_time) FROM endpoint_results r WHERE r.endpoint_check_id = c.id AND r.checked_at >= ? AND r.response_time IS NOT NULL) as avg_response_time
+        FROM endpoint_checks c
+        ${where}
+        ORDER BY c.name ASC`,
+        [since, since, since, ...params],
+        (err, rows: any[]) => {
+          if (err) reject(err)
+          else resolve(rows || [])
+        }
+      )
+    })
+  }
+
+  private async getLatestResults(checkIds: string[]): Promise<Map<string, EndpointResult>> {
+    if (checkIds.length === 0) return new Map()
+
+    const placeholders = checkIds.map(() => '?').join(',')
+
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT r.* FROM endpoint_results r
+        JOIN (
+          SELECT endpoint_check_id, MAX(checked_at) as latest
+          FROM endpoint_results
+          WHERE endpoint_check_id IN (${placeholders})
+          GROUP BY endpoint_check_id
+        ) l ON l.endpoint_check_id = r.endpoint_check_id AND l.latest = r.checked_at`,
+        checkIds,
+        (err, rows: any[]) => {
+          if (err) {
+            reject(err)
+            return
+          }
+
+          const map = new Map<string, EndpointResult>()
+          for (const row of rows || []) {
+            map.set(row.endpoint_check_id, this.mapResult(row))
+          }
+          resolve(map)
+        }
+      )
+    })
+  }
+
+  private async trimResults(checkId: string): Promise<void> {
+    return new Promise((resolve) => {
+      this.db.run(
+        `DELETE FROM endpoint_results
+        WHERE endpoint_check_id = ?
+        AND id NOT IN (
+          SELECT id FROM endpoint_results WHERE endpoint_check_id = ? ORDER BY checked_at DESC LIMIT ?
+        )`,
+        [checkId, checkId, MAX_RESULTS_PER_CHECK],
+        (err) => {
+          if (err) console.warn('Failed to trim endpoint results:', err.message)
+          resolve()
+        }
+      )
+    })
+  }
+
+  private mapCheck(row: any, lastResult?: EndpointResult): EndpointCheck {
+    const totalResults = Number(row.total_results) || 0
+    const uptime = totalResults > 0
+      ? Math.round(((Number(row.successful_results) || 0) / totalResults) * 10000) / 100
+      : undefined
+
+    return {
+      id: row.id,
+      providerId: row.provider_id || undefined,
+      name: row.name,
+      url: row.url,
+      method: row.method,
+      expectedStatus: row.expected_status ?? undefined,
+      timeout: row.timeout_ms,
+      interval: row.interval_minutes,
+      isEnabled: Boolean(row.is_enabled),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      lastResult,
+      status: this.computeStatus(row, lastResult),
+      uptime,
+      avgResponseTime: row.avg_response_time != null ? Math.round(row.avg_response_time) : undefined
+    }
+  }
+
+  private mapResult(row: any): EndpointResult {
+    let responseHeaders: Record<string, string> | undefined
+    try {
+      responseHeaders = row.response_headers ? JSON.parse(row.response_headers) : undefined
+    } catch {}
+
+    return {
+      id: row.id,
+      endpointCheckId: row.endpoint_check_id,
+      timestamp: new Date(row.checked_at),
+      success: Boolean(row.success),
+      responseTime: row.response_time ?? undefined,
+      statusCode: row.status_code ?? undefined,
+      error: row.error || undefined,
+      responseHeaders,
+      responseBody: row.response_body || undefined
+    }
+  }
+
+  /**
+   * Healthy when the last check passed, warning when it passed but took more
+   * than half of the allowed timeout, down when it failed
+   */
+  private computeStatus(row: any, lastResult?: EndpointResult): EndpointStatus {
+    if (!lastResult) return 'unknown'
+    if (!lastResult.success) return 'down'
+    if (lastResult.responseTime !== undefined && lastResult.responseTime > row.timeout_ms / 2) {
+      return 'warning'
+    }
+    return 'healthy'
+  }
+}
+
+// Export singleton instance
+let monitorService: MonitorService | null = null
+
+export function getMonitorService(): MonitorService {
+  if (!monitorService) {
+    monitorService = new MonitorService()
+  }
+  return monitorService
+}
@@ -0,0 +1,299 @@
+import { Database } from 'sqlite3'
+import { getDb } from '@/lib/db'
+import { summarizeDurations } from '@/lib/analytics/percentiles'
+import {
+  NodeLatencyPoint,
+  NodeRegression,
+  NodeTimingStats,
+  WorkflowNodeTimingAnalytics
+} from '@/types'
+
+export interface NodeTiming {
+  nodeName: string
+  nodeType: string | null
+  runIndex: number
+  startedAt: string // ISO timestamp
+  executionTimeMs: number
+  status: string | null
+}
+
+// Regression analysis compares the last week with the three weeks before it
+const REGRESSION_RECENT_DAYS = 7
+const REGRESSION_BASELINE_DAYS = 21
+
+// A node counts as regressed when its time per execution grows by both of these
+const REGRESSION_MIN_CHANGE_PCT = 20
+const REGRESSION_MIN_DELTA_MS = 50
+
+const BACKFILL_BATCH_SIZE = 200
+
+/**
+ * Extract per-node run timings from n8n execution data (resultData.runData).
+ * workflowNodes, when available, supplies each node's type.
+ */
+export function extractNodeTimings(executionData: any, workflowNodes?: { name: string; type?: string }[]): NodeTiming[] {
+  const runData = executionData?.resultData?.runData
+  if (!runData || typeof runData !== 'object') return []
+
+  const nodeTypes = new Map((workflowNodes || []).map(node => [node.name, node.type || null]))
+  const timings: NodeTiming[] = []
+
+  for (const [nodeName, runs] of Object.entries(runData)) {
+    if (!Array.isArray(runs)) continue
+
+    runs.forEach((run: any, runIndex: number) => {
+      if (!run || typeof run.startTime !== 'number' || typeof run.executionTime !== 'number') return
+
+      timings.push({
+        nodeName,
+        nodeType: nodeTypes.get(nodeName) || null,
+        runIndex,
+        startedAt: new Date(run.startTime).toISOString(),
+        executionTimeMs: Math.max(0, Math.round(run.executionTime)),
+        status: run.executionStatus || (run.error ? 'error' : 'success')
+      })
+    })
+  }
+
+  return timings
+}
+
+/**
+ * Replace the stored timings of an execution and mark it as extracted.
+ * Takes the connection explicitly so the execution sync can write inside its transaction.
+ */
+export async function writeNodeTimings(db: Database, executionId: string, workflowId: string, timings: NodeTiming[]): Promise<void> {
+  const run = (sql: string, params: any[]) => new Promise<void>((resolve, reject) => {
+    db.run(sql, params, (err) => {
+      if (err) reject(err)
+      else resolve()
+    })
+  })
+
+  await run('DELETE FROM execution_node_timings WHERE execution_id = ?', [executionId])
+  for (const timing of timings) {
+    await run(
+      `INSERT OR REPLACE INTO execution_node_timings (
+        execution_id, workflow_id, node_name, node_type, run_index, started_at, execution_time_ms, status
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [executionId, workflowId, timing.nodeName, timing.nodeType, timing.runIndex, timing.startedAt, timing.executionTimeMs, timing.status]
+    )
+  }
+  await run('UPDATE executions SET node_timings_extracted = 1 WHERE id = ?', [executionId])
+}
+
+/**
+ * Node Timing Service
+ * Per-node latency analytics built from execution_node_timings
+ */
+export class NodeTimingService {
+  private db: Database
+
+  constructor() {
+    this.db = getDb()
+  }
+
+  /**
+   * Slowest nodes, latency percentiles over time for one node, and regression attribution
+   */
+  async getWorkflowAnalytics(providerWorkflowId: string, options: { days?: number; nodeName?: string } = {}): Promise<WorkflowNodeTimingAnalytics> {
+    const days = options.days || 30
+    const lookbackDays = Math.max(days, REGRESSION_RECENT_DAYS + REGRESSION_BASELINE_DAYS)
+
+    const rows = await this.all(
+      `SELECT t.execution_id, t.node_name, t.node_type, t.started_at, t.execution_time_ms
+      FROM execution_node_timings t
+      JOIN workflows w ON w.id = t.workflow_id
+      WHERE w.provider_workflow_id = ?
+        AND t.started_at >= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', ?)
+      ORDER BY t.started_at`,
+      [providerWorkflowId, `-${lookbackDays} days`]
+    )
+
+    const windowStart = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+    const windowRows = rows.filter(row => row.started_at >= windowStart)
+
+    const slowestNodes = this.computeNodeStats(windowRows)
+    const latencyNode = options.nodeName || slowestNodes[0]?.nodeName || null
+
+    return {
+      windowDays: days,
+      slowestNodes,
+      latency: {
+        nodeName: latencyNode,
+        points: latencyNode ? this.computeLatencySeries(windowRows.filter(row => row.node_name === latencyNode)) : []
+      },
+      regression: await this.computeRegression(providerWorkflowId, rows)
+    }
+  }
+
+  /**
+   * Extract timings for executions synced before per-node timings existed
+   */
+  async backfill(batchSize = BACKFILL_BATCH_SIZE): Promise<number> {
+    const executions = await this.all(
+      `SELECT id, workflow_id, execution_data FROM executions
+      WHERE node_timings_extracted = 0
+      LIMIT ?`,
+      [batchSize]
+    )
+
+    for (const execution of executions) {
+      let timings: NodeTiming[] = []
+      if (execution.execution_data) {
+        try {
+          timings = extractNodeTimings(JSON.parse(execution.execution_data))
+        } catch (error) {
+          console.error(`Failed to parse execution data of ${execution.id}:`, error)
+        }
+      }
+      await writeNodeTimings(this.db, execution.id, execution.workflow_id, timings)
+    }
+
+    if (executions.length > 0) {
+      console.log(`⏱️ Backfilled node timings for ${executions.length} executions`)
+    }
+    return executions.length
+  }
+
+  private computeNodeStats(rows: any[]): NodeTimingStats[] {
+    type NodeSamples = { type: string | null; durations: number[]; executions: Set<string> }
+    const byNode = new Map<string, NodeSamples>()
+    let totalTime = 0
+
+    for (const row of rows) {
+      const node: NodeSamples = byNode.get(row.node_name) || { type: row.node_type, durations: [], executions: new Set() }
+      node.durations.push(row.execution_time_ms)
+      node.executions.add(row.execution_id)
+      node.type = node.type || row.node_type
+      byNode.set(row.node_name, node)
+      totalTime += row.execution_time_ms
+    }
+
+    return Array.from(byNode.entries())
+      .map(([nodeName, node]) => {
+        const summary = summarizeDurations(node.durations)
+        const nodeTotal = node.durations.reduce((sum, value) => sum + value, 0)
+        return {
+          nodeName,
+          nodeType: node.type || undefined,
+          runs: summary.count,
+          executions: node.executions.size,
+          avgMs: summary.avg,
+          p50Ms: summary.p50,
+          p95Ms: summary.p95,
+          p99Ms: summary.p99,
+          maxMs: summary.max,
+          shareOfTotal: totalTime > 0 ? Math.round((nodeTotal / totalTime) * 1000) / 10 : 0
+        }
+      })
+      .sort((a, b) => b.p95Ms - a.p95Ms)
+  }
+
+  private computeLatencySeries(rows: any[]): NodeLatencyPoint[] {
+    const byDay = new Map<string, number[]>()
+    for (const row of rows) {
+      const day = row.started_at.slice(0, 10)
+      const durations = byDay.get(day) || []
+      durations.push(row.execution_time_ms)
+      byDay.set(day, durations)
+    }
+
+    return Array.from(byDay.entries()).map(([date, durations]) => {
+      const summary = summarizeDurations(durations)
+      return { date, runs: summary.count, p50Ms: summary.p50, p95Ms: summary.p95, p99Ms: summary.p99 }
+    })
+  }
+
+  /**
+   * Compare the last week with the three weeks before it. Node time is measured per
+   * execution (summing loop runs) so it can be attributed to the workflow's slowdown.
+   */
+  private async computeRegression(providerWorkflowId: string, rows: any[]): Promise<NodeRegression> {
+    const now = Date.now()
+    const recentStart = new Date(now - REGRESSION_RECENT_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    const baselineStart = new Date(now - (REGRESSION_RECENT_DAYS + REGRESSION_BASELINE_DAYS) * 24 * 60 * 60 * 1000).toISOString()
+
+    const durations = await this.all(
+      `SELECT e.started_at, e.duration
+      FROM executions e
+      JOIN workflows w ON w.id = e.workflow_id
+      WHERE w.provider_workflow_id = ?
+        AND e.status = 'success'
+        AND e.duration IS NOT NULL
+        AND e.started_at >= ?`,
+      [providerWorkflowId, baselineStart]
+    )
+
+    const baselineDurations = durations.filter(d => d.started_at < recentStart).map(d => d.duration)
+    const recentDurations = durations.filter(d => d.started_at >= recentStart).map(d => d.duration)
+    const baseline = summarizeDurations(baselineDurations)
+    const recent = summarizeDurations(recentDurations)
+    const workflowDeltaMs = recent.avg - baseline.avg
+
+    const perExecution = (period: any[]) => {
+      const executions = new Set(period.map(row => row.execution_id))
+      const totals = new Map<string, number>()
+      for (const row of period) {
+        totals.set(row.node_name, (totals.get(row.node_name) || 0) + row.execution_time_ms)
+      }
+      return { executions: executions.size, totals }
+    }
+
+    const baselineNodes = perExecution(rows.filter(row => row.started_at >= baselineStart && row.started_at < recentStart))
+    const recentNodes = perExecution(rows.filter(row => row.started_at >= recentStart))
+
+    const nodeNames = new Set([...baselineNodes.totals.keys(), ...recentNodes.totals.keys()])
+    const nodes = Array.from(nodeNames)
+      .map(nodeName => {
+        const baselineMs = baselineNodes.executions > 0 ? Math.round((baselineNodes.totals.get(nodeName) || 0) / baselineNodes.executions) : 0
+        const recentMs = recentNodes.executions > 0 ? Math.round((recentNodes.totals.get(nodeName) || 0) / recentNodes.executions) : 0
+        const deltaMs = recentMs - baselineMs
+        const changePct = baselineMs > 0 ? Math.round((deltaMs / baselineMs) * 1000) / 10 : null
+
+        return {
+          nodeName,
+          baselineMs,
+          recentMs,
+          deltaMs,
+          changePct,
+          contributionPct: workflowDeltaMs > 0 && deltaMs > 0 ? Math.round((deltaMs / workflowDeltaMs) * 1000) / 10 : null,
+          regressed: baselineMs > 0 && deltaMs >= REGRESSION_MIN_DELTA_MS && (changePct || 0) >= REGRESSION_MIN_CHANGE_PCT
+        }
+      })
+      .sort((a, b) => b.deltaMs - a.deltaMs)
+
+    const hasData = baselineNodes.executions > 0 && recentNodes.executions > 0
+
+    return {
+      recentDays: REGRESSION_RECENT_DAYS,
+      baselineDays: REGRESSION_BASELINE_DAYS,
+      baselineAvgMs: baseline.avg,
+      recentAvgMs: recent.avg,
+      baselineP95Ms: baseline.p95,
+      recentP95Ms: recent.p95,
+      changePct: baseline.avg > 0 ? Math.round((workflowDeltaMs / baseline.avg) * 1000) / 10 : null,
+      culprit: hasData ? nodes.find(node => node.regressed)?.nodeName || null : null,
+      nodes: hasData ? nodes : []
+    }
+  }
+
+  private all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) reject(err)
+        else resolve(rows || [])
+      })
+    })
+  }
+}
+
+// Export singleton instance
+let nodeTimingService: NodeTimingService | null = null
+
+export function getNodeTimingService(): NodeTimingService {
+  if (!nodeTimingService) {
+    nodeTimingService = new NodeTimingService()
+  }
+  return nodeTimingService
+}
@@ -406,10 +406,12 @@ export class ProviderService {
       metadata.version = version
     }
 
+    // Replace the detected version but keep user settings such as the timezone
     return new Promise((resolve, reject) => {
       this.db.run(
         `UPDATE providers 
-         SET is_connected = ?, status = ?, last_checked_at = ?, metadata = ?
+         SET is_connected = ?, status = ?, last_checked_at = ?,
+           metadata = json_patch(json_remove(CASE WHEN json_valid(metadata) THEN metadata ELSE '{}' END, '$.version'), ?)
          WHERE id = ? AND user_id = ?`,
         [
           isConnected ? 1 : 0,
@@ -0,0 +1,337 @@
+import { Database } from 'sqlite3'
+import { getDb } from '@/lib/db'
+import { getConfigManager } from '@/lib/config/config-manager'
+import {
+  RetentionPolicy,
+  RetentionPruneResult,
+  WorkflowPayloadUsage,
+  WorkflowRetentionOverride
+} from '@/types'
+
+// Everything is kept forever until an admin saves a policy
+const POLICY_FIELDS: { field: keyof RetentionPolicy; column: string; configKey: string; defaultDays: number }[] = [
+  { field: 'successSummaryDays', column: 'success_summary_days', configKey: 'retention.success_summary_days', defaultDays: 0 },
+  { field: 'successPayloadDays', column: 'success_payload_days', configKey: 'retention.success_payload_days', defaultDays: 0 },
+  { field: 'errorSummaryDays', column: 'error_summary_days', configKey: 'retention.error_summary_days', defaultDays: 0 },
+  { field: 'errorPayloadDays', column: 'error_payload_days', configKey: 'retention.error_payload_days', defaultDays: 0 }
+]
+
+// Longest period a policy may be set to (10 years)
+const MAX_RETENTION_DAYS = 3650
+
+/**
+ * Validate a request body describing retention days.
+ * With allowNull=true a null value clears the field (used by per-workflow overrides).
+ */
+export function validateRetentionInput(body: any, allowNull = false): { data?: Partial<Record<keyof RetentionPolicy, number | null>>; error?: string } {
+  const data: Partial<Record<keyof RetentionPolicy, number | null>> = {}
+
+  for (const { field } of POLICY_FIELDS) {
+    const value = body[field]
+    if (value === undefined) continue
+
+    if ((value === null || value === '') && allowNull) {
+      data[field] = null
+      continue
+    }
+
+    const days = Number(value)
+    if (!Number.isInteger(days) || days < 0 || days > MAX_RETENTION_DAYS) {
+      return { error: `Retention days must be a whole number between 0 and ${MAX_RETENTION_DAYS}` }
+    }
+    data[field] = days
+  }
+
+  if (Object.keys(data).length === 0) {
+    return { error: 'No retention fields provided' }
+  }
+
+  return { data }
+}
+
+/**
+ * Retention Service
+ * Applies the global and per-workflow retention policies to stored executions.
+ * Payload pruning clears execution_data and the raw n8n response kept in metadata
+ * but leaves the execution row; summary pruning deletes the row itself.
+ */
+export class RetentionService {
+  private db: Database
+
+  constructor() {
+    this.db = getDb()
+  }
+
+  async getGlobalPolicy(): Promise<RetentionPolicy> {
+    const config = getConfigManager()
+    await config.initialize()
+
+    const policy = {} as RetentionPolicy
+    for (const { field, configKey, defaultDays } of POLICY_FIELDS) {
+      const value = await config.get(configKey)
+      policy[field] = value === null || value === '' ? defaultDays : Number(value)
+    }
+    return policy
+  }
+
+  async updateGlobalPolicy(data: Partial<Record<keyof RetentionPolicy, number | null>>, changedBy?: string): Promise<RetentionPolicy> {
+    const config = getConfigManager()
+    await config.initialize()
+
+    for (const { field, configKey } of POLICY_FIELDS) {
+      if (data[field] === undefined || data[field] === null) continue
+      await config.set(configKey, data[field], { changedBy })
+    }
+
+    return this.getGlobalPolicy()
+  }
+
+  async listOverrides(): Promise<WorkflowRetentionOverride[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM workflow_retention_policies', [], (err, rows: any[]) => {
+        if (err) reject(err)
+        else resolve((rows || []).map(row => this.mapOverride(row)))
+      })
+    })
+  }
+
+  async setOverride(workflowId: string, data: Partial<Record<keyof RetentionPolicy, number | null>>): Promise<WorkflowRetentionOverride | null> {
+    const workflow = await new Promise<{ id: string } | undefined>((resolve, reject) => {
+      this.db.get('SELECT id FROM workflows WHERE id = ?', [workflowId], (err, row: any) => {
+        if (err) reject(err)
+        else resolve(row)
+      })
+    })
+    if (!workflow) return null
+
+    const existing = (await this.listOverrides()).find(o => o.workflowId === workflowId)
+    const merged = POLICY_FIELDS.map(({ field }) => data[field] !== undefined ? data[field] : existing?.[field] ?? null)
+
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(
+        `INSERT OR REPLACE INTO workflow_retention_policies
+        (workflow_id, success_summary_days, success_payload_days, error_summary_days, error_payload_days, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+        [workflowId, ...merged, new Date().toISOString()],
+        (err) => {
+          if (err) reject(err)
+          else resolve()
+        }
+      )
+    })
+
+    return (await this.listOverrides()).find(o => o.workflowId === workflowId) || null
+  }
+
+  async deleteOverride(workflowId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM workflow_retention_policies WHERE workflow_id = ?', [workflowId], function (err) {
+        if (err) reject(err)
+        else resolve(this.changes > 0)
+      })
+    })
+  }
+
+  /**
+   * Storage used by each workflow's executions, largest first
+   */
+  async getPayloadUsage(): Promise<WorkflowPayloadUsage[]> {
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db.all(
+        `SELECT
+          w.id as workflow_id,
+          w.provider_workflow_id,
+          w.provider_id,
+          w.name as workflow_name,
+          COUNT(e.id) as execution_count,
+          SUM(CASE WHEN e.execution_data IS NOT NULL THEN 1 ELSE 0 END) as payload_count,
+          COALESCE(SUM(LENGTH(CAST(e.execution_data AS BLOB))), 0) as payload_bytes,
+          COALESCE(SUM(LENGTH(CAST(e.metadata AS BLOB))), 0) as metadata_bytes,
+          MIN(e.started_at) as oldest_execution_at
+        FROM workflows w
+        JOIN executions e ON e.workflow_id = w.id
+        GROUP BY w.id
+        ORDER BY payload_bytes + metadata_bytes DESC`,
+        [],
+        (err, rows: any[]) => {
+          if (err) reject(err)
+          else resolve(rows || [])
+        }
+      )
+    })
+
+    const overrides = new Map((await this.listOverrides()).map(o => [o.workflowId, o]))
+
+    return rows.map(row => ({
+      workflowId: row.workflow_id,
+      providerWorkflowId: row.provider_workflow_id,
+      providerId: row.provider_id,
+      workflowName: row.workflow_name,
+      executionCount: row.execution_count,
+      payloadCount: row.payload_count || 0,
+      payloadBytes: row.payload_bytes,
+      metadataBytes: row.metadata_bytes,
+      oldestExecutionAt: row.oldest_execution_at ? new Date(row.oldest_execution_at) : undefined,
+      override: overrides.get(row.workflow_id)
+    }))
+  }
+
+  async getDatabaseSize(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        'SELECT page_count * page_size as size FROM pragma_page_count(), pragma_page_size()',
+        [],
+        (err, row: any) => {
+          if (err) reject(err)
+          else resolve(row?.size || 0)
+        }
+      )
+    })
+  }
+
+  /**
+   * Whether any global or per-workflow retention limits executions at all
+   */
+  async hasConfiguredPolicy(): Promise<boolean> {
+    const policy = await this.getGlobalPolicy()
+    if (POLICY_FIELDS.some(({ field }) => policy[field] > 0)) return true
+
+    const override = await new Promise<any>((resolve, reject) => {
+      this.db.get(
+        `SELECT 1 FROM workflow_retention_policies
+        WHERE ${POLICY_FIELDS.map(({ column }) => `${column} > 0`).join(' OR ')}
+        LIMIT 1`,
+        [],
+        (err, row) => {
+          if (err) reject(err)
+          else resolve(row)
+        }
+      )
+    })
+    return Boolean(override)
+  }
+
+  /**
+   * Apply retention policies, then VACUUM when anything was removed.
+   * Does nothing, not even VACUUM, while no policy limits retention.
+   * Unfinished executions are never pruned.
+   */
+  async prune(): Promise<RetentionPruneResult> {
+    const startedAt = Date.now()
+    const policy = await this.getGlobalPolicy()
+    const sizeBeforeBytes = await this.getDatabaseSize()
+
+    if (!await this.hasConfiguredPolicy()) {
+      console.log('🧹 No retention policy configured, keeping all execution data')
+      return {
+        payloadsCleared: 0,
+        summariesDeleted: 0,
+        vacuumed: false,
+        sizeBeforeBytes,
+        sizeAfterBytes: sizeBeforeBytes,
+        durationMs: Date.now() - startedAt
+      }
+    }
+
+    console.log('🧹 Pruning execution data with retention policy:', policy)
+
+    let payloadsCleared = 0
+    let summariesDeleted = 0
+
+    for (const outcome of ['success', 'error'] as const) {
+      const statusFilter = outcome === 'success'
+        ? "e.status = 'success'"
+        : "e.status IN ('error', 'crashed', 'canceled')"
+      const payload = POLICY_FIELDS.find(f => f.field === `${outcome}PayloadDays`)!
+      const summary = POLICY_FIELDS.find(f => f.field === `${outcome}SummaryDays`)!
+
+      payloadsCleared += await this.run(
+        `UPDATE executions AS e SET
+          execution_data = NULL,
+          metadata = CASE WHEN json_valid(e.metadata) THEN json_remove(e.metadata, '$.originalData') ELSE e.metadata END
+        WHERE ${statusFilter}
+          AND (e.execution_data IS NOT NULL OR e.metadata LIKE '%"originalData"%')
+          AND ${this.expiredCondition(payload.column)}`,
+        [policy[payload.field], policy[payload.field]]
+      )
+
+      summariesDeleted += await this.run(
+        `DELETE FROM executions AS e
+        WHERE ${statusFilter}
+          AND ${this.expiredCondition(summary.column)}`,
+        [policy[summary.field], policy[summary.field]]
+      )
+    }
+
+    let vacuumed = false
+    if ((payloadsCleared > 0 || summariesDeleted > 0) && await this.isVacuumEnabled()) {
+      try {
+        await this.run('VACUUM', [])
+        vacuumed = true
+      } catch (error) {
+        // VACUUM cannot run while another connection holds a write transaction
+        console.warn('⚠️ VACUUM skipped:', error)
+      }
+    }
+
+    const result: RetentionPruneResult = {
+      payloadsCleared,
+      summariesDeleted,
+      vacuumed,
+      sizeBeforeBytes,
+      sizeAfterBytes: await this.getDatabaseSize(),
+      durationMs: Date.now() - startedAt
+    }
+
+    console.log('✅ Retention pruning completed:', result)
+    return result
+  }
+
+  /**
+   * True when the execution is older than its workflow's effective retention for a column.
+   * Expects the global days value bound twice.
+   */
+  private expiredCondition(column: string): string {
+    const days = `COALESCE((SELECT p.${column} FROM workflow_retention_policies p WHERE p.workflow_id = e.workflow_id), ?)`
+    return `${days} > 0
+          AND e.started_at IS NOT NULL
+          AND e.started_at < strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-' || ${days} || ' days')`
+  }
+
+  private async isVacuumEnabled(): Promise<boolean> {
+    const config = getConfigManager()
+    await config.initialize()
+    const value = await config.get('retention.vacuum_enabled')
+    return value === null || String(value) === 'true'
+  }
+
+  private run(sql: string, params: any[]): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, function (err) {
+        if (err) reject(err)
+        else resolve(this.changes || 0)
+      })
+    })
+  }
+
+  private mapOverride(row: any): WorkflowRetentionOverride {
+    return {
+      workflowId: row.workflow_id,
+      successSummaryDays: row.success_summary_days,
+      successPayloadDays: row.success_payload_days,
+      errorSummaryDays: row.error_summary_days,
+      errorPayloadDays: row.error_payload_days,
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+}
+
+// Export singleton instance
+let retentionService: RetentionService | null = null
+
+export function getRetentionService(): RetentionService {
+  if (!retentionService) {
+    retentionService = new RetentionService()
+  }
+  return retentionService
+}
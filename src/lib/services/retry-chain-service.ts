@@ -0,0 +1,236 @@
+import { Database } from 'sqlite3'
+import { getDb } from '@/lib/db'
+import {
+  ExecutionStatus,
+  RetryAttempt,
+  RetryChain,
+  RetryChainOutcome,
+  RetryMetrics,
+  RetryWorkflowMetrics
+} from '@/types'
+
+// Chain depth resolved per linking run; deeper chains finish on the next sync
+const MAX_LINK_PASSES = 10
+const MAX_CHAIN_LENGTH = 100
+const TOP_WORKFLOWS = 10
+
+const PENDING_STATUSES: ExecutionStatus[] = ['running', 'waiting']
+
+/**
+ * Outcome of a chain: recovered once any retry succeeded, pending while the latest retry is still running
+ */
+export function retryChainOutcome(recovered: boolean, latestRetryStatus?: ExecutionStatus | null): RetryChainOutcome {
+  if (recovered) return 'recovered'
+  return latestRetryStatus && PENDING_STATUSES.includes(latestRetryStatus) ? 'pending' : 'failed'
+}
+
+function finishedAt(row: { stopped_at: string | null; started_at: string }): number {
+  return new Date(row.stopped_at || row.started_at).getTime()
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null
+}
+
+/**
+ * Retry Chain Service
+ * Links n8n retries (retry_of) to the original execution of their chain via
+ * retry_root_id, and reports how chains end and how long recovery takes
+ */
+export class RetryChainService {
+  private db: Database = getDb()
+
+  /**
+   * Point unlinked retries at their chain's original execution. A retry links
+   * once its parent is the original or is linked itself, so every pass resolves
+   * one more level of retry-of-a-retry.
+   */
+  async linkRetries(): Promise<number> {
+    let linked = 0
+
+    for (let pass = 0; pass < MAX_LINK_PASSES; pass++) {
+      const changes = await this.run(
+        `UPDATE executions SET retry_root_id = (
+          SELECT COALESCE(parent.retry_root_id, parent.id) FROM executions parent
+          WHERE parent.provider_id = executions.provider_id AND parent.provider_execution_id = executions.retry_of
+        )
+        WHERE retry_of IS NOT NULL AND retry_root_id IS NULL
+          AND EXISTS (
+            SELECT 1 FROM executions parent
+            WHERE parent.provider_id = executions.provider_id
+              AND parent.provider_execution_id = executions.retry_of
+              AND (
+                parent.retry_of IS NULL
+                OR parent.retry_root_id IS NOT NULL
+                -- The parent's own original is gone (e.g. pruned), so the parent heads the chain
+                OR NOT EXISTS (
+                  SELECT 1 FROM executions grandparent
+                  WHERE grandparent.provider_id = parent.provider_id AND grandparent.provider_execution_id = parent.retry_of
+                )
+              )
+          )`
+      )
+      linked += changes
+      if (changes === 0) break
+    }
+
+    if (linked > 0) {
+      console.log(`🔁 Linked ${linked} retries to their original executions`)
+    }
+    return linked
+  }
+
+  /**
+   * The chain an execution belongs to, whether it is the original or one of its retries
+   */
+  async getChain(userId: string, executionId: string): Promise<RetryChain | null> {
+    const execution = await this.get(
+      `SELECT COALESCE(e.retry_root_id, e.id) as root_id
+      FROM executions e
+      JOIN providers p ON p.id = e.provider_id
+      WHERE e.id = ? AND p.user_id = ?`,
+      [executionId, userId]
+    )
+    if (!execution) return null
+
+    const rows = await this.all(
+      `SELECT id, provider_execution_id, status, mode, started_at, stopped_at, duration
+      FROM executions
+      WHERE id = ? OR retry_root_id = ?
+      ORDER BY CASE WHEN id = ? THEN 0 ELSE 1 END, started_at ASC
+      LIMIT ?`,
+      [execution.root_id, execution.root_id, execution.root_id, MAX_CHAIN_LENGTH]
+    )
+
+    const attempts: RetryAttempt[] = rows.map((row, index) => ({
+      id: row.id,
+      providerExecutionId: row.provider_execution_id,
+      attempt: index,
+      status: row.status,
+      mode: row.mode,
+      startedAt: new Date(row.started_at),
+      stoppedAt: row.stopped_at ? new Date(row.stopped_at) : undefined,
+      duration: row.duration ?? undefined
+    }))
+
+    const original = rows[0]
+    const retries = rows.slice(1)
+    const recovery = retries.find(row => row.status === 'success')
+
+    return {
+      rootId: execution.root_id,
+      attempts,
+      retries: retries.length,
+      outcome: retryChainOutcome(Boolean(recovery), retries[retries.length - 1]?.status),
+      recoveredAt: recovery ? new Date(finishedAt(recovery)) : null,
+      timeToRecovery: recovery && original ? Math.max(0, finishedAt(recovery) - finishedAt(original)) : null
+    }
+  }
+
+  /**
+   * Recovery statistics of chains whose original execution started since the given time
+   */
+  async getMetrics(userId: string, options: { since: Date; providerId?: string }): Promise<RetryMetrics> {
+    const params: any[] = [userId, options.since.toISOString()]
+    let providerFilter = ''
+    if (options.providerId) {
+      providerFilter = 'AND r.provider_id = ?'
+      params.push(options.providerId)
+    }
+
+    const chains = await this.all(
+      `SELECT r.id, r.started_at, r.stopped_at,
+        w.provider_workflow_id, w.name as workflow_name,
+        COUNT(x.id) as retries,
+        MIN(CASE WHEN x.status = 'success' THEN COALESCE(x.stopped_at, x.started_at) END) as recovered_at
+      FROM executions r
+      JOIN providers p ON p.id = r.provider_id
+      JOIN executions x ON x.retry_root_id = r.id
+      LEFT JOIN workflows w ON w.id = r.workflow_id
+      WHERE p.user_id = ? AND r.started_at >= ? ${providerFilter}
+      GROUP BY r.id`,
+      params
+    )
+
+    const recoveryTimes: number[] = []
+    type WorkflowAccumulator = RetryWorkflowMetrics & { recoveryTimes: number[] }
+    const byWorkflow = new Map<string, WorkflowAccumulator>()
+
+    for (const chain of chains) {
+      const recoveryTime = chain.recovered_at
+        ? Math.max(0, new Date(chain.recovered_at).getTime() - finishedAt(chain))
+        : null
+      if (recoveryTime !== null) recoveryTimes.push(recoveryTime)
+
+      const key = chain.provider_workflow_id || 'unknown'
+      const workflow: WorkflowAccumulator = byWorkflow.get(key) || {
+        workflowId: key,
+        workflowName: chain.workflow_name || 'Unknown Workflow',
+        chains: 0,
+        retries: 0,
+        recoveredChains: 0,
+        meanTimeToRecovery: null,
+        recoveryTimes: []
+      }
+      workflow.chains += 1
+      workflow.retries += chain.retries
+      if (recoveryTime !== null) {
+        workflow.recoveredChains += 1
+        workflow.recoveryTimes.push(recoveryTime)
+      }
+      byWorkflow.set(key, workflow)
+    }
+
+    const retries = chains.reduce((sum, chain) => sum + chain.retries, 0)
+
+    return {
+      chains: chains.length,
+      retries,
+      recoveredChains: recoveryTimes.length,
+      recoveryRate: chains.length > 0 ? Math.round((recoveryTimes.length / chains.length) * 1000) / 10 : 0,
+      avgRetriesPerChain: chains.length > 0 ? Math.round((retries / chains.length) * 10) / 10 : 0,
+      meanTimeToRecovery: mean(recoveryTimes),
+      workflows: Array.from(byWorkflow.values())
+        .sort((a, b) => b.retries - a.retries || b.chains - a.chains)
+        .slice(0, TOP_WORKFLOWS)
+        .map(({ recoveryTimes: times, ...workflow }) => ({ ...workflow, meanTimeToRecovery: mean(times) }))
+    }
+  }
+
+  private run(sql: string, params: any[] = []): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, function (err) {
+        if (err) reject(err)
+        else resolve(this.changes)
+      })
+    })
+  }
+
+  private get(sql: string, params: any[] = []): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.db.get(sql, params, (err, row) => {
+        if (err) reject(err)
+        else resolve(row)
+      })
+    })
+  }
+
+  private all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) reject(err)
+        else resolve(rows || [])
+      })
+    })
+  }
+}
+
+// Export singleton instance
+let retryChainService: RetryChainService | null = null
+
+export function getRetryChainService(): RetryChainService {
+  if (!retryChainService) {
+    retryChainService = new RetryChainService()
+  }
+  return retryChainService
+}
@@ -0,0 +1,326 @@
+import { Database } from 'sqlite3'
+import { getDb } from '@/lib/db'
+import {
+  Slo,
+  SloBudgetPoint,
+  SloBurnRate,
+  SloHealth,
+  SloObjectiveType,
+  SloScopeType,
+  SloStatus
+} from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+export type SloInput = Omit<Slo, 'id' | 'createdAt' | 'updatedAt'>
+
+const SCOPE_TYPES: SloScopeType[] = ['workflow', 'tag']
+const OBJECTIVE_TYPES: SloObjectiveType[] = ['success_rate', 'latency']
+
+// Burn rate is reported over these windows, short to long
+const BURN_RATE_WINDOWS_MINUTES = [60, 6 * 60, 24 * 60]
+
+// Below this share of the error budget left an SLO is reported as at risk
+const AT_RISK_BUDGET_PCT = 25
+
+/**
+ * Validate a request body describing a complete SLO.
+ * Updates should merge the body onto the existing SLO before validating.
+ */
+export function validateSloInput(body: any): { data?: SloInput; error?: string } {
+  if (!body.name || typeof body.name !== 'string' || body.name.trim().length === 0) {
+    return { error: 'SLO name is required' }
+  }
+
+  if (!SCOPE_TYPES.includes(body.scopeType)) {
+    return { error: `Scope must be one of ${SCOPE_TYPES.join(', ')}` }
+  }
+  if (!body.scopeValue || typeof body.scopeValue !== 'string') {
+    return { error: `A ${body.scopeType} must be selected for this SLO` }
+  }
+
+  if (!OBJECTIVE_TYPES.includes(body.objectiveType)) {
+    return { error: `Objective must be one of ${OBJECTIVE_TYPES.join(', ')}` }
+  }
+
+  // A 100% target leaves no error budget to track
+  const target = Number(body.target)
+  if (!Number.isFinite(target) || target < 50 || target >= 100) {
+    return { error: 'Target must be at least 50% and below 100%' }
+  }
+
+  let latencyThresholdMs: number | undefined
+  if (body.objectiveType === 'latency') {
+    latencyThresholdMs = Number(body.latencyThresholdMs)
+    if (!Number.isInteger(latencyThresholdMs) || latencyThresholdMs < 1) {
+      return { error: 'Latency threshold must be a positive number of milliseconds' }
+    }
+  }
+
+  const windowDays = Number(body.windowDays ?? 30)
+  if (!Number.isInteger(windowDays) || windowDays < 1 || windowDays > 90) {
+    return { error: 'Window must be between 1 and 90 days' }
+  }
+
+  return {
+    data: {
+      name: body.name.trim(),
+      scopeType: body.scopeType,
+      scopeValue: body.scopeValue,
+      objectiveType: body.objectiveType,
+      target,
+      latencyThresholdMs,
+      windowDays,
+      isEnabled: body.isEnabled === undefined ? true : Boolean(body.isEnabled)
+    }
+  }
+}
+
+/**
+ * SLO Service
+ * Persists service level objectives and computes compliance, error budget and
+ * burn rate from the executions table
+ */
+export class SloService {
+  private db: Database
+
+  constructor() {
+    this.db = getDb()
+  }
+
+  /**
+   * List SLOs, optionally only enabled ones
+   */
+  async listSlos(enabledOnly = false): Promise<Slo[]> {
+    const rows = await this.all(
+      `SELECT * FROM slos ${enabledOnly ? 'WHERE is_enabled = 1' : ''} ORDER BY name ASC`
+    )
+    return rows.map(row => this.mapSlo(row))
+  }
+
+  async getSlo(sloId: string): Promise<Slo | null> {
+    const rows = await this.all('SELECT * FROM slos WHERE id = ?', [sloId])
+    return rows[0] ? this.mapSlo(rows[0]) : null
+  }
+
+  async createSlo(data: SloInput): Promise<Slo> {
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await this.run(
+      `INSERT INTO slos (
+        id, name, scope_type, scope_value, objective_type, target, latency_threshold_ms,
+        window_days, is_enabled, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id, data.name, data.scopeType, data.scopeValue, data.objectiveType, data.target,
+        data.latencyThresholdMs ?? null, data.windowDays, data.isEnabled ? 1 : 0, now, now
+      ]
+    )
+
+    const slo = await this.getSlo(id)
+    if (!slo) {
+      throw new Error('SLO not found after create')
+    }
+    return slo
+  }
+
+  async updateSlo(sloId: string, data: SloInput): Promise<Slo | null> {
+    const changes = await this.run(
+      `UPDATE slos SET
+        name = ?, scope_type = ?, scope_value = ?, objective_type = ?, target = ?,
+        latency_threshold_ms = ?, window_days = ?, is_enabled = ?, updated_at = ?
+      WHERE id = ?`,
+      [
+        data.name, data.scopeType, data.scopeValue, data.objectiveType, data.target,
+        data.latencyThresholdMs ?? null, data.windowDays, data.isEnabled ? 1 : 0,
+        new Date().toISOString(), sloId
+      ]
+    )
+
+    return changes > 0 ? this.getSlo(sloId) : null
+  }
+
+  async deleteSlo(sloId: string): Promise<boolean> {
+    return (await this.run('DELETE FROM slos WHERE id = ?', [sloId])) > 0
+  }
+
+  /**
+   * Compliance, remaining error budget and burn rates over the SLO window.
+   * With `includeHistory`, also the cumulative budget for each day of the window.
+   */
+  async getStatus(slo: Slo, includeHistory = false): Promise<SloStatus> {
+    const windowMinutes = slo.windowDays * 24 * 60
+    const window = await this.countExecutions(slo, windowMinutes)
+    const allowedFailureRatio = 1 - slo.target / 100
+
+    const burnRates: SloBurnRate[] = []
+    for (const minutes of BURN_RATE_WINDOWS_MINUTES.filter(m => m < windowMinutes)) {
+      burnRates.push(await this.getBurnRate(slo, minutes))
+    }
+
+    const budgetRemainingPct = window.total > 0
+      ? this.round(100 * (1 - (window.bad / window.total) / allowedFailureRatio))
+      : null
+
+    let health: SloHealth = 'no_data'
+    if (budgetRemainingPct !== null) {
+      const shortBurn = burnRates[0]?.burnRate ?? 0
+      if (budgetRemainingPct <= 0) health = 'breached'
+      else if (budgetRemainingPct < AT_RISK_BUDGET_PCT || shortBurn > 1) health = 'at_risk'
+      else health = 'healthy'
+    }
+
+    return {
+      slo,
+      totalExecutions: window.total,
+      goodExecutions: window.total - window.bad,
+      badExecutions: window.bad,
+      compliance: window.total > 0 ? this.round(((window.total - window.bad) / window.total) * 100, 3) : null,
+      allowedBadExecutions: Math.floor(window.total * allowedFailureRatio),
+      budgetRemainingPct,
+      health,
+      burnRates,
+      budgetHistory: includeHistory ? await this.getBudgetHistory(slo) : undefined
+    }
+  }
+
+  /**
+   * Rate at which the error budget is consumed over the last `windowMinutes`.
+   * A burn rate of 1 uses up exactly the whole budget by the end of the SLO window.
+   */
+  async getBurnRate(slo: Slo, windowMinutes: number): Promise<SloBurnRate> {
+    const { total, bad } = await this.countExecutions(slo, windowMinutes)
+    const allowedFailureRatio = 1 - slo.target / 100
+
+    return {
+      windowMinutes,
+      totalExecutions: total,
+      badExecutions: bad,
+      burnRate: total > 0 ? this.round((bad / total) / allowedFailureRatio) : null
+    }
+  }
+
+  private async getBudgetHistory(slo: Slo): Promise<SloBudgetPoint[]> {
+    const query = this.buildQuery(slo, slo.windowDays * 24 * 60)
+    const rows = await this.all(
+      `SELECT substr(COALESCE(e.stopped_at, e.started_at), 1, 10) as day, ${query.select}
+      FROM executions e
+      LEFT JOIN workflows w ON w.id = e.workflow_id
+      WHERE ${query.where}
+      GROUP BY day
+      ORDER BY day`,
+      query.params
+    )
+
+    const allowedFailureRatio = 1 - slo.target / 100
+    let total = 0
+    let bad = 0
+
+    return rows.map(row => {
+      total += Number(row.total) || 0
+      bad += Number(row.bad) || 0
+      return {
+        date: row.day,
+        totalExecutions: Number(row.total) || 0,
+        badExecutions: Number(row.bad) || 0,
+        budgetRemainingPct: this.round(100 * (1 - (bad / total) / allowedFailureRatio))
+      }
+    })
+  }
+
+  private async countExecutions(slo: Slo, windowMinutes: number): Promise<{ total: number; bad: number }> {
+    const query = this.buildQuery(slo, windowMinutes)
+    const rows = await this.all(
+      `SELECT ${query.select}
+      FROM executions e
+      LEFT JOIN workflows w ON w.id = e.workflow_id
+      WHERE ${query.where}`,
+      query.params
+    )
+
+    return {
+      total: Number(rows[0]?.total) || 0,
+      bad: Number(rows[0]?.bad) || 0
+    }
+  }
+
+  /**
+   * Count expressions and filters shared by all SLO queries. Success rate SLOs count
+   * every finished execution and treat failures as bad; latency SLOs only count
+   * successful executions and treat those slower than the threshold as bad.
+   */
+  private buildQuery(slo: Slo, windowMinutes: number): { select: string; where: string; params: any[] } {
+    const since = new Date(Date.now() - windowMinutes * 60 * 1000).toISOString()
+
+    const isLatency = slo.objectiveType === 'latency'
+    const select = isLatency
+      ? 'COUNT(*) as total, SUM(CASE WHEN e.duration > ? THEN 1 ELSE 0 END) as bad'
+      : "COUNT(*) as total, SUM(CASE WHEN e.status = 'error' THEN 1 ELSE 0 END) as bad"
+    const objective = isLatency
+      ? "e.status = 'success' AND e.duration IS NOT NULL"
+      : "e.status IN ('success', 'error', 'canceled')"
+
+    // n8n tags may be stored as objects ({ id, name }) or plain strings
+    const scope = slo.scopeType === 'workflow'
+      ? 'e.provider_workflow_id = ?'
+      : `EXISTS (
+          SELECT 1 FROM json_each(CASE WHEN json_valid(w.tags) THEN w.tags ELSE '[]' END) t
+          WHERE (CASE WHEN t.type = 'object' THEN json_extract(t.value, '$.name') ELSE t.value END) = ?
+        )`
+
+    return {
+      select,
+      where: `${objective} AND ${scope} AND COALESCE(e.stopped_at, e.started_at) >= ?`,
+      params: [...(isLatency ? [slo.latencyThresholdMs] : []), slo.scopeValue, since]
+    }
+  }
+
+  private round(value: number, decimals = 2): number {
+    const factor = Math.pow(10, decimals)
+    return Math.round(value * factor) / factor
+  }
+
+  private mapSlo(row: any): Slo {
+    return {
+      id: row.id,
+      name: row.name,
+      scopeType: row.scope_type,
+      scopeValue: row.scope_value,
+      objectiveType: row.objective_type,
+      target: row.target,
+      latencyThresholdMs: row.latency_threshold_ms ?? undefined,
+      windowDays: row.window_days,
+      isEnabled: Boolean(row.is_enabled),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+
+  private all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) reject(err)
+        else resolve(rows || [])
+      })
+    })
+  }
+
+  private run(sql: string, params: any[] = []): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, function (err) {
+        if (err) reject(err)
+        else resolve(this.changes)
+      })
+    })
+  }
+}
+
+// Export singleton instance
+let sloService: SloService | null = null
+
+export function getSloService(): SloService {
+  if (!sloService) {
+    sloService = new SloService()
+  }
+  return sloService
+}
@@ -0,0 +1,216 @@
+import { Database } from 'sqlite3'
+import { getDb } from '@/lib/db'
+import { ProviderRegistry } from '@/lib/providers'
+import { getProviderService } from '@/lib/services/provider-service'
+import { ApiResponse, WorkflowInputPreset, WorkflowRunStart, WorkflowRunStatus } from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+export interface RunnableWorkflow {
+  providerId: string
+  providerWorkflowId: string
+  name: string
+}
+
+/**
+ * Workflow Run Service
+ * Starts workflows on their provider with a JSON input payload, reports the
+ * started execution's progress and keeps named input presets per workflow
+ */
+export class WorkflowRunService {
+  private db: Database = getDb()
+
+  /**
+   * Workflow with the given provider workflow ID on one of the user's providers
+   * @param providerId Disambiguates workflows that share an ID across instances
+   */
+  async getWorkflow(userId: string, providerWorkflowId: string, providerId?: string): Promise<RunnableWorkflow | null> {
+    const params: any[] = [providerWorkflowId, userId]
+    let providerFilter = ''
+    if (providerId) {
+      providerFilter = 'AND w.provider_id = ?'
+      params.push(providerId)
+    }
+
+    const row = await this.get(
+      `SELECT w.provider_id, w.provider_workflow_id, w.name
+      FROM workflows w
+      JOIN providers p ON p.id = w.provider_id
+      WHERE w.provider_workflow_id = ? AND p.user_id = ? ${providerFilter}
+      LIMIT 1`,
+      params
+    )
+
+    return row
+      ? { providerId: row.provider_id, providerWorkflowId: row.provider_workflow_id, name: row.name }
+      : null
+  }
+
+  /**
+   * Start the workflow with the payload as its input data
+   */
+  async start(
+    user: { id: string; email: string },
+    workflow: RunnableWorkflow,
+    payload: Record<string, unknown>
+  ): Promise<ApiResponse<WorkflowRunStart>> {
+    const provider = await getProviderService().getProviderWithApiKey(workflow.providerId, user.id)
+    if (!provider) {
+      return { success: false, error: 'Provider not found' }
+    }
+
+    const startedAt = new Date()
+    const result = await ProviderRegistry.create(provider).triggerWorkflow(workflow.providerWorkflowId, payload)
+
+    if (!result.success) {
+      console.log(`❌ Manual run of ${workflow.name} by ${user.email} failed: ${result.error}`)
+      return { success: false, error: result.error || 'Provider rejected the run' }
+    }
+
+    const providerExecutionId = result.data?.providerExecutionId ?? null
+    console.log(`▶️ ${user.email} ran ${workflow.name}${providerExecutionId ? ` as execution ${providerExecutionId}` : ''}`)
+    return {
+      success: true,
+      data: { providerId: workflow.providerId, providerExecutionId, startedAt }
+    }
+  }
+
+  /**
+   * Live state of a started run, read from the provider rather than the last sync
+   */
+  async getRunStatus(userId: string, providerId: string, providerExecutionId: string): Promise<ApiResponse<WorkflowRunStatus>> {
+    const provider = await getProviderService().getProviderWithApiKey(providerId, userId)
+    if (!provider) {
+      return { success: false, error: 'Provider not found' }
+    }
+
+    const result = await ProviderRegistry.create(provider).getExecution(providerExecutionId)
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Execution not found on provider' }
+    }
+
+    const execution = result.data
+    const synced = await this.get(
+      'SELECT id FROM executions WHERE provider_id = ? AND provider_execution_id = ?',
+      [providerId, providerExecutionId]
+    )
+
+    return {
+      success: true,
+      data: {
+        providerExecutionId,
+        status: execution.status,
+        // n8n sets stoppedAt once a run ends, whatever state it ends in
+        finished: Boolean(execution.stoppedAt) || ['success', 'error', 'canceled'].includes(execution.status),
+        startedAt: execution.startedAt,
+        stoppedAt: execution.stoppedAt,
+        duration: execution.duration,
+        error: execution.error?.message,
+        executionId: synced?.id || null
+      }
+    }
+  }
+
+  /**
+   * Input presets of a workflow, by name
+   */
+  async listPresets(workflow: RunnableWorkflow): Promise<WorkflowInputPreset[]> {
+    const rows = await this.all(
+      `SELECT * FROM workflow_input_presets
+      WHERE provider_id = ? AND provider_workflow_id = ?
+      ORDER BY name COLLATE NOCASE`,
+      [workflow.providerId, workflow.providerWorkflowId]
+    )
+    return rows.map(row => this.mapPreset(row))
+  }
+
+  /**
+   * Create a preset, or replace the payload of the preset with the same name
+   */
+  async savePreset(
+    workflow: RunnableWorkflow,
+    name: string,
+    payload: Record<string, unknown>,
+    createdBy: string
+  ): Promise<WorkflowInputPreset> {
+    const now = new Date().toISOString()
+    await this.run(
+      `INSERT INTO workflow_input_presets (
+        id, provider_id, provider_workflow_id, name, payload, created_by, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (provider_id, provider_workflow_id, name)
+      DO UPDATE SET payload = excluded.payload, updated_at = excluded.updated_at`,
+      [uuidv4(), workflow.providerId, workflow.providerWorkflowId, name, JSON.stringify(payload), createdBy, now, now]
+    )
+
+    const row = await this.get(
+      'SELECT * FROM workflow_input_presets WHERE provider_id = ? AND provider_workflow_id = ? AND name = ?',
+      [workflow.providerId, workflow.providerWorkflowId, name]
+    )
+    return this.mapPreset(row)
+  }
+
+  async deletePreset(workflow: RunnableWorkflow, presetId: string): Promise<boolean> {
+    const changes = await this.run(
+      'DELETE FROM workflow_input_presets WHERE id = ? AND provider_id = ? AND provider_workflow_id = ?',
+      [presetId, workflow.providerId, workflow.providerWorkflowId]
+    )
+    return changes > 0
+  }
+
+  private mapPreset(row: any): WorkflowInputPreset {
+    let payload: Record<string, unknown> = {}
+    try {
+      payload = JSON.parse(row.payload)
+    } catch {
+      payload = {}
+    }
+
+    return {
+      id: row.id,
+      providerId: row.provider_id,
+      providerWorkflowId: row.provider_workflow_id,
+      name: row.name,
+      payload,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+
+  private run(sql: string, params: any[] = []): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, function (err) {
+        if (err) reject(err)
+        else resolve(this.changes)
+      })
+    })
+  }
+
+  private get(sql: string, params: any[] = []): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.db.get(sql, params, (err, row) => {
+        if (err) reject(err)
+        else resolve(row)
+      })
+    })
+  }
+
+  private all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) reject(err)
+        else resolve(rows || [])
+      })
+    })
+  }
+}
+
+// Export singleton instance
+let workflowRunService: WorkflowRunService | null = null
+
+export function getWorkflowRunService(): WorkflowRunService {
+  if (!workflowRunService) {
+    workflowRunService = new WorkflowRunService()
+  }
+  return workflowRunService
+}
@@ -0,0 +1,397 @@
+import { Database } from 'sqlite3'
+import crypto from 'crypto'
+import { getDb } from '@/lib/db'
+import { ProviderRegistry } from '@/lib/providers'
+import { getProviderService } from '@/lib/services/provider-service'
+import { diffWorkflows } from '@/lib/workflows/workflow-diff'
+import { ExecutionWorkflowSource, WorkflowRestorePreview, WorkflowRestoreRecord, WorkflowVersion } from '@/types'
+import { v4 as uuidv4 } from 'uuid'
+
+interface WorkflowSnapshotInput {
+  id: string // Provider workflow ID
+  name: string
+  updatedAt?: string
+  nodes?: any[]
+  connections?: Record<string, unknown>
+  settings?: Record<string, unknown>
+}
+
+/**
+ * JSON.stringify with sorted object keys so equal structures hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, child]) => child !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, child]) => `${JSON.stringify(key)}:${stableStringify(child)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Hash of a workflow's nodes and connections. Canvas positions are left out
+ * so moving nodes around does not count as a structural change.
+ */
+export function computeNodeHash(workflow: Pick<WorkflowSnapshotInput, 'nodes' | 'connections'>): string {
+  const nodes = (workflow.nodes || []).map(node =>
+    Object.fromEntries(Object.entries(node).filter(([field]) => field !== 'position'))
+  )
+
+  return crypto
+    .createHash('sha256')
+    .update(stableStringify({ nodes, connections: workflow.connections || {} }))
+    .digest('hex')
+}
+
+/**
+ * Workflow Version Service
+ * Appends a snapshot to workflow_versions whenever a workflow's updatedAt or node hash changes,
+ * and restores snapshots back to the provider with an audit record per attempt
+ */
+export class WorkflowVersionService {
+  private db: Database
+
+  constructor() {
+    this.db = getDb()
+  }
+
+  /**
+   * Store a new version if the snapshot differs from the latest one.
+   * Returns null when nothing changed or the workflow is not stored yet.
+   */
+  async recordVersion(providerId: string, snapshot: WorkflowSnapshotInput): Promise<WorkflowVersion | null> {
+    if (!Array.isArray(snapshot.nodes)) {
+      // List responses without node definitions cannot be versioned
+      return null
+    }
+
+    const workflow = await new Promise<{ id: string } | undefined>((resolve, reject) => {
+      this.db.get(
+        'SELECT id FROM workflows WHERE provider_id = ? AND provider_workflow_id = ?',
+        [providerId, snapshot.id],
+        (err, row: any) => {
+          if (err) reject(err)
+          else resolve(row)
+        }
+      )
+    })
+    if (!workflow) return null
+
+    const latest = await new Promise<{ version_number: number; node_hash: string; workflow_updated_at: string | null } | undefined>((resolve, reject) => {
+      this.db.get(
+        `SELECT version_number, node_hash, workflow_updated_at FROM workflow_versions
+        WHERE workflow_id = ?
+        ORDER BY version_number DESC
+        LIMIT 1`,
+        [workflow.id],
+        (err, row: any) => {
+          if (err) reject(err)
+          else resolve(row)
+        }
+      )
+    })
+
+    const nodeHash = computeNodeHash(snapshot)
+    const updatedAt = snapshot.updatedAt || null
+    if (latest && latest.node_hash === nodeHash && latest.workflow_updated_at === updatedAt) {
+      return null
+    }
+
+    const id = uuidv4()
+    const versionNumber = (latest?.version_number || 0) + 1
+
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO workflow_versions (
+          id, workflow_id, provider_id, provider_workflow_id, version_number,
+          name, node_hash, node_count, workflow_updated_at, workflow_data, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id, workflow.id, providerId, snapshot.id, versionNumber,
+          snapshot.name, nodeHash, snapshot.nodes!.length, updatedAt,
+          JSON.stringify(snapshot), new Date().toISOString()
+        ],
+        (err) => {
+          if (err) reject(err)
+          else resolve()
+        }
+      )
+    })
+
+    console.log(`🗂️ Stored version ${versionNumber} of workflow ${snapshot.name}`)
+    return this.getVersion(id, false)
+  }
+
+  /**
+   * Versions of a workflow, newest first, without their JSON
+   */
+  async listVersions(providerWorkflowId: string): Promise<WorkflowVersion[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT id, workflow_id, provider_id, provider_workflow_id, version_number, name,
+          node_hash, node_count, workflow_updated_at, created_at
+        FROM workflow_versions
+        WHERE provider_workflow_id = ?
+        ORDER BY version_number DESC`,
+        [providerWorkflowId],
+        (err, rows: any[]) => {
+          if (err) reject(err)
+          else resolve((rows || []).map(row => this.mapVersion(row)))
+        }
+      )
+    })
+  }
+
+  /**
+   * The version of a workflow (internal ID) that was live at a point in time, with its JSON
+   */
+  async getVersionAt(workflowId: string, at: Date): Promise<WorkflowVersion | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        `SELECT * FROM workflow_versions
+        WHERE workflow_id = ? AND COALESCE(workflow_updated_at, created_at) <= ?
+        ORDER BY version_number DESC
+        LIMIT 1`,
+        [workflowId, at.toISOString()],
+        (err, row: any) => {
+          if (err) reject(err)
+          else resolve(row ? this.mapVersion(row, true) : null)
+        }
+      )
+    })
+  }
+
+  /**
+   * Workflow definition an execution ran against: the version live when it started,
+   * then the snapshot stored with the execution, then the current workflow
+   */
+  async resolveExecutionWorkflow(execution: {
+    workflowId: string | null // Internal workflow ID
+    startedAt: Date
+    snapshot?: Record<string, any> | null
+    current?: Record<string, any> | null
+  }): Promise<{ workflow: Record<string, any>; source: ExecutionWorkflowSource } | null> {
+    const version = execution.workflowId
+      ? await this.getVersionAt(execution.workflowId, execution.startedAt)
+      : null
+    if (version?.workflowData && Array.isArray(version.workflowData.nodes)) {
+      return {
+        workflow: version.workflowData,
+        source: { type: 'version', versionId: version.id, versionNumber: version.versionNumber }
+      }
+    }
+    if (execution.snapshot && Array.isArray(execution.snapshot.nodes)) {
+      return { workflow: execution.snapshot, source: { type: 'execution' } }
+    }
+    if (execution.current && Array.isArray(execution.current.nodes)) {
+      return { workflow: execution.current, source: { type: 'current' } }
+    }
+    return null
+  }
+
+  async getVersion(versionId: string, includeData = true): Promise<WorkflowVersion | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM workflow_versions WHERE id = ?', [versionId], (err, row: any) => {
+        if (err) reject(err)
+        else resolve(row ? this.mapVersion(row, includeData) : null)
+      })
+    })
+  }
+
+  /**
+   * Dry run of a restore: what would change compared to the workflow live on the
+   * provider, which may have been edited since the latest captured version.
+   * Falls back to the latest captured version when the provider cannot be reached.
+   */
+  async previewRestore(versionId: string, userId: string): Promise<WorkflowRestorePreview | null> {
+    const version = await this.getVersion(versionId)
+    if (!version?.workflowData) return null
+
+    const latest = (await this.listVersions(version.providerWorkflowId))[0]
+    const current = latest ? await this.getVersion(latest.id) : null
+
+    const live = await this.getLiveWorkflowData(version, userId)
+    const diff = diffWorkflows(live || current?.workflowData || {}, version.workflowData)
+
+    delete version.workflowData
+    if (current) delete current.workflowData
+
+    return { version, current, comparedTo: live ? 'provider' : 'captured', diff }
+  }
+
+  /**
+   * Definition the provider runs now, in the shape versions are captured in
+   */
+  private async getLiveWorkflowData(version: WorkflowVersion, userId: string): Promise<Record<string, any> | null> {
+    try {
+      const provider = await getProviderService().getProviderWithApiKey(version.providerId, userId)
+      if (!provider) return null
+
+      const result = await ProviderRegistry.create(provider).getWorkflow(version.providerWorkflowId)
+      if (!result.success || !result.data) return null
+
+      const metadata = (result.data.metadata || {}) as Record<string, any>
+      return {
+        name: result.data.name,
+        nodes: metadata.nodes,
+        connections: metadata.connections,
+        settings: metadata.settings
+      }
+    } catch (error) {
+      console.error(`Failed to fetch live workflow ${version.providerWorkflowId} for restore preview:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Push a stored version back to its provider. Every attempt is written to
+   * workflow_restores; a successful restore is also captured as a new version.
+   */
+  async restoreVersion(versionId: string, user: { id: string; email: string }): Promise<WorkflowRestoreRecord | null> {
+    const version = await this.getVersion(versionId)
+    if (!version?.workflowData) return null
+
+    const provider = await getProviderService().getProviderWithApiKey(version.providerId, user.id)
+    if (!provider) {
+      return this.logRestore(version, user.email, 'Provider not found')
+    }
+
+    const data = version.workflowData
+    let error: string | undefined
+    try {
+      const adapter = ProviderRegistry.create(provider)
+      const result = await adapter.updateWorkflow(version.providerWorkflowId, {
+        name: data.name || version.name,
+        nodes: data.nodes || [],
+        connections: data.connections || {},
+        settings: data.settings
+      })
+
+      if (!result.success || !result.data) {
+        error = result.error || 'Provider rejected the update'
+      } else {
+        const metadata = (result.data.metadata || {}) as Record<string, any>
+        await this.recordVersion(version.providerId, {
+          id: result.data.providerWorkflowId,
+          name: result.data.name,
+          updatedAt: result.data.updatedAt.toISOString(),
+          nodes: metadata.nodes,
+          connections: metadata.connections,
+          settings: metadata.settings
+        })
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Restore failed'
+    }
+
+    const record = await this.logRestore(version, user.email, error)
+    console.log(error
+      ? `❌ Restore of ${version.name} v${version.versionNumber} by ${user.email} failed: ${error}`
+      : `⏪ ${user.email} restored ${version.name} to v${version.versionNumber}`)
+    return record
+  }
+
+  /**
+   * Restore audit trail of a workflow, newest first
+   */
+  async listRestores(providerWorkflowId: string): Promise<WorkflowRestoreRecord[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        'SELECT * FROM workflow_restores WHERE provider_workflow_id = ? ORDER BY created_at DESC',
+        [providerWorkflowId],
+        (err, rows: any[]) => {
+          if (err) reject(err)
+          else resolve((rows || []).map(row => this.mapRestore(row)))
+        }
+      )
+    })
+  }
+
+  private async logRestore(version: WorkflowVersion, restoredBy: string, error?: string): Promise<WorkflowRestoreRecord> {
+    const record: WorkflowRestoreRecord = {
+      id: uuidv4(),
+      workflowId: version.workflowId,
+      providerId: version.providerId,
+      providerWorkflowId: version.providerWorkflowId,
+      versionId: version.id,
+      versionNumber: version.versionNumber,
+      restoredBy,
+      status: error ? 'failed' : 'success',
+      error,
+      createdAt: new Date()
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO workflow_restores (
+          id, workflow_id, provider_id, provider_workflow_id, version_id,
+          version_number, restored_by, status, error, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          record.id, record.workflowId, record.providerId, record.providerWorkflowId, record.versionId,
+          record.versionNumber, record.restoredBy, record.status, record.error || null, record.createdAt.toISOString()
+        ],
+        (err) => {
+          if (err) reject(err)
+          else resolve()
+        }
+      )
+    })
+
+    return record
+  }
+
+  private mapRestore(row: any): WorkflowRestoreRecord {
+    return {
+      id: row.id,
+      workflowId: row.workflow_id,
+      providerId: row.provider_id,
+      providerWorkflowId: row.provider_workflow_id,
+      versionId: row.version_id,
+      versionNumber: row.version_number,
+      restoredBy: row.restored_by,
+      status: row.status,
+      error: row.error || undefined,
+      createdAt: new Date(row.created_at)
+    }
+  }
+
+  private mapVersion(row: any, includeData = false): WorkflowVersion {
+    let workflowData: Record<string, any> | undefined
+    if (includeData && row.workflow_data) {
+      try {
+        workflowData = JSON.parse(row.workflow_data)
+      } catch (e) {
+        console.error('Failed to parse workflow version data:', e)
+      }
+    }
+
+    return {
+      id: row.id,
+      workflowId: row.workflow_id,
+      providerId: row.provider_id,
+      providerWorkflowId: row.provider_workflow_id,
+      versionNumber: row.version_number,
+      name: row.name,
+      nodeHash: row.node_hash,
+      nodeCount: row.node_count,
+      workflowUpdatedAt: row.workflow_updated_at ? new Date(row.workflow_updated_at) : undefined,
+      createdAt: new Date(row.created_at),
+      workflowData
+    }
+  }
+}
+
+// Export singleton instance
+let workflowVersionService: WorkflowVersionService | null = null
+
+export function getWorkflowVersionService(): WorkflowVersionService {
+  if (!workflowVersionService) {
+    workflowVersionService = new WorkflowVersionService()
+  }
+  return workflowVersionService
+}
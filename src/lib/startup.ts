@@ -4,6 +4,7 @@
  */
 
 import { syncScheduler } from './sync/scheduler'
+import { endpointChecker } from './monitors/endpoint-checker'
 
 export async function initializeApp() {
   console.log('🚀 Initializing Elova application...')
@@ -12,7 +13,10 @@ export async function initializeApp() {
     // Start the sync scheduler to continuously archive executions
     console.log('📅 Starting execution sync scheduler...')
     syncScheduler.start()
-    
+
+    // Start background endpoint monitoring
+    endpointChecker.start()
+
     console.log('✅ Application initialization complete')
     console.log('📊 Execution sync will run every 15 minutes to preserve data beyond n8n\'s 24h limit')
     
@@ -5,11 +5,23 @@ import { ConfigManager, getConfigManager } from '@/lib/config/config-manager'
 import path from 'path'
 import crypto from 'crypto'
 import { extractAIMetrics } from '@/lib/services/ai-metrics-extractor'
+import { alertEngine } from '@/lib/alerts/alert-engine'
+import { notificationDispatcher } from '@/lib/notifications/dispatcher'
+import { ProviderRegistry } from '@/lib/providers'
+import { getWorkflowVersionService } from '@/lib/services/workflow-version-service'
+import { extractNodeTimings, writeNodeTimings } from '@/lib/services/node-timing-service'
+import { classifyExecutionError, writeExecutionError } from '@/lib/services/error-issue-service'
+import { providerRequestLimiter, syncJobQueue } from './job-queue'
+import { liveFeed } from './live-feed'
+import type { LiveSyncPhase } from '@/types'
 
 // Encryption settings (must match provider-service.ts)
 const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'elova-default-encryption-key-change-me'
 const ALGORITHM = 'aes-256-gcm'
 
+// Executions in these states never change again and are not re-fetched
+const FINISHED_EXECUTION_STATUSES = ['success', 'error', 'canceled']
+
 // SQLite database for execution storage
 let db: Database | null = null
 
@@ -87,6 +99,9 @@ function getSQLiteClient(): Database {
           error_message TEXT,
           metadata TEXT DEFAULT '{}',
           last_cursor TEXT,
+          newest_seen_id TEXT,
+          backfill_cursor TEXT,
+          backfill_complete BOOLEAN DEFAULT 0,
           created_at TEXT DEFAULT CURRENT_TIMESTAMP,
           FOREIGN KEY (provider_id) REFERENCES providers (id)
         )
@@ -96,6 +111,16 @@ function getSQLiteClient(): Database {
   return db
 }
 
+/**
+ * Compare n8n execution ids, numerically when both are numeric
+ */
+function compareExecutionIds(a: string, b: string): number {
+  if (/^\d+$/.test(a) && /^\d+$/.test(b)) {
+    if (a.length !== b.length) return a.length - b.length
+  }
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
 export interface Provider {
   id: string
   user_id: string
@@ -116,9 +141,20 @@ export interface SyncOptions {
   deepSync?: boolean
 }
 
+/**
+ * Resumable execution sync position, persisted per provider in sync_logs
+ */
+export interface ExecutionSyncState {
+  newestSeenId: string | null
+  backfillCursor: string | null
+  backfillComplete: boolean
+}
+
 export class ExecutionSyncService {
   private readonly DEFAULT_BATCH_SIZE = 100
   private readonly MAX_RETRIES = 3
+  private readonly BACKFILL_PAGES_PER_RUN = 5
+  private readonly UNFINISHED_REFRESH_LIMIT = 50
 
   /**
    * Sync executions from all active providers
@@ -147,7 +183,7 @@ export class ExecutionSyncService {
 
       console.log(`📡 Found ${providers.length} active providers to sync`)
 
-      // Process all providers concurrently (with error isolation)
+      // Queue every provider (with error isolation); the job queue limits how many run at once
       // Decrypt API keys before passing to syncProvider
       const results = await Promise.allSettled(
         providers.map(provider => {
@@ -185,12 +221,25 @@ export class ExecutionSyncService {
 
   /**
    * Sync a single provider's data
+   * Runs through the job queue so each provider has at most one sync in flight
    */
   async syncProvider(provider: Provider, options: SyncOptions = {}) {
     const syncType = options.syncType || 'executions'
 
+    return syncJobQueue.enqueue({
+      type: options.deepSync ? `${syncType}:deep` : syncType,
+      providerId: provider.id,
+      providerName: provider.name,
+      run: () => this.runProviderSync(provider, options)
+    })
+  }
+
+  private async runProviderSync(provider: Provider, options: SyncOptions) {
+    const syncType = options.syncType || 'executions'
+
     // Create sync log entry
     const syncLog = await this.createSyncLog(provider.id, syncType)
+    this.publishSyncProgress(provider, syncType, 'started')
 
     try {
       console.log(`🔄 Syncing ${syncType} for provider: ${provider.name}`)
@@ -198,7 +247,7 @@ export class ExecutionSyncService {
       let result
       switch (syncType) {
         case 'executions':
-          result = await this.syncExecutions(provider, options)
+          result = await this.syncExecutions(provider, options, syncLog?.id)
           break
         case 'workflows':
           result = await this.syncWorkflows(provider, options)
@@ -207,7 +256,7 @@ export class ExecutionSyncService {
           result = await this.syncWorkflowBackups(provider, options)
           break
         case 'full':
-          result = await this.syncFull(provider, options)
+          result = await this.syncFull(provider, options, syncLog?.id)
           break
         default:
           throw new Error(`Unknown sync type: ${syncType}`)
@@ -219,6 +268,7 @@ export class ExecutionSyncService {
       }
 
       console.log(`✅ ${syncType} sync completed for ${provider.name}:`, result)
+      this.publishSyncProgress(provider, syncType, 'completed', 'processed' in result ? result : {})
       return result
 
     } catch (error) {
@@ -233,6 +283,18 @@ export class ExecutionSyncService {
 
       // Update provider health status
       await this.updateProviderHealth(provider.id, 'error', errorMessage)
+      this.publishSyncProgress(provider, syncType, 'failed', {}, errorMessage)
+
+      if (provider.status !== 'error') {
+        await notificationDispatcher.notifyProviderDown(provider.id, {
+          providerName: provider.name,
+          baseUrl: provider.base_url,
+          error: errorMessage,
+          detectedAt: new Date()
+        }).catch(notifyError => {
+          console.error('❌ Failed to send provider down notification:', notifyError)
+        })
+      }
 
       throw error
     }
@@ -240,8 +302,14 @@ export class ExecutionSyncService {
 
   /**
    * Sync executions for a provider
+   *
+   * Runs in two phases, with progress stored on the current sync_logs row:
+   * - Head: page from the newest execution down to the "newest seen" marker of
+   *   the previous run, so new executions are picked up quickly.
+   * - Backfill: continue from the persisted backfill cursor towards the start of
+   *   history, a few pages per run, so an interrupted backfill resumes where it stopped.
    */
-  private async syncExecutions(provider: Provider, options: SyncOptions) {
+  private async syncExecutions(provider: Provider, options: SyncOptions, syncLogId?: string) {
     // First ensure all workflows are synced to have proper names
     console.log('📋 Pre-syncing workflows to ensure proper execution metadata...')
     try {
@@ -254,111 +322,140 @@ export class ExecutionSyncService {
     const host = provider.base_url
     const apiKey = provider.api_key_encrypted
 
-    const n8nClient = this.createN8nClient(host, apiKey)
+    const n8nClient = this.createN8nClient(provider.id, host, apiKey, options.maxRetries)
 
     let totalProcessed = 0
     let totalInserted = 0
     let totalUpdated = 0
-    let cursor: string | undefined
+    const seenExecutionIds = new Set<string>()
 
-    // IMPORTANT: Always start from the beginning (newest executions) to ensure we don't miss recent data
-    // The n8n API returns executions in reverse chronological order (newest first)
-    // Using a saved cursor can cause us to miss new executions if the previous sync didn't complete
-    // We'll rely on the "already finished" check to skip unchanged executions
-    cursor = undefined
+    const state = await this.getExecutionSyncState(provider.id)
 
-    console.log(`📥 Fetching executions for ${provider.name} (starting from newest)`)
+    // A deep sync walks the whole history again
+    if (options.deepSync) {
+      state.backfillCursor = null
+      state.backfillComplete = false
+    }
+
+    // Head phase: newest executions down to the previous high-water mark
+    console.log(`📥 Fetching executions for ${provider.name} (newest down to ${state.newestSeenId || 'first page'})`)
+
+    let cursor: string | undefined
+    let headNewestId: string | null = null
+    let headCompleted = false
 
     do {
       try {
-        // OPTIMIZATION: Fetch batch WITHOUT data first to check what we actually need
-        // This saves massive bandwidth by not downloading JSON data for existing finished executions
-        const response = await n8nClient.getExecutions({
-          limit: options.batchSize || this.DEFAULT_BATCH_SIZE,
-          cursor,
-          includeData: false // Fetch summary only first
-        })
-
-        if (!response.data || response.data.length === 0) {
+        const page = await this.syncExecutionPage(n8nClient, provider, cursor, options)
+        if (!page) {
           console.log(`✅ No more executions for ${provider.name}`)
+          headCompleted = true
+          cursor = undefined
           break
         }
 
-        // Filter out executions that we don't need to update
-        // We need to fetch full data ONLY if:
-        // 1. The execution is NOT in our DB (new)
-        // 2. The execution IS in our DB but is NOT finished (update)
-        const executionIds = response.data.map((e: N8nExecution) => e.id)
-        const existingStatusMap = await this.getExistingExecutionsStatus(provider.id, executionIds)
-
-        const executionsToFetch = response.data.filter((e: N8nExecution) => {
-          const existingStatus = existingStatusMap.get(e.id)
-          if (!existingStatus) return true // New execution
-          if (existingStatus !== 'success' && existingStatus !== 'error' && existingStatus !== 'canceled') return true // Not finished
-          return false // Already finished and in DB
+        headNewestId = headNewestId || page.executionIds[0]
+        page.executionIds.forEach(id => seenExecutionIds.add(id))
+        totalProcessed += page.processed
+        totalInserted += page.inserted
+        totalUpdated += page.updated
+        cursor = page.nextCursor
+        this.publishSyncProgress(provider, 'executions', 'progress', {
+          processed: totalProcessed,
+          inserted: totalInserted,
+          updated: totalUpdated
         })
 
-        console.log(`📊 Batch: ${response.data.length} items. Need to fetch data for: ${executionsToFetch.length}`)
+        const reachedMarker = state.newestSeenId !== null &&
+          page.executionIds.some(id => compareExecutionIds(id, state.newestSeenId!) <= 0)
 
-        // If ALL executions in this batch are already in DB and finished, we can stop
-        // This means we've reached executions we've already synced
-        // UNLESS we are doing a deep sync, in which case we continue
-        if (executionsToFetch.length === 0 && !options.deepSync) {
-          console.log(`✅ Reached already-synced executions, stopping sync for ${provider.name}`)
+        if (reachedMarker) {
+          console.log(`✅ Reached newest execution from previous sync (${state.newestSeenId}) for ${provider.name}`)
+          headCompleted = true
           break
         }
 
-        // If we have executions to update, we need their full data
-        // There are two strategies:
-        // 1. If many items need update (> 50%), re-fetch the whole batch with includeData=true
-        // 2. If few items need update, fetch them individually
-
-        let executionsWithData: N8nExecution[] = []
-
-        if (executionsToFetch.length > 0) {
-          if (executionsToFetch.length > (response.data.length * 0.5)) {
-            // Strategy 1: Re-fetch batch with data
-            console.log(`🔄 Re-fetching batch with full data (${executionsToFetch.length}/${response.data.length} needed)...`)
-            const fullResponse = await n8nClient.getExecutions({
-              limit: options.batchSize || this.DEFAULT_BATCH_SIZE,
-              cursor, // Same cursor
-              includeData: true
-            })
-            // Filter again to be safe (though order should be same)
-            executionsWithData = fullResponse.data.filter((e: N8nExecution) =>
-              executionsToFetch.some((needed: N8nExecution) => needed.id === e.id)
-            )
-          } else {
-            // Strategy 2: Fetch individually (parallelized)
-            console.log(`⬇️ Fetching ${executionsToFetch.length} individual executions...`)
-            const results = await Promise.allSettled(
-              executionsToFetch.map((e: N8nExecution) => n8nClient.getExecution(e.id))
-            )
-            executionsWithData = results
-              .filter((r): r is PromiseFulfilledResult<N8nExecution> => r.status === 'fulfilled')
-              .map(r => r.value)
-          }
+        // Without a marker yet, the first page is enough; older pages are left to the backfill
+        if (state.newestSeenId === null) {
+          headCompleted = true
+          break
         }
 
-        // Process the batch
-        if (executionsWithData.length > 0) {
-          const batchResult = await this.processExecutionBatch(
-            provider.id,
-            executionsWithData
-          )
-          totalInserted += batchResult.inserted
-          totalUpdated += batchResult.updated
+        // A page that is already stored (e.g. by an interrupted earlier walk) costs no
+        // detail fetches, but the gap below it may still be missing, so keep walking
+        // until the marker or the end of the list
+        if (page.fetched === 0) {
+          console.log(`⏭️ Page already synced for ${provider.name}, continuing towards ${state.newestSeenId}`)
         }
 
-        totalProcessed += response.data.length
-        cursor = response.nextCursor
-
+        if (!cursor) {
+          headCompleted = true
+        }
       } catch (error) {
         console.error(`❌ Error processing execution batch for ${provider.name}:`, error)
         break
       }
     } while (cursor)
 
+    // Only move the marker once everything above the old one has been stored,
+    // otherwise the next run walks the same gap again
+    if (headCompleted && headNewestId &&
+      (state.newestSeenId === null || compareExecutionIds(headNewestId, state.newestSeenId) > 0)) {
+      state.newestSeenId = headNewestId
+    }
+
+    // The backfill starts where the first head walk stopped
+    if (!state.backfillComplete && !state.backfillCursor && headCompleted) {
+      if (cursor) {
+        state.backfillCursor = cursor
+      } else {
+        state.backfillComplete = true
+      }
+    }
+
+    await this.saveExecutionSyncState(syncLogId, state)
+
+    // Executions still running when they were stored may sit below the marker now
+    const refreshed = await this.refreshUnfinishedExecutions(n8nClient, provider, seenExecutionIds)
+    totalUpdated += refreshed
+
+    // Backfill phase: resume older history from the persisted cursor
+    if (!state.backfillComplete && state.backfillCursor) {
+      const maxPages = options.deepSync ? Number.POSITIVE_INFINITY : this.BACKFILL_PAGES_PER_RUN
+      let pages = 0
+
+      console.log(`⏪ Resuming execution backfill for ${provider.name}`)
+
+      while (pages < maxPages && state.backfillCursor) {
+        try {
+          const page = await this.syncExecutionPage(n8nClient, provider, state.backfillCursor, options)
+          pages++
+
+          if (page) {
+            totalProcessed += page.processed
+            totalInserted += page.inserted
+            totalUpdated += page.updated
+            this.publishSyncProgress(provider, 'executions', 'progress', {
+              processed: totalProcessed,
+              inserted: totalInserted,
+              updated: totalUpdated
+            })
+          }
+
+          state.backfillCursor = page?.nextCursor || null
+          if (!state.backfillCursor) {
+            state.backfillComplete = true
+            console.log(`✅ Execution backfill reached the start of history for ${provider.name}`)
+          }
+
+          await this.saveExecutionSyncState(syncLogId, state)
+        } catch (error) {
+          console.error(`❌ Error processing backfill batch for ${provider.name}:`, error)
+          break
+        }
+      }
+    }
+
     // Fix execution-workflow relationships
     console.log('🔗 Fixing execution-workflow relationships...')
     await this.fixExecutionWorkflowRelationships(provider.id)
@@ -368,7 +465,163 @@ export class ExecutionSyncService {
       processed: totalProcessed,
       inserted: totalInserted,
       updated: totalUpdated,
-      lastCursor: cursor
+      newestSeenId: state.newestSeenId,
+      backfillComplete: state.backfillComplete,
+      lastCursor: state.backfillCursor
+    }
+  }
+
+  /**
+   * Fetch one page of executions and store the new or unfinished ones.
+   * Returns null when the page is empty.
+   */
+  private async syncExecutionPage(
+    n8nClient: ReturnType<ExecutionSyncService['createN8nClient']>,
+    provider: Provider,
+    cursor: string | undefined,
+    options: SyncOptions
+  ): Promise<{
+    executionIds: string[]
+    nextCursor?: string
+    processed: number
+    fetched: number
+    inserted: number
+    updated: number
+  } | null> {
+    // OPTIMIZATION: Fetch batch WITHOUT data first to check what we actually need
+    // This saves massive bandwidth by not downloading JSON data for existing finished executions
+    const response = await n8nClient.getExecutions({
+      limit: options.batchSize || this.DEFAULT_BATCH_SIZE,
+      cursor,
+      includeData: false // Fetch summary only first
+    })
+
+    if (!response.data || response.data.length === 0) {
+      return null
+    }
+
+    // Filter out executions that we don't need to update
+    // We need to fetch full data ONLY if:
+    // 1. The execution is NOT in our DB (new)
+    // 2. The execution IS in our DB but is NOT finished (update)
+    const executionIds: string[] = response.data.map((e: N8nExecution) => e.id)
+    const existingStatusMap = await this.getExistingExecutionsStatus(provider.id, executionIds)
+
+    const executionsToFetch = response.data.filter((e: N8nExecution) => {
+      const existingStatus = existingStatusMap.get(e.id)
+      if (!existingStatus) return true // New execution
+      if (!FINISHED_EXECUTION_STATUSES.includes(existingStatus)) return true // Not finished
+      return false // Already finished and in DB
+    })
+
+    console.log(`📊 Batch: ${response.data.length} items. Need to fetch data for: ${executionsToFetch.length}`)
+
+    // If we have executions to update, we need their full data
+    // There are two strategies:
+    // 1. If many items need update (> 50%), re-fetch the whole batch with includeData=true
+    // 2. If few items need update, fetch them individually
+
+    let executionsWithData: N8nExecution[] = []
+
+    if (executionsToFetch.length > 0) {
+      if (executionsToFetch.length > (response.data.length * 0.5)) {
+        // Strategy 1: Re-fetch batch with data
+        console.log(`🔄 Re-fetching batch with full data (${executionsToFetch.length}/${response.data.length} needed)...`)
+        const fullResponse = await n8nClient.getExecutions({
+          limit: options.batchSize || this.DEFAULT_BATCH_SIZE,
+          cursor, // Same cursor
+          includeData: true
+        })
+        // Filter again to be safe (though order should be same)
+        executionsWithData = fullResponse.data.filter((e: N8nExecution) =>
+          executionsToFetch.some((needed: N8nExecution) => needed.id === e.id)
+        )
+      } else {
+        // Strategy 2: Fetch individually (parallelized)
+        console.log(`⬇️ Fetching ${executionsToFetch.length} individual executions...`)
+        executionsWithData = await this.fetchExecutionsIndividually(
+          n8nClient,
+          executionsToFetch.map((e: N8nExecution) => e.id)
+        )
+      }
+    }
+
+    let inserted = 0
+    let updated = 0
+
+    // Process the batch
+    if (executionsWithData.length > 0) {
+      const batchResult = await this.processExecutionBatch(provider.id, executionsWithData)
+      inserted = batchResult.inserted
+      updated = batchResult.updated
+    }
+
+    return {
+      executionIds,
+      nextCursor: response.nextCursor || undefined,
+      processed: response.data.length,
+      fetched: executionsToFetch.length,
+      inserted,
+      updated
+    }
+  }
+
+  private async fetchExecutionsIndividually(
+    n8nClient: ReturnType<ExecutionSyncService['createN8nClient']>,
+    executionIds: string[]
+  ): Promise<N8nExecution[]> {
+    const results = await Promise.allSettled(
+      executionIds.map(id => n8nClient.getExecution(id))
+    )
+    return results
+      .filter((r): r is PromiseFulfilledResult<N8nExecution> => r.status === 'fulfilled')
+      .map(r => r.value)
+  }
+
+  /**
+   * Re-fetch executions stored as unfinished that this run did not see in the head pages
+   */
+  private async refreshUnfinishedExecutions(
+    n8nClient: ReturnType<ExecutionSyncService['createN8nClient']>,
+    provider: Provider,
+    seenExecutionIds: Set<string>
+  ): Promise<number> {
+    const db = getSQLiteClient()
+    const placeholders = FINISHED_EXECUTION_STATUSES.map(() => '?').join(',')
+
+    const rows = await new Promise<{ provider_execution_id: string }[]>((resolve, reject) => {
+      db.all(
+        `SELECT provider_execution_id FROM executions
+         WHERE provider_id = ? AND status NOT IN (${placeholders})
+         ORDER BY started_at DESC
+         LIMIT ?`,
+        [provider.id, ...FINISHED_EXECUTION_STATUSES, this.UNFINISHED_REFRESH_LIMIT],
+        (err, rows: { provider_execution_id: string }[]) => {
+          if (err) reject(err)
+          else resolve(rows || [])
+        }
+      )
+    })
+
+    const executionIds = rows
+      .map(row => row.provider_execution_id)
+      .filter(id => !seenExecutionIds.has(id))
+
+    if (executionIds.length === 0) {
+      return 0
+    }
+
+    console.log(`🔁 Refreshing ${executionIds.length} unfinished executions for ${provider.name}...`)
+
+    try {
+      const executions = await this.fetchExecutionsIndividually(n8nClient, executionIds)
+      if (executions.length === 0) return 0
+
+      const result = await this.processExecutionBatch(provider.id, executions)
+      return result.updated
+    } catch (error) {
+      console.error(`❌ Failed to refresh unfinished executions for ${provider.name}:`, error)
+      return 0
     }
   }
 
@@ -408,7 +661,7 @@ export class ExecutionSyncService {
     const host = provider.base_url
     const apiKey = provider.api_key_encrypted
 
-    const n8nClient = this.createN8nClient(host, apiKey)
+    const n8nClient = this.createN8nClient(provider.id, host, apiKey, options.maxRetries)
 
     if (!options.silent) {
       console.log(`📄 Fetching workflows for ${provider.name}`)
@@ -464,7 +717,7 @@ export class ExecutionSyncService {
     const host = provider.base_url
     const apiKey = provider.api_key_encrypted
 
-    const n8nClient = this.createN8nClient(host, apiKey)
+    const n8nClient = this.createN8nClient(provider.id, host, apiKey, options.maxRetries)
 
     console.log(`💾 Creating workflow backups for ${provider.name}`)
 
@@ -496,11 +749,11 @@ export class ExecutionSyncService {
   /**
    * Full sync: executions + workflows + backups
    */
-  private async syncFull(provider: Provider, options: SyncOptions) {
+  private async syncFull(provider: Provider, options: SyncOptions, syncLogId?: string) {
     console.log(`🔄 Performing full sync for ${provider.name}`)
 
     const [executions, workflows, backups] = await Promise.allSettled([
-      this.syncExecutions(provider, options),
+      this.syncExecutions(provider, options, syncLogId),
       this.syncWorkflows(provider, options),
       this.syncWorkflowBackups(provider, options)
     ])
@@ -519,6 +772,10 @@ export class ExecutionSyncService {
   private async processExecutionBatch(providerId: string, executions: N8nExecution[]) {
     let inserted = 0
     let updated = 0
+    // Executions that are new or changed status, evaluated against alert rules after commit
+    const changedExecutionIds: string[] = []
+    // Every stored execution, published to the live feed after commit
+    const storedExecutions: { executionId: string, change: 'inserted' | 'updated' }[] = []
 
     // First, ensure all workflows exist
     const workflowIds = [...new Set(executions.map(e => e.workflowId))]
@@ -550,6 +807,16 @@ export class ExecutionSyncService {
           const result = await this.upsertExecution(providerId, n8nExecution, workflow)
           if (result.inserted) inserted++
           if (result.updated) updated++
+          if (n8nExecution.data && (result.inserted || result.updated)) {
+            await this.saveNodeTimings(result.executionId, workflow.id, n8nExecution)
+          }
+          if (result.inserted || result.updated) {
+            await this.saveErrorClassification(result.executionId, providerId, workflow.id, n8nExecution, result.statusChanged)
+          }
+          if (result.inserted || result.statusChanged) changedExecutionIds.push(result.executionId)
+          if (result.inserted || result.updated) {
+            storedExecutions.push({ executionId: result.executionId, change: result.inserted ? 'inserted' : 'updated' })
+          }
         } catch (error) {
           console.error(`❌ Failed to process execution ${n8nExecution.id}:`, error)
         }
@@ -568,9 +835,96 @@ export class ExecutionSyncService {
       throw error
     }
 
+    // Neither the live feed nor alerting may fail the sync itself
+    try {
+      await this.publishExecutionChanges(storedExecutions)
+    } catch (error) {
+      console.error('❌ Failed to publish execution changes:', error)
+    }
+
+    try {
+      const alerts = await alertEngine.evaluateExecutions(changedExecutionIds)
+      alerts.forEach(alert => liveFeed.publish({ type: 'alert', data: alert }))
+      await notificationDispatcher.notifyAlerts(alerts)
+    } catch (error) {
+      console.error('❌ Failed to evaluate alert rules:', error)
+    }
+
     return { inserted, updated }
   }
 
+  /**
+   * Publish stored executions to the live feed, read back so subscribers get the committed row
+   */
+  private async publishExecutionChanges(changes: { executionId: string, change: 'inserted' | 'updated' }[]) {
+    if (changes.length === 0 || !liveFeed.hasSubscribers()) return
+
+    const db = getSQLiteClient()
+    const placeholders = changes.map(() => '?').join(',')
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      db.all(
+        `SELECT e.id, e.provider_id, e.provider_execution_id, e.provider_workflow_id, e.status, e.mode,
+          e.started_at, e.stopped_at, e.duration, e.finished, w.name as workflow_name
+         FROM executions e
+         LEFT JOIN workflows w ON w.id = e.workflow_id
+         WHERE e.id IN (${placeholders})`,
+        changes.map(change => change.executionId),
+        (err, rows: any[]) => {
+          if (err) reject(err)
+          else resolve(rows || [])
+        }
+      )
+    })
+
+    const changeById = new Map(changes.map(change => [change.executionId, change.change]))
+    for (const row of rows) {
+      liveFeed.publish({
+        type: 'execution',
+        data: {
+          change: changeById.get(row.id) || 'updated',
+          executionId: row.id,
+          providerId: row.provider_id,
+          providerExecutionId: row.provider_execution_id,
+          providerWorkflowId: row.provider_workflow_id,
+          workflowName: row.workflow_name || 'Unknown Workflow',
+          status: row.status,
+          mode: row.mode,
+          startedAt: new Date(row.started_at),
+          stoppedAt: row.stopped_at ? new Date(row.stopped_at) : undefined,
+          duration: row.duration ?? undefined,
+          finished: Boolean(row.finished)
+        }
+      })
+    }
+  }
+
+  /**
+   * Publish sync progress to the live feed with the sync's running totals
+   */
+  private publishSyncProgress(
+    provider: Provider,
+    syncType: string,
+    phase: LiveSyncPhase,
+    totals: { processed?: number, inserted?: number, updated?: number } = {},
+    error?: string
+  ) {
+    liveFeed.publish({
+      type: 'sync',
+      data: {
+        providerId: provider.id,
+        providerName: provider.name,
+        syncType,
+        phase,
+        processed: totals.processed || 0,
+        inserted: totals.inserted || 0,
+        updated: totals.updated || 0,
+        error,
+        at: new Date()
+      }
+    })
+  }
+
   /**
    * Get map of provider_workflow_id -> { id, name }
    */
@@ -653,18 +1007,18 @@ export class ExecutionSyncService {
     }
 
     // Check if execution exists to determine if it's an insert or update
-    const existing = await new Promise<{ id: string } | null>((resolve, reject) => {
+    const existing = await new Promise<{ id: string, status: string } | null>((resolve, reject) => {
       db.get(
-        'SELECT id FROM executions WHERE provider_id = ? AND provider_execution_id = ?',
+        'SELECT id, status FROM executions WHERE provider_id = ? AND provider_execution_id = ?',
         [providerId, n8nExecution.id],
-        (err, row: { id: string }) => {
+        (err, row: { id: string, status: string }) => {
           if (err) reject(err)
           else resolve(row || null)
         }
       )
     })
 
-    return new Promise<{ updated: boolean, inserted: boolean }>((resolve, reject) => {
+    return new Promise<{ updated: boolean, inserted: boolean, statusChanged: boolean, executionId: string }>((resolve, reject) => {
       if (existing) {
         // Update existing
         db.run(`
@@ -684,7 +1038,12 @@ export class ExecutionSyncService {
           executionData.ai_provider, executionData.ai_model, existing.id
         ], function (err) {
           if (err) reject(err)
-          else resolve({ updated: true, inserted: false })
+          else resolve({
+            updated: true,
+            inserted: false,
+            statusChanged: existing.status !== executionData.status,
+            executionId: existing.id
+          })
         })
       } else {
         // Insert new - use INSERT OR IGNORE to handle race conditions
@@ -706,12 +1065,60 @@ export class ExecutionSyncService {
         ], function (err) {
           if (err) reject(err)
           // Check if row was actually inserted (this.changes > 0) or ignored (this.changes === 0)
-          else resolve({ inserted: this.changes > 0, updated: false })
+          else resolve({
+            inserted: this.changes > 0,
+            updated: false,
+            statusChanged: false,
+            executionId: executionData.id
+          })
         })
       }
     })
   }
 
+  /**
+   * Store per-node timings from the execution's runData.
+   * Runs inside the batch transaction; failures only cost the timings.
+   */
+  private async saveNodeTimings(executionId: string, workflowId: string, n8nExecution: N8nExecution) {
+    try {
+      const timings = extractNodeTimings(n8nExecution.data, (n8nExecution as any).workflowData?.nodes)
+      await writeNodeTimings(getSQLiteClient(), executionId, workflowId, timings)
+    } catch (error) {
+      console.error(`⚠️ Failed to store node timings for execution ${n8nExecution.id}:`, error)
+    }
+  }
+
+  /**
+   * Group a failed execution into its error issue, or detach it when it no longer failed.
+   * Runs inside the batch transaction; failures only cost the classification.
+   */
+  private async saveErrorClassification(
+    executionId: string,
+    providerId: string,
+    workflowId: string,
+    n8nExecution: N8nExecution,
+    statusChanged: boolean
+  ) {
+    const failed = this.mapN8nStatus(n8nExecution.status) === 'error'
+    if (!failed && !statusChanged) return
+
+    try {
+      await writeExecutionError(
+        getSQLiteClient(),
+        {
+          id: executionId,
+          providerId,
+          workflowId,
+          occurredAt: n8nExecution.stoppedAt || n8nExecution.startedAt
+        },
+        failed ? classifyExecutionError(n8nExecution.data, (n8nExecution as any).workflowData?.nodes) : null
+      )
+    } catch (error) {
+      console.error(`⚠️ Failed to classify error of execution ${n8nExecution.id}:`, error)
+    }
+  }
+
   /**
    * Determine if we need to fetch full workflow data based on change detection
    */
@@ -797,7 +1204,7 @@ export class ExecutionSyncService {
       )
     })
 
-    return new Promise<{ updated: boolean, inserted: boolean }>((resolve, reject) => {
+    const result = await new Promise<{ updated: boolean, inserted: boolean }>((resolve, reject) => {
       if (existing) {
         // Check if anything actually changed
         const n8nUpdatedAt = new Date(n8nWorkflow.updatedAt || new Date())
@@ -838,13 +1245,19 @@ export class ExecutionSyncService {
         })
       }
     })
+
+    if (result.inserted || result.updated) {
+      await this.recordWorkflowVersion(providerId, workflowJsonData)
+    }
+
+    return result
   }
 
   /**
    * Create workflow backup with versioning
+   * workflows.workflow_data keeps the latest snapshot, workflow_versions keeps the history
    */
   private async createWorkflowBackup(providerId: string, fullWorkflow: N8nWorkflow) {
-    // Store in workflow_data field with timestamp
     const db = getSQLiteClient()
     const backupData = JSON.stringify({
       ...fullWorkflow,
@@ -853,16 +1266,30 @@ export class ExecutionSyncService {
       connections: fullWorkflow.connections
     })
 
-    return new Promise<void>((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
       db.run(`
         UPDATE workflows SET 
-          workflow_data = ?, updated_at = CURRENT_TIMESTAMP
+          workflow_data = ?
         WHERE provider_id = ? AND provider_workflow_id = ?
       `, [backupData, providerId, fullWorkflow.id], function (err) {
         if (err) reject(err)
         else resolve()
       })
     })
+
+    await this.recordWorkflowVersion(providerId, fullWorkflow)
+  }
+
+  /**
+   * Append a workflow version when it changed
+   * Versioning must never fail the sync itself
+   */
+  private async recordWorkflowVersion(providerId: string, workflow: N8nWorkflow) {
+    try {
+      await getWorkflowVersionService().recordVersion(providerId, workflow)
+    } catch (error) {
+      console.error(`❌ Failed to record version of workflow ${workflow.name}:`, error)
+    }
   }
 
   /**
@@ -910,7 +1337,7 @@ export class ExecutionSyncService {
       const host = provider.base_url
       const apiKey = this.decryptApiKey(provider.api_key_encrypted)
 
-      const n8nClient = this.createN8nClient(host, apiKey)
+      const n8nClient = this.createN8nClient(providerId, host, apiKey)
 
       try {
         // Get all workflows from n8n
@@ -1017,55 +1444,56 @@ export class ExecutionSyncService {
     })
   }
 
-  private async getLastSyncCursor(providerId: string, syncType: string): Promise<{ last_cursor: string } | null> {
+  /**
+   * Load the latest persisted execution sync position for a provider
+   */
+  private async getExecutionSyncState(providerId: string): Promise<ExecutionSyncState> {
     const db = getSQLiteClient()
 
-    return new Promise((resolve, reject) => {
+    const row = await new Promise<{
+      newest_seen_id: string | null
+      backfill_cursor: string | null
+      backfill_complete: number | null
+    } | undefined>((resolve, reject) => {
       db.get(`
-        SELECT last_cursor FROM sync_logs
-        WHERE provider_id = ? AND sync_type = ? AND status = 'success'
-        ORDER BY completed_at DESC
+        SELECT newest_seen_id, backfill_cursor, backfill_complete FROM sync_logs
+        WHERE provider_id = ? AND sync_type IN ('executions', 'full')
+          AND (newest_seen_id IS NOT NULL OR backfill_cursor IS NOT NULL OR backfill_complete = 1)
+        ORDER BY created_at DESC, rowid DESC
         LIMIT 1
-      `, [providerId, syncType], (err, row: { last_cursor: string }) => {
+      `, [providerId], (err, row: any) => {
         if (err) reject(err)
-        else resolve(row || null)
+        else resolve(row)
       })
     })
-  }
-
-  private async updateSyncCursor(providerId: string, syncType: string, cursor: string | null) {
-    // Store cursor in provider metadata
-    const db = getSQLiteClient()
 
-    // First get current metadata
-    const currentMetadata = await new Promise<string>((resolve, reject) => {
-      db.get(
-        'SELECT metadata FROM providers WHERE id = ?',
-        [providerId],
-        (err, row: { metadata: string }) => {
-          if (err) reject(err)
-          else resolve(row?.metadata || '{}')
-        }
-      )
-    })
+    return {
+      newestSeenId: row?.newest_seen_id || null,
+      backfillCursor: row?.backfill_cursor || null,
+      backfillComplete: Boolean(row?.backfill_complete)
+    }
+  }
 
-    // Update metadata with cursor
-    const metadata = JSON.parse(currentMetadata)
-    if (cursor) {
-      metadata[`last_${syncType}_cursor`] = cursor
-    } else {
-      delete metadata[`last_${syncType}_cursor`]
+  /**
+   * Persist the execution sync position on the running sync log,
+   * so the next run resumes from here even if this one is interrupted
+   */
+  private async saveExecutionSyncState(syncLogId: string | undefined, state: ExecutionSyncState) {
+    if (!syncLogId) {
+      console.warn('⚠️ No sync log for this run, execution sync position is not persisted')
+      return
     }
 
+    const db = getSQLiteClient()
     return new Promise<void>((resolve, reject) => {
-      db.run(
-        'UPDATE providers SET metadata = ? WHERE id = ?',
-        [JSON.stringify(metadata), providerId],
-        function (err) {
-          if (err) reject(err)
-          else resolve()
-        }
-      )
+      db.run(`
+        UPDATE sync_logs SET
+          newest_seen_id = ?, backfill_cursor = ?, backfill_complete = ?
+        WHERE id = ?
+      `, [state.newestSeenId, state.backfillCursor, state.backfillComplete ? 1 : 0, syncLogId], function (err) {
+        if (err) reject(err)
+        else resolve()
+      })
     })
   }
 
@@ -1231,7 +1659,33 @@ export class ExecutionSyncService {
     }
   }
 
-  private createN8nClient(baseUrl: string, apiKey: string) {
+  private createN8nClient(providerId: string, baseUrl: string, apiKey: string, maxRetries: number = this.MAX_RETRIES) {
+    // Every provider synced here is an n8n instance, so its adapter provides the rate limit
+    const capabilities = ProviderRegistry.create({
+      id: providerId,
+      name: providerId,
+      type: 'n8n',
+      baseUrl,
+      apiKey,
+      isConnected: true,
+      lastChecked: new Date(),
+      status: 'unknown',
+      userId: ''
+    }).getCapabilities()
+
+    // All requests go through the shared per-provider limiter (rate limit, concurrency, retries)
+    const request = async (url: string) => {
+      const response = await providerRequestLimiter.request(providerId, url, {
+        headers: {
+          'X-N8N-API-KEY': apiKey,
+          'Accept': 'application/json'
+        }
+      }, { rateLimit: capabilities.rateLimit, maxRetries })
+
+      if (!response.ok) throw new Error(`n8n API error: ${response.status} ${response.statusText}`)
+      return response.json()
+    }
+
     // Create n8n client instance with custom credentials
     return {
       async getExecutions(params: any) {
@@ -1241,15 +1695,7 @@ export class ExecutionSyncService {
         // Include data only if requested (defaults to false in API, but we control it here)
         if (params.includeData) searchParams.append('includeData', 'true')
 
-        const response = await fetch(`${baseUrl}/api/v1/executions?${searchParams}`, {
-          headers: {
-            'X-N8N-API-KEY': apiKey,
-            'Accept': 'application/json'
-          }
-        })
-
-        if (!response.ok) throw new Error(`n8n API error: ${response.statusText}`)
-        return response.json()
+        return request(`${baseUrl}/api/v1/executions?${searchParams}`)
       },
 
       async getWorkflows() {
@@ -1261,15 +1707,7 @@ export class ExecutionSyncService {
           if (cursor) url.searchParams.append('cursor', cursor)
           url.searchParams.append('limit', '100')
 
-          const response = await fetch(url.toString(), {
-            headers: {
-              'X-N8N-API-KEY': apiKey,
-              'Accept': 'application/json'
-            }
-          })
-
-          if (!response.ok) throw new Error(`n8n API error: ${response.statusText}`)
-          const data = await response.json()
+          const data = await request(url.toString())
           if (data.data) {
             allWorkflows = [...allWorkflows, ...data.data]
           }
@@ -1280,27 +1718,11 @@ export class ExecutionSyncService {
       },
 
       async getWorkflow(id: string) {
-        const response = await fetch(`${baseUrl}/api/v1/workflows/${id}`, {
-          headers: {
-            'X-N8N-API-KEY': apiKey,
-            'Accept': 'application/json'
-          }
-        })
-
-        if (!response.ok) throw new Error(`n8n API error: ${response.statusText}`)
-        return response.json()
+        return request(`${baseUrl}/api/v1/workflows/${id}`)
       },
 
       async getExecution(id: string) {
-        const response = await fetch(`${baseUrl}/api/v1/executions/${id}?includeData=true`, {
-          headers: {
-            'X-N8N-API-KEY': apiKey,
-            'Accept': 'application/json'
-          }
-        })
-
-        if (!response.ok) throw new Error(`n8n API error: ${response.statusText}`)
-        return response.json()
+        return request(`${baseUrl}/api/v1/executions/${id}?includeData=true`)
       }
     }
   }
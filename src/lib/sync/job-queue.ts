@@ -0,0 +1,301 @@
+/**
+ * Sync Job Queue
+ *
+ * Serializes sync work per provider and throttles the HTTP requests made on
+ * behalf of each provider:
+ * - at most one sync job per provider runs at a time, MAX_CONCURRENT_JOBS overall
+ * - requests are spaced according to ProviderCapabilities.rateLimit
+ * - at most MAX_CONCURRENT_REQUESTS requests are in flight per provider
+ * - 429 and 5xx responses are retried with exponential backoff
+ */
+
+import type { ProviderCapabilities } from '@/lib/providers'
+
+export type SyncJobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+export interface SyncJobInfo {
+  id: string
+  type: string
+  providerId: string
+  providerName: string
+  status: SyncJobStatus
+  enqueuedAt: string
+  startedAt?: string
+  finishedAt?: string
+  durationMs?: number
+  error?: string
+}
+
+interface QueuedJob extends SyncJobInfo {
+  run: () => Promise<unknown>
+  promise: Promise<unknown>
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+}
+
+export interface RequestLimits {
+  rateLimit?: ProviderCapabilities['rateLimit']
+  maxRetries: number
+}
+
+const MAX_CONCURRENT_JOBS = 2
+const MAX_CONCURRENT_REQUESTS = 4
+const HISTORY_SIZE = 50
+const BASE_BACKOFF_MS = 1000
+const MAX_BACKOFF_MS = 60 * 1000
+
+const RATE_LIMIT_PERIOD_MS = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500
+}
+
+/**
+ * Delay before the given retry, preferring the server's Retry-After header
+ */
+function backoffDelay(attempt: number, response?: Response): number {
+  const retryAfter = response?.headers.get('retry-after')
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    if (!Number.isNaN(seconds)) {
+      return Math.min(seconds * 1000, MAX_BACKOFF_MS)
+    }
+    const date = Date.parse(retryAfter)
+    if (!Number.isNaN(date)) {
+      return Math.min(Math.max(date - Date.now(), 0), MAX_BACKOFF_MS)
+    }
+  }
+
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt
+  const jitter = Math.random() * BASE_BACKOFF_MS
+  return Math.min(exponential + jitter, MAX_BACKOFF_MS)
+}
+
+/**
+ * Per-provider request throttle with retries
+ */
+export class ProviderRequestLimiter {
+  private inFlight: Map<string, number> = new Map()
+  private waiting: Map<string, (() => void)[]> = new Map()
+  private nextSlotAt: Map<string, number> = new Map()
+  private retries = 0
+
+  /**
+   * fetch() through the provider's concurrency and rate limits.
+   * Network errors, 429 and 5xx responses are retried up to limits.maxRetries times.
+   */
+  async request(providerId: string, url: string, init: RequestInit, limits: RequestLimits): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | undefined
+
+      try {
+        response = await this.withSlot(providerId, limits, () => fetch(url, init))
+      } catch (error) {
+        if (attempt >= limits.maxRetries) throw error
+
+        const delay = backoffDelay(attempt)
+        console.warn(`⚠️ Request to ${url} failed, retrying in ${Math.round(delay)}ms (${attempt + 1}/${limits.maxRetries})`)
+        this.retries++
+        await sleep(delay)
+        continue
+      }
+
+      if (!isRetryableStatus(response.status) || attempt >= limits.maxRetries) {
+        return response
+      }
+
+      const delay = backoffDelay(attempt, response)
+      console.warn(`⚠️ ${url} returned ${response.status}, retrying in ${Math.round(delay)}ms (${attempt + 1}/${limits.maxRetries})`)
+      this.retries++
+      await sleep(delay)
+    }
+  }
+
+  getStatus() {
+    return {
+      retries: this.retries,
+      inFlight: Object.fromEntries(this.inFlight),
+      waiting: Object.fromEntries(
+        Array.from(this.waiting.entries()).map(([providerId, queue]) => [providerId, queue.length])
+      )
+    }
+  }
+
+  private async withSlot<T>(providerId: string, limits: RequestLimits, fn: () => Promise<T>): Promise<T> {
+    await this.acquire(providerId)
+
+    try {
+      await this.waitForRateLimit(providerId, limits.rateLimit)
+      return await fn()
+    } finally {
+      this.release(providerId)
+    }
+  }
+
+  private async acquire(providerId: string) {
+    const active = this.inFlight.get(providerId) || 0
+    if (active < MAX_CONCURRENT_REQUESTS) {
+      this.inFlight.set(providerId, active + 1)
+      return
+    }
+
+    // release() hands its slot straight to the next waiter
+    await new Promise<void>(resolve => {
+      const queue = this.waiting.get(providerId) || []
+      queue.push(resolve)
+      this.waiting.set(providerId, queue)
+    })
+  }
+
+  private release(providerId: string) {
+    const queue = this.waiting.get(providerId)
+    const next = queue?.shift()
+
+    if (queue && queue.length === 0) {
+      this.waiting.delete(providerId)
+    }
+
+    if (next) {
+      next()
+      return
+    }
+
+    const active = (this.inFlight.get(providerId) || 1) - 1
+    if (active > 0) {
+      this.inFlight.set(providerId, active)
+    } else {
+      this.inFlight.delete(providerId)
+    }
+  }
+
+  /**
+   * Space requests evenly so the provider never sees more than its advertised rate
+   */
+  private async waitForRateLimit(providerId: string, rateLimit?: ProviderCapabilities['rateLimit']) {
+    if (!rateLimit || rateLimit.requests <= 0) return
+
+    const interval = RATE_LIMIT_PERIOD_MS[rateLimit.per] / rateLimit.requests
+    const now = Date.now()
+    const slot = Math.max(now, this.nextSlotAt.get(providerId) || 0)
+    this.nextSlotAt.set(providerId, slot + interval)
+
+    if (slot > now) {
+      await sleep(slot - now)
+    }
+  }
+}
+
+/**
+ * FIFO queue of sync jobs, one running job per provider
+ */
+export class SyncJobQueue {
+  private queue: QueuedJob[] = []
+  private running: Map<string, QueuedJob> = new Map()
+  private history: SyncJobInfo[] = []
+
+  /**
+   * Queue a job and resolve with its result once it has run.
+   * An identical job that is still waiting is reused instead of queued twice.
+   */
+  enqueue<T>(job: { type: string; providerId: string; providerName: string; run: () => Promise<T> }): Promise<T> {
+    const duplicate = this.queue.find(q => q.type === job.type && q.providerId === job.providerId)
+    if (duplicate) {
+      console.log(`ℹ️ ${job.type} sync for ${job.providerName} is already queued`)
+      return duplicate.promise as Promise<T>
+    }
+
+    let resolve!: (value: unknown) => void
+    let reject!: (reason: unknown) => void
+    const promise = new Promise<unknown>((res, rej) => {
+      resolve = res
+      reject = rej
+    })
+
+    this.queue.push({
+      id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: job.type,
+      providerId: job.providerId,
+      providerName: job.providerName,
+      status: 'queued',
+      enqueuedAt: new Date().toISOString(),
+      run: job.run,
+      promise,
+      resolve,
+      reject
+    })
+
+    this.drain()
+    return promise as Promise<T>
+  }
+
+  getStatus() {
+    return {
+      depth: this.queue.length,
+      running: Array.from(this.running.values()).map(job => this.toInfo(job)),
+      queued: this.queue.map(job => this.toInfo(job)),
+      history: [...this.history]
+    }
+  }
+
+  private drain() {
+    while (this.running.size < MAX_CONCURRENT_JOBS) {
+      const index = this.queue.findIndex(job => !this.running.has(job.providerId))
+      if (index === -1) return
+
+      const [job] = this.queue.splice(index, 1)
+      this.start(job)
+    }
+  }
+
+  private async start(job: QueuedJob) {
+    job.status = 'running'
+    job.startedAt = new Date().toISOString()
+    this.running.set(job.providerId, job)
+
+    try {
+      const result = await job.run()
+      job.status = 'completed'
+      job.resolve(result)
+    } catch (error) {
+      job.status = 'failed'
+      job.error = error instanceof Error ? error.message : 'Unknown error'
+      job.reject(error)
+    } finally {
+      job.finishedAt = new Date().toISOString()
+      job.durationMs = Date.parse(job.finishedAt) - Date.parse(job.startedAt)
+      this.running.delete(job.providerId)
+
+      this.history.unshift(this.toInfo(job))
+      this.history.length = Math.min(this.history.length, HISTORY_SIZE)
+
+      this.drain()
+    }
+  }
+
+  private toInfo(job: QueuedJob): SyncJobInfo {
+    return {
+      id: job.id,
+      type: job.type,
+      providerId: job.providerId,
+      providerName: job.providerName,
+      status: job.status,
+      enqueuedAt: job.enqueuedAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      durationMs: job.durationMs,
+      error: job.error
+    }
+  }
+}
+
+// Export singleton instances
+export const syncJobQueue = new SyncJobQueue()
+export const providerRequestLimiter = new ProviderRequestLimiter()
@@ -0,0 +1,57 @@
+/**
+ * Live Feed
+ *
+ * In-process fan-out of execution changes, sync progress and alert events to the
+ * Server-Sent Events stream at /api/events. The execution sync publishes after
+ * its writes are committed, so a subscriber that refetches sees the new rows.
+ * Publishing never throws: a failing subscriber is dropped and logged.
+ */
+
+import { EventEmitter } from 'events'
+import type { LiveEvent } from '@/types'
+
+export type LiveEventListener = (event: LiveEvent) => void
+
+// Every open browser tab holds one subscription
+const MAX_SUBSCRIBERS = 100
+
+class LiveFeed {
+  private emitter = new EventEmitter()
+
+  constructor() {
+    this.emitter.setMaxListeners(MAX_SUBSCRIBERS)
+  }
+
+  /**
+   * Whether anyone is listening, so publishers can skip building events
+   */
+  hasSubscribers(): boolean {
+    return this.emitter.listenerCount('event') > 0
+  }
+
+  /**
+   * Listen to every published event. Returns the unsubscribe function.
+   */
+  subscribe(listener: LiveEventListener): () => void {
+    const wrapped = (event: LiveEvent) => {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('❌ Live feed subscriber failed, dropping it:', error)
+        this.emitter.off('event', wrapped)
+      }
+    }
+
+    this.emitter.on('event', wrapped)
+    return () => {
+      this.emitter.off('event', wrapped)
+    }
+  }
+
+  publish(event: LiveEvent) {
+    this.emitter.emit('event', event)
+  }
+}
+
+// Export singleton instance
+export const liveFeed = new LiveFeed()
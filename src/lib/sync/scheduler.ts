@@ -6,6 +6,13 @@
  */
 
 import { executionSync } from './execution-sync'
+import { notificationDispatcher } from '@/lib/notifications/dispatcher'
+import { getRetentionService } from '@/lib/services/retention-service'
+import { getBackupExportService } from '@/lib/services/backup-export-service'
+import { getNodeTimingService } from '@/lib/services/node-timing-service'
+import { getAnomalyService } from '@/lib/services/anomaly-service'
+import { getErrorIssueService } from '@/lib/services/error-issue-service'
+import { getRetryChainService } from '@/lib/services/retry-chain-service'
 
 export class SyncScheduler {
   private intervals: Map<string, NodeJS.Timeout> = new Map()
@@ -26,6 +33,15 @@ export class SyncScheduler {
     // Low priority: Full workflow backups daily
     this.scheduleJob('backups', this.syncBackups.bind(this), 24 * 60 * 60 * 1000)
 
+    // Notification retries and the daily digest check every 5 minutes
+    this.scheduleJob('notifications', this.processNotifications.bind(this), 5 * 60 * 1000)
+
+    // Anomaly detection for the most recent completed hours every 15 minutes
+    this.scheduleJob('anomalies', this.detectAnomalies.bind(this), 15 * 60 * 1000)
+
+    // Maintenance: Prune expired execution data daily
+    this.scheduleJob('retention', this.pruneExecutionData.bind(this), 24 * 60 * 60 * 1000)
+
     console.log('✅ All sync jobs scheduled')
   }
 
@@ -87,13 +103,19 @@ export class SyncScheduler {
   }
 
   /**
-   * Sync executions from all providers
+   * Sync executions from all providers, link new retries to their original
+   * execution, then extract node timings and classify errors of older
+   * executions in small batches
    */
   private async syncExecutions(): Promise<void> {
     await executionSync.syncAllProviders({
       syncType: 'executions',
       batchSize: 100
     })
+
+    await getRetryChainService().linkRetries()
+    await getNodeTimingService().backfill()
+    await getErrorIssueService().backfill()
   }
 
   /**
@@ -107,13 +129,38 @@ export class SyncScheduler {
   }
 
   /**
-   * Sync full workflow backups from all providers
+   * Sync full workflow backups from all providers, then export them to the
+   * configured git repository (if any)
    */
   private async syncBackups(): Promise<void> {
     await executionSync.syncAllProviders({
       syncType: 'backups',
       batchSize: 20
     })
+
+    await getBackupExportService().exportToGit()
+  }
+
+  /**
+   * Retry failed notification deliveries and send the daily digest when due
+   */
+  private async processNotifications(): Promise<void> {
+    await notificationDispatcher.processRetries()
+    await notificationDispatcher.sendDailyDigestIfDue()
+  }
+
+  /**
+   * Compare recent execution volume, duration and error rate with each workflow's baseline
+   */
+  private async detectAnomalies(): Promise<void> {
+    await getAnomalyService().detect()
+  }
+
+  /**
+   * Apply execution retention policies and reclaim disk space
+   */
+  private async pruneExecutionData(): Promise<void> {
+    await getRetentionService().prune()
   }
 
   /**
@@ -147,7 +194,10 @@ export class SyncScheduler {
       nextRuns: {
         executions: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
         workflows: new Date(Date.now() + 6 * 60 * 60 * 1000).toISOString(),
-        backups: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+        backups: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        notifications: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+        anomalies: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
+        retention: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
       }
     }
   }
@@ -3,11 +3,17 @@ import { ConfigManager } from '@/lib/config/config-manager'
 import { getDb } from '@/lib/db'
 import { n8nApi, N8nWorkflow } from '@/lib/n8n-api'
 import crypto from 'crypto'
+import { getWorkflowVersionService } from '@/lib/services/workflow-version-service'
+import { ProviderRegistry } from '@/lib/providers'
+import { providerRequestLimiter } from './job-queue'
 
 // Encryption settings (must match provider-service.ts)
 const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'elova-default-encryption-key-change-me'
 const ALGORITHM = 'aes-256-gcm'
 
+// Retries of a failed workflow page request, matching the execution sync
+const MAX_RETRIES = 3
+
 interface Provider {
   id: string
   user_id: string
@@ -155,6 +161,19 @@ export class WorkflowSyncService {
       let n8nWorkflows: any[] = []
       let cursor: string | undefined
 
+      // Every provider synced here is an n8n instance, so its adapter provides the rate limit
+      const capabilities = ProviderRegistry.create({
+        id: provider.id,
+        name: provider.name,
+        type: 'n8n',
+        baseUrl: provider.baseUrl,
+        apiKey: provider.apiKey,
+        isConnected: true,
+        lastChecked: new Date(),
+        status: 'unknown',
+        userId: ''
+      }).getCapabilities()
+
       do {
         const url = new URL(n8nApiUrl)
         if (cursor) {
@@ -162,12 +181,13 @@ export class WorkflowSyncService {
         }
         url.searchParams.append('limit', '100')
 
-        const response = await fetch(url.toString(), {
+        // Shares the per-provider limiter with the execution sync (rate limit, concurrency, retries)
+        const response = await providerRequestLimiter.request(provider.id, url.toString(), {
           headers: {
             'Accept': 'application/json',
             'X-N8N-API-KEY': provider.apiKey
           }
-        })
+        }, { rateLimit: capabilities.rateLimit, maxRetries: MAX_RETRIES })
 
         if (!response.ok) {
           throw new Error(`Failed to fetch workflows from ${provider.name}: ${response.statusText}`)
@@ -363,7 +383,8 @@ export class WorkflowSyncService {
               reject(err)
             } else {
               console.log(`✅ Created workflow backup: ${n8nWorkflow.name}`)
-              resolve({ created: true, updated: false, skipped: false })
+              this.recordVersion(providerId, workflowData)
+                .finally(() => resolve({ created: true, updated: false, skipped: false }))
             }
           })
         } else {
@@ -420,7 +441,8 @@ export class WorkflowSyncService {
               reject(err)
             } else {
               console.log(`✅ Updated workflow backup: ${n8nWorkflow.name}`)
-              resolve({ created: false, updated: true, skipped: false })
+              this.recordVersion(providerId, workflowData)
+                .finally(() => resolve({ created: false, updated: true, skipped: false }))
             }
           })
         }
@@ -609,6 +631,17 @@ export class WorkflowSyncService {
     console.log(`💾 Backup toggle requested for workflow ${workflowId}: ${backupEnabled}`)
   }
 
+  /**
+   * Append a workflow version when it changed, without failing the sync
+   */
+  private async recordVersion(providerId: string, workflowData: N8nWorkflow): Promise<void> {
+    try {
+      await getWorkflowVersionService().recordVersion(providerId, workflowData)
+    } catch (error) {
+      console.error(`❌ Failed to record version of workflow ${workflowData.name}:`, error)
+    }
+  }
+
   /**
    * Extract cron schedules from workflow nodes
    * Supports both cron expressions and interval-based schedules
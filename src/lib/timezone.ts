@@ -0,0 +1,136 @@
+/**
+ * Timezone helpers shared by the server (cron evaluation, chart bucketing) and the UI.
+ * "Wall time" is a local date and time in a timezone, encoded as epoch ms as if it
+ * were UTC, so that UTC date arithmetic can be used on local calendars.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Common timezones for dropdowns
+export const COMMON_TIMEZONES = [
+  { value: 'UTC', label: 'UTC (Coordinated Universal Time)' },
+  { value: 'America/New_York', label: 'Eastern Time (New York)' },
+  { value: 'America/Chicago', label: 'Central Time (Chicago)' },
+  { value: 'America/Denver', label: 'Mountain Time (Denver)' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time (Los Angeles)' },
+  { value: 'America/Toronto', label: 'Eastern Time (Toronto)' },
+  { value: 'America/Vancouver', label: 'Pacific Time (Vancouver)' },
+  { value: 'Europe/London', label: 'GMT (London)' },
+  { value: 'Europe/Paris', label: 'Central European Time (Paris)' },
+  { value: 'Europe/Berlin', label: 'Central European Time (Berlin)' },
+  { value: 'Europe/Rome', label: 'Central European Time (Rome)' },
+  { value: 'Europe/Amsterdam', label: 'Central European Time (Amsterdam)' },
+  { value: 'Europe/Zurich', label: 'Central European Time (Zurich)' },
+  { value: 'Asia/Tokyo', label: 'Japan Time (Tokyo)' },
+  { value: 'Asia/Shanghai', label: 'China Time (Shanghai)' },
+  { value: 'Asia/Hong_Kong', label: 'Hong Kong Time' },
+  { value: 'Asia/Singapore', label: 'Singapore Time' },
+  { value: 'Asia/Seoul', label: 'Korea Time (Seoul)' },
+  { value: 'Asia/Kolkata', label: 'India Time (Kolkata)' },
+  { value: 'Asia/Dubai', label: 'Gulf Time (Dubai)' },
+  { value: 'Australia/Sydney', label: 'Australian Eastern Time (Sydney)' },
+  { value: 'Australia/Melbourne', label: 'Australian Eastern Time (Melbourne)' },
+  { value: 'Australia/Perth', label: 'Australian Western Time (Perth)' },
+  { value: 'Pacific/Auckland', label: 'New Zealand Time (Auckland)' },
+]
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23'
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) return false
+  try {
+    partsFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The app.timezone setting, or null when it is unset or cannot be read, so callers
+ * fall back through resolveTimeZone. Takes the config reader because this module
+ * is also bundled for the UI and must not import server-only code.
+ */
+export async function getAppTimeZone(config: { get(key: string): Promise<unknown> }): Promise<string | null> {
+  try {
+    const value = await config.get('app.timezone')
+    return typeof value === 'string' ? value : null
+  } catch (error) {
+    console.error('Failed to read app timezone:', error)
+    return null
+  }
+}
+
+/**
+ * First valid timezone of the candidates, most specific first, or UTC
+ */
+export function resolveTimeZone(...candidates: unknown[]): string {
+  return candidates.find(isValidTimeZone) || 'UTC'
+}
+
+export function toWallTime(time: number, timeZone: string): number {
+  if (timeZone === 'UTC') return time
+
+  const parts = partsFormatter(timeZone).formatToParts(new Date(time))
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0')
+  const wholeSeconds = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'))
+
+  return wholeSeconds + (((time % 1000) + 1000) % 1000)
+}
+
+/**
+ * The instant a wall time occurs at. Returns null for wall times skipped by a
+ * daylight saving change and the earlier instant for repeated ones.
+ */
+export function fromWallTime(wall: number, timeZone: string): number | null {
+  if (timeZone === 'UTC') return wall
+
+  // Offsets on either side of any daylight saving change near this time
+  const offsets = [wall - DAY_MS, wall + DAY_MS].map(time => toWallTime(time, timeZone) - time)
+  const matches = offsets
+    .map(offset => wall - offset)
+    .filter(time => toWallTime(time, timeZone) === wall)
+
+  return matches.length > 0 ? Math.min(...matches) : null
+}
+
+/**
+ * Start of the hour, day or week (Monday) containing `time` in a timezone
+ */
+export function startOfZoned(time: number, unit: 'hour' | 'day' | 'week', timeZone: string): number {
+  const wall = toWallTime(time, timeZone)
+  let start = Math.floor(wall / (unit === 'hour' ? HOUR_MS : DAY_MS)) * (unit === 'hour' ? HOUR_MS : DAY_MS)
+  if (unit === 'week') {
+    start -= ((new Date(start).getUTCDay() + 6) % 7) * DAY_MS
+  }
+
+  // Days starting in a daylight saving gap begin at the first hour that exists
+  for (let candidate = start; candidate <= wall; candidate += HOUR_MS) {
+    const instant = fromWallTime(candidate, timeZone)
+    if (instant !== null) return instant
+  }
+  return time
+}
+
+export function formatInTimeZone(date: Date | string | number, timeZone: string, options: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat(undefined, { ...options, timeZone }).format(new Date(date))
+}
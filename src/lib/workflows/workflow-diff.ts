@@ -0,0 +1,161 @@
+/**
+ * Workflow Diff
+ *
+ * Structural comparison of two n8n workflow snapshots. Nodes are matched by
+ * their id (falling back to name) so renames show up as changes rather than
+ * a remove plus an add. Canvas positions are ignored.
+ */
+
+import { WorkflowConnectionRef, WorkflowDiff, WorkflowValueChange } from '@/types'
+
+// Node fields that never describe behaviour
+const IGNORED_NODE_FIELDS = new Set(['id', 'name', 'position'])
+
+interface WorkflowSnapshot {
+  name?: string
+  nodes?: any[]
+  connections?: Record<string, any>
+  settings?: Record<string, unknown>
+}
+
+function nodeKey(node: any): string {
+  return node.id || node.name
+}
+
+/**
+ * Flatten a value into leaf paths, e.g. { a: { b: [1] } } -> { 'a.b[0]': 1 }
+ */
+function flatten(value: unknown, prefix: string, out: Map<string, unknown>): Map<string, unknown> {
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((item, index) => flatten(item, `${prefix}[${index}]`, out))
+  } else if (value && typeof value === 'object' && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out)
+    }
+  } else if (value !== undefined && prefix) {
+    out.set(prefix, value)
+  }
+  return out
+}
+
+/**
+ * Leaf-level changes between two JSON values, sorted by path
+ */
+export function compareValues(before: unknown, after: unknown, prefix = ''): WorkflowValueChange[] {
+  const beforeLeaves = flatten(before, prefix, new Map())
+  const afterLeaves = flatten(after, prefix, new Map())
+  const changes: WorkflowValueChange[] = []
+
+  for (const [path, value] of beforeLeaves) {
+    if (!afterLeaves.has(path)) {
+      changes.push({ path, before: value })
+    } else if (JSON.stringify(afterLeaves.get(path)) !== JSON.stringify(value)) {
+      changes.push({ path, before: value, after: afterLeaves.get(path) })
+    }
+  }
+  for (const [path, value] of afterLeaves) {
+    if (!beforeLeaves.has(path)) {
+      changes.push({ path, after: value })
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * Expand n8n's name-keyed connection map into individual edges.
+ * Edges are keyed by node identity so renaming a node does not look like rewiring.
+ */
+function listConnections(workflow: WorkflowSnapshot): Map<string, WorkflowConnectionRef> {
+  const keysByName = new Map<string, string>()
+  for (const node of workflow.nodes || []) {
+    keysByName.set(node.name, nodeKey(node))
+  }
+
+  const edges = new Map<string, WorkflowConnectionRef>()
+  for (const [from, byType] of Object.entries(workflow.connections || {})) {
+    for (const [type, outputs] of Object.entries(byType || {})) {
+      if (!Array.isArray(outputs)) continue
+
+      outputs.forEach((targets: any[] | null, outputIndex: number) => {
+        for (const target of targets || []) {
+          const edge: WorkflowConnectionRef = {
+            from,
+            to: target.node,
+            type,
+            outputIndex,
+            inputIndex: target.index ?? 0
+          }
+          const fromKey = keysByName.get(from) || from
+          const toKey = keysByName.get(target.node) || target.node
+          edges.set(`${fromKey}:${type}:${outputIndex}->${toKey}:${edge.inputIndex}`, edge)
+        }
+      })
+    }
+  }
+  return edges
+}
+
+export function diffWorkflows(before: WorkflowSnapshot, after: WorkflowSnapshot): WorkflowDiff {
+  const beforeNodes = new Map((before.nodes || []).map(node => [nodeKey(node), node]))
+  const afterNodes = new Map((after.nodes || []).map(node => [nodeKey(node), node]))
+
+  const diff: WorkflowDiff = {
+    nodesAdded: [],
+    nodesRemoved: [],
+    nodesChanged: [],
+    connectionsAdded: [],
+    connectionsRemoved: [],
+    settingsChanges: compareValues(before.settings || {}, after.settings || {})
+  }
+
+  if (before.name !== undefined && after.name !== undefined && before.name !== after.name) {
+    diff.nameChange = { before: before.name, after: after.name }
+  }
+
+  for (const [key, node] of afterNodes) {
+    const previous = beforeNodes.get(key)
+    if (!previous) {
+      diff.nodesAdded.push({ name: node.name, type: node.type })
+      continue
+    }
+
+    const strip = (n: any) => Object.fromEntries(Object.entries(n).filter(([field]) => !IGNORED_NODE_FIELDS.has(field)))
+    const changes = compareValues(strip(previous), strip(node))
+    if (changes.length > 0 || previous.name !== node.name) {
+      diff.nodesChanged.push({
+        name: node.name,
+        previousName: previous.name !== node.name ? previous.name : undefined,
+        type: node.type,
+        changes
+      })
+    }
+  }
+
+  for (const [key, node] of beforeNodes) {
+    if (!afterNodes.has(key)) {
+      diff.nodesRemoved.push({ name: node.name, type: node.type })
+    }
+  }
+
+  const beforeEdges = listConnections(before)
+  const afterEdges = listConnections(after)
+  for (const [key, edge] of afterEdges) {
+    if (!beforeEdges.has(key)) diff.connectionsAdded.push(edge)
+  }
+  for (const [key, edge] of beforeEdges) {
+    if (!afterEdges.has(key)) diff.connectionsRemoved.push(edge)
+  }
+
+  return diff
+}
+
+export function isEmptyDiff(diff: WorkflowDiff): boolean {
+  return !diff.nameChange &&
+    diff.nodesAdded.length === 0 &&
+    diff.nodesRemoved.length === 0 &&
+    diff.nodesChanged.length === 0 &&
+    diff.connectionsAdded.length === 0 &&
+    diff.connectionsRemoved.length === 0 &&
+    diff.settingsChanges.length === 0
+}
@@ -0,0 +1,171 @@
+/**
+ * Workflow Graph
+ *
+ * Turns a stored n8n workflow definition into a provider-agnostic WorkflowGraph
+ * and overlays a single execution's runData on it: per-node status, duration and
+ * item counts, and which connections actually carried data. Safe to use in the
+ * browser and on the server.
+ */
+
+import { ExecutionStatus, GraphConnection, GraphNode, WorkflowGraph } from '@/types'
+
+// Canvas annotations, not part of the flow
+const NON_FLOW_NODE_TYPES = new Set(['n8n-nodes-base.stickyNote'])
+
+const RUN_STATUSES: ExecutionStatus[] = ['running', 'success', 'error', 'canceled', 'waiting']
+
+interface WorkflowDefinition {
+  nodes?: any[]
+  connections?: Record<string, any>
+}
+
+function countItems(run: any, outputIndex: number): number {
+  const output = run?.data?.main?.[outputIndex]
+  return Array.isArray(output) ? output.length : 0
+}
+
+function countAllItems(run: any): number {
+  const outputs = run?.data?.main
+  if (!Array.isArray(outputs)) return 0
+  return outputs.reduce((sum: number, output: unknown) => sum + (Array.isArray(output) ? output.length : 0), 0)
+}
+
+function connectionKey(source: string, output: number, target: string, input: number): string {
+  return `${source}\u0000${output}\u0000${target}\u0000${input}`
+}
+
+/**
+ * Nodes and connections of an n8n workflow definition. Connections reference
+ * node ids; n8n itself keys them by node name.
+ */
+export function buildWorkflowGraph(workflow: WorkflowDefinition): WorkflowGraph {
+  const nodes: GraphNode[] = (workflow.nodes || [])
+    .filter(node => node?.name && !NON_FLOW_NODE_TYPES.has(node.type))
+    .map(node => ({
+      id: node.id || node.name,
+      name: node.name,
+      type: node.type,
+      position: Array.isArray(node.position)
+        ? { x: Number(node.position[0]) || 0, y: Number(node.position[1]) || 0 }
+        : node.position || { x: 0, y: 0 },
+      parameters: node.parameters,
+      disabled: node.disabled || false,
+      notes: node.notes,
+      color: node.color
+    }))
+
+  const idsByName = new Map(nodes.map(node => [node.name, node.id]))
+  const connections: GraphConnection[] = []
+
+  for (const [sourceName, outputsByType] of Object.entries(workflow.connections || {})) {
+    const sourceId = idsByName.get(sourceName)
+    if (!sourceId || !outputsByType || typeof outputsByType !== 'object') continue
+
+    for (const [connectionType, outputs] of Object.entries(outputsByType as Record<string, unknown>)) {
+      if (!Array.isArray(outputs)) continue
+
+      outputs.forEach((targets, outputIndex) => {
+        if (!Array.isArray(targets)) return
+        for (const target of targets) {
+          const targetId = idsByName.get(target?.node)
+          if (!targetId) continue
+          connections.push({
+            sourceNodeId: sourceId,
+            targetNodeId: targetId,
+            sourceOutputIndex: outputIndex,
+            targetInputIndex: target.index || 0,
+            connectionType
+          })
+        }
+      })
+    }
+  }
+
+  return { nodes, connections }
+}
+
+/**
+ * Copy of the graph with one execution's runData applied. Nodes that did not
+ * run keep no executionData; connections are marked executed when the target
+ * node ran with the source node's output as its input.
+ */
+export function applyExecutionOverlay(graph: WorkflowGraph, runData: Record<string, any[]> | null | undefined): WorkflowGraph {
+  const runsByNode = runData || {}
+  const namesById = new Map(graph.nodes.map(node => [node.id, node.name]))
+
+  // Which source output fed which target input, with the items that went along
+  const flowed = new Map<string, number>()
+  const inputItems = new Map<string, number>()
+  for (const [targetName, runs] of Object.entries(runsByNode)) {
+    if (!Array.isArray(runs)) continue
+    for (const run of runs) {
+      if (!Array.isArray(run?.source)) continue
+      run.source.forEach((source: any, inputIndex: number) => {
+        if (!source?.previousNode) return
+        const outputIndex = source.previousNodeOutput || 0
+        const sourceRun = runsByNode[source.previousNode]?.[source.previousNodeRun || 0]
+        const items = countItems(sourceRun, outputIndex)
+        const key = connectionKey(source.previousNode, outputIndex, targetName, inputIndex)
+        flowed.set(key, (flowed.get(key) || 0) + items)
+        inputItems.set(targetName, (inputItems.get(targetName) || 0) + items)
+      })
+    }
+  }
+
+  const nodes = graph.nodes.map(node => {
+    const runs = runsByNode[node.name]
+    if (!Array.isArray(runs) || runs.length === 0) {
+      return { ...node, executionData: undefined }
+    }
+
+    const failedRun = runs.find(run => run?.error)
+    const lastStatus = runs[runs.length - 1]?.executionStatus
+    const status: ExecutionStatus = failedRun
+      ? 'error'
+      : RUN_STATUSES.includes(lastStatus) ? lastStatus : 'success'
+    const startTimes = runs.map(run => run?.startTime).filter((time): time is number => typeof time === 'number')
+    const duration = runs.reduce((sum, run) => sum + (Number(run?.executionTime) || 0), 0)
+    const startedAt = startTimes.length > 0 ? new Date(Math.min(...startTimes)) : undefined
+
+    return {
+      ...node,
+      executionData: {
+        status,
+        startedAt,
+        completedAt: startedAt ? new Date(Math.max(...startTimes) + (Number(runs[runs.length - 1]?.executionTime) || 0)) : undefined,
+        duration,
+        error: failedRun ? failedRun.error.message || 'Unknown error' : undefined,
+        runs: runs.length,
+        inputItems: inputItems.get(node.name),
+        outputItems: runs.reduce((sum, run) => sum + countAllItems(run), 0)
+      }
+    }
+  })
+
+  const connections = graph.connections.map(connection => {
+    const sourceName = namesById.get(connection.sourceNodeId) || connection.sourceNodeId
+    const targetName = namesById.get(connection.targetNodeId) || connection.targetNodeId
+    const sourceRan = Array.isArray(runsByNode[sourceName]) && runsByNode[sourceName].length > 0
+    const targetRan = Array.isArray(runsByNode[targetName]) && runsByNode[targetName].length > 0
+
+    // Sub-nodes (AI models, tools, memory) are called by their parent rather than fed items
+    if (connection.connectionType && connection.connectionType !== 'main') {
+      return { ...connection, executed: sourceRan && targetRan, itemCount: undefined }
+    }
+
+    const key = connectionKey(sourceName, connection.sourceOutputIndex || 0, targetName, connection.targetInputIndex || 0)
+    if (flowed.has(key)) {
+      return { ...connection, executed: true, itemCount: flowed.get(key) }
+    }
+
+    // Older runData has no source references; fall back to both ends having run
+    const hasSourceRefs = runsByNode[targetName]?.some(run => Array.isArray(run?.source))
+    const items = sourceRan
+      ? runsByNode[sourceName].reduce((sum, run) => sum + countItems(run, connection.sourceOutputIndex || 0), 0)
+      : 0
+    const executed = !hasSourceRefs && sourceRan && targetRan && items > 0
+    return { ...connection, executed, itemCount: executed ? items : undefined }
+  })
+
+  return { ...graph, nodes, connections }
+}
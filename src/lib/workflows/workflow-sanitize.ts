@@ -0,0 +1,54 @@
+/**
+ * Workflow Sanitizing
+ *
+ * Removes credential references and secret-looking parameter values from an
+ * n8n workflow before it leaves Elova (exports, git backups).
+ */
+
+export const REDACTED_VALUE = '__REDACTED__'
+
+// Parameter keys whose string values are treated as secrets
+const SENSITIVE_KEY = /^(password|passwd|secret|client_?secret|api_?key|access_?token|refresh_?token|token|authorization|bearer)$/i
+
+// Header/query names in n8n name/value parameter lists (e.g. HTTP Request headers)
+const SENSITIVE_NAME = /^(authorization|proxy-authorization|x-api-key|api[-_]?key|x-auth-token|cookie|token|secret|password)$/i
+
+function redactParameters(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactParameters)
+  }
+  if (!value || typeof value !== 'object') {
+    return value
+  }
+
+  const record = value as Record<string, unknown>
+  const isSensitivePair = typeof record.name === 'string' && SENSITIVE_NAME.test(record.name) && typeof record.value === 'string'
+
+  return Object.fromEntries(
+    Object.entries(record).map(([key, child]) => {
+      if (isSensitivePair && key === 'value') return [key, REDACTED_VALUE]
+      if (SENSITIVE_KEY.test(key) && typeof child === 'string' && child !== '') return [key, REDACTED_VALUE]
+      return [key, redactParameters(child)]
+    })
+  )
+}
+
+/**
+ * Copy of the workflow without node credential references, secret-looking
+ * parameters or pinned test data
+ */
+export function stripCredentials<T extends Record<string, any>>(workflow: T): T {
+  const sanitized: Record<string, any> = { ...workflow }
+  delete sanitized.pinData
+
+  if (Array.isArray(workflow.nodes)) {
+    sanitized.nodes = workflow.nodes.map((node: Record<string, any>) => {
+      const copy = { ...node }
+      delete copy.credentials
+      if (copy.parameters) copy.parameters = redactParameters(copy.parameters)
+      return copy
+    })
+  }
+
+  return sanitized as T
+}
@@ -77,6 +77,9 @@ export interface Execution {
   aiProvider?: string | null
   aiModel?: string | null
 
+  // Retries of this execution, when it is the original of a retry chain
+  retryChain?: RetryChainSummary
+
   // Provider-specific metadata
   metadata?: Record<string, unknown>
 }
@@ -116,6 +119,9 @@ export interface GraphNode {
     duration?: number
     error?: string
     outputData?: Record<string, unknown>
+    runs?: number
+    inputItems?: number
+    outputItems?: number
   }
 
   // UI metadata
@@ -129,11 +135,16 @@ export interface GraphConnection {
   targetNodeId: string
   sourceOutputIndex?: number // For nodes with multiple outputs
   targetInputIndex?: number // For nodes with multiple inputs
+  connectionType?: string // 'main' or a sub-node type such as 'ai_languageModel'
+
+  // Execution context
+  executed?: boolean
+  itemCount?: number
 }
 
 export interface EndpointCheck {
   id: string
-  providerId: string
+  providerId?: string // Optional link to the n8n instance being monitored
   name: string
   url: string
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'HEAD'
@@ -147,8 +158,15 @@ export interface EndpointCheck {
 
   // Latest result
   lastResult?: EndpointResult
+
+  // Computed from stored results
+  status?: EndpointStatus
+  uptime?: number // Percentage over the last 24 hours
+  avgResponseTime?: number // In milliseconds, over the last 24 hours
 }
 
+export type EndpointStatus = 'healthy' | 'warning' | 'down' | 'unknown'
+
 export interface EndpointResult {
   id: string
   endpointCheckId: string
@@ -164,6 +182,658 @@ export interface EndpointResult {
   responseBody?: string // Truncated
 }
 
+// Alerting Types
+export type AlertScopeType = 'global' | 'provider' | 'workflow' | 'tag'
+
+export type AlertConditionType =
+  | 'any_error' // Every failed execution
+  | 'failure_count' // N failures within the window
+  | 'success_rate' // Success rate below threshold over the window
+  | 'slo_burn_rate' // SLO error budget burning faster than threshold over the window and its short confirmation window
+
+export interface AlertRule {
+  id: string
+  name: string
+  scopeType: AlertScopeType
+  scopeValue?: string // Provider ID, provider workflow ID or tag name depending on scopeType
+
+  conditionType: AlertConditionType
+  threshold?: number // Failure count, success rate percentage or burn rate
+  windowMinutes?: number
+  minExecutions?: number // Minimum sample size for success_rate rules
+  cooldownMinutes: number // Repeat alerts for the same workflow are suppressed for this long
+
+  notifyEmail: boolean
+  channelIds: string[] // Notification channels that receive this rule's alerts
+
+  isEnabled: boolean
+  createdAt: Date
+  updatedAt: Date
+  lastTriggeredAt?: Date
+}
+
+export type AlertEventStatus = 'open' | 'acknowledged' | 'resolved'
+
+export interface AlertEvent {
+  id: string
+  ruleId: string
+  ruleName?: string
+  providerId?: string
+  workflowId?: string // Provider workflow ID
+  workflowName?: string
+  executionId?: string // Execution that triggered the alert
+  dedupKey: string
+
+  severity: 'warning' | 'critical'
+  title: string
+  message: string
+  status: AlertEventStatus
+
+  occurrences: number // Times this alert fired, including suppressed repeats
+  firstSeenAt: Date
+  lastSeenAt: Date
+  metadata?: Record<string, unknown>
+}
+
+// Notification Types
+export type NotificationKind = 'execution_failure' | 'daily_digest' | 'provider_down' | 'test'
+
+export type NotificationDeliveryStatus = 'pending' | 'sent' | 'retrying' | 'failed'
+
+export type NotificationChannelType = 'slack' | 'teams' | 'webhook'
+
+export interface NotificationChannel {
+  id: string
+  name: string
+  type: NotificationChannelType
+  url: string // Incoming webhook / connector URL
+  isEnabled: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface NotificationDelivery {
+  id: string
+  channel: 'email' | NotificationChannelType
+  channelId?: string
+  kind: NotificationKind
+  referenceId?: string // Alert event ID, provider ID or digest date
+  recipients: string[]
+  subject: string
+  status: NotificationDeliveryStatus
+  attempts: number
+  lastError?: string
+  nextAttemptAt?: Date
+  createdAt: Date
+  sentAt?: Date
+}
+
+// Retention Types
+// Days to keep execution rows (summary) and their full JSON (payload); 0 keeps forever
+export interface RetentionPolicy {
+  successSummaryDays: number
+  successPayloadDays: number
+  errorSummaryDays: number
+  errorPayloadDays: number
+}
+
+// Per-workflow override; null fields inherit the global policy
+export type WorkflowRetentionOverride = {
+  [K in keyof RetentionPolicy]: number | null
+} & {
+  workflowId: string
+  updatedAt: Date
+}
+
+export interface WorkflowPayloadUsage {
+  workflowId: string
+  providerWorkflowId: string
+  providerId: string
+  workflowName: string
+  executionCount: number
+  payloadCount: number // Executions still holding full execution data
+  payloadBytes: number
+  metadataBytes: number
+  oldestExecutionAt?: Date
+  override?: WorkflowRetentionOverride
+}
+
+export interface RetentionPruneResult {
+  payloadsCleared: number
+  summariesDeleted: number
+  vacuumed: boolean
+  sizeBeforeBytes: number
+  sizeAfterBytes: number
+  durationMs: number
+}
+
+// Workflow Version Types
+export interface WorkflowVersion {
+  id: string
+  workflowId: string
+  providerId: string
+  providerWorkflowId: string
+  versionNumber: number
+  name: string
+  nodeHash: string // Hash of nodes and connections, ignoring canvas positions
+  nodeCount: number
+  workflowUpdatedAt?: Date // updatedAt reported by the provider
+  createdAt: Date
+  workflowData?: Record<string, any> // Only included when a single version is requested
+}
+
+export interface WorkflowConnectionRef {
+  from: string
+  to: string
+  type: string
+  outputIndex: number
+  inputIndex: number
+}
+
+export interface WorkflowValueChange {
+  path: string
+  before?: unknown
+  after?: unknown
+}
+
+export interface WorkflowDiff {
+  nameChange?: { before: string; after: string }
+  nodesAdded: { name: string; type: string }[]
+  nodesRemoved: { name: string; type: string }[]
+  nodesChanged: { name: string; previousName?: string; type: string; changes: WorkflowValueChange[] }[]
+  connectionsAdded: WorkflowConnectionRef[]
+  connectionsRemoved: WorkflowConnectionRef[]
+  settingsChanges: WorkflowValueChange[]
+}
+
+// Workflow definition pushed back to a provider when restoring a version
+export interface WorkflowDefinition {
+  name: string
+  nodes: unknown[]
+  connections: Record<string, unknown>
+  settings?: Record<string, unknown>
+}
+
+export interface WorkflowRestorePreview {
+  version: WorkflowVersion
+  current: WorkflowVersion | null // Latest captured version
+  comparedTo: 'provider' | 'captured' // Diff base: the live workflow, or current when the provider was unreachable
+  diff: WorkflowDiff // Changes the restore would apply, from the diff base to version
+}
+
+export interface WorkflowRestoreRecord {
+  id: string
+  workflowId: string
+  providerId: string
+  providerWorkflowId: string
+  versionId: string
+  versionNumber: number
+  restoredBy: string
+  status: 'success' | 'failed'
+  error?: string
+  createdAt: Date
+}
+
+// Backup Export Types
+export type BackupArchiveFormat = 'zip' | 'tar'
+
+export interface BackupExportSettings {
+  gitRepositoryPath: string // Empty disables the scheduled git export
+  includeVersions: boolean
+}
+
+export interface BackupGitExportResult {
+  repositoryPath: string
+  workflowCount: number
+  filesWritten: number
+  filesRemoved: number
+  committed: boolean // False when nothing changed since the last export
+  commit?: string
+  durationMs: number
+}
+
+// Node Timing Types
+export interface NodeTimingStats {
+  nodeName: string
+  nodeType?: string
+  runs: number
+  executions: number
+  avgMs: number
+  p50Ms: number
+  p95Ms: number
+  p99Ms: number
+  maxMs: number
+  shareOfTotal: number // Percentage of all node time in the window
+}
+
+export interface NodeLatencyPoint {
+  date: string // YYYY-MM-DD
+  runs: number
+  p50Ms: number
+  p95Ms: number
+  p99Ms: number
+}
+
+export interface NodeRegressionEntry {
+  nodeName: string
+  baselineMs: number // Average node time per execution
+  recentMs: number
+  deltaMs: number
+  changePct: number | null
+  contributionPct: number | null // Share of the workflow's slowdown caused by this node
+  regressed: boolean
+}
+
+export interface NodeRegression {
+  recentDays: number
+  baselineDays: number
+  baselineAvgMs: number
+  recentAvgMs: number
+  baselineP95Ms: number
+  recentP95Ms: number
+  changePct: number | null
+  culprit: string | null // Node that regressed the most, if any
+  nodes: NodeRegressionEntry[]
+}
+
+export interface WorkflowNodeTimingAnalytics {
+  windowDays: number
+  slowestNodes: NodeTimingStats[]
+  latency: {
+    nodeName: string | null
+    points: NodeLatencyPoint[]
+  }
+  regression: NodeRegression
+}
+
+// SLO Types
+export type SloScopeType = 'workflow' | 'tag'
+
+export type SloObjectiveType =
+  | 'success_rate' // Share of finished executions that did not fail
+  | 'latency' // Share of successful executions faster than latencyThresholdMs
+
+export interface Slo {
+  id: string
+  name: string
+  scopeType: SloScopeType
+  scopeValue: string // Provider workflow ID or tag name
+  objectiveType: SloObjectiveType
+  target: number // Percentage of good executions, e.g. 99.5
+  latencyThresholdMs?: number
+  windowDays: number // Rolling compliance window
+  isEnabled: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface SloBurnRate {
+  windowMinutes: number
+  totalExecutions: number
+  badExecutions: number
+  burnRate: number | null // 1 consumes exactly the budget over the SLO window; null without executions
+}
+
+export interface SloBudgetPoint {
+  date: string // YYYY-MM-DD
+  totalExecutions: number
+  badExecutions: number
+  budgetRemainingPct: number // Cumulative over the window up to this day
+}
+
+export type SloHealth = 'healthy' | 'at_risk' | 'breached' | 'no_data'
+
+export interface SloStatus {
+  slo: Slo
+  totalExecutions: number
+  goodExecutions: number
+  badExecutions: number
+  compliance: number | null // Percentage of good executions over the window
+  allowedBadExecutions: number
+  budgetRemainingPct: number | null // Negative once the budget is exhausted
+  health: SloHealth
+  burnRates: SloBurnRate[] // Short to long windows
+  budgetHistory?: SloBudgetPoint[]
+}
+
+// Anomaly Types
+export type AnomalyMetric = 'volume' | 'duration' | 'error_rate'
+
+export type AnomalyDirection = 'high' | 'low'
+
+export interface WorkflowAnomaly {
+  id: string
+  providerId: string
+  workflowId: string // Provider workflow ID
+  workflowName: string
+  metric: AnomalyMetric
+  direction: AnomalyDirection
+  bucketStart: Date // Start of the anomalous hour (UTC)
+  observed: number // Executions, average duration in ms or error rate percentage
+  expected: number // Median of the same hour of week in previous weeks
+  mad: number // Median absolute deviation of those weeks
+  score: number // Robust z-score; |score| >= 3.5 is anomalous
+  createdAt: Date
+}
+
+// Cron Run Check Types
+export type CronRunTiming = 'on_time' | 'late' | 'missed'
+
+export interface CronRunOccurrence {
+  expectedAt: Date
+  timing: CronRunTiming
+  delayMs: number | null // Start of the first run after the expected time, null when missed
+  executionIds: string[]
+  duplicates: number // Runs beyond the first for the same fire time
+}
+
+export interface CronRunCheck {
+  windowStart: Date
+  windowEnd: Date // Fire times after this are still pending
+  timeZone: string // Timezone the schedules are evaluated in
+  toleranceMs: number
+  expectedRuns: number
+  onTimeRuns: number
+  lateRuns: number
+  missedRuns: number
+  duplicateRuns: number
+  lastRunAt: Date | null
+  nextRunAt: Date | null
+  unsupportedSchedules: string[]
+  issues: CronRunOccurrence[] // Late, missed or duplicated fire times, newest first
+}
+
+export type CronCalendarRange = 'day' | 'week'
+
+export interface CronCalendarBucket {
+  start: Date
+  scheduledRuns: number // Workflows firing, each counted once per minute
+  peakConcurrency: number // Most workflows firing in the same minute on one provider
+  historicalAvg: number // Average executions in this local minute of day (day) or hour of week (week)
+}
+
+export interface CronCollision {
+  minute: Date
+  providerId: string
+  providerName: string
+  workflows: { id: string; name: string }[] // Provider workflow IDs
+}
+
+export interface CronCalendar {
+  range: CronCalendarRange
+  timeZone: string // Timezone the cells are laid out in
+  from: Date
+  to: Date
+  bucketMinutes: number
+  collisionThreshold: number
+  historyDays: number
+  buckets: CronCalendarBucket[]
+  collisions: CronCollision[] // Busiest first
+  unsupportedSchedules: { workflowId: string; workflowName: string; expression: string }[]
+}
+
+// Error Issue Types
+export type ErrorIssueStatus =
+  | 'unresolved'
+  | 'resolved'
+  | 'ignored' // Still grouped and counted, never regresses
+  | 'regressed' // Seen again after being resolved
+
+export interface ErrorIssue {
+  id: string
+  providerId: string
+  providerName?: string
+  fingerprint: string // Hash of failing node, normalized message and HTTP status
+  nodeName: string | null
+  nodeType: string | null
+  errorName: string | null // e.g. NodeApiError
+  title: string // Normalized error message shared by all occurrences
+  lastMessage: string // Most recent error message as reported
+  httpStatus: number | null
+  status: ErrorIssueStatus
+  firstSeenAt: Date
+  lastSeenAt: Date
+  resolvedAt: Date | null
+  occurrences: number // Failed executions still retained
+  recentOccurrences: number // Failed executions in the last 24 hours
+  workflows: { id: string; name: string; occurrences: number }[] // Provider workflow IDs, most affected first
+}
+
+export interface ErrorIssueOccurrence {
+  executionId: string
+  providerExecutionId: string
+  workflowId: string // Provider workflow ID
+  workflowName: string
+  message: string
+  occurredAt: Date
+}
+
+export interface ErrorIssueDetail extends ErrorIssue {
+  dailyOccurrences: { date: string; count: number }[] // YYYY-MM-DD (UTC), last 30 days
+  latestOccurrences: ErrorIssueOccurrence[]
+}
+
+export interface ExecutionNodeInput {
+  sourceNode: string | null // Node the items came from, null when unknown
+  items: unknown[] // Item JSON without binary data, at most 50 per input
+  totalItems: number
+}
+
+export interface ExecutionWorkflowSource {
+  type: 'version' | 'execution' | 'current' // Matching workflow version, the execution's snapshot or the current workflow
+  versionId?: string
+  versionNumber?: number
+}
+
+export interface ExecutionErrorAnalysis {
+  executionId: string
+  failingNode: {
+    name: string
+    type: string | null
+    source: 'error' | 'run_data' | 'last_node' // resultData.error, a failed run or lastNodeExecuted
+  } | null
+  error: {
+    name: string | null
+    message: string
+    description: string | null
+    httpStatus: number | null
+    stack: string | null
+    timestamp: Date | null
+  }
+  inputs: ExecutionNodeInput[] // One entry per input of the failing node
+  parameters: Record<string, unknown> | null
+  parametersSource: ExecutionWorkflowSource | null
+  issue: { id: string; title: string; status: ErrorIssueStatus; occurrences: number } | null
+  sameNodeFailures: {
+    total: number // Other failed executions of the workflow at the same node
+    executions: ErrorIssueOccurrence[] // Latest first
+  }
+}
+
+// Workflow graph of an execution with node status, durations and item counts overlaid
+export interface ExecutionGraph {
+  executionId: string
+  graph: WorkflowGraph
+  source: ExecutionWorkflowSource | null // null when no workflow definition is stored
+}
+
+// Execution Comparison Types
+export interface ExecutionCompareSide {
+  id: string
+  providerId: string
+  providerExecutionId: string
+  workflowId: string // Provider workflow ID
+  workflowName: string
+  status: ExecutionStatus
+  startedAt: Date
+  duration: number | null
+  workflowSource: ExecutionWorkflowSource | null
+}
+
+export interface ExecutionNodeRunSummary {
+  status: ExecutionStatus
+  duration: number // ms, summed over runs
+  items: number // Output items, summed over runs and outputs
+  runs: number
+  error?: string
+}
+
+export interface ExecutionNodeComparison {
+  nodeName: string
+  base: ExecutionNodeRunSummary | null // null when the node did not run
+  target: ExecutionNodeRunSummary | null
+  durationDelta: number | null // target - base
+  itemDelta: number | null
+  outputChanges: WorkflowValueChange[] // JSON diff of the last run's output items
+  outputChangesTruncated: boolean
+}
+
+export interface ExecutionComparison {
+  base: ExecutionCompareSide
+  target: ExecutionCompareSide
+  nodes: ExecutionNodeComparison[] // In execution order of the base run, then nodes only the target ran
+  versionChanged: boolean | null // null when the definitions of both runs are unknown
+  workflowDiff: WorkflowDiff | null // Definition changes from base to target
+}
+
+// Retry Chain Types
+export type RetryChainOutcome = 'recovered' | 'failed' | 'pending'
+
+export interface RetryChainSummary {
+  retries: number
+  outcome: RetryChainOutcome
+  lastRetryAt: Date
+}
+
+export interface RetryAttempt {
+  id: string
+  providerExecutionId: string
+  attempt: number // 0 for the original execution
+  status: ExecutionStatus
+  mode: string
+  startedAt: Date
+  stoppedAt?: Date
+  duration?: number
+}
+
+export interface RetryChain {
+  rootId: string // Original execution
+  attempts: RetryAttempt[] // Original first, then retries by start time
+  retries: number
+  outcome: RetryChainOutcome
+  recoveredAt: Date | null
+  timeToRecovery: number | null // ms from the original failing to the first successful retry
+}
+
+export interface RetryWorkflowMetrics {
+  workflowId: string // Provider workflow ID
+  workflowName: string
+  chains: number
+  retries: number
+  recoveredChains: number
+  meanTimeToRecovery: number | null
+}
+
+export interface RetryMetrics {
+  chains: number // Executions that were retried at least once
+  retries: number
+  recoveredChains: number
+  recoveryRate: number // Percent of chains with a successful retry
+  avgRetriesPerChain: number
+  meanTimeToRecovery: number | null // ms
+  workflows: RetryWorkflowMetrics[] // Most retried first
+}
+
+// Execution Action Types
+export type ExecutionActionType = 'retry' | 'stop'
+
+export interface ExecutionActionRecord {
+  id: string
+  executionId: string
+  providerId: string
+  providerExecutionId: string
+  action: ExecutionActionType
+  requestedBy: string
+  status: 'success' | 'failed'
+  error?: string
+  retryExecutionId?: string // Provider execution ID of the retry, when the provider reports it
+  createdAt: Date
+}
+
+export interface BulkRetryResult {
+  attempted: number
+  succeeded: number
+  failed: number
+  skipped: number // Failed executions that already have a retry
+  actions: ExecutionActionRecord[]
+}
+
+// Workflow Run Types
+export interface WorkflowInputPreset {
+  id: string
+  providerId: string
+  providerWorkflowId: string
+  name: string
+  payload: Record<string, unknown>
+  createdBy: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface WorkflowRunStart {
+  providerId: string
+  providerExecutionId: string | null // null when the provider does not report the started execution
+  startedAt: Date
+}
+
+export interface WorkflowRunStatus {
+  providerExecutionId: string
+  status: ExecutionStatus
+  finished: boolean
+  startedAt: Date
+  stoppedAt?: Date
+  duration?: number
+  error?: string
+  executionId: string | null // Elova execution ID once the run has been synced
+}
+
+// Live Feed Types
+// Streamed over Server-Sent Events from /api/events as the sync writes them
+export interface LiveExecutionEvent {
+  change: 'inserted' | 'updated'
+  executionId: string
+  providerId: string
+  providerExecutionId: string
+  providerWorkflowId: string
+  workflowName: string
+  status: ExecutionStatus
+  mode: Execution['mode']
+  startedAt: Date
+  stoppedAt?: Date
+  duration?: number
+  finished: boolean
+}
+
+export type LiveSyncPhase = 'started' | 'progress' | 'completed' | 'failed'
+
+export interface LiveSyncEvent {
+  providerId: string
+  providerName: string
+  syncType: string
+  phase: LiveSyncPhase
+  // Running totals of the sync so far
+  processed: number
+  inserted: number
+  updated: number
+  error?: string
+  at: Date
+}
+
+export type LiveEvent =
+  | { type: 'execution'; data: LiveExecutionEvent }
+  | { type: 'sync'; data: LiveSyncEvent }
+  | { type: 'alert'; data: AlertEvent }
+
 // Dashboard & Analytics Types
 export interface DashboardStats {
   providerId?: string // If null, stats across all providers
@@ -174,6 +844,7 @@ export interface DashboardStats {
   failedExecutions: number
   successRate: number
   avgResponseTime?: number
+  responseTimePercentiles?: LatencyPercentiles
 
   // Time series data for charts
   executionsTrend?: TimeSeriesPoint[]
@@ -187,6 +858,10 @@ export interface DashboardStats {
     successRate: number
   }>
 
+  // Latency breakdowns, slowest p95 first
+  workflowLatency?: LatencyBreakdown[]
+  providerLatency?: LatencyBreakdown[]
+
   // Recent failures
   recentFailures?: Array<{
     executionId: string
@@ -196,6 +871,22 @@ export interface DashboardStats {
   }>
 }
 
+// Response time percentiles in milliseconds
+export interface LatencyPercentiles {
+  p50: number
+  p90: number
+  p95: number
+  p99: number
+}
+
+export interface LatencyBreakdown {
+  id: string // Workflow or provider ID
+  name: string
+  executions: number // Executions with a recorded duration
+  avgResponseTime: number
+  percentiles: LatencyPercentiles
+}
+
 export interface TimeSeriesPoint {
   timestamp: Date
   value: number